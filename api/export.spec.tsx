@@ -0,0 +1,122 @@
+import { Writable } from "node:stream";
+import { unzipSync } from "fflate";
+import handler from "./export";
+import { resetSeenUsers } from "../helpers/server/auth";
+import { setEntitlementsStore } from "../helpers/server/db";
+import { createMemoryStore, MemoryStore } from "../helpers/server/memoryStore";
+import { runPaletteEngine } from "../helpers/paletteEngine";
+
+const textOnLight = "#453521";
+const textOnDark = "#F8F7F7";
+
+const { paletteWithVariations } = runPaletteEngine({
+  palette: {
+    primary: { name: "Primary", hex: "#2563eb" },
+    secondary: { name: "Secondary", hex: "#4f46e5" },
+    error: { name: "Error", hex: "#c53030" },
+    warning: { name: "Notice", hex: "#fff700" },
+    success: { name: "Success", hex: "#38a169" },
+  },
+  textOnLight,
+  textOnDark,
+});
+// What the generator UI posts
+const body = JSON.parse(JSON.stringify({ themeName: "Spec Theme", palette: paletteWithVariations, textOnLight, textOnDark }));
+
+// Minimal Vercel-style response: status().json() for errors, a writable stream for the ZIP
+class FakeResponse extends Writable {
+  statusCode = 200;
+  headers: Record<string, string> = {};
+  payload: unknown;
+  chunks: Buffer[] = [];
+  done = new Promise<void>((resolve) => this.on("finish", resolve));
+
+  status(code: number) {
+    this.statusCode = code;
+    return this;
+  }
+  setHeader(name: string, value: string) {
+    this.headers[name] = value;
+  }
+  json(value: unknown) {
+    this.payload = value;
+    this.end();
+  }
+  override _write(chunk: Buffer, _enc: string, cb: () => void) {
+    this.chunks.push(chunk);
+    cb();
+  }
+}
+
+async function post(headers: Record<string, string>, payload: unknown = body) {
+  const res = new FakeResponse();
+  await handler({ method: "POST", headers, body: payload }, res);
+  await res.done;
+  return res;
+}
+
+const ENV_KEYS = ["ALLOW_DEV_AUTH", "NODE_ENV", "VERCEL_ENV", "CLERK_JWT_KEY", "CLERK_SECRET_KEY"];
+
+describe("POST /api/export", () => {
+  let store: MemoryStore;
+  let savedEnv: Record<string, string | undefined>;
+  const asUser = { "x-dev-user-id": "user_export" };
+
+  beforeEach(() => {
+    savedEnv = Object.fromEntries(ENV_KEYS.map((k) => [k, process.env[k]]));
+    ENV_KEYS.forEach((k) => delete process.env[k]);
+    process.env.ALLOW_DEV_AUTH = "true";
+    store = createMemoryStore();
+    setEntitlementsStore(store);
+    resetSeenUsers();
+  });
+
+  afterEach(() => {
+    setEntitlementsStore(null);
+    ENV_KEYS.forEach((k) => {
+      if (savedEnv[k] === undefined) delete process.env[k];
+      else process.env[k] = savedEnv[k];
+    });
+  });
+
+  it("should answer 401 without a session token", async () => {
+    const res = await post({});
+    expect(res.statusCode).toBe(401);
+    expect(store.entitlements.size).toBe(0);
+  });
+
+  it("should answer 402 and build nothing when no credits are left", async () => {
+    store.entitlements.set("user_export", { user_id: "user_export", plan: "free", export_credits: 0, resets_at: null, sub_active: false });
+    const res = await post(asUser);
+    expect(res.statusCode).toBe(402);
+    expect(res.chunks.length).toBe(0);
+    expect(store.entitlements.get("user_export")?.export_credits).toBe(0);
+  });
+
+  it("should answer 400 for an invalid palette without charging", async () => {
+    const res = await post(asUser, { ...body, palette: { ...body.palette, primary: { ...body.palette.primary, hex: "blue" } } });
+    expect(res.statusCode).toBe(400);
+    expect(store.entitlements.get("user_export")?.export_credits).toBe(3);
+  });
+
+  it("should stream the ZIP and consume one credit after a successful build", async () => {
+    const res = await post(asUser);
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["Content-Type"]).toBe("application/zip");
+    expect(res.headers["Content-Disposition"]).toMatch(/filename="themes-.*\.zip"/);
+    const files = Object.keys(unzipSync(new Uint8Array(Buffer.concat(res.chunks))));
+    expect(files.some((name) => /^styles\/spec-theme-.+\.json$/.test(name))).toBe(true);
+    expect(store.entitlements.get("user_export")?.export_credits).toBe(2);
+    expect(store.auditLogs.filter((l) => l.action === "export").length).toBe(1);
+  });
+
+  it("should not consume a credit when the build fails", async () => {
+    spyOn(console, "error");
+    // A theme.json whose palette throws once the build reads it
+    const themeConfig = { settings: { color: { get palette(): never { throw new Error("unreadable palette"); } } } };
+    const res = await post(asUser, { ...body, themeConfig });
+    expect(res.statusCode).toBe(500);
+    expect(store.entitlements.get("user_export")?.export_credits).toBe(3);
+    expect(store.auditLogs.some((l) => l.action === "export")).toBe(false);
+  });
+});
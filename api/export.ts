@@ -1,6 +1,18 @@
-// Scaffold: Export endpoint
-// Auth required via Clerk; verifies entitlements in DB, decrements credits atomically, returns ZIP/signed URL.
-// For now, returns 501 Not Implemented.
+// Export endpoint
+// Auth required; checks entitlements, builds the theme ZIP server-side, then consumes one export credit.
+// Body: see helpers/exportRequest.ts. Responds with application/zip.
+
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { Readable } from 'node:stream';
+import { requireAuth } from '../helpers/server/auth';
+import { getEntitlements, decrementCredit } from '../helpers/server/db';
+import { exportRequestSchema } from '../helpers/exportRequest';
+import { buildExportFiles, zipExportFiles, semanticBandDefaultsFor } from '../helpers/paletteEngine';
+import { DEFAULT_STEP_SCALE } from '../helpers/stepScale';
+
+// Resolved from this module (not the working directory) so the function bundle traces and ships the file
+const EDITOR_CHROME_STYLES_PHP = fileURLToPath(new URL('../inc/fse-editor-chrome-styles.php', import.meta.url));
 
 export default async function handler(req: any, res: any) {
   if (req.method !== 'POST') {
@@ -8,11 +20,59 @@ export default async function handler(req: any, res: any) {
     return;
   }
   try {
-    // TODO: verify Clerk session
-    // TODO: check DB entitlements and decrement
-    // TODO: build ZIP or signed URL and return
-    res.status(501).json({ ok: false, message: 'Not implemented yet' });
+    const { userId } = await requireAuth(req);
+
+    const raw = (() => {
+      if (req.body && typeof req.body === 'object') return req.body;
+      try { return JSON.parse(req.body || '{}'); } catch { return {}; }
+    })();
+    const parsed = exportRequestSchema.safeParse(raw);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid export payload', issues: parsed.error.issues });
+      return;
+    }
+    const body = parsed.data;
+
+    // Refuse early when the user has no credits left (null = unlimited)
+    const ent = await getEntitlements(userId);
+    if (!ent || (ent.export_credits !== null && ent.export_credits <= 0)) {
+      res.status(402).json({ error: 'No export credits remaining' });
+      return;
+    }
+
+    const { zipName, files } = buildExportFiles({
+      palette: body.palette,
+      themeName: body.themeName,
+      themeConfig: body.themeConfig,
+      semanticBandSelection: body.semanticBandSelection ?? semanticBandDefaultsFor(body.steps ?? DEFAULT_STEP_SCALE),
+      textOnDark: body.textOnDark,
+      textOnLight: body.textOnLight,
+      variationMode: body.variationMode,
+      rotate: body.rotate,
+      ...(body.steps ? { steps: body.steps } : {}),
+      extraFormats: body.extraFormats,
+      editorChromeStylesPhp: readFileSync(EDITOR_CHROME_STYLES_PHP, 'utf8'),
+    });
+    const zipped = zipExportFiles(files);
+
+    // Only charge for a build that succeeded; the decrement is atomic and may still refuse
+    const charged = await decrementCredit(userId, { zipName, variationMode: body.variationMode, files: Object.keys(files).length });
+    if (!charged) {
+      res.status(402).json({ error: 'No export credits remaining' });
+      return;
+    }
+
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Length', String(zipped.byteLength));
+    res.setHeader('Content-Disposition', `attachment; filename="${zipName}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    Readable.from([Buffer.from(zipped)]).pipe(res);
   } catch (err: any) {
+    if (err?.statusCode === 401) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
     console.error('export error', err);
     res.status(500).json({ error: 'Internal Server Error' });
   }
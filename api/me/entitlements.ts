@@ -14,7 +14,8 @@ export default async function handler(req: any, res: any) {
     const ent = await getEntitlements(userId);
     res.status(200).json({
       plan: ent?.plan ?? 'free',
-      credits: ent?.export_credits ?? 0,
+      // null = unlimited for the current period
+      credits: ent ? ent.export_credits : 0,
       subActive: !!ent?.sub_active,
       resetsAt: ent?.resets_at ?? null,
     });
@@ -28,6 +28,7 @@ export default async function handler(req: any, res: any) {
     const stripe = new Stripe(stripeKey, { apiVersion: '2024-06-20' });
 
     const body: Body = (() => {
+      if (req.body && typeof req.body === 'object') return req.body;
       try { return JSON.parse(req.body || '{}'); } catch { return {} as any; }
     })();
     if (body?.mode !== 'subscription' && body?.mode !== 'payment') {
@@ -61,7 +62,9 @@ export default async function handler(req: any, res: any) {
       success_url: successUrl + '?session_id={CHECKOUT_SESSION_ID}',
       cancel_url: cancelUrl,
       // Best-effort to associate a customer by Clerk user ID in metadata
-      metadata: { clerk_user_id: userId },
+      metadata: { clerk_user_id: userId, quantity: String(quantity) },
+      // Copied onto the subscription so later invoice/subscription webhooks can find the user
+      ...(body.mode === 'subscription' ? { subscription_data: { metadata: { clerk_user_id: userId } } } : {}),
       allow_promotion_codes: true,
     });
 
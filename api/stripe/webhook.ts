@@ -1,6 +1,8 @@
-// Scaffold: Stripe Webhook handler
+// Stripe Webhook handler
 // Verifies Stripe signature and processes subscription/payment events.
-// Env: STRIPE_WEBHOOK_SECRET, STRIPE_SECRET_KEY
+// Env: STRIPE_WEBHOOK_SECRET
+
+import { readRawBody, verifyStripeEvent, processStripeEvent } from '../../helpers/server/stripeWebhook';
 
 export const config = { api: { bodyParser: false } } as any; // ensure raw body for signature verification if needed by hosting
 
@@ -10,11 +12,28 @@ export default async function handler(req: any, res: any) {
     return;
   }
   try {
-    // TODO: read raw body, verify Stripe signature
-    // TODO: switch on event types, update entitlements, upsert to Brevo
-    // TODO: use idempotency to avoid double-processing (store event id)
-    res.status(501).json({ ok: false, message: 'Not implemented yet' });
+    const secret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!secret) {
+      res.status(500).json({ error: 'Missing STRIPE_WEBHOOK_SECRET' });
+      return;
+    }
+    const rawBody = await readRawBody(req);
+    const hdrs = (req?.headers || {}) as Record<string, string>;
+    const event = verifyStripeEvent(rawBody, hdrs['stripe-signature'] || hdrs['Stripe-Signature'], secret);
+
+    const result = await processStripeEvent(event);
+    res.status(200).json({ received: true, ...result });
   } catch (err: any) {
+    if (err?.statusCode === 400) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    // The event's user is not provisioned yet; a non-2xx makes Stripe redeliver it
+    if (err?.statusCode === 503) {
+      console.warn(err.message);
+      res.status(503).json({ error: err.message });
+      return;
+    }
     console.error('webhook error', err);
     res.status(500).json({ error: 'Internal Server Error' });
   }
@@ -0,0 +1,131 @@
+import React from 'react';
+import { Button } from './Button';
+import { Badge } from './Badge';
+import { Skeleton } from './Skeleton';
+import { useEntitlements } from '../helpers/useEntitlements';
+import { useCheckout, usePortalLink } from '../helpers/useBilling';
+import { EntitlementsResponse } from '../helpers/accountApi';
+import styles from './AccountPanel.module.css';
+
+const PLAN_LABELS: Record<EntitlementsResponse['plan'], string> = {
+  free: 'Free trial',
+  pro: 'Pro',
+  pack: 'Export pack',
+};
+
+/** "Unlimited" for null credits (active Pro without a monthly quota) */
+export const formatCredits = (credits: number | null) => (credits === null ? 'Unlimited' : String(credits));
+
+const formatDate = (iso: string | null) => {
+  if (!iso) return null;
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? null : d.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+};
+
+/** Upgrade / buy-pack buttons; the Pro button is hidden while a subscription is active */
+export const CheckoutButtons = ({ subActive }: { subActive: boolean }) => {
+  const checkout = useCheckout();
+  return (
+    <div className={styles.actions}>
+      {!subActive && (
+        <Button disabled={checkout.isPending} onClick={() => checkout.mutate({ mode: 'subscription' })}>
+          Upgrade to Pro
+        </Button>
+      )}
+      <Button variant="outline" disabled={checkout.isPending} onClick={() => checkout.mutate({ mode: 'payment' })}>
+        Buy export pack
+      </Button>
+    </div>
+  );
+};
+
+/** Shown when the account could not be checked (server or network error), with a retry */
+export const AccountUnavailableNotice = ({ onRetry, retrying }: { onRetry: () => void; retrying?: boolean }) => (
+  <div className={styles.creditsBar}>
+    <p className={styles.muted}>Could not check your account and export credits. Exports are paused until it loads.</p>
+    <Button variant="outline" disabled={retrying} onClick={onRetry}>
+      {retrying ? 'Retrying…' : 'Retry'}
+    </Button>
+  </div>
+);
+
+/** Account view: plan, remaining export credits, checkout and billing portal */
+export const AccountPanel = () => {
+  const { data, isLoading, signedIn, accountUnavailable, refetch, isFetching } = useEntitlements();
+  const portal = usePortalLink();
+
+  if (isLoading) {
+    return (
+      <div className={styles.card}>
+        <Skeleton style={{ height: 24, width: '40%' }} />
+        <Skeleton style={{ height: 16, width: '60%', marginTop: 'var(--spacing-3)' }} />
+      </div>
+    );
+  }
+
+  if (accountUnavailable) {
+    return (
+      <div className={styles.card}>
+        <AccountUnavailableNotice onRetry={() => refetch()} retrying={isFetching} />
+      </div>
+    );
+  }
+
+  if (!signedIn || !data) {
+    return (
+      <div className={styles.card}>
+        <p className={styles.muted}>
+          Sign in to see your plan and export credits. Without an account, exports are built in your browser.
+        </p>
+      </div>
+    );
+  }
+
+  const resets = formatDate(data.resetsAt);
+  return (
+    <div className={styles.card}>
+      <div className={styles.planRow}>
+        <h3 className={styles.planName}>{PLAN_LABELS[data.plan]}</h3>
+        <Badge variant={data.subActive ? 'success' : 'secondary'}>
+          {data.subActive ? 'Subscription active' : 'No active subscription'}
+        </Badge>
+      </div>
+      <dl className={styles.details}>
+        <dt>Export credits remaining</dt>
+        <dd>{formatCredits(data.credits)}</dd>
+        {resets && data.subActive && (
+          <>
+            <dt>Credits renew on</dt>
+            <dd>{resets}</dd>
+          </>
+        )}
+      </dl>
+      <CheckoutButtons subActive={data.subActive} />
+      {(data.subActive || data.plan !== 'free') && (
+        <div className={styles.actions}>
+          <Button variant="ghost" disabled={portal.isPending} onClick={() => portal.mutate()}>
+            Manage billing
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** One-line credit status for the Export tab, with checkout offered inline when credits run out */
+export const ExportCreditsBar = ({ entitlements }: { entitlements: EntitlementsResponse }) => {
+  const outOfCredits = entitlements.credits !== null && entitlements.credits <= 0;
+  return (
+    <div className={styles.creditsBar}>
+      <span>
+        Export credits remaining: <strong>{formatCredits(entitlements.credits)}</strong>
+      </span>
+      {outOfCredits && (
+        <>
+          <p className={styles.muted}>You have used all your export credits. Upgrade or buy a pack to keep exporting.</p>
+          <CheckoutButtons subActive={entitlements.subActive} />
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,18 @@
 import * as React from 'react';
 import { Badge } from './Badge';
 import { Skeleton } from './Skeleton';
-import { PaletteWithVariations } from '../helpers/types';
+import { PaletteWithVariations, ColorType, SemanticColorType, NeutralColorType, CvdMode, StepName, BorderTokens } from '../helpers/types';
 import { ensureAAAContrast } from '../helpers/ensureAAAContrast';
-import { NEAR_WHITE_HEX, NEAR_BLACK_HEX, NEAR_BLACK_RGB, NEAR_WHITE_RGB, AAA_MIN, AA_SMALL_MIN, RECOMMENDED_TINT_Y_GAP, RECOMMENDED_SHADE_Y_GAP, RECOMMENDED_SHADE_Y_GAP_TOLERANCE } from '../helpers/config';
-import { hexToRgb, getContrastRatio, luminance } from '../helpers/colorUtils';
+import { NEAR_WHITE_HEX, NEAR_BLACK_HEX, NEAR_BLACK_RGB, NEAR_WHITE_RGB, AAA_MIN, AA_SMALL_MIN, APCA_BODY_MIN_LC, NON_TEXT_MIN, RECOMMENDED_TINT_Y_GAP, RECOMMENDED_SHADE_Y_GAP, RECOMMENDED_SHADE_Y_GAP_TOLERANCE } from '../helpers/config';
+import { hexToRgb, getContrastRatio, luminance, apcaContrast, simulateCvdHex } from '../helpers/colorUtils';
+import { findCvdConfusions } from '../helpers/colorVision';
+import { CvdSimulationControls } from './CvdSimulationControls';
+import { DEFAULT_STEP_SCALE, stepForRole, stepTone, type StepScale } from '../helpers/stepScale';
 import { chooseForeground } from '../helpers/themeRuntime';
+import { brandFamiliesOf, brandFamilyLabel } from '../helpers/brandFamilies';
 import styles from './ColorDisplay.module.css';
 
-type Band = 'lighter' | 'light' | 'dark' | 'darker';
+type Band = StepName;
 type SemanticPerScheme = { light: Band; dark: Band };
 type SemanticBandSelection = { error: SemanticPerScheme; warning: SemanticPerScheme; success: SemanticPerScheme };
 
@@ -17,12 +21,17 @@ interface ColorDisplayProps {
   isLoading: boolean;
   showDiagnostics?: boolean | undefined;
   onVariationClick?: (
-    key: 'primary' | 'secondary' | 'tertiary' | 'accent' | 'error' | 'warning' | 'success',
-    step: 'lighter' | 'light' | 'dark' | 'darker'
+    key: ColorType | SemanticColorType | NeutralColorType,
+    step: StepName
   ) => void;
   semanticBandSelection?: SemanticBandSelection;
+  /** Tint/shade steps shown per family; defaults to lighter/light/dark/darker */
+  steps?: StepScale;
   textOnLight?: string | undefined;
   textOnDark?: string | undefined;
+  /** Color-vision simulation for the swatches; uncontrolled when omitted */
+  cvdMode?: CvdMode;
+  onCvdModeChange?: (mode: CvdMode) => void;
 }
 
 const ContrastInfo = ({ colorHex }: { colorHex: string }) => {
@@ -31,6 +40,7 @@ const ContrastInfo = ({ colorHex }: { colorHex: string }) => {
   const textIsWhite = solution.textColor.toUpperCase() === NEAR_WHITE_HEX.toUpperCase();
   const textRgb = textIsWhite ? NEAR_WHITE_RGB : NEAR_BLACK_RGB;
   const ratio = getContrastRatio(bg, textRgb);
+  const lc = apcaContrast(textRgb, bg);
 
   const level: 'AAA' | 'AA' | 'FAIL' = ratio >= AAA_MIN ? 'AAA' : ratio >= AA_SMALL_MIN ? 'AA' : 'FAIL';
   const variant: 'success' | 'warning' | 'destructive' =
@@ -45,22 +55,30 @@ const ContrastInfo = ({ colorHex }: { colorHex: string }) => {
         <Badge variant={variant}>
           {level} {ratio.toFixed(2)}
         </Badge>
+        <Badge variant={Math.abs(lc) >= APCA_BODY_MIN_LC ? 'success' : 'warning'} title="APCA lightness contrast (WCAG 3 draft)">
+          Lc {lc.toFixed(1)}
+        </Badge>
       </div>
     </div>
   );
 };
 
-const VariationBlock = ({ variation, onClick, textOnLight, textOnDark, showDiagnostics }: { variation: any; onClick?: () => void; textOnLight?: string | undefined; textOnDark?: string | undefined; showDiagnostics?: boolean | undefined }) => {
+const VariationBlock = ({ variation, onClick, textOnLight, textOnDark, showDiagnostics, cvdMode = 'none', steps = DEFAULT_STEP_SCALE }: { variation: any; onClick?: () => void; textOnLight?: string | undefined; textOnDark?: string | undefined; showDiagnostics?: boolean | undefined; cvdMode?: CvdMode; steps?: StepScale }) => {
   const contrastSolution = ensureAAAContrast(variation.hex);
   const bg = hexToRgb(variation.hex);
   // Compute numeric contrast against active tokens for consistency with Adjust/Export
-  const preferWhite = variation.step === 'dark' || variation.step === 'darker';
+  const preferWhite = stepTone(steps, variation.step) === 'shade';
   const tokenHex = preferWhite ? textOnDark : textOnLight;
   const textRgb = tokenHex ? hexToRgb(tokenHex) : (preferWhite ? NEAR_WHITE_RGB : NEAR_BLACK_RGB);
   const ratio = getContrastRatio(bg, textRgb);
   const level: 'AAA' | 'AA' | 'FAIL' = ratio >= AAA_MIN ? 'AAA' : ratio >= AA_SMALL_MIN ? 'AA' : 'FAIL';
+  // APCA Lc of the same text token on this swatch (negative = light text on dark)
+  const lc = apcaContrast(textRgb, bg);
   const hslInt = hexToHslString(variation.hex, true).replace(/^hsl/i, 'HSL');
   const y = luminance(...Object.values(hexToRgb(variation.hex)) as [number, number, number]);
+  // Metrics above use the real colors; only the painted swatch and its text go through the simulation
+  const shownBg = simulateCvdHex(variation.hex, cvdMode);
+  const shownText = simulateCvdHex(contrastSolution.textColor, cvdMode);
 
   return (
     <div
@@ -74,20 +92,23 @@ const VariationBlock = ({ variation, onClick, textOnLight, textOnDark, showDiagn
       <div className={styles.variationHeaderBar}>
         <span className={`${styles.variationName} cf-font-600`}>{variation.name}</span>
       </div>
-      <div className={styles.variationBody} style={{ backgroundColor: variation.hex }}>
+      <div className={styles.variationBody} style={{ backgroundColor: shownBg }}>
         {contrastSolution.overlayColor && (
           <div className={styles.overlay} style={{ backgroundColor: contrastSolution.overlayColor }} />
         )}
         {/* In-swatch contrast badge with aligned fixed-width meta spans (no wrap) */}
-        <div className={styles.contrastBadge} style={{ color: contrastSolution.textColor }}>
+        <div className={styles.contrastBadge} style={{ color: shownText }}>
           <span className={styles.metaFixed}>
             <span>{level}</span>
             <span> </span>
             <span>{ratio.toFixed(2)}</span>
             {showDiagnostics && <span> Y={y.toFixed(3)}</span>}
           </span>
+          <span className={styles.metaFixed} title="APCA lightness contrast (WCAG 3 draft)">
+            Lc {lc.toFixed(1)}{Math.abs(lc) < APCA_BODY_MIN_LC ? ' (below body text)' : ''}
+          </span>
         </div>
-        <div className={styles.variationContent} style={{ color: contrastSolution.textColor }}>
+        <div className={styles.variationContent} style={{ color: shownText }}>
           <div className={styles.variationCodesContainer}>
             <div className={styles.variationCodes}>
               <span className={styles.variationHsl}>{hslInt}</span>
@@ -99,25 +120,61 @@ const VariationBlock = ({ variation, onClick, textOnLight, textOnDark, showDiagn
   );
 };
 
-const ColorCard = ({ color, name, onVariationClick, textOnLight, textOnDark, showDiagnostics }: { color: any; name: string; onVariationClick?: (step: 'lighter' | 'light' | 'dark' | 'darker') => void; textOnLight?: string | undefined; textOnDark?: string | undefined; showDiagnostics?: boolean | undefined }) => {
+/**
+ * A family's 3:1 border/outline colors, drawn as a bordered chip of the light (or dark) band
+ * on the matching surface, with the contrast against each.
+ */
+const BorderTokensBlock = ({ color, name, textOnLight, textOnDark, cvdMode, steps }: { color: any; name: string; textOnLight?: string | undefined; textOnDark?: string | undefined; cvdMode: CvdMode; steps: StepScale }) => {
+  const border = color?.border as BorderTokens | undefined;
+  if (!border) return null;
+  const bandHex = (step: StepName) => (color.variations || []).find((v: any) => v.step === step)?.hex as string | undefined;
+  const samples = [
+    { label: 'on light', hex: border.onLight, surface: textOnDark ?? NEAR_WHITE_HEX, band: bandHex(stepForRole(steps, 'light')), text: textOnLight ?? NEAR_BLACK_HEX },
+    { label: 'on dark', hex: border.onDark, surface: textOnLight ?? NEAR_BLACK_HEX, band: bandHex(stepForRole(steps, 'dark')), text: textOnDark ?? NEAR_WHITE_HEX },
+  ];
+  const ratioOf = (a: string, b: string) => getContrastRatio(hexToRgb(a), hexToRgb(b));
+  return (
+    <div className={styles.borderTokens} title={`Border and outline colors with at least ${NON_TEXT_MIN}:1 non-text contrast (WCAG 1.4.11)`}>
+      {samples.map((sample) => {
+        const surfaceRatio = ratioOf(sample.hex, sample.surface);
+        const bandRatio = sample.band ? ratioOf(sample.hex, sample.band) : undefined;
+        return (
+          <div key={sample.label} className={styles.borderSample} style={{ backgroundColor: simulateCvdHex(sample.surface, cvdMode), color: simulateCvdHex(sample.text, cvdMode) }}>
+            <div
+              className={styles.borderChip}
+              style={{ borderColor: simulateCvdHex(sample.hex, cvdMode), ...(sample.band ? { backgroundColor: simulateCvdHex(sample.band, cvdMode) } : {}) }}
+            />
+            <span className={`${styles.variationName} cf-font-600`}>{name} border {sample.label}</span>
+            <span className={styles.metaFixed}>{sample.hex.toUpperCase()}</span>
+            <span className={styles.metaFixed}>
+              {surfaceRatio.toFixed(2)} surface{bandRatio != null ? ` · ${bandRatio.toFixed(2)} band` : ''}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const ColorCard = ({ color, name, onVariationClick, textOnLight, textOnDark, showDiagnostics, cvdMode, steps }: { color: any; name: string; onVariationClick?: (step: StepName) => void; textOnLight?: string | undefined; textOnDark?: string | undefined; showDiagnostics?: boolean | undefined; cvdMode: CvdMode; steps: StepScale }) => {
   const ordered = React.useMemo(() => {
-    const order: Record<string, number> = { lighter: 0, light: 1, dark: 2, darker: 3 };
+    const order: Record<string, number> = Object.fromEntries(steps.map((s, i) => [s.name, i]));
     return [...(color.variations || [])].sort((a, b) => (order[a.step] ?? 99) - (order[b.step] ?? 99));
-  }, [color.variations]);
+  }, [color.variations, steps]);
 
   // Compute palette-level gap warnings (use the same recommended Y-gap thresholds as the selectors)
   const gaps = React.useMemo(() => {
     const byStep: Record<string, any> = Object.fromEntries(ordered.map(v => [v.step, v]));
     const yOf = (v: any | undefined) => v ? luminance(...Object.values(hexToRgb(v.hex)) as [number, number, number]) : undefined;
-    const yLighter = yOf(byStep.lighter);
-    const yLight = yOf(byStep.light);
-    const yDarker = yOf(byStep.darker);
-    const yDark = yOf(byStep.dark);
+    const yLighter = yOf(byStep[stepForRole(steps, 'lighter')]);
+    const yLight = yOf(byStep[stepForRole(steps, 'light')]);
+    const yDarker = yOf(byStep[stepForRole(steps, 'darker')]);
+    const yDark = yOf(byStep[stepForRole(steps, 'dark')]);
     const r3 = (n: number) => Math.round(n * 1000) / 1000;
     const tintGap = (yLighter != null && yLight != null) ? r3(yLighter - yLight) : undefined;
     const shadeGap = (yDark != null && yDarker != null) ? r3(yDark - yDarker) : undefined;
     return { tintGap, shadeGap };
-  }, [ordered]);
+  }, [ordered, steps]);
   return (
     <div className={styles.colorCard}>
       <div className={styles.variationHeader} style={{ padding: '4px 0' }}>
@@ -136,7 +193,9 @@ const ColorCard = ({ color, name, onVariationClick, textOnLight, textOnDark, sho
             textOnLight={textOnLight}
             textOnDark={textOnDark}
             showDiagnostics={showDiagnostics}
-            {...(onVariationClick ? { onClick: () => onVariationClick(variation.step as any) } : {})}
+            cvdMode={cvdMode}
+            steps={steps}
+            {...(onVariationClick ? { onClick: () => onVariationClick(variation.step) } : {})}
           />
         ))}
         {gaps.shadeGap != null && gaps.shadeGap < (RECOMMENDED_SHADE_Y_GAP - RECOMMENDED_SHADE_Y_GAP_TOLERANCE) && (
@@ -145,11 +204,12 @@ const ColorCard = ({ color, name, onVariationClick, textOnLight, textOnDark, sho
           </div>
         )}
       </div>
+      <BorderTokensBlock color={color} name={name} textOnLight={textOnLight} textOnDark={textOnDark} cvdMode={cvdMode} steps={steps} />
     </div>
   );
 };
 
-function pickVariation(color: any, step: 'lighter' | 'light' | 'dark' | 'darker') {
+function pickVariation(color: any, step: StepName) {
   return color.variations.find((v: any) => v.step === step) ?? color.variations[0];
 }
 
@@ -159,17 +219,21 @@ const SemanticBlock = ({
   step,
   onClick,
   showDiagnostics,
+  cvdMode,
+  steps,
 }: {
   color: any;
   name: string;
-  step: 'lighter' | 'light' | 'dark' | 'darker';
+  step: StepName;
   onClick?: () => void;
   showDiagnostics?: boolean | undefined;
+  cvdMode: CvdMode;
+  steps: StepScale;
 }) => {
   const v = pickVariation(color, step);
   // Force the display name to the semantic token rather than base-color-step
   const variation = { ...v, name: `${name}` };
-  return <VariationBlock variation={variation} showDiagnostics={showDiagnostics} {...(onClick ? { onClick } : {})} />;
+  return <VariationBlock variation={variation} showDiagnostics={showDiagnostics} cvdMode={cvdMode} steps={steps} {...(onClick ? { onClick } : {})} />;
 };
 
 // Helpers
@@ -208,9 +272,21 @@ const LoadingSkeleton = () => (
   </div>
 );
 
-export const ColorDisplay = ({ palette, isLoading, showDiagnostics, onVariationClick, semanticBandSelection, textOnLight, textOnDark }: ColorDisplayProps) => {
+export const ColorDisplay = ({ palette, isLoading, showDiagnostics, onVariationClick, semanticBandSelection, steps = DEFAULT_STEP_SCALE, textOnLight, textOnDark, cvdMode: cvdModeProp, onCvdModeChange }: ColorDisplayProps) => {
+  const [internalCvdMode, setInternalCvdMode] = React.useState<CvdMode>('none');
+  const cvdMode = cvdModeProp ?? internalCvdMode;
+  const setCvdMode = (m: CvdMode) => {
+    if (onCvdModeChange) onCvdModeChange(m);
+    else setInternalCvdMode(m);
+  };
+  const confusions = React.useMemo(
+    () => (isLoading ? [] : findCvdConfusions(palette, cvdMode, semanticBandSelection, undefined, steps)),
+    [palette, cvdMode, semanticBandSelection, steps, isLoading]
+  );
+
   return (
     <section className={styles.section}>
+      <CvdSimulationControls mode={cvdMode} onModeChange={setCvdMode} confusions={confusions} />
       <div className={styles.paletteGrid}>
         {isLoading ? (
           <>
@@ -221,38 +297,31 @@ export const ColorDisplay = ({ palette, isLoading, showDiagnostics, onVariationC
           </>
         ) : (
           <>
-            <ColorCard
-              color={palette.primary}
-              name="Primary"
-              onVariationClick={(step) => onVariationClick?.('primary', step)}
-              textOnLight={textOnLight}
-              textOnDark={textOnDark}
-              showDiagnostics={showDiagnostics}
-            />
-            <ColorCard
-              color={palette.secondary}
-              name="Secondary"
-              onVariationClick={(step) => onVariationClick?.('secondary', step)}
-              textOnLight={textOnLight}
-              textOnDark={textOnDark}
-              showDiagnostics={showDiagnostics}
-            />
-            <ColorCard
-              color={palette.tertiary}
-              name="Tertiary"
-              onVariationClick={(step) => onVariationClick?.('tertiary', step)}
-              textOnLight={textOnLight}
-              textOnDark={textOnDark}
-              showDiagnostics={showDiagnostics}
-            />
-            <ColorCard
-              color={palette.accent}
-              name="Accent"
-              onVariationClick={(step) => onVariationClick?.('accent', step)}
-              textOnLight={textOnLight}
-              textOnDark={textOnDark}
-              showDiagnostics={showDiagnostics}
-            />
+            {brandFamiliesOf(palette).map((key) => (
+              <ColorCard
+                key={key}
+                color={palette[key]!}
+                name={brandFamilyLabel(key)}
+                onVariationClick={(step) => onVariationClick?.(key, step)}
+                textOnLight={textOnLight}
+                textOnDark={textOnDark}
+                showDiagnostics={showDiagnostics}
+                cvdMode={cvdMode}
+                steps={steps}
+              />
+            ))}
+            {palette.neutral && (
+              <ColorCard
+                color={palette.neutral}
+                name="Neutral"
+                onVariationClick={(step) => onVariationClick?.('neutral', step)}
+                textOnLight={textOnLight}
+                textOnDark={textOnDark}
+                showDiagnostics={showDiagnostics}
+                cvdMode={cvdMode}
+                steps={steps}
+              />
+            )}
           </>
         )}
       </div>
@@ -269,26 +338,34 @@ export const ColorDisplay = ({ palette, isLoading, showDiagnostics, onVariationC
           <>
             {/* Show the selected Light and Dark bands for each semantic */}
             {(() => {
+              const defaults: SemanticPerScheme = { light: stepForRole(steps, 'light'), dark: stepForRole(steps, 'dark') };
               const sel = {
-                error: { light: 'light' as Band, dark: 'dark' as Band },
-                warning: { light: 'light' as Band, dark: 'dark' as Band },
-                success: { light: 'light' as Band, dark: 'dark' as Band },
+                error: defaults,
+                warning: defaults,
+                success: defaults,
                 ...(semanticBandSelection || {}),
               } as SemanticBandSelection;
               return (
                 <>
-                  <SemanticBlock color={palette.error} name={`Error (Light)`} step={sel.error.light} showDiagnostics={showDiagnostics} {...(onVariationClick ? { onClick: () => onVariationClick('error', sel.error.light) } : {})} />
-                  <SemanticBlock color={palette.error} name={`Error (Dark)`} step={sel.error.dark} showDiagnostics={showDiagnostics} {...(onVariationClick ? { onClick: () => onVariationClick('error', sel.error.dark) } : {})} />
-                  <SemanticBlock color={palette.warning} name={`Notice (Light)`} step={sel.warning.light} showDiagnostics={showDiagnostics} {...(onVariationClick ? { onClick: () => onVariationClick('warning', sel.warning.light) } : {})} />
-                  <SemanticBlock color={palette.warning} name={`Notice (Dark)`} step={sel.warning.dark} showDiagnostics={showDiagnostics} {...(onVariationClick ? { onClick: () => onVariationClick('warning', sel.warning.dark) } : {})} />
-                  <SemanticBlock color={palette.success} name={`Success (Light)`} step={sel.success.light} showDiagnostics={showDiagnostics} {...(onVariationClick ? { onClick: () => onVariationClick('success', sel.success.light) } : {})} />
-                  <SemanticBlock color={palette.success} name={`Success (Dark)`} step={sel.success.dark} showDiagnostics={showDiagnostics} {...(onVariationClick ? { onClick: () => onVariationClick('success', sel.success.dark) } : {})} />
+                  <SemanticBlock color={palette.error} name={`Error (Light)`} step={sel.error.light} showDiagnostics={showDiagnostics} cvdMode={cvdMode} steps={steps} {...(onVariationClick ? { onClick: () => onVariationClick('error', sel.error.light) } : {})} />
+                  <SemanticBlock color={palette.error} name={`Error (Dark)`} step={sel.error.dark} showDiagnostics={showDiagnostics} cvdMode={cvdMode} steps={steps} {...(onVariationClick ? { onClick: () => onVariationClick('error', sel.error.dark) } : {})} />
+                  <SemanticBlock color={palette.warning} name={`Notice (Light)`} step={sel.warning.light} showDiagnostics={showDiagnostics} cvdMode={cvdMode} steps={steps} {...(onVariationClick ? { onClick: () => onVariationClick('warning', sel.warning.light) } : {})} />
+                  <SemanticBlock color={palette.warning} name={`Notice (Dark)`} step={sel.warning.dark} showDiagnostics={showDiagnostics} cvdMode={cvdMode} steps={steps} {...(onVariationClick ? { onClick: () => onVariationClick('warning', sel.warning.dark) } : {})} />
+                  <SemanticBlock color={palette.success} name={`Success (Light)`} step={sel.success.light} showDiagnostics={showDiagnostics} cvdMode={cvdMode} steps={steps} {...(onVariationClick ? { onClick: () => onVariationClick('success', sel.success.light) } : {})} />
+                  <SemanticBlock color={palette.success} name={`Success (Dark)`} step={sel.success.dark} showDiagnostics={showDiagnostics} cvdMode={cvdMode} steps={steps} {...(onVariationClick ? { onClick: () => onVariationClick('success', sel.success.dark) } : {})} />
                 </>
               );
             })()}
           </>
         )}
       </div>
+      {!isLoading && (
+        <div className={styles.paletteGrid}>
+          <BorderTokensBlock color={palette.error} name="Error" textOnLight={textOnLight} textOnDark={textOnDark} cvdMode={cvdMode} steps={steps} />
+          <BorderTokensBlock color={palette.warning} name="Notice" textOnLight={textOnLight} textOnDark={textOnDark} cvdMode={cvdMode} steps={steps} />
+          <BorderTokensBlock color={palette.success} name="Success" textOnLight={textOnLight} textOnDark={textOnDark} cvdMode={cvdMode} steps={steps} />
+        </div>
+      )}
     </section>
   );
 };
@@ -0,0 +1,53 @@
+import React from 'react';
+import type { CvdMode } from '../helpers/types';
+import { CVD_MODES, CvdConfusion } from '../helpers/colorVision';
+import styles from './CvdSimulationControls.module.css';
+
+export interface CvdSimulationControlsProps {
+  mode: CvdMode;
+  onModeChange: (mode: CvdMode) => void;
+  /** Pairs that collapse under the current simulation (see findCvdConfusions) */
+  confusions: CvdConfusion[];
+  className?: string;
+}
+
+// Shown on the Palette and Demo tabs: pick a simulation and list the swatch pairs it makes indistinguishable
+export const CvdSimulationControls = ({ mode, onModeChange, confusions, className }: CvdSimulationControlsProps) => {
+  const active = CVD_MODES.find((m) => m.value === mode);
+  return (
+    <div className={`${styles.controls} ${className || ''}`}>
+      <label className={styles.label}>
+        <span>Simulate color vision:</span>
+        <select value={mode} onChange={(e) => onModeChange(e.target.value as CvdMode)}>
+          {CVD_MODES.map((m) => (
+            <option key={m.value} value={m.value}>{m.value === 'none' ? m.label : `${m.label} (${m.description.toLowerCase()})`}</option>
+          ))}
+        </select>
+      </label>
+      {mode !== 'none' && (
+        confusions.length === 0 ? (
+          <div className={styles.ok}>No color pairs become indistinguishable under {active?.label.toLowerCase()}.</div>
+        ) : (
+          <div className={styles.warning} role="status">
+            <div className="cf-font-600">
+              {confusions.length} pair{confusions.length === 1 ? '' : 's'} look alike under {active?.label.toLowerCase()}:
+            </div>
+            <ul className={styles.pairList}>
+              {confusions.map((c) => (
+                <li key={`${c.a.key}-${c.a.step}|${c.b.key}-${c.b.step}`}>
+                  <span className={styles.chip} style={{ backgroundColor: c.a.hex }} aria-hidden="true" />
+                  {c.a.label} vs
+                  <span className={styles.chip} style={{ backgroundColor: c.b.hex }} aria-hidden="true" />
+                  {c.b.label} <span className={styles.delta}>ΔE {c.deltaE.toFixed(3)}</span>
+                </li>
+              ))}
+            </ul>
+            <div className={styles.hint}>Pair these with labels, icons or a larger lightness difference instead of relying on hue.</div>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default CvdSimulationControls;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import type { ColorType, Palette } from '../helpers/types';
+import { HARMONY_RULES, generateHarmonyCandidates, type HarmonyRule, type HarmonyScreening } from '../helpers/colorHarmony';
+import { brandFamiliesOf, brandFamily, brandHexesOf } from '../helpers/brandFamilies';
+import { hexToRgb, rgbToHslNorm } from '../helpers/colorUtils';
+import { MIN_VARIATIONS_PER_BAND } from '../helpers/config';
+import { Button } from './Button';
+import styles from './HarmonyPicker.module.css';
+
+export interface HarmonyPickerProps {
+  /** Current palette: its Primary gives the starting base hue and its brand families the count */
+  palette: Palette;
+  /** Text colors and step scale the candidates are screened against */
+  screening: HarmonyScreening;
+  /** Families that keep their color when a candidate is used */
+  locked: readonly ColorType[];
+  /** Receives the candidate's colors for the unlocked families */
+  onUse: (hexes: Partial<Record<ColorType, string>>) => void;
+  className?: string;
+}
+
+// Starting Colors tab: pick a harmony and a base hue, then use one of the screened candidates
+export const HarmonyPicker = ({ palette, screening, locked, onUse, className }: HarmonyPickerProps) => {
+  const [rule, setRule] = useState<HarmonyRule>('analogous-complement');
+  const [baseHue, setBaseHue] = useState<number>(() => {
+    const { r, g, b } = hexToRgb(palette.primary.hex);
+    return Math.round(rgbToHslNorm(r, g, b).h);
+  });
+  const [candidates, setCandidates] = useState<Palette[] | null>(null);
+  const families = brandFamiliesOf(palette);
+  const active = HARMONY_RULES.find((h) => h.value === rule);
+
+  const suggest = () => {
+    setCandidates(generateHarmonyCandidates(rule, { baseHue, count: families.length }, screening));
+  };
+
+  const use = (candidate: Palette) => {
+    const hexes = brandHexesOf(candidate);
+    locked.forEach((k) => { delete hexes[k]; });
+    onUse(hexes);
+  };
+
+  return (
+    <div className={`${styles.picker} ${className || ''}`}>
+      <div className={styles.row}>
+        <label className={styles.label}>
+          <span>Harmony:</span>
+          <select value={rule} onChange={(e) => { setRule(e.target.value as HarmonyRule); setCandidates(null); }}>
+            {HARMONY_RULES.map((h) => (
+              <option key={h.value} value={h.value}>{h.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.label}>
+          <span>Base hue:</span>
+          <input
+            type="range"
+            min={0}
+            max={359}
+            value={baseHue}
+            onChange={(e) => { setBaseHue(Number(e.target.value)); setCandidates(null); }}
+            aria-label="Base hue"
+          />
+          <span className={styles.hueChip} style={{ backgroundColor: `hsl(${baseHue}, 70%, 50%)` }} aria-hidden="true" />
+          <span>{baseHue}°</span>
+        </label>
+        <Button type="button" variant="outline" size="sm" onClick={suggest}>Suggest colors</Button>
+      </div>
+      {active && <div className={styles.hint}>{active.description}.</div>}
+      {candidates && (
+        candidates.length === 0 ? (
+          <div className={styles.warning} role="status">
+            No {active?.label} palette from this hue gives every color at least {MIN_VARIATIONS_PER_BAND} AAA tints and shades
+            with the current text colors. Try another hue, or make Text on Light darker and Text on Dark lighter.
+          </div>
+        ) : (
+          <ul className={styles.candidates}>
+            {candidates.map((c) => {
+              const id = brandFamiliesOf(c).map((k) => c[k]!.hex).join(',');
+              return (
+                <li key={id} className={styles.candidate}>
+                  {brandFamiliesOf(c).map((k) => (
+                    <span
+                      key={k}
+                      className={`${styles.swatch} ${locked.includes(k) ? styles.lockedSwatch : ''}`}
+                      style={{ backgroundColor: locked.includes(k) ? palette[k]?.hex : c[k]!.hex }}
+                      title={`${brandFamily(k).label} ${locked.includes(k) ? `${palette[k]?.hex} (locked)` : c[k]!.hex}`}
+                    />
+                  ))}
+                  <Button type="button" variant="ghost" size="sm" onClick={() => use(c)}>Use</Button>
+                </li>
+              );
+            })}
+          </ul>
+        )
+      )}
+    </div>
+  );
+};
+
+export default HarmonyPicker;
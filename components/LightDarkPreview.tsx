@@ -1,8 +1,12 @@
 import React, { useMemo, useState } from 'react';
 import styles from './LightDarkPreview.module.css';
-import type { PaletteWithVariations } from '../helpers/types';
+import type { PaletteWithVariations, ColorType, CvdMode, StepName } from '../helpers/types';
 import { ensureAAAContrast } from '../helpers/ensureAAAContrast';
 import { chooseForeground } from '../helpers/themeRuntime';
+import { simulateCvdHex } from '../helpers/colorUtils';
+import { findCvdConfusions } from '../helpers/colorVision';
+import { CvdSimulationControls } from './CvdSimulationControls';
+import { DEFAULT_STEP_SCALE, stepForRole, type StepScale, type StepRole } from '../helpers/stepScale';
 
 type Props = {
   palette: PaletteWithVariations;
@@ -11,52 +15,67 @@ type Props = {
   scheme?: 'auto' | 'light' | 'dark';
   onSchemeChange?: (s: 'auto' | 'light' | 'dark') => void;
   semanticBandSelection?: {
-    error: { light: 'lighter' | 'light' | 'dark' | 'darker'; dark: 'lighter' | 'light' | 'dark' | 'darker' };
-    warning: { light: 'lighter' | 'light' | 'dark' | 'darker'; dark: 'lighter' | 'light' | 'dark' | 'darker' };
-    success: { light: 'lighter' | 'light' | 'dark' | 'darker'; dark: 'lighter' | 'light' | 'dark' | 'darker' };
+    error: { light: StepName; dark: StepName };
+    warning: { light: StepName; dark: StepName };
+    success: { light: StepName; dark: StepName };
   };
+  /** The demo uses the lighter/light/dark/darker roles of this scale */
+  steps?: StepScale;
+  /** Color-vision simulation applied to every preview color; uncontrolled when omitted */
+  cvdMode?: CvdMode;
+  onCvdModeChange?: (m: CvdMode) => void;
   children?: React.ReactNode;
 };
 
-export const LightDarkPreview: React.FC<Props> = ({ palette, textOnLight, textOnDark, scheme: schemeProp, onSchemeChange, semanticBandSelection, children }) => {
+export const LightDarkPreview: React.FC<Props> = ({ palette, textOnLight, textOnDark, scheme: schemeProp, onSchemeChange, semanticBandSelection, steps = DEFAULT_STEP_SCALE, cvdMode: cvdModeProp, onCvdModeChange, children }) => {
   const [internalScheme, setInternalScheme] = useState<'auto' | 'light' | 'dark'>('auto');
   const scheme = schemeProp ?? internalScheme;
   const setScheme = (s: 'auto' | 'light' | 'dark') => {
     if (onSchemeChange) onSchemeChange(s);
     else setInternalScheme(s);
   };
+  const [internalCvdMode, setInternalCvdMode] = useState<CvdMode>('none');
+  const cvdMode = cvdModeProp ?? internalCvdMode;
+  const setCvdMode = (m: CvdMode) => {
+    if (onCvdModeChange) onCvdModeChange(m);
+    else setInternalCvdMode(m);
+  };
+  const confusions = useMemo(
+    () => findCvdConfusions(palette, cvdMode, semanticBandSelection, undefined, steps),
+    [palette, cvdMode, semanticBandSelection, steps]
+  );
 
   // Find variation by step property (not by name matching)
-  const findStep = (family: keyof PaletteWithVariations, step: 'lighter' | 'light' | 'dark' | 'darker') => {
-    const v = palette[family].variations || [];
+  const findStep = (family: keyof PaletteWithVariations, step: StepName) => {
+    const v = palette[family]?.variations || [];
     const match = v.find((x) => x.step === step);
     return match?.hex || null;
   };
+  const findRole = (family: keyof PaletteWithVariations, role: StepRole) => findStep(family, stepForRole(steps, role));
+  // The demo shows four brand roles; palettes with fewer brand families fill the missing ones from Primary
+  const demoFamily = (family: ColorType): ColorType => (palette[family] ? family : 'primary');
 
   const vars = useMemo(() => {
     // Get colors from actual palette variations using step property
-    const primaryLight = findStep('primary', 'light') || palette.primary.hex;
-    const primaryDark = findStep('primary', 'dark') || palette.primary.hex;
-    const primaryDarker = findStep('primary', 'darker') || palette.primary.hex;
-    const primaryLighter = findStep('primary', 'lighter') || palette.primary.hex;
-    const secondaryLight = findStep('secondary', 'light') || palette.secondary.hex;
-    const secondaryDark = findStep('secondary', 'dark') || palette.secondary.hex;
-    const secondaryDarker = findStep('secondary', 'darker') || palette.secondary.hex;
-    const secondaryLighter = findStep('secondary', 'lighter') || palette.secondary.hex;
-    const tertiaryLight = findStep('tertiary', 'light') || palette.tertiary.hex;
-    const tertiaryDark = findStep('tertiary', 'dark') || palette.tertiary.hex;
-    const tertiaryDarker = findStep('tertiary', 'darker') || palette.tertiary.hex;
-    const tertiaryLighter = findStep('tertiary', 'lighter') || palette.tertiary.hex;
-    const accentLight = findStep('accent', 'light') || palette.accent.hex;
-    const accentDark = findStep('accent', 'dark') || palette.accent.hex;
-    const accentDarker = findStep('accent', 'darker') || palette.accent.hex;
-    const accentLighter = findStep('accent', 'lighter') || palette.accent.hex;
+    const primaryLight = findRole('primary', 'light') || palette.primary.hex;
+    const primaryDark = findRole('primary', 'dark') || palette.primary.hex;
+    const primaryDarker = findRole('primary', 'darker') || palette.primary.hex;
+    const primaryLighter = findRole('primary', 'lighter') || palette.primary.hex;
+    const secondaryLight = findRole(demoFamily('secondary'), 'light') || palette[demoFamily('secondary')]!.hex;
+    const secondaryDark = findRole(demoFamily('secondary'), 'dark') || palette[demoFamily('secondary')]!.hex;
+    const secondaryDarker = findRole(demoFamily('secondary'), 'darker') || palette[demoFamily('secondary')]!.hex;
+    const secondaryLighter = findRole(demoFamily('secondary'), 'lighter') || palette[demoFamily('secondary')]!.hex;
+    const tertiaryLight = findRole(demoFamily('tertiary'), 'light') || palette[demoFamily('tertiary')]!.hex;
+    const tertiaryDark = findRole(demoFamily('tertiary'), 'dark') || palette[demoFamily('tertiary')]!.hex;
+    const tertiaryDarker = findRole(demoFamily('tertiary'), 'darker') || palette[demoFamily('tertiary')]!.hex;
+    const tertiaryLighter = findRole(demoFamily('tertiary'), 'lighter') || palette[demoFamily('tertiary')]!.hex;
+    const accentLight = findRole(demoFamily('accent'), 'light') || palette[demoFamily('accent')]!.hex;
+    const accentDark = findRole(demoFamily('accent'), 'dark') || palette[demoFamily('accent')]!.hex;
+    const accentDarker = findRole(demoFamily('accent'), 'darker') || palette[demoFamily('accent')]!.hex;
+    const accentLighter = findRole(demoFamily('accent'), 'lighter') || palette[demoFamily('accent')]!.hex;
 
-    const SEMANTIC_DEFAULTS = {
-      error: { light: 'light' as const, dark: 'dark' as const },
-      warning: { light: 'light' as const, dark: 'dark' as const },
-      success: { light: 'light' as const, dark: 'dark' as const },
-    };
+    const roleDefaults = { light: stepForRole(steps, 'light'), dark: stepForRole(steps, 'dark') };
+    const SEMANTIC_DEFAULTS = { error: roleDefaults, warning: roleDefaults, success: roleDefaults };
     const sem = semanticBandSelection ?? SEMANTIC_DEFAULTS;
     const errorLight = findStep('error', sem.error.light) || palette.error.hex;
     const errorDark = findStep('error', sem.error.dark) || palette.error.hex;
@@ -97,7 +116,7 @@ export const LightDarkPreview: React.FC<Props> = ({ palette, textOnLight, textOn
     const successLightStatusText = chooseForeground(successLight, textOnLight, textOnDark);
     const successDarkStatusText = chooseForeground(successDark, textOnLight, textOnDark);
 
-    return {
+    const colors: Record<string, string> = {
       // Global text variables from generator state
       ['--text-on-light' as any]: textOnLight,
       ['--text-on-dark' as any]: textOnDark,
@@ -159,8 +178,12 @@ export const LightDarkPreview: React.FC<Props> = ({ palette, textOnLight, textOn
       ['--ldp-success-dark' as any]: successDark,
       ['--ldp-success-dark-text' as any]: successDarkText,
       ['--ldp-success-dark-status-text' as any]: successDarkStatusText,
-    } as React.CSSProperties;
-  }, [palette, semanticBandSelection, textOnLight, textOnDark]);
+    };
+    // Everything in the demo resolves through these vars, so simulating them simulates the whole preview
+    return Object.fromEntries(
+      Object.entries(colors).map(([k, hex]) => [k, simulateCvdHex(hex, cvdMode)])
+    ) as React.CSSProperties;
+  }, [palette, semanticBandSelection, steps, textOnLight, textOnDark, cvdMode]);
 
   const containerStyle = useMemo(() => {
     const base: React.CSSProperties = {
@@ -229,6 +252,8 @@ export const LightDarkPreview: React.FC<Props> = ({ palette, textOnLight, textOn
         >Dark</button>
       </div>
 
+      <CvdSimulationControls mode={cvdMode} onModeChange={setCvdMode} confusions={confusions} />
+
       <div className={styles.previewWrapper} style={wrapperStyle}>
         <div className={styles.previewGrid}>
           <div
@@ -1,10 +1,14 @@
 import * as React from 'react';
 import styles from './LuminanceTestStrips.module.css';
 import { Button } from './Button';
-import { PaletteWithVariations, ColorType, SemanticColorType, SwatchPick } from '../helpers/types';
-import { hexToRgb, rgbToHex, rgbToHslNorm, solveHslLightnessForY, luminance, getContrastRatio, hslNormToRgb } from '../helpers/colorUtils';
+import { PaletteWithVariations, ColorType, SemanticColorType, NeutralColorType, SwatchPick, RibbonMode, StepName } from '../helpers/types';
+import { hexToRgb, rgbToHex, rgbToHslNorm, solveLightnessForY, luminance, getContrastRatio, hslNormToRgb, apcaContrast, meetsApcaMin } from '../helpers/colorUtils';
 import { chooseForeground } from '../helpers/themeRuntime';
-import { NEAR_BLACK_RGB, NEAR_WHITE_RGB, TINT_TARGET_COUNT, SHADE_TARGET_COUNT, LIGHT_MIN_Y_BASE, LIGHTER_MAX_Y, LIGHT_MAX_Y_CAP, DARKER_MIN_Y, DARKER_MAX_Y, DARK_OVERLAP_MIN_Y, DARK_MAX_Y, Y_TARGET_DECIMALS, Y_DISPLAY_DECIMALS, RECOMMENDED_TINT_Y_GAP, RECOMMENDED_SHADE_Y_GAP, RECOMMENDED_SHADE_Y_GAP_TOLERANCE, HARD_MIN_SHADE_Y_GAP, TARGET_LUM_LIGHTER, TARGET_LUM_LIGHT, TARGET_LUM_DARK, TARGET_LUM_DARKER, MIN_DELTA_LUM_TINTS, MIN_DELTA_LUM_TINTS_FROM_WHITE, MIN_DELTA_LUM_SHADES, AAA_MIN, AA_SMALL_MIN, MAX_CONTRAST_TINTS, MAX_CONTRAST_SHADES, CLOSE_ENOUGH_TO_WHITE_MIN_LUM, CLOSE_ENOUGH_TO_BLACK_MAX_LUM } from '../helpers/config';
+import { DEFAULT_STEP_SCALE, isDefaultStepScale, stepSlot, type StepScale, type StepTone } from '../helpers/stepScale';
+import type { PaletteRibbons, BandSelections } from '../helpers/paletteEngine';
+import { BRAND_FAMILIES, brandFamiliesOf, brandFamilyLabel } from '../helpers/brandFamilies';
+import { diagnoseToneLuminances, diagnoseStepWindow, explainToneDiagnostics, explainStepDiagnostics, type RibbonColor } from '../helpers/generateRibbons';
+import { NEAR_BLACK_RGB, NEAR_WHITE_RGB, TINT_TARGET_COUNT, SHADE_TARGET_COUNT, LIGHT_MIN_Y_BASE, LIGHTER_MAX_Y, LIGHT_MAX_Y_CAP, DARKER_MIN_Y, DARKER_MAX_Y, DARK_OVERLAP_MIN_Y, DARK_MAX_Y, Y_TARGET_DECIMALS, Y_DISPLAY_DECIMALS, RECOMMENDED_TINT_Y_GAP, RECOMMENDED_SHADE_Y_GAP, RECOMMENDED_SHADE_Y_GAP_TOLERANCE, HARD_MIN_SHADE_Y_GAP, TARGET_LUM_LIGHTER, TARGET_LUM_LIGHT, TARGET_LUM_DARK, TARGET_LUM_DARKER, MIN_DELTA_LUM_TINTS, MIN_DELTA_LUM_TINTS_FROM_WHITE, MIN_DELTA_LUM_SHADES, AAA_MIN, AA_SMALL_MIN, MAX_CONTRAST_TINTS, MAX_CONTRAST_SHADES, CLOSE_ENOUGH_TO_WHITE_MIN_LUM, CLOSE_ENOUGH_TO_BLACK_MAX_LUM, MIN_VARIATIONS_PER_BAND } from '../helpers/config';
 
 // Sentinel value for "not found" - explicit constant makes debugging clearer than -1
 const INDEX_NOT_FOUND = -1;
@@ -31,14 +35,16 @@ function renderPickerSwatchContent(params: {
   y: number;
   level: 'AAA' | 'AA' | 'FAIL';
   contrast: number;
+  lc: number;
   textColor: '#000' | '#fff';
 }) {
-  const { hex, hsl, y, level, contrast, textColor } = params;
+  const { hex, hsl, y, level, contrast, lc, textColor } = params;
   return (
     <>
       <div className={styles.swatchColor} style={{ backgroundColor: hex, color: textColor }}>
         <div className={styles.metaStack}>
           <span className={styles.metaFixed}>{level} {contrast.toFixed(2)}</span>
+          <span className={styles.metaFixed} title="APCA lightness contrast (WCAG 3 draft)">Lc {lc.toFixed(1)}</span>
           <span className={styles.metaFixed}>Y={y.toFixed(Y_DISPLAY_DECIMALS)}</span>
         </div>
         <div className={styles.metaLine}>{hsl}</div>
@@ -70,17 +76,52 @@ function finalizeTargets(values: number[], minDelta: number, maxCount: number) {
   return out;
 }
 
+type ToneDiagnosticsNoteProps = {
+  name: string;
+  baseHex: string;
+  tone: StepTone;
+  textOnLight?: string | undefined;
+  textOnDark?: string | undefined;
+  ribbonMode?: RibbonMode | undefined;
+  minApcaLc?: number | null | undefined;
+  steps?: StepScale | undefined;
+  showDiagnostics?: boolean | undefined;
+};
+
+// Why a tone has few or no colors: open when a step is short of MIN_VARIATIONS_PER_BAND, otherwise only with diagnostics on
+function ToneDiagnosticsNote({ name, baseHex, tone, textOnLight, textOnDark, ribbonMode, minApcaLc, steps = DEFAULT_STEP_SCALE, showDiagnostics }: ToneDiagnosticsNoteProps) {
+  const result = React.useMemo(() => {
+    if (!textOnLight || !textOnDark) return null;
+    const { luminances, diagnostics } = diagnoseToneLuminances(baseHex, tone, textOnLight, textOnDark, ribbonMode, minApcaLc ?? null);
+    const stepLines = steps.filter((st) => st.tone === tone)
+      .map((st) => ({ label: st.label, step: diagnoseStepWindow(luminances, stepSlot(steps, st.name)!) }))
+      .filter(({ step }) => step.kept < MIN_VARIATIONS_PER_BAND)
+      .map(({ label, step }) => explainStepDiagnostics(label, step));
+    return { short: stepLines.length > 0, lines: [...explainToneDiagnostics(name, diagnostics), ...stepLines] };
+  }, [name, baseHex, tone, textOnLight, textOnDark, ribbonMode, minApcaLc, steps]);
+  if (!result || (!result.short && !showDiagnostics)) return null;
+  const kind = tone === 'tint' ? 'tints' : 'shades';
+  return (
+    <details className={result.short ? styles.warningInline : styles.diagnosticsNote} open={result.short}>
+      <summary>{result.short ? `Why ${name} has so few ${kind}` : `${name} ${kind}: what limits the options`}</summary>
+      <ul className={styles.diagnosticsList}>
+        {result.lines.map((line) => <li key={line}>{line}</li>)}
+      </ul>
+    </details>
+  );
+}
+
 type RowProps = {
   name: string;
   baseHex: string;
-  colorKey: ColorType | SemanticColorType;
+  colorKey: ColorType | SemanticColorType | NeutralColorType;
   showDiagnostics?: boolean | undefined;
   selectedLighterIndex?: number | undefined;
   selectedLightIndex?: number | undefined;
   selectedLightHex?: string | undefined;
   selectedLighterHex?: string | undefined;
-  onSelect: (colorKey: ColorType | SemanticColorType, kind: 'lighter' | 'light', index: number) => void;
-  onSelectTint?: ((colorKey: ColorType | SemanticColorType, kind: 'lighter' | 'light', pick: SwatchPick) => void) | undefined;
+  onSelect: (colorKey: ColorType | SemanticColorType | NeutralColorType, kind: 'lighter' | 'light', index: number) => void;
+  onSelectTint?: ((colorKey: ColorType | SemanticColorType | NeutralColorType, kind: 'lighter' | 'light', pick: SwatchPick) => void) | undefined;
   textOnLightRgb?: { r: number; g: number; b: number } | undefined;
   textOnDarkRgb?: { r: number; g: number; b: number } | undefined;
   textOnLight?: string | undefined;
@@ -88,19 +129,21 @@ type RowProps = {
   noticeBgHex?: string | undefined;
   onGoPalette?: (() => void) | undefined;
   anchorId?: string;
+  ribbonMode?: RibbonMode | undefined;
+  minApcaLc?: number | null | undefined;
 };
 
-function RowTints({ name, baseHex, colorKey, showDiagnostics, selectedLighterIndex, selectedLightIndex, selectedLightHex, selectedLighterHex, onSelect, onSelectTint, textOnLightRgb, textOnDarkRgb, textOnLight, textOnDark, noticeBgHex, onGoPalette, anchorId }: RowProps) {
+function RowTints({ name, baseHex, colorKey, showDiagnostics, selectedLighterIndex, selectedLightIndex, selectedLightHex, selectedLighterHex, onSelect, onSelectTint, textOnLightRgb, textOnDarkRgb, textOnLight, textOnDark, noticeBgHex, onGoPalette, anchorId, ribbonMode, minApcaLc }: RowProps) {
   const baseRgb = hexToRgb(baseHex);
   // Prefer live text-on-light token if provided; fall back to near-black
   const blackLike = textOnLightRgb ?? NEAR_BLACK_RGB;
   const filterForBlackTextAAA = React.useCallback((ys: number[]) => {
     return ys
-      .map((y) => ({ y, rgb: solveHslLightnessForY(baseRgb, y) }))
+      .map((y) => ({ y, rgb: solveLightnessForY(baseRgb, y, ribbonMode) }))
       .map(({ y, rgb }) => ({ y, rgb, ratio: getContrastRatio(rgb, blackLike) }))
-      .filter(({ ratio }) => ratio >= AAA_MIN && ratio <= MAX_CONTRAST_TINTS)
+      .filter(({ rgb, ratio }) => ratio >= AAA_MIN && ratio <= MAX_CONTRAST_TINTS && meetsApcaMin(rgb, blackLike, minApcaLc))
       .map(({ y }) => y);
-  }, [baseRgb, blackLike.r, blackLike.g, blackLike.b]);
+  }, [baseRgb, blackLike.r, blackLike.g, blackLike.b, ribbonMode, minApcaLc]);
 
   // Unified AAA-valid list across LIGHT_MIN_Y_BASE..practical max; sample evenly when >= target count; then split
   const { lighterTargetsFiltered, lightTargetsFiltered } = React.useMemo(() => {
@@ -158,7 +201,7 @@ function RowTints({ name, baseHex, colorKey, showDiagnostics, selectedLighterInd
   const lighterYSelected = lighterTargetsFiltered[lighterIndex] ?? TARGET_LUM_LIGHTER;
   const lightYSelected = lightTargetsFiltered[lightIndex] ?? TARGET_LUM_LIGHT;
 
-  const lighterRgb = React.useMemo(() => solveHslLightnessForY(baseRgb, lighterYSelected), [baseRgb, lighterYSelected]);
+  const lighterRgb = React.useMemo(() => solveLightnessForY(baseRgb, lighterYSelected, ribbonMode), [baseRgb, lighterYSelected, ribbonMode]);
   const lighterHex = React.useMemo(() => rgbToHex(lighterRgb.r, lighterRgb.g, lighterRgb.b), [lighterRgb]);
   const lighterY = React.useMemo(() => luminance(lighterRgb.r, lighterRgb.g, lighterRgb.b), [lighterRgb]);
   const lighterHsl = React.useMemo(() => hslStringFromRgb(lighterRgb, true), [lighterRgb]);
@@ -182,7 +225,7 @@ function RowTints({ name, baseHex, colorKey, showDiagnostics, selectedLighterInd
       if (onSelectTint) {
         const targetY = lighterTargetsFiltered[mid];
         if (targetY != null) {
-          const rgb = solveHslLightnessForY(baseRgb, targetY);
+          const rgb = solveLightnessForY(baseRgb, targetY, ribbonMode);
           const hex = rgbToHex(rgb.r, rgb.g, rgb.b);
           const y = luminance(rgb.r, rgb.g, rgb.b);
           const { h, s, l } = rgbToHslNorm(rgb.r, rgb.g, rgb.b);
@@ -228,7 +271,7 @@ function RowTints({ name, baseHex, colorKey, showDiagnostics, selectedLighterInd
         if (onSelectTint) {
           const targetY = lightTargetsFiltered[finalIdx];
           if (targetY != null) {
-            const rgb = solveHslLightnessForY(baseRgb, targetY);
+            const rgb = solveLightnessForY(baseRgb, targetY, ribbonMode);
             const hex = rgbToHex(rgb.r, rgb.g, rgb.b);
             const y = luminance(rgb.r, rgb.g, rgb.b);
             const { h, s, l } = rgbToHslNorm(rgb.r, rgb.g, rgb.b);
@@ -252,7 +295,7 @@ function RowTints({ name, baseHex, colorKey, showDiagnostics, selectedLighterInd
     } else {
       console.log(`[RowTints Init] ${colorKey}: Skipping light init (already set to ${selectedLightIndex})`);
     }
-  }, [lighterTargetsFiltered, lightTargetsFiltered, selectedLighterIndex, selectedLightIndex, onSelect, onSelectTint, colorKey, baseRgb, blackLike, textOnLightRgb, textOnDarkRgb]);
+  }, [lighterTargetsFiltered, lightTargetsFiltered, selectedLighterIndex, selectedLightIndex, onSelect, onSelectTint, colorKey, baseRgb, blackLike, textOnLightRgb, textOnDarkRgb, ribbonMode]);
 
   return (
     <div>
@@ -266,7 +309,7 @@ function RowTints({ name, baseHex, colorKey, showDiagnostics, selectedLighterInd
       </div>
       <div className={styles.stripGrid}>
         {lighterTargetsFiltered.map((targetY, i) => {
-          const rgb = solveHslLightnessForY(baseRgb, targetY);
+          const rgb = solveLightnessForY(baseRgb, targetY, ribbonMode);
           const hex = rgbToHex(rgb.r, rgb.g, rgb.b);
           const contrast = getContrastRatio(rgb, blackLike);
           const level = contrast >= AAA_MIN ? 'AAA' : contrast >= AA_SMALL_MIN ? 'AA' : 'FAIL';
@@ -310,7 +353,7 @@ function RowTints({ name, baseHex, colorKey, showDiagnostics, selectedLighterInd
                 }
               }}
             >
-              {renderPickerSwatchContent({ hex, hsl, y, level, contrast, textColor: '#000' })}
+              {renderPickerSwatchContent({ hex, hsl, y, level, contrast, lc: apcaContrast(blackLike, rgb), textColor: '#000' })}
             </div>
           );
         })}
@@ -367,7 +410,7 @@ function RowTints({ name, baseHex, colorKey, showDiagnostics, selectedLighterInd
       )}
       <div className={styles.stripGrid}>
         {lightTargetsFiltered.map((targetY, i) => {
-          const rgb = solveHslLightnessForY(baseRgb, targetY);
+          const rgb = solveLightnessForY(baseRgb, targetY, ribbonMode);
           const hex = rgbToHex(rgb.r, rgb.g, rgb.b);
           const contrast = getContrastRatio(rgb, blackLike);
           const level = contrast >= AAA_MIN ? 'AAA' : contrast >= AA_SMALL_MIN ? 'AA' : 'FAIL';
@@ -411,12 +454,13 @@ function RowTints({ name, baseHex, colorKey, showDiagnostics, selectedLighterInd
                 }
               }}
             >
-              {renderPickerSwatchContent({ hex, hsl, y, level, contrast, textColor: '#000' })}
+              {renderPickerSwatchContent({ hex, hsl, y, level, contrast, lc: apcaContrast(blackLike, rgb), textColor: '#000' })}
             </div>
           );
         })}
       </div>
       {/* warning now shown inline above the strip when tooClose */}
+      <ToneDiagnosticsNote name={name} baseHex={baseHex} tone="tint" textOnLight={textOnLight} textOnDark={textOnDark} ribbonMode={ribbonMode} minApcaLc={minApcaLc} showDiagnostics={showDiagnostics} />
     </div>
   );
 }
@@ -424,14 +468,14 @@ function RowTints({ name, baseHex, colorKey, showDiagnostics, selectedLighterInd
 type RowShadesProps = {
   name: string;
   baseHex: string;
-  colorKey: ColorType | SemanticColorType;
+  colorKey: ColorType | SemanticColorType | NeutralColorType;
   showDiagnostics?: boolean | undefined;
   selectedDarkerY?: number | undefined; // we will still honor both selections mapping into same 10-strip
   selectedDarkY?: number | undefined;
   selectedDarkHex?: string | undefined;
   selectedDarkerHex?: string | undefined;
-  onSelect: (colorKey: ColorType | SemanticColorType, kind: 'darker' | 'dark', y: number) => void;
-  onSelectShade?: ((colorKey: ColorType | SemanticColorType, kind: 'darker' | 'dark', pick: SwatchPick) => void) | undefined;
+  onSelect: (colorKey: ColorType | SemanticColorType | NeutralColorType, kind: 'darker' | 'dark', y: number) => void;
+  onSelectShade?: ((colorKey: ColorType | SemanticColorType | NeutralColorType, kind: 'darker' | 'dark', pick: SwatchPick) => void) | undefined;
   textOnLightRgb?: { r: number; g: number; b: number } | undefined;
   textOnDarkRgb?: { r: number; g: number; b: number } | undefined;
   textOnLight?: string | undefined;
@@ -439,19 +483,21 @@ type RowShadesProps = {
   noticeBgHex?: string | undefined;
   onGoPalette?: (() => void) | undefined;
   anchorId?: string;
+  ribbonMode?: RibbonMode | undefined;
+  minApcaLc?: number | null | undefined;
 };
 
-function RowShades({ name, baseHex, colorKey, showDiagnostics, selectedDarkerY, selectedDarkY, selectedDarkHex, selectedDarkerHex, onSelect, onSelectShade, textOnLightRgb, textOnDarkRgb, textOnLight, textOnDark, noticeBgHex, anchorId }: RowShadesProps) {
+function RowShades({ name, baseHex, colorKey, showDiagnostics, selectedDarkerY, selectedDarkY, selectedDarkHex, selectedDarkerHex, onSelect, onSelectShade, textOnLightRgb, textOnDarkRgb, textOnLight, textOnDark, noticeBgHex, anchorId, ribbonMode, minApcaLc }: RowShadesProps) {
   const baseRgb = hexToRgb(baseHex);
   // Prefer live text-on-dark token if provided; fall back to near-white
   const whiteLike = textOnDarkRgb ?? NEAR_WHITE_RGB;
   const filterForWhiteTextAAA = React.useCallback((ys: number[]) => {
     return ys
-      .map((y) => ({ y, rgb: solveHslLightnessForY(baseRgb, y) }))
+      .map((y) => ({ y, rgb: solveLightnessForY(baseRgb, y, ribbonMode) }))
       .map(({ y, rgb }) => ({ y, rgb, ratio: getContrastRatio(rgb, whiteLike) }))
-      .filter(({ ratio }) => ratio >= AAA_MIN && ratio <= MAX_CONTRAST_SHADES)
+      .filter(({ rgb, ratio }) => ratio >= AAA_MIN && ratio <= MAX_CONTRAST_SHADES && meetsApcaMin(rgb, whiteLike, minApcaLc))
       .map(({ y }) => y);
-  }, [baseRgb, whiteLike.r, whiteLike.g, whiteLike.b]);
+  }, [baseRgb, whiteLike.r, whiteLike.g, whiteLike.b, ribbonMode, minApcaLc]);
 
   // Unified AAA-valid shade list across DARKER_MIN_Y..DARK_MAX_Y; sample evenly when >= target count; then split
   const { darkerTargets, darkTargets, totalShades } = React.useMemo(() => {
@@ -621,7 +667,7 @@ function RowShades({ name, baseHex, colorKey, showDiagnostics, selectedDarkerY,
           )}
           <div className={styles.stripGrid}>
             {band.targets.map((targetY, i) => {
-              const rgb = solveHslLightnessForY(baseRgb, targetY);
+              const rgb = solveLightnessForY(baseRgb, targetY, ribbonMode);
               const hex = rgbToHex(rgb.r, rgb.g, rgb.b);
               const y = luminance(rgb.r, rgb.g, rgb.b);
               const contrast = getContrastRatio(rgb, whiteLike);
@@ -670,7 +716,7 @@ function RowShades({ name, baseHex, colorKey, showDiagnostics, selectedDarkerY,
                     }
                   }}
                 >
-                  {renderPickerSwatchContent({ hex, hsl: hslStringFromRgb(rgb, true), y, level, contrast, textColor: '#fff' })}
+                  {renderPickerSwatchContent({ hex, hsl: hslStringFromRgb(rgb, true), y, level, contrast, lc: apcaContrast(whiteLike, rgb), textColor: '#fff' })}
                 </div>
               );
             })}
@@ -688,6 +734,95 @@ function RowShades({ name, baseHex, colorKey, showDiagnostics, selectedDarkerY,
           )}
         </React.Fragment>
       ))}
+      <ToneDiagnosticsNote name={name} baseHex={baseHex} tone="shade" textOnLight={textOnLight} textOnDark={textOnDark} ribbonMode={ribbonMode} minApcaLc={minApcaLc} showDiagnostics={showDiagnostics} />
+    </div>
+  );
+}
+
+const STEP_ROW_FAMILIES: Array<{ key: ColorType | SemanticColorType | NeutralColorType; name: string }> = [
+  ...BRAND_FAMILIES.map(({ key, label }) => ({ key, name: label })),
+  { key: 'error', name: 'Error' },
+  { key: 'warning', name: 'Notice' },
+  { key: 'success', name: 'Success' },
+  { key: 'neutral', name: 'Neutral' },
+];
+
+type RowStepsProps = {
+  name: string;
+  colorKey: ColorType | SemanticColorType | NeutralColorType;
+  steps: StepScale;
+  ribbons: Record<string, RibbonColor[]> | undefined;
+  /** Hex currently used for each step (exact pick, else the palette's default) */
+  selectedHexByStep: Record<string, string | undefined>;
+  onSelectStep?: ((colorKey: ColorType | SemanticColorType | NeutralColorType, step: StepName, pick: SwatchPick) => void) | undefined;
+  textOnLightRgb?: { r: number; g: number; b: number } | undefined;
+  textOnDarkRgb?: { r: number; g: number; b: number } | undefined;
+  anchorId?: string;
+  /** Base color and text tokens, for explaining short steps */
+  baseHex: string;
+  textOnLight?: string | undefined;
+  textOnDark?: string | undefined;
+  ribbonMode?: RibbonMode | undefined;
+  minApcaLc?: number | null | undefined;
+  showDiagnostics?: boolean | undefined;
+};
+
+// Custom step scales: one picker per step straight from the engine's ribbons (no lighter/light gap logic)
+function RowSteps({ name, colorKey, steps, ribbons, selectedHexByStep, onSelectStep, textOnLightRgb, textOnDarkRgb, anchorId, baseHex, textOnLight, textOnDark, ribbonMode, minApcaLc, showDiagnostics }: RowStepsProps) {
+  const blackLike = textOnLightRgb ?? NEAR_BLACK_RGB;
+  const whiteLike = textOnDarkRgb ?? NEAR_WHITE_RGB;
+  return (
+    <div id={anchorId}>
+      {steps.map((step) => {
+        const isTint = step.tone === 'tint';
+        const textRgb = isTint ? blackLike : whiteLike;
+        // Lightest first, like the default tint and shade rows
+        const items = [...(ribbons?.[step.name] ?? [])].sort((a, b) => b.y - a.y);
+        const selectedHex = selectedHexByStep[step.name]?.toLowerCase();
+        return (
+          <div key={step.name}>
+            <div className={`${styles.rowTitle} cf-font-600`}>
+              {name}-{step.label}: {items.length ? 'Click your favorite to select it' : 'No AAA-compliant colors for this step'}
+            </div>
+            <div className={styles.stripGrid}>
+              {items.map((item, i) => {
+                const rgb = hexToRgb(item.hex);
+                const contrast = getContrastRatio(rgb, textRgb);
+                const level = contrast >= AAA_MIN ? 'AAA' : contrast >= AA_SMALL_MIN ? 'AA' : 'FAIL';
+                const select = () => {
+                  const { h, s, l } = rgbToHslNorm(rgb.r, rgb.g, rgb.b);
+                  onSelectStep?.(colorKey, step.name, {
+                    colorKey,
+                    step: step.name,
+                    indexDisplayed: i,
+                    hex: item.hex,
+                    hsl: { h, s, l },
+                    y: item.y,
+                    contrastVsTextOnLight: getContrastRatio(rgb, blackLike),
+                    contrastVsTextOnDark: getContrastRatio(rgb, whiteLike),
+                    textToneUsed: isTint ? 'dark' : 'light',
+                  });
+                };
+                return (
+                  <div
+                    key={`${name}-${step.name}-${i}-${item.hex}`}
+                    className={`${styles.swatch} ${item.hex.toLowerCase() === selectedHex ? styles.selected : ''}`}
+                    onClick={select}
+                    role="button"
+                    tabIndex={0}
+                    onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') select(); }}
+                  >
+                    {renderPickerSwatchContent({ hex: item.hex, hsl: hslStringFromRgb(rgb, true), y: item.y, level, contrast, lc: apcaContrast(textRgb, rgb), textColor: isTint ? '#000' : '#fff' })}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+      {(['tint', 'shade'] as const).map((tone) => (
+        <ToneDiagnosticsNote key={tone} name={name} baseHex={baseHex} tone={tone} textOnLight={textOnLight} textOnDark={textOnDark} ribbonMode={ribbonMode} minApcaLc={minApcaLc} steps={steps} showDiagnostics={showDiagnostics} />
+      ))}
     </div>
   );
 }
@@ -706,32 +841,34 @@ export function LuminanceTestStrips({
   anchorPrefix = '',
   onTokensAutoAdjusted,
   showDiagnostics,
+  ribbonMode = 'hsl',
+  minApcaLc = null,
+  steps = DEFAULT_STEP_SCALE,
+  ribbons,
+  onSelectStep,
 }: {
   palette: PaletteWithVariations;
-  selections: Partial<Record<ColorType | SemanticColorType, {
-    lighterIndex?: number;
-    lightIndex?: number;
-    lighterY?: number;
-    lightY?: number;
-    darkerY?: number;
-    darkY?: number
-  }>>;
-  exactSelections?: Partial<Record<ColorType | SemanticColorType, {
-    lighter?: { hex?: string };
-    light?: { hex?: string };
-    dark?: { hex?: string };
-    darker?: { hex?: string };
-  }>>;
-  onSelectTintIndex: (colorKey: ColorType | SemanticColorType, kind: 'lighter' | 'light', index: number) => void;
-  onSelectShadeY: (colorKey: ColorType | SemanticColorType, kind: 'darker' | 'dark', y: number) => void;
-  onSelectTint?: (colorKey: ColorType | SemanticColorType, kind: 'lighter' | 'light', pick: SwatchPick) => void;
-  onSelectShade?: (colorKey: ColorType | SemanticColorType, kind: 'darker' | 'dark', pick: SwatchPick) => void;
+  selections: BandSelections;
+  exactSelections?: Partial<Record<ColorType | SemanticColorType | NeutralColorType, Partial<Record<StepName, { hex?: string }>>>>;
+  onSelectTintIndex: (colorKey: ColorType | SemanticColorType | NeutralColorType, kind: 'lighter' | 'light', index: number) => void;
+  onSelectShadeY: (colorKey: ColorType | SemanticColorType | NeutralColorType, kind: 'darker' | 'dark', y: number) => void;
+  onSelectTint?: (colorKey: ColorType | SemanticColorType | NeutralColorType, kind: 'lighter' | 'light', pick: SwatchPick) => void;
+  onSelectShade?: (colorKey: ColorType | SemanticColorType | NeutralColorType, kind: 'darker' | 'dark', pick: SwatchPick) => void;
   textOnLight?: string;
   textOnDark?: string;
   onGoPalette?: () => void;
   anchorPrefix?: string;
   onTokensAutoAdjusted?: (update: { textOnLight?: string; textOnDark?: string }) => void;
   showDiagnostics?: boolean;
+  /** Ribbon solver; must match the mode used to build the palette's ribbons */
+  ribbonMode?: RibbonMode;
+  /** Optional APCA |Lc| the strips must also reach (same filter as the ribbons) */
+  minApcaLc?: number | null;
+  /** Non-default scales replace the tint/shade rows with one picker per step */
+  steps?: StepScale;
+  /** The palette's ribbons; required to pick colors for a non-default scale */
+  ribbons?: PaletteRibbons;
+  onSelectStep?: (colorKey: ColorType | SemanticColorType | NeutralColorType, step: StepName, pick: SwatchPick) => void;
 }) {
   const textOnLightRgbRaw = React.useMemo(() => (textOnLight ? hexToRgb(textOnLight) : undefined), [textOnLight]);
   const textOnDarkRgbRaw = React.useMemo(() => (textOnDark ? hexToRgb(textOnDark) : undefined), [textOnDark]);
@@ -755,9 +892,9 @@ export function LuminanceTestStrips({
   const computeTintTargets = React.useCallback((baseRgb: { r: number; g: number; b: number }, tolRgb: { r: number; g: number; b: number } | undefined) => {
     const blackLike = tolRgb ?? NEAR_BLACK_RGB;
     const filterAAA = (ys: number[]) => ys
-      .map((y) => ({ y, rgb: solveHslLightnessForY(baseRgb, y) }))
+      .map((y) => ({ y, rgb: solveLightnessForY(baseRgb, y, ribbonMode) }))
       .map(({ y, rgb }) => ({ y, rgb, ratio: getContrastRatio(rgb, blackLike) }))
-      .filter(({ ratio }) => ratio >= AAA_MIN && ratio <= MAX_CONTRAST_TINTS)
+      .filter(({ rgb, ratio }) => ratio >= AAA_MIN && ratio <= MAX_CONTRAST_TINTS && meetsApcaMin(rgb, blackLike, minApcaLc))
       .map(({ y }) => y);
     // Unified AAA list across LIGHT_MIN_Y_BASE..LIGHTER_MAX_Y
     const dense: number[] = [];
@@ -797,14 +934,14 @@ export function LuminanceTestStrips({
       // light = lowest Ys
       light: unified.slice(0, base + overlap),
     };
-  }, []);
+  }, [ribbonMode, minApcaLc]);
 
   const computeShadeTargets = React.useCallback((baseRgb: { r: number; g: number; b: number }, todRgb: { r: number; g: number; b: number } | undefined) => {
     const whiteLike = todRgb ?? NEAR_WHITE_RGB;
     const filterAAA = (ys: number[]) => ys
-      .map((y) => ({ y, rgb: solveHslLightnessForY(baseRgb, y) }))
+      .map((y) => ({ y, rgb: solveLightnessForY(baseRgb, y, ribbonMode) }))
       .map(({ y, rgb }) => ({ y, rgb, ratio: getContrastRatio(rgb, whiteLike) }))
-      .filter(({ ratio }) => ratio >= AAA_MIN && ratio <= MAX_CONTRAST_SHADES)
+      .filter(({ rgb, ratio }) => ratio >= AAA_MIN && ratio <= MAX_CONTRAST_SHADES && meetsApcaMin(rgb, whiteLike, minApcaLc))
       .map(({ y }) => y);
     // Unified AAA list across DARKER_MIN_Y..DARK_MAX_Y
     const dense: number[] = [];
@@ -838,7 +975,7 @@ export function LuminanceTestStrips({
       darker: unified.slice(0, base + overlap),
       dark: unified.slice(Math.max(0, N - (base + overlap))),
     };
-  }, []);
+  }, [ribbonMode, minApcaLc]);
 
   // Track original values before adjustment for warning messages
   const originalTextOnLightRef = React.useRef<string | undefined>(textOnLight);
@@ -847,7 +984,7 @@ export function LuminanceTestStrips({
   // Decide whether to clamp based on available options (need at least 3 in each band)
   const { textOnLightRgb, textOnDarkRgb, adjustedNotice, adjustedLight, adjustedDark } = React.useMemo(() => {
     // Check all color families; clamp if ANY has < 3 options in any band
-    const keys: Array<keyof PaletteWithVariations> = ['primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'];
+    const keys: Array<keyof PaletteWithVariations> = [...brandFamiliesOf(palette), 'error', 'warning', 'success'];
     let insufficient = false;
     for (const k of keys) {
       const baseHex = (palette as any)[k]?.hex as string | undefined;
@@ -925,166 +1062,87 @@ export function LuminanceTestStrips({
         </div>
       )}
 
+      {!isDefaultStepScale(steps) ? (
+        <div className={styles.rows}>
+          {STEP_ROW_FAMILIES.filter(({ key }) => palette[key]).map(({ key, name }) => (
+            <RowSteps
+              key={key}
+              name={name}
+              colorKey={key}
+              steps={steps}
+              ribbons={ribbons?.[key]}
+              selectedHexByStep={Object.fromEntries(steps.map((st) => [
+                st.name,
+                exactSelections?.[key]?.[st.name]?.hex ?? palette[key]?.variations?.find((v) => v.step === st.name)?.hex,
+              ]))}
+              onSelectStep={onSelectStep}
+              textOnLightRgb={textOnLightRgb}
+              textOnDarkRgb={textOnDarkRgb}
+              anchorId={`${anchorPrefix}luminance-${key}`}
+              baseHex={palette[key]!.hex}
+              textOnLight={textOnLight}
+              textOnDark={textOnDark}
+              ribbonMode={ribbonMode}
+              minApcaLc={minApcaLc}
+              showDiagnostics={showDiagnostics}
+            />
+          ))}
+        </div>
+      ) : (
       <div className={styles.rows}>
-        <RowTints
-          name="Primary"
-          baseHex={palette.primary.hex}
-          colorKey="primary"
-          showDiagnostics={showDiagnostics}
-          selectedLighterIndex={selections.primary?.lighterIndex}
-          selectedLightIndex={selections.primary?.lightIndex}
-          selectedLightHex={exactSelections?.primary?.light?.hex}
-          selectedLighterHex={exactSelections?.primary?.lighter?.hex}
-          onSelect={onSelectTintIndex}
-          onSelectTint={onSelectTint}
-          {...(textOnLightRgb ? { textOnLightRgb } : {})}
-          {...(textOnDarkRgb ? { textOnDarkRgb } : {})}
-          textOnLight={textOnLight}
-          textOnDark={textOnDark}
-          noticeBgHex={noticeBgHex}
-          anchorId={`${anchorPrefix}luminance-primary`}
-          onGoPalette={onGoPalette}
-        />
-        <RowShades
-          name="Primary"
-          baseHex={palette.primary.hex}
-          colorKey="primary"
-          showDiagnostics={showDiagnostics}
-          selectedDarkerY={selections.primary?.darkerY}
-          selectedDarkY={selections.primary?.darkY}
-          selectedDarkHex={exactSelections?.primary?.dark?.hex}
-          selectedDarkerHex={exactSelections?.primary?.darker?.hex}
-          onSelect={onSelectShadeY}
-          onSelectShade={onSelectShade}
-          {...(textOnLightRgb ? { textOnLightRgb } : {})}
-          {...(textOnDarkRgb ? { textOnDarkRgb } : {})}
-          textOnLight={textOnLight}
-          textOnDark={textOnDark}
-          noticeBgHex={noticeBgHex}
-          anchorId={`${anchorPrefix}luminance-primary-shades`}
-          onGoPalette={onGoPalette}
-        />
-        <RowTints
-          name="Secondary"
-          baseHex={palette.secondary.hex}
-          colorKey="secondary"
-          showDiagnostics={showDiagnostics}
-          selectedLighterIndex={selections.secondary?.lighterIndex}
-          selectedLightIndex={selections.secondary?.lightIndex}
-          selectedLightHex={exactSelections?.secondary?.light?.hex}
-          selectedLighterHex={exactSelections?.secondary?.lighter?.hex}
-          onSelect={onSelectTintIndex}
-          onSelectTint={onSelectTint}
-          {...(textOnLightRgb ? { textOnLightRgb } : {})}
-          {...(textOnDarkRgb ? { textOnDarkRgb } : {})}
-          textOnLight={textOnLight}
-          textOnDark={textOnDark}
-          noticeBgHex={noticeBgHex}
-          anchorId={`${anchorPrefix}luminance-secondary`}
-          onGoPalette={onGoPalette}
-        />
-        <RowShades
-          name="Secondary"
-          baseHex={palette.secondary.hex}
-          colorKey="secondary"
-          showDiagnostics={showDiagnostics}
-          selectedDarkerY={selections.secondary?.darkerY}
-          selectedDarkY={selections.secondary?.darkY}
-          selectedDarkHex={exactSelections?.secondary?.dark?.hex}
-          selectedDarkerHex={exactSelections?.secondary?.darker?.hex}
-          onSelect={onSelectShadeY}
-          onSelectShade={onSelectShade}
-          {...(textOnLightRgb ? { textOnLightRgb } : {})}
-          {...(textOnDarkRgb ? { textOnDarkRgb } : {})}
-          textOnLight={textOnLight}
-          textOnDark={textOnDark}
-          noticeBgHex={noticeBgHex}
-          anchorId={`${anchorPrefix}luminance-secondary-shades`}
-          onGoPalette={onGoPalette}
-        />
-        <RowTints
-          name="Tertiary"
-          baseHex={palette.tertiary.hex}
-          colorKey="tertiary"
-          showDiagnostics={showDiagnostics}
-          selectedLighterIndex={selections.tertiary?.lighterIndex}
-          selectedLightIndex={selections.tertiary?.lightIndex}
-          selectedLightHex={exactSelections?.tertiary?.light?.hex}
-          selectedLighterHex={exactSelections?.tertiary?.lighter?.hex}
-          onSelect={onSelectTintIndex}
-          onSelectTint={onSelectTint}
-          {...(textOnLightRgb ? { textOnLightRgb } : {})}
-          {...(textOnDarkRgb ? { textOnDarkRgb } : {})}
-          textOnLight={textOnLight}
-          textOnDark={textOnDark}
-          noticeBgHex={noticeBgHex}
-          anchorId={`${anchorPrefix}luminance-tertiary`}
-          onGoPalette={onGoPalette}
-        />
-        <RowShades
-          name="Tertiary"
-          baseHex={palette.tertiary.hex}
-          colorKey="tertiary"
-          showDiagnostics={showDiagnostics}
-          selectedDarkerY={selections.tertiary?.darkerY}
-          selectedDarkY={selections.tertiary?.darkY}
-          selectedDarkHex={exactSelections?.tertiary?.dark?.hex}
-          selectedDarkerHex={exactSelections?.tertiary?.darker?.hex}
-          onSelect={onSelectShadeY}
-          onSelectShade={onSelectShade}
-          {...(textOnLightRgb ? { textOnLightRgb } : {})}
-          {...(textOnDarkRgb ? { textOnDarkRgb } : {})}
-          textOnLight={textOnLight}
-          textOnDark={textOnDark}
-          noticeBgHex={noticeBgHex}
-          anchorId={`${anchorPrefix}luminance-tertiary-shades`}
-          onGoPalette={onGoPalette}
-        />
-        <RowTints
-          name="Accent"
-          baseHex={palette.accent.hex}
-          colorKey="accent"
-          showDiagnostics={showDiagnostics}
-          selectedLighterIndex={selections.accent?.lighterIndex}
-          selectedLightIndex={selections.accent?.lightIndex}
-          selectedLightHex={exactSelections?.accent?.light?.hex}
-          selectedLighterHex={exactSelections?.accent?.lighter?.hex}
-          onSelect={onSelectTintIndex}
-          onSelectTint={onSelectTint}
-          {...(textOnLightRgb ? { textOnLightRgb } : {})}
-          {...(textOnDarkRgb ? { textOnDarkRgb } : {})}
-          textOnLight={textOnLight}
-          textOnDark={textOnDark}
-          noticeBgHex={noticeBgHex}
-          anchorId={`${anchorPrefix}luminance-accent`}
-          onGoPalette={onGoPalette}
-        />
-        <RowShades
-          name="Accent"
-          baseHex={palette.accent.hex}
-          colorKey="accent"
-          showDiagnostics={showDiagnostics}
-          selectedDarkerY={selections.accent?.darkerY}
-          selectedDarkY={selections.accent?.darkY}
-          selectedDarkHex={exactSelections?.accent?.dark?.hex}
-          selectedDarkerHex={exactSelections?.accent?.darker?.hex}
-          onSelect={onSelectShadeY}
-          onSelectShade={onSelectShade}
-          {...(textOnLightRgb ? { textOnLightRgb } : {})}
-          {...(textOnDarkRgb ? { textOnDarkRgb } : {})}
-          textOnLight={textOnLight}
-          textOnDark={textOnDark}
-          noticeBgHex={noticeBgHex}
-          anchorId={`${anchorPrefix}luminance-accent-shades`}
-          onGoPalette={onGoPalette}
-        />
+        {brandFamiliesOf(palette).map((key) => (
+          <React.Fragment key={key}>
+            <RowTints
+              name={brandFamilyLabel(key)}
+              baseHex={palette[key]!.hex}
+              colorKey={key}
+              showDiagnostics={showDiagnostics}
+              selectedLighterIndex={selections[key]?.lighter?.index}
+              selectedLightIndex={selections[key]?.light?.index}
+              selectedLightHex={exactSelections?.[key]?.light?.hex}
+              selectedLighterHex={exactSelections?.[key]?.lighter?.hex}
+              onSelect={onSelectTintIndex}
+              onSelectTint={onSelectTint}
+              {...(textOnLightRgb ? { textOnLightRgb } : {})}
+              {...(textOnDarkRgb ? { textOnDarkRgb } : {})}
+              textOnLight={textOnLight}
+              textOnDark={textOnDark}
+              noticeBgHex={noticeBgHex}
+              anchorId={`${anchorPrefix}luminance-${key}`}
+              ribbonMode={ribbonMode}
+              minApcaLc={minApcaLc}
+              onGoPalette={onGoPalette}
+            />
+            <RowShades
+              name={brandFamilyLabel(key)}
+              baseHex={palette[key]!.hex}
+              colorKey={key}
+              showDiagnostics={showDiagnostics}
+              selectedDarkerY={selections[key]?.darker?.y}
+              selectedDarkY={selections[key]?.dark?.y}
+              selectedDarkHex={exactSelections?.[key]?.dark?.hex}
+              selectedDarkerHex={exactSelections?.[key]?.darker?.hex}
+              onSelect={onSelectShadeY}
+              onSelectShade={onSelectShade}
+              {...(textOnLightRgb ? { textOnLightRgb } : {})}
+              {...(textOnDarkRgb ? { textOnDarkRgb } : {})}
+              textOnLight={textOnLight}
+              textOnDark={textOnDark}
+              noticeBgHex={noticeBgHex}
+              anchorId={`${anchorPrefix}luminance-${key}-shades`}
+              ribbonMode={ribbonMode}
+              minApcaLc={minApcaLc}
+              onGoPalette={onGoPalette}
+            />
+          </React.Fragment>
+        ))}
         <RowTints
           name="Error"
           baseHex={palette.error.hex}
           colorKey="error"
           showDiagnostics={showDiagnostics}
-          selectedLighterIndex={selections.error?.lighterIndex}
-          selectedLightIndex={selections.error?.lightIndex}
+          selectedLighterIndex={selections.error?.lighter?.index}
+          selectedLightIndex={selections.error?.light?.index}
           selectedLightHex={exactSelections?.error?.light?.hex}
           selectedLighterHex={exactSelections?.error?.lighter?.hex}
           onSelect={onSelectTintIndex}
@@ -1095,6 +1153,8 @@ export function LuminanceTestStrips({
           textOnDark={textOnDark}
           noticeBgHex={noticeBgHex}
           anchorId={`${anchorPrefix}luminance-error`}
+          ribbonMode={ribbonMode}
+          minApcaLc={minApcaLc}
           onGoPalette={onGoPalette}
         />
         <RowShades
@@ -1102,8 +1162,8 @@ export function LuminanceTestStrips({
           baseHex={palette.error.hex}
           colorKey="error"
           showDiagnostics={showDiagnostics}
-          selectedDarkerY={selections.error?.darkerY}
-          selectedDarkY={selections.error?.darkY}
+          selectedDarkerY={selections.error?.darker?.y}
+          selectedDarkY={selections.error?.dark?.y}
           selectedDarkHex={exactSelections?.error?.dark?.hex}
           selectedDarkerHex={exactSelections?.error?.darker?.hex}
           onSelect={onSelectShadeY}
@@ -1114,6 +1174,8 @@ export function LuminanceTestStrips({
           textOnDark={textOnDark}
           noticeBgHex={noticeBgHex}
           anchorId={`${anchorPrefix}luminance-error-shades`}
+          ribbonMode={ribbonMode}
+          minApcaLc={minApcaLc}
           onGoPalette={onGoPalette}
         />
         <RowTints
@@ -1121,8 +1183,8 @@ export function LuminanceTestStrips({
           baseHex={palette.warning.hex}
           colorKey="warning"
           showDiagnostics={showDiagnostics}
-          selectedLighterIndex={selections.warning?.lighterIndex}
-          selectedLightIndex={selections.warning?.lightIndex}
+          selectedLighterIndex={selections.warning?.lighter?.index}
+          selectedLightIndex={selections.warning?.light?.index}
           selectedLightHex={exactSelections?.warning?.light?.hex}
           selectedLighterHex={exactSelections?.warning?.lighter?.hex}
           onSelect={onSelectTintIndex}
@@ -1133,6 +1195,8 @@ export function LuminanceTestStrips({
           textOnDark={textOnDark}
           noticeBgHex={noticeBgHex}
           anchorId={`${anchorPrefix}luminance-warning`}
+          ribbonMode={ribbonMode}
+          minApcaLc={minApcaLc}
           onGoPalette={onGoPalette}
         />
         <RowShades
@@ -1140,8 +1204,8 @@ export function LuminanceTestStrips({
           baseHex={palette.warning.hex}
           colorKey="warning"
           showDiagnostics={showDiagnostics}
-          selectedDarkerY={selections.warning?.darkerY}
-          selectedDarkY={selections.warning?.darkY}
+          selectedDarkerY={selections.warning?.darker?.y}
+          selectedDarkY={selections.warning?.dark?.y}
           selectedDarkHex={exactSelections?.warning?.dark?.hex}
           selectedDarkerHex={exactSelections?.warning?.darker?.hex}
           onSelect={onSelectShadeY}
@@ -1152,6 +1216,8 @@ export function LuminanceTestStrips({
           textOnDark={textOnDark}
           noticeBgHex={noticeBgHex}
           anchorId={`${anchorPrefix}luminance-warning-shades`}
+          ribbonMode={ribbonMode}
+          minApcaLc={minApcaLc}
           onGoPalette={onGoPalette}
         />
         <RowTints
@@ -1159,8 +1225,8 @@ export function LuminanceTestStrips({
           baseHex={palette.success.hex}
           colorKey="success"
           showDiagnostics={showDiagnostics}
-          selectedLighterIndex={selections.success?.lighterIndex}
-          selectedLightIndex={selections.success?.lightIndex}
+          selectedLighterIndex={selections.success?.lighter?.index}
+          selectedLightIndex={selections.success?.light?.index}
           selectedLightHex={exactSelections?.success?.light?.hex}
           selectedLighterHex={exactSelections?.success?.lighter?.hex}
           onSelect={onSelectTintIndex}
@@ -1171,6 +1237,8 @@ export function LuminanceTestStrips({
           textOnDark={textOnDark}
           noticeBgHex={noticeBgHex}
           anchorId={`${anchorPrefix}luminance-success`}
+          ribbonMode={ribbonMode}
+          minApcaLc={minApcaLc}
           onGoPalette={onGoPalette}
         />
         <RowShades
@@ -1178,8 +1246,8 @@ export function LuminanceTestStrips({
           baseHex={palette.success.hex}
           colorKey="success"
           showDiagnostics={showDiagnostics}
-          selectedDarkerY={selections.success?.darkerY}
-          selectedDarkY={selections.success?.darkY}
+          selectedDarkerY={selections.success?.darker?.y}
+          selectedDarkY={selections.success?.dark?.y}
           selectedDarkHex={exactSelections?.success?.dark?.hex}
           selectedDarkerHex={exactSelections?.success?.darker?.hex}
           onSelect={onSelectShadeY}
@@ -1190,9 +1258,58 @@ export function LuminanceTestStrips({
           textOnDark={textOnDark}
           noticeBgHex={noticeBgHex}
           anchorId={`${anchorPrefix}luminance-success-shades`}
+          ribbonMode={ribbonMode}
+          minApcaLc={minApcaLc}
           onGoPalette={onGoPalette}
         />
+        {palette.neutral && (
+          <>
+            <RowTints
+              name="Neutral"
+              baseHex={palette.neutral.hex}
+              colorKey="neutral"
+              showDiagnostics={showDiagnostics}
+              selectedLighterIndex={selections.neutral?.lighter?.index}
+              selectedLightIndex={selections.neutral?.light?.index}
+              selectedLightHex={exactSelections?.neutral?.light?.hex}
+              selectedLighterHex={exactSelections?.neutral?.lighter?.hex}
+              onSelect={onSelectTintIndex}
+              onSelectTint={onSelectTint}
+              {...(textOnLightRgb ? { textOnLightRgb } : {})}
+              {...(textOnDarkRgb ? { textOnDarkRgb } : {})}
+              textOnLight={textOnLight}
+              textOnDark={textOnDark}
+              noticeBgHex={noticeBgHex}
+              anchorId={`${anchorPrefix}luminance-neutral`}
+              ribbonMode={ribbonMode}
+              minApcaLc={minApcaLc}
+              onGoPalette={onGoPalette}
+            />
+            <RowShades
+              name="Neutral"
+              baseHex={palette.neutral.hex}
+              colorKey="neutral"
+              showDiagnostics={showDiagnostics}
+              selectedDarkerY={selections.neutral?.darker?.y}
+              selectedDarkY={selections.neutral?.dark?.y}
+              selectedDarkHex={exactSelections?.neutral?.dark?.hex}
+              selectedDarkerHex={exactSelections?.neutral?.darker?.hex}
+              onSelect={onSelectShadeY}
+              onSelectShade={onSelectShade}
+              {...(textOnLightRgb ? { textOnLightRgb } : {})}
+              {...(textOnDarkRgb ? { textOnDarkRgb } : {})}
+              textOnLight={textOnLight}
+              textOnDark={textOnDark}
+              noticeBgHex={noticeBgHex}
+              anchorId={`${anchorPrefix}luminance-neutral-shades`}
+              ribbonMode={ribbonMode}
+              minApcaLc={minApcaLc}
+              onGoPalette={onGoPalette}
+            />
+          </>
+        )}
       </div>
+      )}
     </section>
   );
 }
@@ -0,0 +1,43 @@
+import React from 'react';
+import type { CritiqueFinding, CritiqueFix, CritiqueSeverity } from '../helpers/paletteCritique';
+import { Button } from './Button';
+import styles from './PaletteCritique.module.css';
+
+export interface PaletteCritiqueProps {
+  /** Findings from critiquePalette, most severe first */
+  findings: CritiqueFinding[];
+  /** When given, findings with a suggested color get a "Try" button */
+  onApplyFix?: (fix: CritiqueFix) => void;
+  className?: string;
+}
+
+const SEVERITY_LABELS: Record<CritiqueSeverity, string> = { error: 'Problem', warning: 'Check', info: 'Idea' };
+
+// Shown on the Starting Colors and Palette tabs: the harmony guide's checklist, applied to the current colors
+export const PaletteCritique = ({ findings, onApplyFix, className }: PaletteCritiqueProps) => (
+  <div className={`${styles.critique} ${className || ''}`}>
+    <div className="cf-font-600">Palette review</div>
+    {findings.length === 0 ? (
+      <div className={styles.ok}>No issues: saturation, hue spacing, semantic and text colors all look fine.</div>
+    ) : (
+      <ul className={styles.findings}>
+        {findings.map((f, i) => (
+          <li key={`${f.rule}-${f.families.join('-')}-${i}`} className={`${styles.finding} ${styles[f.severity]}`}>
+            <span className={styles.badge}>{SEVERITY_LABELS[f.severity]}</span>
+            <span>
+              {f.message} <span className={styles.suggestion}>{f.suggestion}</span>
+            </span>
+            {f.fix && onApplyFix && (
+              <Button type="button" variant="ghost" size="sm" onClick={() => onApplyFix(f.fix!)} title={`Set to ${f.fix.hex}`}>
+                <span className={styles.chip} style={{ backgroundColor: f.fix.hex }} aria-hidden="true" />
+                Try
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default PaletteCritique;
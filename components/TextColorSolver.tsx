@@ -0,0 +1,57 @@
+import React from 'react';
+import type { TextColorProposal } from '../helpers/textColorSolver';
+import { MIN_VARIATIONS_PER_BAND } from '../helpers/config';
+import { Button } from './Button';
+import styles from './TextColorSolver.module.css';
+
+export interface TextColorSolverProps {
+  /** Pairs from solveTextColors, most coverage first; null until the user asks for suggestions */
+  proposals: TextColorProposal[] | null;
+  /** True while the solver runs */
+  solving?: boolean;
+  onSuggest: () => void;
+  onApply: (proposal: TextColorProposal) => void;
+  className?: string;
+}
+
+const Swatch = ({ hex, label }: { hex: string; label: string }) => (
+  <span className={styles.swatchLabel}>
+    <span className={styles.swatch} style={{ backgroundColor: hex }} aria-hidden="true" />
+    {label} {hex}
+  </span>
+);
+
+const change = (before: number, after: number) => (before === after ? `${after}` : `${before} → ${after}`);
+
+// Shown on the Manual tab while the text colors leave some step short of AAA options: one-click text color pairs
+export const TextColorSolver = ({ proposals, solving = false, onSuggest, onApply, className }: TextColorSolverProps) => (
+  <div className={`${styles.solver} ${className || ''}`}>
+    <div className="cf-font-600">Suggested text colors</div>
+    {proposals === null ? (
+      <div>
+        <Button type="button" variant="outline" size="sm" onClick={onSuggest} disabled={solving}>
+          {solving ? 'Searching text colors…' : 'Suggest text colors'}
+        </Button>
+      </div>
+    ) : proposals.length === 0 ? (
+      <div className={styles.hint}>
+        No darker Text on Light or lighter Text on Dark in the same hue gives every color {MIN_VARIATIONS_PER_BAND} AAA tints and shades. Try a different hue for the text colors.
+      </div>
+    ) : (
+      <ul className={styles.proposals}>
+        {proposals.map((p) => (
+          <li key={`${p.textOnLight}-${p.textOnDark}`} className={styles.proposal}>
+            <Swatch hex={p.textOnLight} label="Text on Light" />
+            <Swatch hex={p.textOnDark} label="Text on Dark" />
+            <span className={styles.hint}>
+              Fewest options per step: tints {change(p.before.tints, p.after.tints)}, shades {change(p.before.shades, p.after.shades)}
+            </span>
+            <Button type="button" variant="outline" size="sm" onClick={() => onApply(p)}>Apply</Button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default TextColorSolver;
@@ -1,6 +1,7 @@
 import React from 'react';
 import { ThemeVariation } from '../helpers/generateThemeVariations';
 import { ensureAAAContrast } from '../helpers/ensureAAAContrast';
+import { brandFamiliesOf, brandFamily } from '../helpers/brandFamilies';
 import { Skeleton } from './Skeleton';
 import styles from './ThemeVariations.module.css';
 
@@ -19,70 +20,29 @@ const VariationCard = ({ variation }: { variation: ThemeVariation }) => {
         <p className={styles.variationDescription}>{description}</p>
       </div>
       <div className={styles.colorSwatches}>
-        <div
-          className={styles.colorSwatch}
-          style={{
-            backgroundColor: palette.primary.hex,
-            ...(ensureAAAContrast(palette.primary.hex).overlayColor && {
-              backgroundImage: `linear-gradient(${ensureAAAContrast(palette.primary.hex).overlayColor}, ${ensureAAAContrast(palette.primary.hex).overlayColor})`
-            })
-          }}
-        >
-          <span
-            className={styles.colorLabel}
-            style={{ color: ensureAAAContrast(palette.primary.hex).textColor }}
-          >
-            P
-          </span>
-        </div>
-        <div
-          className={styles.colorSwatch}
-          style={{
-            backgroundColor: palette.secondary.hex,
-            ...(ensureAAAContrast(palette.secondary.hex).overlayColor && {
-              backgroundImage: `linear-gradient(${ensureAAAContrast(palette.secondary.hex).overlayColor}, ${ensureAAAContrast(palette.secondary.hex).overlayColor})`
-            })
-          }}
-        >
-          <span
-            className={`${styles.colorLabel} cf-font-600`}
-            style={{ color: ensureAAAContrast(palette.secondary.hex).textColor }}
-          >
-            S
-          </span>
-        </div>
-        <div
-          className={styles.colorSwatch}
-          style={{
-            backgroundColor: palette.tertiary.hex,
-            ...(ensureAAAContrast(palette.tertiary.hex).overlayColor && {
-              backgroundImage: `linear-gradient(${ensureAAAContrast(palette.tertiary.hex).overlayColor}, ${ensureAAAContrast(palette.tertiary.hex).overlayColor})`
-            })
-          }}
-        >
-          <span
-            className={styles.colorLabel}
-            style={{ color: ensureAAAContrast(palette.tertiary.hex).textColor }}
-          >
-            T
-          </span>
-        </div>
-        <div
-          className={styles.colorSwatch}
-          style={{
-            backgroundColor: palette.accent.hex,
-            ...(ensureAAAContrast(palette.accent.hex).overlayColor && {
-              backgroundImage: `linear-gradient(${ensureAAAContrast(palette.accent.hex).overlayColor}, ${ensureAAAContrast(palette.accent.hex).overlayColor})`
-            })
-          }}
-        >
-          <span
-            className={styles.colorLabel}
-            style={{ color: ensureAAAContrast(palette.accent.hex).textColor }}
-          >
-            A
-          </span>
-        </div>
+        {brandFamiliesOf(palette).map((key) => {
+          const hex = palette[key]!.hex;
+          const { overlayColor, textColor } = ensureAAAContrast(hex);
+          return (
+            <div
+              key={key}
+              className={styles.colorSwatch}
+              style={{
+                backgroundColor: hex,
+                ...(overlayColor && {
+                  backgroundImage: `linear-gradient(${overlayColor}, ${overlayColor})`
+                })
+              }}
+            >
+              <span
+                className={styles.colorLabel}
+                style={{ color: textColor }}
+              >
+                {brandFamily(key).short}
+              </span>
+            </div>
+          );
+        })}
       </div>
     </div>
   );
@@ -107,7 +67,7 @@ export const ThemeVariations = ({ variations, isLoading }: ThemeVariationsProps)
     <section className={styles.section}>
       <h2 className={`${styles.sectionTitle} cf-font-600`}>Theme Variations</h2>
       <p className={styles.sectionDescription}>
-        Explore different combinations of your core colors. Each variation maintains the same accent and semantic colors while rotating the primary, secondary, and tertiary assignments.
+        Explore different combinations of your core colors. Each variation maintains the same accent and semantic colors while rotating the other brand color assignments.
       </p>
       <div className={styles.variationsGrid}>
         {isLoading ? (
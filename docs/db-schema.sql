@@ -58,14 +58,18 @@ BEGIN
   VALUES (p_user_id, p_email)
   ON CONFLICT (user_id) DO UPDATE SET email = COALESCE(EXCLUDED.email, users.email);
 
-  INSERT INTO entitlements(user_id)
-  VALUES (p_user_id)
+  -- New accounts start on the free plan with trial credits
+  -- (keep in sync with FREE_TRIAL_EXPORT_CREDITS in helpers/server/db.ts)
+  INSERT INTO entitlements(user_id, plan, export_credits)
+  VALUES (p_user_id, 'free', 3)
   ON CONFLICT (user_id) DO NOTHING;
 END;
 $$ LANGUAGE plpgsql;
 
 -- Atomic decrement of one export credit, returns TRUE if decremented
 -- Use when packs/credits are in effect (export_credits not null)
+-- Note: the app uses helpers/server/db.ts (consumeExportCredit), which also applies the
+-- monthly resets_at rollover for pro plans and writes an audit_logs row in the same transaction.
 CREATE OR REPLACE FUNCTION try_decrement_credit(p_user_id TEXT)
 RETURNS BOOLEAN AS $$
 DECLARE
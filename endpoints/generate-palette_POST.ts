@@ -1,5 +1,5 @@
 import { schema, OutputType } from "./generate-palette_POST.schema";
-import { Palette, PaletteWithVariations } from "../helpers/types";
+import { Color, Palette, PaletteWithVariations } from "../helpers/types";
 import { generateShades } from "../helpers/colorUtils";
 import superjson from 'superjson';
 import { z } from "zod";
@@ -91,7 +91,7 @@ export async function handle(request: Request): Promise<Response> {
     }
 
     // Combine AI-generated colors with fixed semantic colors (explicit shape to satisfy Palette)
-    const basePalette: Palette = {
+    const basePalette: Palette & Pick<Required<Palette>, 'secondary' | 'tertiary' | 'accent'> = {
       primary: { name: aiBasePalette.primary.name, hex: aiBasePalette.primary.hex },
       secondary: { name: aiBasePalette.secondary.name, hex: aiBasePalette.secondary.hex },
       tertiary: { name: aiBasePalette.tertiary.name, hex: aiBasePalette.tertiary.hex },
@@ -101,14 +101,15 @@ export async function handle(request: Request): Promise<Response> {
       success: { name: semanticColors.success.name, hex: semanticColors.success.hex },
     };
 
+    const withShades = (c: Color) => ({ ...c, variations: generateShades(c.hex, c.name) });
     const paletteWithVariations: PaletteWithVariations = {
-      primary: { ...basePalette.primary, variations: generateShades(basePalette.primary.hex, basePalette.primary.name) },
-      secondary: { ...basePalette.secondary, variations: generateShades(basePalette.secondary.hex, basePalette.secondary.name) },
-      tertiary: { ...basePalette.tertiary, variations: generateShades(basePalette.tertiary.hex, basePalette.tertiary.name) },
-      accent: { ...basePalette.accent, variations: generateShades(basePalette.accent.hex, basePalette.accent.name) },
-      error: { ...basePalette.error, variations: generateShades(basePalette.error.hex, basePalette.error.name) },
-      warning: { ...basePalette.warning, variations: generateShades(basePalette.warning.hex, basePalette.warning.name) },
-      success: { ...basePalette.success, variations: generateShades(basePalette.success.hex, basePalette.success.name) },
+      primary: withShades(basePalette.primary),
+      secondary: withShades(basePalette.secondary),
+      tertiary: withShades(basePalette.tertiary),
+      accent: withShades(basePalette.accent),
+      error: withShades(basePalette.error),
+      warning: withShades(basePalette.warning),
+      success: withShades(basePalette.success),
     };
 
     return new Response(superjson.stringify(paletteWithVariations satisfies OutputType), {
@@ -0,0 +1,75 @@
+// Browser client for the account API routes (/api/me/*, /api/stripe/*)
+// Sessions travel as same-origin cookies; in development the X-Dev-User-Id header
+// can be set by storing a user id in localStorage under 'gl_dev_user_id'.
+
+export type EntitlementsResponse = {
+  plan: 'free' | 'pro' | 'pack';
+  credits: number | null;
+  subActive: boolean;
+  resetsAt: string | null;
+};
+
+/** Error carrying the HTTP status of a failed API call */
+export class ApiError extends Error {
+  status: number;
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+export function apiHeaders(extra?: Record<string, string>): Record<string, string> {
+  const headers: Record<string, string> = { ...(extra ?? {}) };
+  try {
+    const devUser = typeof localStorage !== 'undefined' ? localStorage.getItem('gl_dev_user_id') : null;
+    if (devUser && devUser.trim()) headers['X-Dev-User-Id'] = devUser.trim();
+  } catch { }
+  return headers;
+}
+
+/** Read the `{ error }` message from a failed response, falling back to the status code */
+export async function readApiError(res: Response): Promise<ApiError> {
+  try {
+    const body = await res.json();
+    if (body && typeof body.error === 'string') return new ApiError(body.error, res.status);
+  } catch { }
+  return new ApiError(`Request failed with status ${res.status}`, res.status);
+}
+
+export async function fetchEntitlements(): Promise<EntitlementsResponse> {
+  const res = await fetch('/api/me/entitlements', { credentials: 'same-origin', headers: apiHeaders() });
+  if (!res.ok) throw await readApiError(res);
+  // A host without the account API (e.g. the Vite dev server) answers with its HTML page
+  if (!res.headers.get('content-type')?.includes('application/json')) throw new ApiError('No account API on this server', 404);
+  return (await res.json()) as EntitlementsResponse;
+}
+
+export type CheckoutMode = 'subscription' | 'payment';
+
+/** Start Stripe Checkout; resolves to the hosted checkout URL */
+export async function createCheckoutSession(body: { mode: CheckoutMode; quantity?: number }): Promise<string> {
+  const res = await fetch('/api/stripe/create-checkout-session', {
+    method: 'POST',
+    credentials: 'same-origin',
+    headers: apiHeaders({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) throw await readApiError(res);
+  const { url } = (await res.json()) as { url?: string | null };
+  if (!url) throw new ApiError('Checkout session has no URL', res.status);
+  return url;
+}
+
+/** Open the Stripe customer billing portal; resolves to the portal URL */
+export async function createPortalLink(): Promise<string> {
+  const res = await fetch('/api/stripe/portal-link', {
+    method: 'POST',
+    credentials: 'same-origin',
+    headers: apiHeaders(),
+  });
+  if (!res.ok) throw await readApiError(res);
+  const { url } = (await res.json()) as { url?: string | null };
+  if (!url) throw new ApiError('Billing portal has no URL', res.status);
+  return url;
+}
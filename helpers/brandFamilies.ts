@@ -0,0 +1,101 @@
+// helpers/brandFamilies.ts
+// Ordered registry of brand color families. A palette uses the first N of them (Primary is always present);
+// the classic four are Primary/Secondary/Tertiary/Accent, further families follow WordPress's accent-N slugs.
+// Each family has a one-letter code used by export variation names such as "spta".
+
+import type { ColorType, Palette } from './types';
+
+export interface BrandFamilyDefinition {
+  /** Palette key and export slug (CSS variables, theme.json slugs, class names) */
+  key: ColorType;
+  /** Human label, e.g. "Secondary" */
+  label: string;
+  /** Short label used in compact UI and theme.json names, e.g. "S" */
+  short: string;
+  /** Letter used in export variation codes */
+  code: string;
+  /** Starting color when the family is added */
+  defaultHex: string;
+}
+
+export const BRAND_FAMILIES: readonly BrandFamilyDefinition[] = [
+  { key: 'primary', label: 'Primary', short: 'P', code: 'p', defaultHex: '#2563eb' },
+  { key: 'secondary', label: 'Secondary', short: 'S', code: 's', defaultHex: '#4f46e5' },
+  { key: 'tertiary', label: 'Tertiary', short: 'T', code: 't', defaultHex: '#059669' },
+  { key: 'accent', label: 'Accent', short: 'A', code: 'a', defaultHex: '#db2777' },
+  { key: 'accent-2', label: 'Accent 2', short: 'A2', code: 'b', defaultHex: '#d97706' },
+  { key: 'accent-3', label: 'Accent 3', short: 'A3', code: 'c', defaultHex: '#0891b2' },
+  { key: 'accent-4', label: 'Accent 4', short: 'A4', code: 'd', defaultHex: '#7c3aed' },
+  { key: 'accent-5', label: 'Accent 5', short: 'A5', code: 'e', defaultHex: '#65a30d' },
+];
+
+export const BRAND_FAMILY_KEYS: readonly ColorType[] = BRAND_FAMILIES.map((f) => f.key);
+
+export const MIN_BRAND_FAMILIES = 1;
+export const MAX_BRAND_FAMILIES = BRAND_FAMILIES.length;
+/** Primary, Secondary, Tertiary and Accent */
+export const DEFAULT_BRAND_FAMILY_COUNT = 4;
+
+export function brandFamily(key: ColorType): BrandFamilyDefinition {
+  return BRAND_FAMILIES.find((f) => f.key === key)!;
+}
+
+export function isBrandFamily(key: string): key is ColorType {
+  return BRAND_FAMILY_KEYS.includes(key as ColorType);
+}
+
+export function brandFamilyLabel(key: ColorType): string {
+  return brandFamily(key).label;
+}
+
+export function brandFamilyForCode(code: string | undefined): ColorType | undefined {
+  return BRAND_FAMILIES.find((f) => f.code === code)?.key;
+}
+
+/** The first `count` families of the registry (clamped to 1..MAX_BRAND_FAMILIES) */
+export function brandFamilyKeys(count: number = DEFAULT_BRAND_FAMILY_COUNT): ColorType[] {
+  const n = Math.max(MIN_BRAND_FAMILIES, Math.min(MAX_BRAND_FAMILIES, Math.round(count) || DEFAULT_BRAND_FAMILY_COUNT));
+  return BRAND_FAMILY_KEYS.slice(0, n);
+}
+
+/** Brand families present in a palette, in registry order */
+export function brandFamiliesOf(palette: Partial<Record<ColorType, unknown>>): ColorType[] {
+  return BRAND_FAMILY_KEYS.filter((k) => !!palette[k]);
+}
+
+/**
+ * Resize the brand families of a palette to `count`: existing colors are kept,
+ * new families start from their default color and families past the count are dropped.
+ */
+export function withBrandFamilyCount(palette: Palette, count: number): Palette {
+  const keep = new Set(brandFamilyKeys(count));
+  const out: Palette = { ...palette };
+  for (const f of BRAND_FAMILIES) {
+    if (keep.has(f.key)) out[f.key] = palette[f.key] ?? { name: f.label, hex: f.defaultHex };
+    else if (f.key !== 'primary') delete out[f.key];
+  }
+  return out;
+}
+
+/**
+ * Resize to `count` families (default: the palette's current count) and take each present family's
+ * color from `hexes` when it holds a valid hex, e.g. the Manual form values.
+ */
+export function withBrandHexes(palette: Palette, hexes: Partial<Record<string, unknown>>, count: number = brandFamiliesOf(palette).length): Palette {
+  const out = withBrandFamilyCount(palette, count);
+  for (const key of brandFamiliesOf(out)) {
+    const hex = hexes[key];
+    if (typeof hex === 'string' && /^#[0-9a-f]{6}$/i.test(hex)) out[key] = { ...out[key]!, hex };
+  }
+  return out;
+}
+
+/** A color for every registry family: the palette's own, else the family default */
+export function allBrandHexes(palette: Palette): Record<ColorType, string> {
+  return Object.fromEntries(BRAND_FAMILIES.map((f) => [f.key, palette[f.key]?.hex ?? f.defaultHex])) as Record<ColorType, string>;
+}
+
+/** Colors of the families present in a palette, keyed by family */
+export function brandHexesOf(palette: Palette): Partial<Record<ColorType, string>> {
+  return Object.fromEntries(brandFamiliesOf(palette).map((k) => [k, palette[k]!.hex]));
+}
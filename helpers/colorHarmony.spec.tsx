@@ -0,0 +1,87 @@
+import { createSeededRandom, generateSeededPalette, HARMONY_RULES, generateHarmonyPalette, generateHarmonyCandidates } from "./colorHarmony";
+import { parseWpwmPaletteV1 } from "./paletteFormat";
+import { brandFamiliesOf, brandHexesOf } from "./brandFamilies";
+import { generateRibbonForBand } from "./generateRibbons";
+import { hexToRgb, rgbToHslNorm } from "./colorUtils";
+import { MIN_VARIATIONS_PER_BAND } from "./config";
+
+const textOnLight = "#453521";
+const textOnDark = "#F8F7F7";
+const hueOf = (hex: string) => { const { r, g, b } = hexToRgb(hex); return rgbToHslNorm(r, g, b).h; };
+
+describe("generateSeededPalette", () => {
+  it("should repeat the same sequence for the same seed", () => {
+    const a = createSeededRandom("k3f9x2"), b = createSeededRandom("k3f9x2"), c = createSeededRandom("k3f9x3");
+    const first = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(first);
+    expect([c(), c(), c()]).not.toEqual(first);
+    first.forEach((n) => { expect(n).toBeGreaterThanOrEqual(0); expect(n).toBeLessThan(1); });
+  });
+
+  it("should give the same palette for the same seed and a different one for another seed", () => {
+    const a = generateSeededPalette({ seed: "brand-1" });
+    expect(generateSeededPalette({ seed: "brand-1" })).toEqual(a);
+    expect(brandHexesOf(generateSeededPalette({ seed: "brand-2" }))).not.toEqual(brandHexesOf(a));
+    expect(brandFamiliesOf(a)).toEqual(["primary", "secondary", "tertiary", "accent"]);
+    expect(brandFamiliesOf(generateSeededPalette({ seed: "brand-1", count: 6 })).length).toBe(6);
+  });
+
+  it("should keep locked colors and regenerate only the unlocked ones", () => {
+    const base = generateSeededPalette({ seed: "first" });
+    const next = generateSeededPalette({ seed: "second", base, locked: ["primary", "accent"] });
+    expect(next.primary.hex).toBe(base.primary.hex);
+    expect(next.accent!.hex).toBe(base.accent!.hex);
+    expect(next.secondary!.hex).not.toBe(base.secondary!.hex);
+    expect(next.tertiary!.hex).not.toBe(base.tertiary!.hex);
+    // Locking Accent does not change what the seed gives the other families
+    const onlyPrimary = generateSeededPalette({ seed: "second", base, locked: ["primary"] });
+    expect(onlyPrimary.secondary!.hex).toBe(next.secondary!.hex);
+  });
+
+  it("should round-trip the seed and locks through wpwm-palette/v1", () => {
+    const doc = parseWpwmPaletteV1({
+      format: "wpwm-palette/v1",
+      colors: { textOnDark: "#F8F7F7", textOnLight: "#453521", primary: "#2563eb", secondary: "#4f46e5" },
+      seed: "k3f9x2",
+      locked: ["primary"],
+    });
+    expect(doc.seed).toBe("k3f9x2");
+    expect(doc.locked).toEqual(["primary"]);
+    expect(() => parseWpwmPaletteV1({
+      format: "wpwm-palette/v1",
+      colors: { textOnDark: "#F8F7F7", textOnLight: "#453521", primary: "#2563eb" },
+      locked: ["tertiary-2"],
+    })).toThrowError(/locked\.0/);
+  });
+});
+
+describe("harmony rules", () => {
+  it("should place the brand hues by the rule's angles from the base hue", () => {
+    const square = generateHarmonyPalette("square", { baseHue: 200 });
+    [200, 290, 20, 110].forEach((hue, i) => {
+      const key = brandFamiliesOf(square)[i]!;
+      expect(Math.abs(hueOf(square[key]!.hex) - hue)).toBeLessThan(2);
+    });
+    const split = generateHarmonyPalette("split-complementary", { baseHue: 0, count: 6 });
+    expect(brandFamiliesOf(split).length).toBe(6);
+  });
+
+  it("should offer only candidates whose every family has enough AAA ribbon options", () => {
+    for (const { value } of HARMONY_RULES) {
+      const candidates = generateHarmonyCandidates(value, { baseHue: 220 }, { textOnLight, textOnDark }, 2);
+      expect(candidates.length).withContext(value).toBeGreaterThan(0);
+      for (const c of candidates) {
+        for (const key of brandFamiliesOf(c)) {
+          for (const band of ["lighter", "light", "dark", "darker"] as const) {
+            expect(generateRibbonForBand(c[key]!.hex, band, textOnLight, textOnDark).length).withContext(`${value} ${key} ${band}`)
+              .toBeGreaterThanOrEqual(MIN_VARIATIONS_PER_BAND);
+          }
+        }
+      }
+    }
+  });
+
+  it("should return no candidates when the text colors leave no room for AAA shades", () => {
+    expect(generateHarmonyCandidates("triadic", { baseHue: 40 }, { textOnLight, textOnDark: "#808080" })).toEqual([]);
+  });
+});
@@ -2,9 +2,13 @@ import {
   hexToRgb,
   rgbToHex,
   luminance,
-  generateShades,
+  rgbToHslNorm,
 } from './colorUtils';
-import { Palette, Color } from './types';
+import { Palette, Color, ColorType, RibbonMode } from './types';
+import { BRAND_FAMILIES, brandFamiliesOf, brandFamilyKeys, DEFAULT_BRAND_FAMILY_COUNT } from './brandFamilies';
+import { generateRibbonForBand } from './generateRibbons';
+import { DEFAULT_STEP_SCALE, stepSlot, type StepScale } from './stepScale';
+import { MIN_VARIATIONS_PER_BAND } from './config';
 
 /**
  * Converts an HSL color value to RGB. Conversion formula
@@ -50,18 +54,49 @@ const hslToRgb = (
   };
 };
 
+/**
+ * Deterministic pseudo-random numbers in [0, 1) for a seed string
+ * (FNV-1a hash of the seed feeding a mulberry32 generator).
+ *
+ * @param   seed    Any string; the same seed always gives the same sequence
+ * @return  A function returning the next number of the sequence
+ */
+export const createSeededRandom = (seed: string): (() => number) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  let a = h >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * A new short seed such as "k3f9x2". Only picking the seed is random;
+ * the palette generated from it is always the same.
+ */
+export const newPaletteSeed = (): string =>
+  Math.floor(Math.random() * 36 ** 6).toString(36).padStart(6, '0');
+
 /**
  * Generates a single random color with a target luminance.
  * It tries a few times to find a color within the desired luminance range.
  *
+ * @param   random  Source of numbers in [0, 1), e.g. from createSeededRandom
  * @returns A Color object with its hex value.
  */
-const generateRandomColorWithMediumLuminance = (): Color => {
+const generateRandomColorWithMediumLuminance = (random: () => number): Color => {
   const MAX_ATTEMPTS = 10;
   for (let i = 0; i < MAX_ATTEMPTS; i++) {
-    const h = Math.random(); // Hue [0, 1]
-    const s = 0.6 + Math.random() * 0.3; // Saturation [0.6, 0.9] for vibrant colors
-    const l = 0.4 + Math.random() * 0.2; // Lightness [0.4, 0.6] for mid-range
+    const h = random(); // Hue [0, 1]
+    const s = 0.6 + random() * 0.3; // Saturation [0.6, 0.9] for vibrant colors
+    const l = 0.4 + random() * 0.2; // Lightness [0.4, 0.6] for mid-range
 
     const rgb = hslToRgb(h, s, l);
     const lum = luminance(rgb.r, rgb.g, rgb.b);
@@ -83,69 +118,71 @@ const generateRandomColorWithMediumLuminance = (): Color => {
 };
 
 /**
- * Generates a random color palette using the analogous-complementary harmony rule.
- * This serves as a fallback if AI-based generation fails.
+ * Hue offset from Primary for each brand family: analogous and complementary for the classic four,
+ * then split-complementary and square angles for Accent 2 to Accent 5.
+ */
+const HARMONY_HUE_SHIFTS: Record<ColorType, number> = {
+  primary: 0,
+  secondary: 30,
+  tertiary: -30,
+  accent: 180,
+  'accent-2': 150,
+  'accent-3': 210,
+  'accent-4': 90,
+  'accent-5': -90,
+};
+
+/** Seeded hue wobble (± degrees), so a new seed changes the unlocked colors even when Primary is locked */
+const HUE_JITTER_DEG = 12;
+
+export interface SeededPaletteOptions {
+  /** Same seed, locks and locked colors always give the same palette */
+  seed: string;
+  /** Brand families to keep from `base` instead of generating them */
+  locked?: readonly ColorType[];
+  /** Current palette; supplies the locked colors and, by default, the number of brand families */
+  base?: Palette;
+  /** Number of brand families to generate (see helpers/brandFamilies.ts) */
+  count?: number;
+}
+
+/**
+ * Generates a palette from a seed using the analogous-complementary harmony rule.
  *
- * The harmony is defined as:
- * - Primary: A random base color with medium luminance.
- * - Secondary: Analogous color (+30° hue shift).
- * - Tertiary: Analogous color (-30° hue shift).
- * - Accent: Complementary color (+180° hue shift).
+ * - Primary: a medium-luminance color picked by the seed, or the locked Primary.
+ * - Secondary/Tertiary: analogous (±30° from Primary); Accent: complementary (+180°);
+ *   further accents at 150°, 210°, 90° and -90°. Each hue gets a small seeded wobble.
+ * - Locked families keep their color from `base`. The wobble is drawn for every family
+ *   whether or not it is locked, so locking one color never changes the others.
  *
- * All colors are generated to have a similar medium luminance.
+ * All generated colors share Primary's saturation and lightness. Semantic colors are the defaults.
  *
  * @returns A complete Palette object.
  */
-export const generateAnalogousComplementaryPalette = (): Palette => {
-  const primaryColor = generateRandomColorWithMediumLuminance();
-  const { r, g, b } = hexToRgb(primaryColor.hex);
-
-  // Convert base color to HSL to manipulate hue
-  const r_norm = r / 255,
-    g_norm = g / 255,
-    b_norm = b / 255;
-  const max = Math.max(r_norm, g_norm, b_norm),
-    min = Math.min(r_norm, g_norm, b_norm);
-  let h = (max + min) / 2;
-  let s = h;
-  const l = h;
-
-  if (max === min) {
-    h = s = 0; // achromatic
-  } else {
-    const d = max - min;
-    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-    switch (max) {
-      case r_norm:
-        h = (g_norm - b_norm) / d + (g_norm < b_norm ? 6 : 0);
-        break;
-      case g_norm:
-        h = (b_norm - r_norm) / d + 2;
-        break;
-      case b_norm:
-        h = (r_norm - g_norm) / d + 4;
-        break;
-    }
-    h /= 6;
-  }
+export const generateSeededPalette = ({ seed, locked = [], base, count }: SeededPaletteOptions): Palette => {
+  const random = createSeededRandom(seed);
+  const seededPrimary = generateRandomColorWithMediumLuminance(random);
+  const jitter = Object.fromEntries(BRAND_FAMILIES.map((f) => [f.key, (random() * 2 - 1) * HUE_JITTER_DEG])) as Record<ColorType, number>;
 
-  const baseHue = h;
+  const lockedHex = (key: ColorType) => (locked.includes(key) ? base?.[key]?.hex : undefined);
+  const primaryHex = lockedHex('primary') ?? seededPrimary.hex;
+  const { r, g, b } = hexToRgb(primaryHex);
+  const { h: baseHue, s, l } = rgbToHslNorm(r, g, b);
 
-  const createColorFromHue = (
-    hueShift: number,
-    name: string
-  ): { name: string; hex: string } => {
+  const createColorFromHue = (key: ColorType): Color => {
+    const label = BRAND_FAMILIES.find((f) => f.key === key)!.label;
+    const fixed = key === 'primary' ? primaryHex : lockedHex(key);
+    if (fixed) return { name: label, hex: fixed };
     // Normalize hue to be within [0, 1]
-    const newHue = (baseHue + hueShift / 360 + 1) % 1;
+    const newHue = (((baseHue + HARMONY_HUE_SHIFTS[key] + jitter[key]) / 360) % 1 + 1) % 1;
     const rgb = hslToRgb(newHue, s, l);
-    return { name, hex: rgbToHex(rgb.r, rgb.g, rgb.b) };
+    return { name: label, hex: rgbToHex(rgb.r, rgb.g, rgb.b) };
   };
 
+  const families = brandFamilyKeys(count ?? (base ? brandFamiliesOf(base).length : DEFAULT_BRAND_FAMILY_COUNT));
   const palette: Palette = {
-    primary: { name: 'Primary', hex: primaryColor.hex },
-    secondary: createColorFromHue(30, 'Secondary'), // Analogous +30°
-    tertiary: createColorFromHue(-30, 'Tertiary'), // Analogous -30°
-    accent: createColorFromHue(180, 'Accent'), // Complementary +180°
+    ...Object.fromEntries(families.map((key) => [key, createColorFromHue(key)])),
+    primary: createColorFromHue('primary'),
     // Default semantic colors (display name Notice, key remains 'warning')
     error: { name: 'Error', hex: '#d32f2f' },
     warning: { name: 'Notice', hex: '#f57c00' },
@@ -153,4 +190,189 @@ export const generateAnalogousComplementaryPalette = (): Palette => {
   };
 
   return palette;
-};
\ No newline at end of file
+};
+
+/**
+ * Generates a palette with the classic four brand colors from a seed (a new one when omitted).
+ * This serves as a fallback if AI-based generation fails.
+ *
+ * @returns A complete Palette object.
+ */
+export const generateAnalogousComplementaryPalette = (seed: string = newPaletteSeed()): Palette =>
+  generateSeededPalette({ seed, count: DEFAULT_BRAND_FAMILY_COUNT });
+
+export type HarmonyRule =
+  | 'analogous'
+  | 'complementary'
+  | 'analogous-complement'
+  | 'triadic'
+  | 'split-complementary'
+  | 'tetradic'
+  | 'square'
+  | 'monochromatic-accent'
+  | 'dual-tone'
+  | 'neutral-pop';
+
+/**
+ * One brand family of a harmony, relative to the base color:
+ * hue offset in degrees, optional absolute saturation (for neutrals) and lightness offset.
+ */
+type HarmonyRole = { hue: number; s?: number; dl?: number };
+
+export interface HarmonyDefinition {
+  value: HarmonyRule;
+  label: string;
+  description: string;
+  /** Primary, Secondary, Tertiary, Accent; further families reuse these roles with a hue nudge */
+  roles: readonly HarmonyRole[];
+}
+
+/** The harmonies of docs/color-harmony-guide.md, in the order the guide lists them */
+export const HARMONY_RULES: readonly HarmonyDefinition[] = [
+  { value: 'analogous', label: 'Analogous', description: 'Neighbors on the color wheel; calm and cohesive',
+    roles: [{ hue: 0 }, { hue: 30 }, { hue: -30 }, { hue: 60 }] },
+  { value: 'complementary', label: 'Complementary', description: 'Base and its opposite, each with a softer partner',
+    roles: [{ hue: 0 }, { hue: 180 }, { hue: 0, s: 0.35, dl: 0.08 }, { hue: 180, s: 0.35, dl: -0.08 }] },
+  { value: 'analogous-complement', label: 'Analogous with Complement', description: 'Two analogous colors plus the complement as Accent',
+    roles: [{ hue: 0 }, { hue: 30 }, { hue: -30 }, { hue: 180 }] },
+  { value: 'triadic', label: 'Triadic', description: 'Three hues 120° apart; vibrant and balanced',
+    roles: [{ hue: 0 }, { hue: 120 }, { hue: 240 }, { hue: 60 }] },
+  { value: 'split-complementary', label: 'Split-Complementary', description: 'Base plus the two neighbors of its complement',
+    roles: [{ hue: 0 }, { hue: 150 }, { hue: 210 }, { hue: 30 }] },
+  { value: 'tetradic', label: 'Tetradic (Double Complementary)', description: 'Two complementary pairs; let one color dominate',
+    roles: [{ hue: 0 }, { hue: 60 }, { hue: 180 }, { hue: 240 }] },
+  { value: 'square', label: 'Square', description: 'Four hues 90° apart with equal emphasis',
+    roles: [{ hue: 0 }, { hue: 90 }, { hue: 180 }, { hue: 270 }] },
+  { value: 'monochromatic-accent', label: 'Monochromatic with Accent', description: 'One hue at several strengths plus a contrasting Accent',
+    roles: [{ hue: 0 }, { hue: 0, s: 0.45, dl: -0.12 }, { hue: 0, s: 0.3, dl: 0.12 }, { hue: 180 }] },
+  { value: 'dual-tone', label: 'Dual Tone', description: 'Two main colors with grays tinted by each',
+    roles: [{ hue: 0 }, { hue: -40 }, { hue: 0, s: 0.08 }, { hue: -40, s: 0.1, dl: -0.1 }] },
+  { value: 'neutral-pop', label: 'Neutral with Pop', description: 'Grays tinted by the base hue with one vibrant Accent',
+    roles: [{ hue: 0, s: 0.06 }, { hue: 0, s: 0.14, dl: 0.05 }, { hue: 0, s: 0.04, dl: -0.12 }, { hue: 0, s: 0.85 }] },
+];
+
+export interface HarmonyOptions {
+  /** Hue of the base color in degrees [0, 360) */
+  baseHue: number;
+  /** Saturation of the base color [0, 1] */
+  saturation?: number;
+  /** Lightness of the base color [0, 1] */
+  lightness?: number;
+  /** Number of brand families (see helpers/brandFamilies.ts) */
+  count?: number;
+}
+
+export interface HarmonyScreening {
+  textOnLight: string;
+  textOnDark: string;
+  ribbonMode?: RibbonMode;
+  minApcaLc?: number | null;
+  steps?: StepScale;
+}
+
+const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
+
+/** Role of the i-th brand family: beyond the rule's roles, reuse them with a 15° hue nudge per round */
+const harmonyRole = (roles: readonly HarmonyRole[], i: number): HarmonyRole => {
+  const role = roles[i % roles.length]!;
+  const round = Math.floor(i / roles.length);
+  return round === 0 ? role : { ...role, hue: role.hue + 15 * round };
+};
+
+const hslHex = (hueDeg: number, s: number, l: number): string => {
+  const rgb = hslToRgb((((hueDeg / 360) % 1) + 1) % 1, clamp01(s), clamp01(l));
+  return rgbToHex(rgb.r, rgb.g, rgb.b);
+};
+
+/**
+ * The brand colors of a harmony from a base hue, without screening.
+ * Semantic colors are the defaults.
+ */
+export const generateHarmonyPalette = (rule: HarmonyRule, { baseHue, saturation = 0.7, lightness = 0.5, count = DEFAULT_BRAND_FAMILY_COUNT }: HarmonyOptions): Palette => {
+  const { roles } = HARMONY_RULES.find((h) => h.value === rule)!;
+  const families = brandFamilyKeys(count);
+  const color = (key: ColorType, i: number): Color => {
+    const role = harmonyRole(roles, i);
+    const label = BRAND_FAMILIES.find((f) => f.key === key)!.label;
+    return { name: label, hex: hslHex(baseHue + role.hue, role.s ?? saturation, lightness + (role.dl ?? 0)) };
+  };
+  return {
+    ...Object.fromEntries(families.map((key, i) => [key, color(key, i)])),
+    primary: color('primary', 0),
+    error: { name: 'Error', hex: '#d32f2f' },
+    warning: { name: 'Notice', hex: '#f57c00' },
+    success: { name: 'Success', hex: '#388e3c' },
+  };
+};
+
+/**
+ * Whether every step of the scale can offer at least MIN_VARIATIONS_PER_BAND AAA colors
+ * for this base color (see generateRibbonForBand).
+ */
+export const hasEnoughRibbonOptions = (hex: string, { textOnLight, textOnDark, ribbonMode = 'hsl', minApcaLc = null, steps = DEFAULT_STEP_SCALE }: HarmonyScreening): boolean =>
+  steps.every((step) =>
+    generateRibbonForBand(hex, stepSlot(steps, step.name)!, textOnLight, textOnDark, ribbonMode, minApcaLc).length >= MIN_VARIATIONS_PER_BAND
+  );
+
+/** Lightness and saturation nudges tried, in order, when a family's color cannot give enough ribbon options */
+const SCREEN_LIGHTNESS_NUDGES = [0, -0.05, 0.05, -0.1, 0.1, -0.15, 0.15];
+const SCREEN_SATURATION_SCALES = [1, 0.8, 0.6];
+
+/** Base lightness/saturation variants offered as separate candidates */
+const CANDIDATE_VARIANTS: ReadonlyArray<{ dl: number; sScale: number }> = [
+  { dl: 0, sScale: 1 },
+  { dl: -0.1, sScale: 1 },
+  { dl: 0.1, sScale: 1 },
+  { dl: 0, sScale: 0.7 },
+  { dl: -0.1, sScale: 0.7 },
+  { dl: 0.1, sScale: 0.7 },
+];
+
+/**
+ * Starting palettes for a harmony, pre-screened so every brand family yields at least
+ * MIN_VARIATIONS_PER_BAND ribbon options in every step. A family that falls short is nudged
+ * (lightness first, then saturation) keeping its hue; candidates that cannot be fixed are dropped.
+ * Returns up to `limit` distinct candidates, the unmodified harmony first when it passes.
+ */
+export const generateHarmonyCandidates = (
+  rule: HarmonyRule,
+  options: HarmonyOptions,
+  screening: HarmonyScreening,
+  limit = 4
+): Palette[] => {
+  const { saturation = 0.7, lightness = 0.5 } = options;
+  const screened = new Map<string, string | null>();
+  const screen = (hex: string): string | null => {
+    const cached = screened.get(hex);
+    if (cached !== undefined) return cached;
+    const { r, g, b } = hexToRgb(hex);
+    const { h, s, l } = rgbToHslNorm(r, g, b);
+    let found: string | null = null;
+    for (const sScale of SCREEN_SATURATION_SCALES) {
+      for (const dl of SCREEN_LIGHTNESS_NUDGES) {
+        const candidate = sScale === 1 && dl === 0 ? hex : hslHex(h, s * sScale, l + dl);
+        if (hasEnoughRibbonOptions(candidate, screening)) { found = candidate; break; }
+      }
+      if (found) break;
+    }
+    screened.set(hex, found);
+    return found;
+  };
+
+  const out: Palette[] = [];
+  const seen = new Set<string>();
+  for (const { dl, sScale } of CANDIDATE_VARIANTS) {
+    if (out.length >= limit) break;
+    const raw = generateHarmonyPalette(rule, { ...options, saturation: saturation * sScale, lightness: lightness + dl });
+    const keys = brandFamiliesOf(raw);
+    const hexes = keys.map((k) => screen(raw[k]!.hex));
+    if (hexes.some((x) => x === null)) continue;
+    const id = hexes.join(',');
+    if (seen.has(id)) continue;
+    seen.add(id);
+    const palette: Palette = { ...raw };
+    keys.forEach((k, i) => { palette[k] = { ...raw[k]!, hex: hexes[i]! }; });
+    out.push(palette);
+  }
+  return out;
+};
@@ -0,0 +1,24 @@
+import { apcaContrast, meetsApcaMin, hexToRgb } from "./colorUtils";
+
+describe("apcaContrast", () => {
+  // Reference values from the APCA 0.0.98G-4g calculator
+  it("should match published Lc values for both polarities", () => {
+    expect(apcaContrast(hexToRgb("#000000"), hexToRgb("#ffffff"))).toBeCloseTo(106.0, 0);
+    expect(apcaContrast(hexToRgb("#ffffff"), hexToRgb("#000000"))).toBeCloseTo(-107.9, 0);
+    expect(apcaContrast(hexToRgb("#888888"), hexToRgb("#ffffff"))).toBeCloseTo(63.1, 0);
+    expect(apcaContrast(hexToRgb("#ffffff"), hexToRgb("#888888"))).toBeCloseTo(-68.5, 0);
+    expect(apcaContrast(hexToRgb("#112233"), hexToRgb("#ddeeff"))).toBeCloseTo(91.7, 0);
+  });
+
+  it("should return 0 for identical colors", () => {
+    expect(apcaContrast(hexToRgb("#336699"), hexToRgb("#336699"))).toBe(0);
+  });
+
+  it("should compare the Lc magnitude against an optional minimum", () => {
+    const white = hexToRgb("#ffffff");
+    const grey = hexToRgb("#888888");
+    expect(meetsApcaMin(grey, white, null)).toBeTrue();
+    expect(meetsApcaMin(grey, white, 60)).toBeTrue();
+    expect(meetsApcaMin(grey, white, 75)).toBeFalse();
+  });
+});
@@ -41,7 +41,9 @@ export const getContrastRatio = (
   return parseFloat(((brightest + 0.05) / (darkest + 0.05)).toFixed(2));
 };
 
-import { AAA_MIN, AA_SMALL_MIN } from './config';
+import { AAA_MIN, AA_SMALL_MIN, NEUTRAL_CHROMA } from './config';
+import type { RibbonMode, CvdMode } from './types';
+import { isDefaultStepScale, type StepScale } from './stepScale';
 
 export const getContrastLevel = (ratio: number): 'AAA' | 'AA' | 'FAIL' => {
   // Compare only against centralized thresholds from helpers/config.ts
@@ -50,6 +52,41 @@ export const getContrastLevel = (ratio: number): 'AAA' | 'AA' | 'FAIL' => {
   return 'FAIL';
 };
 
+// APCA (WCAG 3 draft) lightness contrast, SAPC 0.0.98G-4g constants.
+// Returns Lc: positive for dark text on a light background, negative for light text on dark.
+// Unlike the WCAG 2 ratio it is polarity-aware and not symmetric: argument order matters.
+const apcaY = (rgb: { r: number; g: number; b: number }): number =>
+  0.2126729 * Math.pow(rgb.r / 255, 2.4) + 0.7151522 * Math.pow(rgb.g / 255, 2.4) + 0.0721750 * Math.pow(rgb.b / 255, 2.4);
+
+export const apcaContrast = (
+  textRgb: { r: number; g: number; b: number },
+  bgRgb: { r: number; g: number; b: number }
+): number => {
+  const blkThrs = 0.022, blkClmp = 1.414, loClip = 0.1, deltaYmin = 0.0005;
+  const soft = (y: number) => (y > blkThrs ? y : y + Math.pow(blkThrs - y, blkClmp));
+  const txtY = soft(apcaY(textRgb));
+  const bgY = soft(apcaY(bgRgb));
+  if (Math.abs(bgY - txtY) < deltaYmin) return 0;
+  let lc: number;
+  if (bgY > txtY) {
+    // Normal polarity: dark text on light background
+    const sapc = (Math.pow(bgY, 0.56) - Math.pow(txtY, 0.57)) * 1.14;
+    lc = sapc < loClip ? 0 : sapc - 0.027;
+  } else {
+    // Reverse polarity: light text on dark background
+    const sapc = (Math.pow(bgY, 0.65) - Math.pow(txtY, 0.62)) * 1.14;
+    lc = sapc > -loClip ? 0 : sapc + 0.027;
+  }
+  return parseFloat((lc * 100).toFixed(1));
+};
+
+// Optional APCA gate used next to the WCAG ratio filters; no minimum means always pass
+export const meetsApcaMin = (
+  bgRgb: { r: number; g: number; b: number },
+  textRgb: { r: number; g: number; b: number },
+  minLc?: number | null
+): boolean => minLc == null || Math.abs(apcaContrast(textRgb, bgRgb)) >= minLc;
+
 // HSL helpers (normalized ranges: H [0, 360), S/L [0,1])
 export const rgbToHslNorm = (r: number, g: number, b: number): { h: number; s: number; l: number } => {
   const rn = r / 255, gn = g / 255, bn = b / 255;
@@ -151,6 +188,155 @@ export const solveHslLightnessForYFromHS = (
   return best;
 };
 
+// OKLCH helpers (L [0,1], C >= 0, H [0, 360)); see https://bottosson.github.io/posts/oklab/
+const srgbToLinear = (v: number): number => {
+  const c = v / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+const linearToSrgb = (v: number): number => {
+  const c = v <= 0.0031308 ? 12.92 * v : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+  return c * 255;
+};
+
+export const rgbToOklch = (r: number, g: number, b: number): { l: number; c: number; h: number } => {
+  const lr = srgbToLinear(r), lg = srgbToLinear(g), lb = srgbToLinear(b);
+  const l_ = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m_ = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s_ = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+  const L = 0.2104542553 * l_ + 0.7936177850 * m_ - 0.0040720468 * s_;
+  const a = 1.9779984951 * l_ - 2.4285922050 * m_ + 0.4505937099 * s_;
+  const bb = 0.0259040371 * l_ + 0.7827717662 * m_ - 0.8086757660 * s_;
+  const c = Math.sqrt(a * a + bb * bb);
+  const h = c < 1e-7 ? 0 : ((Math.atan2(bb, a) * 180) / Math.PI + 360) % 360;
+  return { l: L, c, h };
+};
+
+// Linear sRGB (unclamped) for an OKLCH color; channels outside [0,1] are out of gamut
+const oklchToLinearRgb = (l: number, c: number, h: number): [number, number, number] => {
+  const hr = (h * Math.PI) / 180;
+  const a = c * Math.cos(hr), b = c * Math.sin(hr);
+  const l_ = l + 0.3963377774 * a + 0.2158037573 * b;
+  const m_ = l - 0.1055613458 * a - 0.0638541728 * b;
+  const s_ = l - 0.0894841775 * a - 1.2914855480 * b;
+  const l3 = l_ * l_ * l_, m3 = m_ * m_ * m_, s3 = s_ * s_ * s_;
+  return [
+    4.0767416621 * l3 - 3.3077115913 * m3 + 0.2309699292 * s3,
+    -1.2684380046 * l3 + 2.6097574011 * m3 - 0.3413193965 * s3,
+    -0.0041960863 * l3 - 0.7034186147 * m3 + 1.7076147010 * s3,
+  ];
+};
+
+const inGamut = (lin: [number, number, number]) => lin.every((v) => v >= -1e-6 && v <= 1 + 1e-6);
+
+export const oklchToRgb = (l: number, c: number, h: number): { r: number; g: number; b: number } => {
+  const [lr, lg, lb] = oklchToLinearRgb(l, c, h);
+  const to8 = (v: number) => Math.max(0, Math.min(255, Math.round(linearToSrgb(Math.max(0, Math.min(1, v))))));
+  return { r: to8(lr), g: to8(lg), b: to8(lb) };
+};
+
+// Largest chroma <= maxC that keeps (l, c, h) inside the sRGB gamut
+export const maxInGamutOklchChroma = (l: number, h: number, maxC: number): number => {
+  if (inGamut(oklchToLinearRgb(l, maxC, h))) return maxC;
+  let low = 0, high = maxC;
+  for (let i = 0; i < 16; i++) {
+    const mid = (low + high) / 2;
+    if (inGamut(oklchToLinearRgb(l, mid, h))) low = mid; else high = mid;
+  }
+  return low;
+};
+
+// Solve for OKLCH lightness that yields a target luminance Y while holding OKLCH hue.
+// Chroma stays at the base color's chroma and is scaled down only where that would leave the sRGB gamut,
+// so tints/shades keep their perceived hue instead of drifting like HSL-locked ladders.
+export const solveOklchLightnessForY = (
+  baseRgb: { r: number; g: number; b: number },
+  targetY: number,
+  opts: { eps?: number; maxIters?: number } = {}
+): { r: number; g: number; b: number } => {
+  const { c, h } = rgbToOklch(baseRgb.r, baseRgb.g, baseRgb.b);
+  const eps = opts.eps ?? 0.001;
+  const maxIters = opts.maxIters ?? 22;
+  const at = (l: number) => oklchToRgb(l, maxInGamutOklchChroma(l, h, c), h);
+  let low = 0, high = 1;
+  let best = at(0.5);
+  let bestDiff = Math.abs(luminance(best.r, best.g, best.b) - targetY);
+  for (let i = 0; i < maxIters; i++) {
+    const mid = (low + high) / 2;
+    const rgb = at(mid);
+    const y = luminance(rgb.r, rgb.g, rgb.b);
+    const diff = Math.abs(y - targetY);
+    if (diff < bestDiff) { best = rgb; bestDiff = diff; }
+    if (diff < eps) break;
+    if (y < targetY) low = mid; else high = mid;
+  }
+  return best;
+};
+
+// Color-vision-deficiency simulation. Dichromacies use the Machado et al. (2009) matrices at
+// severity 1.0, applied in linear sRGB; achromatopsia keeps only relative luminance.
+const CVD_MATRICES: Record<'protanopia' | 'deuteranopia' | 'tritanopia', number[]> = {
+  protanopia: [0.152286, 1.052583, -0.204868, 0.114503, 0.786281, 0.099216, -0.003882, -0.048116, 1.051998],
+  deuteranopia: [0.367322, 0.860646, -0.227968, 0.280085, 0.672501, 0.047413, -0.011820, 0.042940, 0.968881],
+  tritanopia: [1.255528, -0.076749, -0.178779, -0.078411, 0.930809, 0.147602, 0.004733, 0.691367, 0.303900],
+};
+
+export const simulateCvd = (
+  rgb: { r: number; g: number; b: number },
+  mode: CvdMode
+): { r: number; g: number; b: number } => {
+  if (mode === 'none') return { r: rgb.r, g: rgb.g, b: rgb.b };
+  const lr = srgbToLinear(rgb.r), lg = srgbToLinear(rgb.g), lb = srgbToLinear(rgb.b);
+  const to8 = (v: number) => Math.round(linearToSrgb(Math.max(0, Math.min(1, v))));
+  if (mode === 'achromatopsia') {
+    const y = to8(0.2126 * lr + 0.7152 * lg + 0.0722 * lb);
+    return { r: y, g: y, b: y };
+  }
+  const m = CVD_MATRICES[mode];
+  const [m0, m1, m2, m3, m4, m5, m6, m7, m8] = m as [number, number, number, number, number, number, number, number, number];
+  return {
+    r: to8(m0 * lr + m1 * lg + m2 * lb),
+    g: to8(m3 * lr + m4 * lg + m5 * lb),
+    b: to8(m6 * lr + m7 * lg + m8 * lb),
+  };
+};
+
+export const simulateCvdHex = (hex: string, mode: CvdMode): string => {
+  if (mode === 'none') return hex;
+  const { r, g, b } = simulateCvd(hexToRgb(hex), mode);
+  return rgbToHex(r, g, b);
+};
+
+// Euclidean distance in OKLab (~0.02 is a just-noticeable difference)
+export const oklabDistance = (
+  rgb1: { r: number; g: number; b: number },
+  rgb2: { r: number; g: number; b: number }
+): number => {
+  const p = rgbToOklch(rgb1.r, rgb1.g, rgb1.b);
+  const q = rgbToOklch(rgb2.r, rgb2.g, rgb2.b);
+  const rad = Math.PI / 180;
+  const da = p.c * Math.cos(p.h * rad) - q.c * Math.cos(q.h * rad);
+  const db = p.c * Math.sin(p.h * rad) - q.c * Math.sin(q.h * rad);
+  return Math.sqrt((p.l - q.l) ** 2 + da * da + db * db);
+};
+
+// Near-gray in the OKLCH hue of `hex` at mid lightness (ribbons re-solve lightness per band).
+// Never more chromatic than the source, so a gray Primary gives a true gray.
+export const tintedNeutralHex = (hex: string, chroma: number = NEUTRAL_CHROMA): string => {
+  const { r, g, b } = hexToRgb(hex);
+  const { c, h } = rgbToOklch(r, g, b);
+  const out = oklchToRgb(0.55, Math.min(chroma, c), h);
+  return rgbToHex(out.r, out.g, out.b);
+};
+
+// Dispatch to the ribbon solver for the palette's ribbon mode
+export const solveLightnessForY = (
+  baseRgb: { r: number; g: number; b: number },
+  targetY: number,
+  mode: RibbonMode = 'hsl'
+): { r: number; g: number; b: number } =>
+  mode === 'oklch' ? solveOklchLightnessForY(baseRgb, targetY) : solveHslLightnessForY(baseRgb, targetY);
+
 // Convenience: given Primary's band color (to read its saturation), target hue, and target band Y,
 // build a color that matches Primary's saturation while hitting the target luminance at the new hue.
 export const matchBandFromPrimaryByS = (
@@ -355,11 +541,30 @@ const adjustLuminanceForContrast = (
   return { rgb: best, y: bestY, contrast, meetsAAA, meetsAA };
 };
 
+// Custom step scales: spread tints evenly from the lighter to the light target Y and shades from
+// the dark to the darker target Y, each nudged for AAA contrast like the default bands
+const generateScaleShades = (hex: string, colorName: string, steps: StepScale) => {
+  const baseRgb = hexToRgb(hex);
+  const spread = (count: number, from: number, to: number, i: number) => count <= 1 ? (from + to) / 2 : from + ((to - from) * i) / (count - 1);
+  const tints = steps.filter((s) => s.tone === 'tint');
+  const shades = steps.filter((s) => s.tone === 'shade');
+  return steps.map((step) => {
+    const isTint = step.tone === 'tint';
+    const group = isTint ? tints : shades;
+    const targetY = isTint
+      ? spread(group.length, TARGET_LUM_LIGHTER, TARGET_LUM_LIGHT, group.indexOf(step))
+      : spread(group.length, TARGET_LUM_DARK, TARGET_LUM_DARKER, group.indexOf(step));
+    const { rgb } = adjustHslLockedForContrast(baseRgb, targetY, isTint ? 'black' : 'white');
+    return { name: `${colorName}-${step.name}`, hex: rgbToHex(rgb.r, rgb.g, rgb.b), step: step.name };
+  });
+};
+
 export const generateShades = (
   hex: string,
   colorName: string = 'Color',
-  opts?: { targetLighterY?: number; targetLightY?: number; targetDarkY?: number; targetDarkerY?: number }
-) => {
+  opts?: { targetLighterY?: number; targetLightY?: number; targetDarkY?: number; targetDarkerY?: number; steps?: StepScale }
+): Array<{ name: string; hex: string; step: string }> => {
+  if (opts?.steps && !isDefaultStepScale(opts.steps)) return generateScaleShades(hex, colorName, opts.steps);
   const baseRgb = hexToRgb(hex);
   const baseY = luminance(baseRgb.r, baseRgb.g, baseRgb.b);
 
@@ -0,0 +1,63 @@
+import { findCvdConfusions } from "./colorVision";
+import { simulateCvd, oklabDistance, hexToRgb } from "./colorUtils";
+import type { PaletteWithVariations, ColorWithVariations } from "./types";
+
+// One flat color per family: every band uses the same hex
+function family(name: string, hex: string): ColorWithVariations {
+  const steps = ["lighter", "light", "dark", "darker"] as const;
+  return { name, hex, variations: steps.map((step) => ({ name: `${name} ${step}`, hex, step })) };
+}
+
+function palette(hexes: Partial<Record<keyof PaletteWithVariations, string>>): PaletteWithVariations {
+  const base = {
+    primary: "#1d4ed8", secondary: "#7c3aed", tertiary: "#0f766e", accent: "#ea580c",
+    error: "#b91c1c", warning: "#facc15", success: "#15803d", ...hexes,
+  };
+  return Object.fromEntries(Object.entries(base).map(([k, hex]) => [k, family(k, hex)])) as unknown as PaletteWithVariations;
+}
+
+describe("simulateCvd", () => {
+  it("should leave colors untouched for normal vision", () => {
+    expect(simulateCvd({ r: 12, g: 200, b: 99 }, "none")).toEqual({ r: 12, g: 200, b: 99 });
+  });
+
+  it("should collapse achromatopsia to grey of the same luminance", () => {
+    const out = simulateCvd(hexToRgb("#2563eb"), "achromatopsia");
+    expect(out.r).toBe(out.g);
+    expect(out.g).toBe(out.b);
+  });
+
+  it("should bring red and green together under deuteranopia but not tritanopia", () => {
+    const red = hexToRgb("#b5651d"), green = hexToRgb("#5f8a2a");
+    const deutan = oklabDistance(simulateCvd(red, "deuteranopia"), simulateCvd(green, "deuteranopia"));
+    const tritan = oklabDistance(simulateCvd(red, "tritanopia"), simulateCvd(green, "tritanopia"));
+    expect(deutan).toBeLessThan(oklabDistance(red, green));
+    expect(tritan).toBeGreaterThan(deutan);
+  });
+});
+
+describe("findCvdConfusions", () => {
+  it("should report nothing for normal vision", () => {
+    expect(findCvdConfusions(palette({}), "none")).toEqual([]);
+  });
+
+  it("should flag a red/green error/success pair under deuteranopia", () => {
+    const pal = palette({ error: "#b5651d", success: "#5f8a2a" });
+    const pairs = findCvdConfusions(pal, "deuteranopia");
+    expect(pairs.some((p) => p.a.key === "error" && p.b.key === "success")).toBeTrue();
+    expect(pairs.every((p) => p.deltaE < 0.05)).toBeTrue();
+  });
+
+  it("should compare Neutral with the brand families when the palette has it", () => {
+    const pal = { ...palette({}), neutral: family("neutral", "#5c5c5c") };
+    const pairs = findCvdConfusions(pal, "achromatopsia");
+    expect(pairs.some((p) => p.a.key === "primary" && p.b.key === "neutral")).toBeTrue();
+    expect(pairs.find((p) => p.b.key === "neutral")!.b.label).toBe("Neutral Lighter");
+  });
+
+  it("should skip pairs that already match with normal vision", () => {
+    const pal = palette({ primary: "#336699", accent: "#336699" });
+    const pairs = findCvdConfusions(pal, "achromatopsia");
+    expect(pairs.some((p) => p.a.key === "primary" && p.b.key === "accent")).toBeFalse();
+  });
+});
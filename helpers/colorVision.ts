@@ -0,0 +1,88 @@
+// helpers/colorVision.ts
+// Palette-level color-vision-deficiency (CVD) checks for the Palette and Demo previews.
+// Swatches are simulated with simulateCvd and compared in OKLab; pairs that were distinct
+// under normal vision but fall below CVD_MIN_DELTA_E once simulated are reported.
+
+import type { PaletteWithVariations, ColorType, SemanticColorType, NeutralColorType, CvdMode, StepName } from './types';
+import { hexToRgb, simulateCvd, oklabDistance } from './colorUtils';
+import { CVD_MIN_DELTA_E } from './config';
+import { DEFAULT_STEP_SCALE, findStep, stepForRole, type StepScale } from './stepScale';
+import { BRAND_FAMILIES, brandFamiliesOf } from './brandFamilies';
+
+type Band = StepName;
+type FamilyKey = ColorType | SemanticColorType | NeutralColorType;
+type SemanticBandSelection = Record<SemanticColorType, { light: Band; dark: Band }>;
+
+export const CVD_MODES: ReadonlyArray<{ value: CvdMode; label: string; description: string }> = [
+  { value: 'none', label: 'Normal vision', description: 'No simulation' },
+  { value: 'protanopia', label: 'Protanopia', description: 'No red cones' },
+  { value: 'deuteranopia', label: 'Deuteranopia', description: 'No green cones' },
+  { value: 'tritanopia', label: 'Tritanopia', description: 'No blue cones' },
+  { value: 'achromatopsia', label: 'Achromatopsia', description: 'No color vision' },
+];
+
+export type CvdSwatchRef = { key: FamilyKey; step: Band; label: string; hex: string };
+
+export type CvdConfusion = {
+  a: CvdSwatchRef;
+  b: CvdSwatchRef;
+  /** OKLab distance of the simulated colors */
+  deltaE: number;
+};
+
+const SEMANTIC_FAMILIES: SemanticColorType[] = ['error', 'warning', 'success'];
+const FAMILY_LABELS: Record<FamilyKey, string> = {
+  ...Object.fromEntries(BRAND_FAMILIES.map((f) => [f.key, f.label])) as Record<ColorType, string>,
+  error: 'Error',
+  warning: 'Notice',
+  success: 'Success',
+  neutral: 'Neutral',
+};
+
+function swatchRef(palette: PaletteWithVariations, key: FamilyKey, step: Band, steps: StepScale): CvdSwatchRef {
+  const color = palette[key]!;
+  const hex = color.variations.find((v) => v.step === step)?.hex ?? color.hex;
+  return { key, step, label: `${FAMILY_LABELS[key]} ${findStep(steps, step)?.label ?? step}`, hex };
+}
+
+/**
+ * Swatch pairs that become indistinguishable under `mode`: brand families (and Neutral) compared band by band,
+ * and the semantic families at the bands selected for light and dark schemes.
+ * Pairs that already look alike with normal vision are not reported.
+ */
+export function findCvdConfusions(
+  palette: PaletteWithVariations,
+  mode: CvdMode,
+  semanticBandSelection?: SemanticBandSelection,
+  minDeltaE: number = CVD_MIN_DELTA_E,
+  steps: StepScale = DEFAULT_STEP_SCALE
+): CvdConfusion[] {
+  if (mode === 'none') return [];
+  const candidates: Array<[CvdSwatchRef, CvdSwatchRef]> = [];
+  const addPairs = (keys: FamilyKey[], stepOf: (key: FamilyKey) => Band) => {
+    for (let i = 0; i < keys.length; i++) {
+      for (let j = i + 1; j < keys.length; j++) {
+        const a = keys[i]!, b = keys[j]!;
+        candidates.push([swatchRef(palette, a, stepOf(a), steps), swatchRef(palette, b, stepOf(b), steps)]);
+      }
+    }
+  };
+  const families: FamilyKey[] = palette.neutral ? [...brandFamiliesOf(palette), 'neutral'] : brandFamiliesOf(palette);
+  for (const { name } of steps) addPairs(families, () => name);
+  for (const scheme of ['light', 'dark'] as const) {
+    addPairs(SEMANTIC_FAMILIES, (key) => semanticBandSelection?.[key as SemanticColorType]?.[scheme] ?? stepForRole(steps, scheme));
+  }
+
+  const seen = new Set<string>();
+  const out: CvdConfusion[] = [];
+  for (const [a, b] of candidates) {
+    const id = [`${a.key}-${a.step}`, `${b.key}-${b.step}`].join('|');
+    if (seen.has(id)) continue;
+    seen.add(id);
+    const rgbA = hexToRgb(a.hex), rgbB = hexToRgb(b.hex);
+    if (oklabDistance(rgbA, rgbB) < minDeltaE) continue;
+    const deltaE = oklabDistance(simulateCvd(rgbA, mode), simulateCvd(rgbB, mode));
+    if (deltaE < minDeltaE) out.push({ a, b, deltaE: Math.round(deltaE * 1000) / 1000 });
+  }
+  return out.sort((x, y) => x.deltaE - y.deltaE);
+}
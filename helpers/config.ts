@@ -73,6 +73,10 @@ export const SHADE_TARGET_COUNT = int('NEXT_PUBLIC_SHADE_TARGET_COUNT', '15');
 /** Minimum number of variations required per band for functional palette. Env: NEXT_PUBLIC_MIN_VARIATIONS_PER_BAND */
 export const MIN_VARIATIONS_PER_BAND = int('NEXT_PUBLIC_MIN_VARIATIONS_PER_BAND', '3');
 
+// Neutral family
+/** OKLCH chroma of the optional neutral (gray) family; the hue comes from Primary. Env: NEXT_PUBLIC_NEUTRAL_CHROMA */
+export const NEUTRAL_CHROMA = numFromEnv('NEXT_PUBLIC_NEUTRAL_CHROMA', 0.015, 0, 0.1);
+
 // Luminance ranges (defaults chosen from prior implementation)
 /** Lower bound for the "lighter" band (Y). Env: NEXT_PUBLIC_LIGHTER_MIN_Y */
 export const LIGHTER_MIN_Y = numFromEnv('NEXT_PUBLIC_LIGHTER_MIN_Y', 0.50, 0, 1);
@@ -111,6 +115,16 @@ export const AAA_OFFICIAL_SMALL = 7.0;
 export const AAA_MIN = numFromEnv('NEXT_PUBLIC_AAA_MIN_CONTRAST', 7.05, 1, 21);
 /** WCAG AA threshold for small text. Env: NEXT_PUBLIC_AA_SMALL_MIN_CONTRAST */
 export const AA_SMALL_MIN = numFromEnv('NEXT_PUBLIC_AA_SMALL_MIN_CONTRAST', 4.5, 1, 21);
+/** APCA (WCAG 3 draft) |Lc| recommended for body text; badges below it are flagged. Env: NEXT_PUBLIC_APCA_BODY_MIN_LC */
+export const APCA_BODY_MIN_LC = numFromEnv('NEXT_PUBLIC_APCA_BODY_MIN_LC', 75, 0, 108);
+/** OKLab distance below which two swatches read as the same color under a CVD simulation. Env: NEXT_PUBLIC_CVD_MIN_DELTA_E */
+export const CVD_MIN_DELTA_E = numFromEnv('NEXT_PUBLIC_CVD_MIN_DELTA_E', 0.05, 0, 1);
+/** WCAG 1.4.11 non-text contrast for borders, focus rings and icon strokes. Env: NEXT_PUBLIC_NON_TEXT_MIN_CONTRAST */
+export const NON_TEXT_MIN = numFromEnv('NEXT_PUBLIC_NON_TEXT_MIN_CONTRAST', 3, 1, 21);
+/** Palette critique: brand saturations further than this from the typical one are flagged. Env: NEXT_PUBLIC_CRITIQUE_SATURATION_SPREAD */
+export const CRITIQUE_SATURATION_SPREAD = numFromEnv('NEXT_PUBLIC_CRITIQUE_SATURATION_SPREAD', 0.10, 0, 1);
+/** Palette critique: hues closer than this (degrees) read as the same color family. Env: NEXT_PUBLIC_CRITIQUE_MIN_HUE_GAP */
+export const CRITIQUE_MIN_HUE_GAP_DEG = numFromEnv('NEXT_PUBLIC_CRITIQUE_MIN_HUE_GAP', 30, 0, 180);
 // I am removing AA_LARGE_MIN, we *will not use it* ever, for anything.
 // This is a palette creator, with no way of knowing if it is used for large or small text.
 // export const AA_LARGE_MIN = num('NEXT_PUBLIC_AA_LARGE_MIN_CONTRAST', '3');
@@ -126,6 +140,10 @@ export const RECOMMENDED_SHADE_Y_GAP = numFromEnv('NEXT_PUBLIC_RECOMMENDED_SHADE
 export const RECOMMENDED_SHADE_Y_GAP_TOLERANCE = 0.0005;
 /** Hard minimum Y-gap used only for default placements (never forced). Env: NEXT_PUBLIC_HARD_MIN_SHADE_Y_GAP */
 export const HARD_MIN_SHADE_Y_GAP = numFromEnv('NEXT_PUBLIC_HARD_MIN_SHADE_Y_GAP', 0.015, 0, 1);
+/** Minimum Y-gap between a tint and its hover color; active uses twice the gap. Env: NEXT_PUBLIC_STATE_MIN_TINT_Y_GAP */
+export const STATE_MIN_TINT_Y_GAP = numFromEnv('NEXT_PUBLIC_STATE_MIN_TINT_Y_GAP', 0.04, 0, 1);
+/** Minimum Y-gap between a shade and its hover color; active uses twice the gap. Env: NEXT_PUBLIC_STATE_MIN_SHADE_Y_GAP */
+export const STATE_MIN_SHADE_Y_GAP = numFromEnv('NEXT_PUBLIC_STATE_MIN_SHADE_Y_GAP', 0.01, 0, 1);
 
 /** Technical minimum delta from white (still visibly different, but may look washed out).
  * This is 0.04 (4% gap) - the absolute minimum for AAA compliance.
@@ -155,3 +173,6 @@ export const TARGET_LUM_LIGHT = numFromEnv('NEXT_PUBLIC_TARGET_LUM_LIGHT', 0.72,
 export const TARGET_LUM_DARK = numFromEnv('NEXT_PUBLIC_TARGET_LUM_DARK', 0.14, 0, 1);
 /** Target Y for the darker band. */
 export const TARGET_LUM_DARKER = numFromEnv('NEXT_PUBLIC_TARGET_LUM_DARKER', 0.06, 0, 1);
+
+/** Provenance note in the header (or description) of each generated color file: tokens, Tailwind, Android */
+export const GENERATED_FILE_NOTE = 'Generated by Color Palette Generator. Every tint and shade has AAA contrast with its text color.';
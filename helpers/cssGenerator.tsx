@@ -1,14 +1,18 @@
-import { PaletteWithVariations } from './types';
+import { PaletteWithVariations, StepName } from './types';
+import { DEFAULT_STEP_SCALE, counterpartStep, stepForRole, stepTone, type StepScale } from './stepScale';
+import { brandFamiliesOf } from './brandFamilies';
 
-type Band = 'lighter' | 'light' | 'dark' | 'darker';
+type Band = StepName;
 type SemanticPerScheme = { light: Band; dark: Band };
 type SemanticBandSelection = { error: SemanticPerScheme; warning: SemanticPerScheme; success: SemanticPerScheme };
 
 export const generateCssClasses = (
   palette: PaletteWithVariations,
   semanticBandSelection?: SemanticBandSelection,
-  opts?: { textOnDark?: string; textOnLight?: string; themeAliases?: Array<{ slug: string; color: string; name?: string }> }
+  opts?: { textOnDark?: string; textOnLight?: string; themeAliases?: Array<{ slug: string; color: string; name?: string }>; steps?: StepScale }
 ): string => {
+  // Step scale the palette was built with (lighter/light/dark/darker unless the palette declares its own)
+  const steps = opts?.steps ?? DEFAULT_STEP_SCALE;
   let css = '/* ';
   css += 'NOTE: For developer use only. WordPress does not load these generated CSS files by default.\n';
   css += "  Only your (child) theme's main style.css is used by WordPress automatically.\n";
@@ -21,30 +25,49 @@ export const generateCssClasses = (
 
   // Utility helpers
   const toSlug = (s: string) => s.toLowerCase().replace(/[^a-z0-9-]/g, '-');
-  const stepCounterpart = (step: string): string | null => {
-    if (step === 'lighter') return 'darker';
-    if (step === 'light') return 'dark';
-    if (step === 'dark') return 'light';
-    if (step === 'darker') return 'lighter';
-    return null; // e.g., base or unknown
+  // Mirror step across the scale (lighter <-> darker, light <-> dark); null for base or unknown
+  const stepCounterpart = (step: string): string | null => counterpartStep(steps, step);
+  // Prefer the variation's logical step; fall back to the slugged name minus the family prefix
+  const stepOf = (colorType: string, v: { name: string; step?: string }) => {
+    if (v.step) return v.step;
+    const vs = toSlug(v.name);
+    return vs.startsWith(`${colorType}-`) ? vs.slice(colorType.length + 1) : vs;
   };
+  const isTint = (step: string) => stepTone(steps, step) === 'tint';
+  const roleLight = stepForRole(steps, 'light');
+  const roleDark = stepForRole(steps, 'dark');
+  const roleLighter = stepForRole(steps, 'lighter');
+  const roleDarker = stepForRole(steps, 'darker');
+  // Brand families get per-step classes; so does the optional neutral family
+  const brandFamilies: string[] = brandFamiliesOf(palette);
+  const stepFamilies = palette.neutral ? [...brandFamilies, 'neutral'] : brandFamilies;
   const lightTextAlias = 'var(--text-on-light)';
   const darkTextAlias = 'var(--text-on-dark)';
+  // Hover/active rules only target links and buttons, so colored groups and sections stay static
+  const interactive = ':is(a, button, [role="button"], .wp-element-button, .wp-block-button__link)';
+  const stateRules = (selectors: string, lightSlug: string, darkSlug: string, fallbackSlug: string = lightSlug) => {
+    let out = '';
+    (['hover', 'active'] as const).forEach((state) => {
+      out += `${interactive}:is(${selectors}):${state} {\n`;
+      out += `  background-color: var(--${fallbackSlug}-${state}) !important;\n`;
+      out += `  @supports (color: light-dark(black, white)) {\n`;
+      out += `    background-color: light-dark(var(--${lightSlug}-${state}), var(--${darkSlug}-${state})) !important;\n`;
+      out += `  }\n`;
+      out += `}\n\n`;
+    });
+    return out;
+  };
+  const hasStates = (colorType: string, step: string) =>
+    !!(palette as any)[colorType]?.variations?.some((v: { name: string; step?: string; states?: unknown }) => stepOf(colorType, v) === step && v.states);
 
   // For light/dark output, compute separate semantic choices
   const pickSemanticHexLD = (ct: 'error' | 'warning' | 'success') => {
-    const v = (palette as any)[ct].variations as { name: string; hex: string }[];
-    const byStep = Object.fromEntries(
-      v.map((x) => {
-        const slug = toSlug(x.name);
-        const step = slug.startsWith(`${ct}-`) ? slug.slice(ct.length + 1) : slug;
-        return [step, x.hex];
-      })
-    ) as Record<string, string>;
+    const v = (palette as any)[ct].variations as { name: string; hex: string; step?: string }[];
+    const byStep = Object.fromEntries(v.map((x) => [stepOf(ct, x), x.hex])) as Record<string, string>;
     const baseHex = (palette as any)[ct].hex as string | undefined;
     const sel = semanticBandSelection?.[ct];
-    const lightChoice = sel?.light ? (byStep[sel.light] ?? null) : (byStep['light'] ?? byStep['lighter'] ?? baseHex ?? null);
-    const darkChoice = sel?.dark ? (byStep[sel.dark] ?? null) : (byStep['dark'] ?? byStep['darker'] ?? baseHex ?? null);
+    const lightChoice = sel?.light ? (byStep[sel.light] ?? null) : (byStep[roleLight] ?? byStep[roleLighter] ?? baseHex ?? null);
+    const darkChoice = sel?.dark ? (byStep[sel.dark] ?? null) : (byStep[roleDark] ?? byStep[roleDarker] ?? baseHex ?? null);
     return { lightChoice, darkChoice } as { lightChoice: string | null; darkChoice: string | null };
   };
   // Informational comments for developers consuming this CSS
@@ -72,52 +95,57 @@ export const generateCssClasses = (
   css += '   * --wp--preset--color--contrast: var(--text-on-light, #000000);\n';
   css += '   */\n';
   css += '  /* Background convenience aliases */\n';
-  css += '  --bg-primary: var(--primary-dark);\n';
-  css += '  --bg-secondary: var(--secondary-dark);\n';
-  css += '  --bg-tertiary: var(--tertiary-dark);\n';
-  css += '  --bg-accent: var(--accent-dark);\n';
+  brandFamilies.forEach((colorType) => {
+    css += `  --bg-${colorType}: var(--${colorType}-${roleDark});\n`;
+  });
   css += '}\n\n';
 
   // Global note about !important for WP preset classes
   css += '/* WordPress gives all .has-* class colors !important, so !important is required to override. */\n\n';
 
+  // Keyboard focus: a ring in the current text color, which already has AAA contrast on every band
+  css += '/* Hover and active colors (--primary-dark-hover, --primary-dark-active, ...) are defined by your theme.json styles.css. */\n';
+  css += `${interactive}:is([class*="bg-"], [class*="-background-color"]):focus-visible {\n`;
+  css += '  outline: 2px solid currentColor;\n';
+  css += '  outline-offset: 2px;\n';
+  css += '}\n\n';
+
   // Generate classes for main color variations (excluding base colors)
-  ['primary', 'secondary', 'tertiary', 'accent'].forEach((colorType) => {
+  stepFamilies.forEach((colorType) => {
     const colorData = palette[colorType as keyof PaletteWithVariations];
+    if (!colorData) return;
 
     // Only variation classes for main colors (no base color classes)
     // Build a quick map of available steps for counterpart lookups
-    const stepsMap = new Set(
-      colorData.variations.map((v: { name: string }) => {
-        const vs = toSlug(v.name);
-        return vs.startsWith(`${colorType}-`) ? vs.slice(colorType.length + 1) : vs;
-      })
-    );
-
-    colorData.variations.forEach((variation: { name: string; hex: string }) => {
+    const stepsMap = new Set(colorData.variations.map((v) => stepOf(colorType, v)));
+
+    colorData.variations.forEach((variation) => {
       // Use normalized step slug (lowercase) for class names
-      const varSlug = toSlug(variation.name);
-      const step = varSlug.startsWith(`${colorType}-`) ? varSlug.slice(colorType.length + 1) : varSlug;
+      const step = stepOf(colorType, variation);
       const slug = `${colorType}-${step}`;
       const counterpart = stepCounterpart(step);
       const hasCounterpart = counterpart ? stepsMap.has(counterpart) : false;
 
       // Merge .bg-* and .has-*-background-color into a single rule
-      // Include .has-<family>-background-color on the 'dark' step for compatibility
-      const extra = step === 'dark' ? `, .has-${colorType}-background-color` : '';
+      // Include .has-<family>-background-color on the 'dark' step (lightest shade) for compatibility
+      const extra = step === roleDark ? `, .has-${colorType}-background-color` : '';
       // In @supports, always place the USER-SELECTED band first, and the opposite band second
       const lightVar = `var(--${slug})`;
       const darkVar = hasCounterpart ? `var(--${colorType}-${counterpart})` : `var(--${slug})`;
       css += `.bg-${colorType}-${step}, .has-${slug}-background-color${extra} {\n`;
       css += `  /* Fallback for browsers without light-dark(): */\n`;
       css += `  background-color: var(--${slug}) !important;\n`;
-      css += `  color: ${(step === 'lighter' || step === 'light') ? lightTextAlias : darkTextAlias} !important;\n`;
+      css += `  color: ${isTint(step) ? lightTextAlias : darkTextAlias} !important;\n`;
       css += `  @supports (color: light-dark(black, white)) {\n`;
       css += `    /* Modern color scheme aware version: */\n`;
       css += `    background-color: light-dark(${lightVar}, ${darkVar}) !important;\n`;
-      css += `    color: light-dark(${(step === 'lighter' || step === 'light') ? lightTextAlias : darkTextAlias}, ${(step === 'lighter' || step === 'light') ? darkTextAlias : lightTextAlias}) !important;\n`;
+      css += `    color: light-dark(${isTint(step) ? lightTextAlias : darkTextAlias}, ${isTint(step) ? darkTextAlias : lightTextAlias}) !important;\n`;
       css += `  }\n`;
       css += `}\n\n`;
+      if (hasStates(colorType, step)) {
+        const darkSlug = hasCounterpart && hasStates(colorType, counterpart!) ? `${colorType}-${counterpart}` : slug;
+        css += stateRules(`.bg-${colorType}-${step}, .has-${slug}-background-color${extra}`, slug, darkSlug);
+      }
     });
   });
 
@@ -125,12 +153,14 @@ export const generateCssClasses = (
   ;(['error', 'warning', 'success'] as const).forEach((colorType) => {
     const ctOut = colorType === 'warning' ? 'notice' : colorType;
     const sel = semanticBandSelection?.[colorType];
-    const lightBand = (sel?.light as Band) || 'light';
-    const darkBand = (sel?.dark as Band) || 'dark';
-    const lightVar = `var(--${ctOut}-${lightBand})`;
-    const darkVar = `var(--${ctOut}-${darkBand})`;
-    const lightText = (lightBand === 'lighter' || lightBand === 'light') ? lightTextAlias : darkTextAlias;
-    const darkText = (darkBand === 'lighter' || darkBand === 'light') ? lightTextAlias : darkTextAlias;
+    const lightBand = (sel?.light as Band) || roleLight;
+    const darkBand = (sel?.dark as Band) || roleDark;
+    // theme.json defines --<semantic>-light/-dark with the selected bands' colors, whatever the step names
+    const lightVar = `var(--${ctOut}-light)`;
+    const darkVar = `var(--${ctOut}-dark)`;
+    const lightText = isTint(lightBand) ? lightTextAlias : darkTextAlias;
+    const darkText = isTint(darkBand) ? lightTextAlias : darkTextAlias;
+    const withStates = hasStates(colorType, lightBand) && hasStates(colorType, darkBand);
 
     // Group unbanded and -light selectors together
     const lightSelectors = `.bg-${ctOut}, .bg-${ctOut}-light, .has-${ctOut}-background-color, .has-${ctOut}-light-background-color`;
@@ -143,6 +173,7 @@ export const generateCssClasses = (
     css += `    color: light-dark(${lightText}, ${darkText}) !important;\n`;
     css += `  }\n`;
     css += `}\n\n`;
+    if (withStates) css += stateRules(lightSelectors, `${ctOut}-light`, `${ctOut}-dark`);
 
     // Separate rule for -dark selectors
     const darkSelectors = `.bg-${ctOut}-dark, .has-${ctOut}-dark-background-color`;
@@ -155,26 +186,22 @@ export const generateCssClasses = (
     css += `    color: light-dark(${lightText}, ${darkText}) !important;\n`;
     css += `  }\n`;
     css += `}\n\n`;
+    if (withStates) css += stateRules(darkSelectors, `${ctOut}-light`, `${ctOut}-dark`, `${ctOut}-dark`);
   });
 
   // Add utility classes for text colors only
   css += '/* Utility classes for text colors only */\n';
 
   // Text classes for main color variations (excluding base colors)
-  ['primary', 'secondary', 'tertiary', 'accent'].forEach((colorType) => {
+  stepFamilies.forEach((colorType) => {
     const colorData = palette[colorType as keyof PaletteWithVariations];
+    if (!colorData) return;
 
     // Set up available steps map again for lookups
-    const stepsMap = new Set(
-      colorData.variations.map((v: { name: string }) => {
-        const vs = toSlug(v.name);
-        return vs.startsWith(`${colorType}-`) ? vs.slice(colorType.length + 1) : vs;
-      })
-    );
-
-    colorData.variations.forEach((variation: { name: string; hex: string }) => {
-      const varSlug = toSlug(variation.name);
-      const step = varSlug.startsWith(`${colorType}-`) ? varSlug.slice(colorType.length + 1) : varSlug;
+    const stepsMap = new Set(colorData.variations.map((v) => stepOf(colorType, v)));
+
+    colorData.variations.forEach((variation) => {
+      const step = stepOf(colorType, variation);
       const slug = `${colorType}-${step}`;
       const counterpart = stepCounterpart(step);
       const hasCounterpart = counterpart ? stepsMap.has(counterpart) : false;
@@ -206,17 +233,30 @@ export const generateCssClasses = (
     css += `}\n\n`;
   });
 
+  // Border/outline classes: 3:1 against the surface and the family's bands (WCAG 1.4.11 non-text contrast)
+  css += '/* Utility classes for borders, focus rings and outlines (--primary-border-on-light, ... are defined by your theme.json styles.css) */\n';
+  [...stepFamilies, 'error', 'warning', 'success'].forEach((colorType) => {
+    if (!(palette as any)[colorType]?.border) return;
+    const ctOut = colorType === 'warning' ? 'notice' : colorType;
+    const lightVar = `var(--${ctOut}-border-on-light)`;
+    const darkVar = `var(--${ctOut}-border-on-dark)`;
+    ([['border', 'border-color'], ['outline', 'outline-color']] as const).forEach(([prefix, prop]) => {
+      css += `.${prefix}-${ctOut} {\n`;
+      css += `  /* Fallback for browsers without light-dark(): */\n`;
+      css += `  ${prop}: ${lightVar};\n`;
+      css += `  @supports (color: light-dark(black, white)) {\n`;
+      css += `    ${prop}: light-dark(${lightVar}, ${darkVar});\n`;
+      css += `  }\n`;
+      css += `}\n\n`;
+    });
+  });
+
   return css;
 };
 
 export const generateFilenameSuffix = (palette: PaletteWithVariations): string => {
-  // Only include the four main families to keep filenames concise
-  const hexValues = [
-    palette.primary.hex.replace('#', ''),
-    palette.secondary.hex.replace('#', ''),
-    palette.tertiary.hex.replace('#', ''),
-    palette.accent.hex.replace('#', ''),
-  ];
+  // Only include the first four brand families to keep filenames concise
+  const hexValues = brandFamiliesOf(palette).slice(0, 4).map((k) => palette[k]!.hex.replace('#', ''));
 
   return hexValues.join('-');
 };
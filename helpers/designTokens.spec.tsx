@@ -0,0 +1,46 @@
+import { buildDtcgTokensJson } from "./designTokens";
+import { SEMANTIC_BAND_DEFAULTS } from "./paletteEngine";
+import { GENERATED_FILE_NOTE } from "./config";
+import { classicVariations as pv, fiftyToNineHundred, primaryOnlyPalette, runFiftyToNineHundred, textOnLight, textOnDark } from "./exportSpecFixtures";
+
+describe("designTokens", () => {
+  it("should hold every step as a color token and alias the mirror step in dark mode", () => {
+    const tokens = JSON.parse(buildDtcgTokensJson(pv, "My Theme", {
+      semanticBandSelection: { ...SEMANTIC_BAND_DEFAULTS, error: { light: "lighter", dark: "darker" } },
+      textOnLight,
+      textOnDark,
+    }));
+    expect(tokens.color.$type).toBe("color");
+    const light = pv.primary.variations.find((v) => v.step === "light")!;
+    expect(tokens.color.primary.light.$value.hex).toBe(light.hex.toLowerCase());
+    expect(tokens.color.primary.light.$value.components.length).toBe(3);
+    expect(tokens.color.primary["light-hover"].$value.hex).toBe(light.states!.hover.toLowerCase());
+    expect(tokens.color.text["on-dark"].$value.hex).toBe(textOnDark.toLowerCase());
+    expect(tokens.mode.light.primary.light.$value).toBe("{color.primary.light}");
+    expect(tokens.mode.dark.primary.light.$value).toBe("{color.primary.dark}");
+    expect(tokens.mode.dark.primary.lighter.$value).toBe("{color.primary.darker}");
+    // Semantic families follow the band selection instead of mirroring
+    expect(tokens.mode.light.error.$value).toBe("{color.error.lighter}");
+    expect(tokens.mode.dark.error.$value).toBe("{color.error.darker}");
+    expect(tokens.mode.dark.text.$value).toBe("{color.text.on-dark}");
+    expect(tokens.mode.dark.primary.border.$value).toBe("{color.primary.border-on-dark}");
+    expect(tokens.$description).toBe(`My Theme: ${GENERATED_FILE_NOTE}`);
+  });
+
+  it("should name tokens after a custom scale's steps and include only the families present", () => {
+    const one = runFiftyToNineHundred(primaryOnlyPalette, true);
+    const tokens = JSON.parse(buildDtcgTokensJson(one, "Ten Steps", fiftyToNineHundred));
+
+    for (const { name } of fiftyToNineHundred.steps) {
+      expect(tokens.color.primary[name].$description).toBe(`Primary ${name}`);
+      expect(tokens.color.neutral[name]).toBeDefined();
+    }
+    expect(tokens.color.secondary).toBeUndefined();
+    expect(tokens.mode.dark.secondary).toBeUndefined();
+    expect(tokens.mode.dark.primary["50"].$value).toBe("{color.primary.900}");
+    expect(tokens.mode.dark.neutral["300"].$value).toBe("{color.neutral.600}");
+    // Default semantic bands are the darkest tint and lightest shade of the scale
+    expect(tokens.mode.light.warning.$value).toBe("{color.warning.400}");
+    expect(tokens.mode.dark.warning.$value).toBe("{color.warning.500}");
+  });
+});
@@ -0,0 +1,123 @@
+// helpers/designTokens.ts
+// W3C Design Tokens Community Group (DTCG) export: every step of every family as a `$type: color` token,
+// plus `mode.light` / `mode.dark` groups of aliases that map each role to the step used in that scheme
+// (brand steps mirror across the scale, semantic colors follow the chosen SemanticBandSelection).
+
+import type { PaletteWithVariations, ColorWithVariations, Color } from './types';
+import { hexToRgb } from './colorUtils';
+import { brandFamiliesOf, brandFamilyLabel } from './brandFamilies';
+import { DEFAULT_STEP_SCALE, counterpartStep, type StepScale } from './stepScale';
+import type { SemanticBandSelection } from './paletteEngine';
+import { GENERATED_FILE_NOTE } from './config';
+
+/** DTCG 2025.10 color value: sRGB components in 0..1, with the hex for tools that only read that */
+export type DtcgColorValue = { colorSpace: 'srgb'; components: [number, number, number]; hex: string };
+
+export type DtcgToken = { $value: DtcgColorValue | string; $description?: string };
+export type DtcgGroup = { [key: string]: DtcgGroup | DtcgToken | string | undefined; $type?: 'color'; $description?: string };
+
+export type DtcgOptions = {
+  semanticBandSelection: SemanticBandSelection;
+  textOnLight: string;
+  textOnDark: string;
+  steps?: StepScale | undefined;
+};
+
+const SEMANTIC_LABELS = { error: 'Error', warning: 'Notice', success: 'Success' } as const;
+
+function colorValue(hex: string): DtcgColorValue {
+  const { r, g, b } = hexToRgb(hex);
+  const c = (n: number) => Math.round((n / 255) * 10000) / 10000;
+  return { colorSpace: 'srgb', components: [c(r), c(g), c(b)], hex: hex.toLowerCase() };
+}
+
+const token = (hex: string, description?: string): DtcgToken =>
+  (description ? { $value: colorValue(hex), $description: description } : { $value: colorValue(hex) });
+
+const alias = (path: string): DtcgToken => ({ $value: `{${path}}` });
+
+/** Variation hex by step name, preferring the logical `step` over the display name */
+function stepHexes(color: ColorWithVariations): Record<string, Color> {
+  return Object.fromEntries(color.variations.map((v) => [(v.step || v.name).toLowerCase(), v]));
+}
+
+/** base, each step, its hover/active states, and the 3:1 border colors */
+function familyGroup(color: ColorWithVariations, label: string, steps: StepScale): DtcgGroup {
+  const byStep = stepHexes(color);
+  const group: DtcgGroup = { $description: label, base: token(color.hex, `${label} as entered`) };
+  for (const { name, label: stepLabel } of steps) {
+    const v = byStep[name];
+    if (!v) continue;
+    group[name] = token(v.hex, `${label} ${stepLabel}`);
+    if (v.states) {
+      group[`${name}-hover`] = token(v.states.hover);
+      group[`${name}-active`] = token(v.states.active);
+    }
+  }
+  if (color.border) {
+    group['border-on-light'] = token(color.border.onLight, `${label} border/outline on light surfaces (3:1)`);
+    group['border-on-dark'] = token(color.border.onDark, `${label} border/outline on dark surfaces (3:1)`);
+  }
+  return group;
+}
+
+/** Aliases for one scheme: brand and neutral steps (mirrored in dark mode), semantic colors, text and borders */
+function modeGroup(
+  palette: PaletteWithVariations,
+  scheme: 'light' | 'dark',
+  steps: StepScale,
+  semanticBandSelection: SemanticBandSelection
+): DtcgGroup {
+  const group: DtcgGroup = {
+    $description: scheme === 'light'
+      ? 'Light mode: each role points at its own step'
+      : 'Dark mode: each role points at its mirror step (lighter <-> darker, light <-> dark)',
+    text: alias(`color.text.${scheme === 'light' ? 'on-light' : 'on-dark'}`),
+  };
+  const families: Array<keyof PaletteWithVariations> = palette.neutral ? [...brandFamiliesOf(palette), 'neutral'] : brandFamiliesOf(palette);
+  for (const family of families) {
+    const byStep = stepHexes(palette[family]!);
+    const roles: DtcgGroup = {};
+    for (const { name } of steps) {
+      const target = scheme === 'light' ? name : (counterpartStep(steps, name) ?? name);
+      if (byStep[name] && byStep[target]) roles[name] = alias(`color.${family}.${target}`);
+    }
+    if (palette[family]!.border) roles.border = alias(`color.${family}.border-on-${scheme}`);
+    group[family] = roles;
+  }
+  for (const family of ['error', 'warning', 'success'] as const) {
+    const step = semanticBandSelection[family][scheme];
+    if (stepHexes(palette[family])[step]) group[family] = alias(`color.${family}.${step}`);
+  }
+  return group;
+}
+
+/** DTCG token tree for the palette and the text colors */
+export function buildDtcgTokens(palette: PaletteWithVariations, title: string, opts: DtcgOptions): DtcgGroup {
+  const steps = opts.steps ?? DEFAULT_STEP_SCALE;
+  const color: DtcgGroup = {
+    $type: 'color',
+    text: {
+      'on-light': token(opts.textOnLight, 'Text on light backgrounds (near black)'),
+      'on-dark': token(opts.textOnDark, 'Text on dark backgrounds (near white)'),
+    },
+  };
+  for (const family of brandFamiliesOf(palette)) color[family] = familyGroup(palette[family]!, brandFamilyLabel(family), steps);
+  for (const family of ['error', 'warning', 'success'] as const) color[family] = familyGroup(palette[family], SEMANTIC_LABELS[family], steps);
+  if (palette.neutral) color.neutral = familyGroup(palette.neutral, 'Neutral', steps);
+
+  return {
+    $description: `${title}: ${GENERATED_FILE_NOTE}`,
+    color,
+    mode: {
+      $type: 'color',
+      light: modeGroup(palette, 'light', steps, opts.semanticBandSelection),
+      dark: modeGroup(palette, 'dark', steps, opts.semanticBandSelection),
+    },
+  };
+}
+
+/** buildDtcgTokens as a .tokens.json file body */
+export function buildDtcgTokensJson(palette: PaletteWithVariations, title: string, opts: DtcgOptions): string {
+  return `${JSON.stringify(buildDtcgTokens(palette, title, opts), null, 2)}\n`;
+}
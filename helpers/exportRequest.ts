@@ -0,0 +1,120 @@
+// Request schema for POST /api/export (shared by the API route and the generator UI)
+import { z } from 'zod';
+import { PaletteWithVariations, ColorWithVariations, Color, ColorType } from './types';
+import { apiHeaders, readApiError } from './accountApi';
+import { EXPORT_VARIATION_MODES, EXTRA_EXPORT_FORMATS, MAX_EXPORT_VARIATIONS, countExportVariations, type ExportVariationMode, type ExtraExportFormat, type SemanticBandSelection } from './paletteEngine';
+import { BRAND_FAMILY_KEYS, brandFamiliesOf, isBrandFamily } from './brandFamilies';
+import { stepScaleSchema } from './paletteFormat';
+import type { StepScale } from './stepScale';
+
+const hex = z.string().regex(/^#[0-9a-f]{6}$/i, 'Invalid hex color');
+// Step names come from the palette's step scale (lighter/light/dark/darker by default)
+const band = z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Invalid step name').max(40);
+const semanticPerScheme = z.object({ light: band, dark: band });
+
+const colorObject = z.object({
+  name: z.string().max(100),
+  hex,
+  step: band.optional(),
+  states: z.object({ hover: hex, active: hex }).optional(),
+});
+
+// zod leaves absent optional keys as `undefined`; the palette types (exactOptionalPropertyTypes) omit them instead
+const toColor = (c: z.infer<typeof colorObject>): Color => ({
+  name: c.name,
+  hex: c.hex,
+  ...(c.step ? { step: c.step } : {}),
+  ...(c.states ? { states: c.states } : {}),
+});
+
+const colorSchema = colorObject.transform(toColor);
+
+const colorWithVariationsSchema = colorObject.extend({
+  variations: z.array(colorSchema).max(16),
+  border: z.object({ onLight: hex, onDark: hex }).optional(),
+}).transform((c): ColorWithVariations => ({
+  ...toColor(c),
+  variations: c.variations,
+  ...(c.border ? { border: c.border } : {}),
+}));
+
+const optionalFamilies = [...BRAND_FAMILY_KEYS.filter((f) => f !== 'primary'), 'neutral'] as const;
+
+const paletteSchema = z.object({
+  primary: colorWithVariationsSchema,
+  secondary: colorWithVariationsSchema.optional(),
+  tertiary: colorWithVariationsSchema.optional(),
+  accent: colorWithVariationsSchema.optional(),
+  'accent-2': colorWithVariationsSchema.optional(),
+  'accent-3': colorWithVariationsSchema.optional(),
+  'accent-4': colorWithVariationsSchema.optional(),
+  'accent-5': colorWithVariationsSchema.optional(),
+  error: colorWithVariationsSchema,
+  warning: colorWithVariationsSchema,
+  success: colorWithVariationsSchema,
+  neutral: colorWithVariationsSchema.optional(),
+}).transform((p): PaletteWithVariations => {
+  const palette: PaletteWithVariations = { primary: p.primary, error: p.error, warning: p.warning, success: p.success };
+  for (const family of optionalFamilies) {
+    const color = p[family];
+    if (color) palette[family] = color;
+  }
+  return palette;
+});
+
+export const exportRequestSchema = z.object({
+  themeName: z.string().max(100).optional().default(''),
+  palette: paletteSchema,
+  // Uploaded theme.json (optional); only settings.color.palette and the sanitized keys are used
+  themeConfig: z.record(z.any()).optional(),
+  semanticBandSelection: z.object({
+    error: semanticPerScheme,
+    warning: semanticPerScheme,
+    success: semanticPerScheme,
+  }).optional(),
+  textOnDark: hex,
+  textOnLight: hex,
+  variationMode: z.enum(EXPORT_VARIATION_MODES).optional().default('accent-fixed'),
+  // Brand families to rotate when variationMode is 'custom'
+  rotate: z.array(z.custom<ColorType>((v) => typeof v === 'string' && isBrandFamily(v), 'Unknown brand family')).max(8).optional(),
+  steps: stepScaleSchema.optional(),
+  // Optional extra files (e.g. DTCG design tokens)
+  extraFormats: z.array(z.enum(EXTRA_EXPORT_FORMATS)).max(EXTRA_EXPORT_FORMATS.length).optional(),
+}).superRefine((body, ctx) => {
+  const count = countExportVariations(body.variationMode, brandFamiliesOf(body.palette), body.rotate);
+  if (count > MAX_EXPORT_VARIATIONS) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['variationMode'], message: `${count} variations requested; at most ${MAX_EXPORT_VARIATIONS} are allowed` });
+  }
+});
+
+export type ExportRequestInput = {
+  themeName?: string;
+  palette: PaletteWithVariations;
+  themeConfig?: any;
+  semanticBandSelection?: SemanticBandSelection;
+  textOnDark: string;
+  textOnLight: string;
+  variationMode?: ExportVariationMode;
+  rotate?: ColorType[];
+  steps?: StepScale;
+  extraFormats?: ExtraExportFormat[];
+};
+
+/** Pull the filename from `Content-Disposition: attachment; filename="..."` */
+function filenameFromDisposition(value: string | null): string | undefined {
+  const m = value ? /filename="?([^";]+)"?/i.exec(value) : null;
+  return m?.[1];
+}
+
+/** Build the theme ZIP on the server (consumes one export credit) */
+export const postExport = async (body: ExportRequestInput): Promise<{ zipName: string; blob: Blob }> => {
+  const res = await fetch('/api/export', {
+    method: 'POST',
+    credentials: 'same-origin',
+    body: JSON.stringify(body),
+    headers: apiHeaders({ 'Content-Type': 'application/json' }),
+  });
+  if (!res.ok) throw await readApiError(res);
+  const blob = await res.blob();
+  return { zipName: filenameFromDisposition(res.headers.get('Content-Disposition')) || 'themes-palette.zip', blob };
+};
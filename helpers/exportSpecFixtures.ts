@@ -0,0 +1,51 @@
+// Shared palettes for the exporter specs (designTokens, tailwindExport, pageBuilderExport, swatchExport, mobileExport)
+import { runPaletteEngine, semanticBandDefaultsFor } from "./paletteEngine";
+import { FIFTY_TO_NINE_HUNDRED_STEP_SCALE } from "./stepScale";
+import { PaletteWithVariations, Palette } from "./types";
+
+export const textOnLight = "#453521";
+export const textOnDark = "#F8F7F7";
+
+/** The classic four brand families and the semantic colors */
+export const palette: Palette = {
+  primary: { name: "Primary", hex: "#2563eb" },
+  secondary: { name: "Secondary", hex: "#4f46e5" },
+  tertiary: { name: "Tertiary", hex: "#059669" },
+  accent: { name: "Accent", hex: "#db2777" },
+  error: { name: "Error", hex: "#c53030" },
+  warning: { name: "Notice", hex: "#fff700" },
+  success: { name: "Success", hex: "#38a169" },
+};
+
+/** Primary as the only brand family */
+export const primaryOnlyPalette: Palette = { primary: palette.primary, error: palette.error, warning: palette.warning, success: palette.success };
+
+/** Six brand families, through Accent 3 */
+export const sixFamilyPalette: Palette = {
+  ...palette,
+  "accent-2": { name: "Accent 2", hex: "#ea580c" },
+  "accent-3": { name: "Accent 3", hex: "#0891b2" },
+};
+
+/** Engine output for `palette` on the lighter/light/dark/darker scale */
+export const classicVariations: PaletteWithVariations = runPaletteEngine({ palette, textOnLight, textOnDark }).paletteWithVariations;
+
+/** Exporter options for the 50–900 scale with its default semantic bands */
+export const fiftyToNineHundred = {
+  steps: FIFTY_TO_NINE_HUNDRED_STEP_SCALE,
+  semanticBandSelection: semanticBandDefaultsFor(FIFTY_TO_NINE_HUNDRED_STEP_SCALE),
+  textOnLight,
+  textOnDark,
+};
+
+/** Engine output for a palette on the 50–900 scale */
+export const runFiftyToNineHundred = (p: Palette, neutral = false): PaletteWithVariations =>
+  runPaletteEngine({ palette: p, textOnLight, textOnDark, steps: FIFTY_TO_NINE_HUNDRED_STEP_SCALE, neutral }).paletteWithVariations;
+
+/** Hex of one step of a family, as the engine produced it */
+export const stepHex = (pv: PaletteWithVariations, family: keyof PaletteWithVariations, step: string) =>
+  pv[family]!.variations.find((v) => v.step === step)!.hex;
+
+/** stepHex in the uppercase form the page builder and app color exports write */
+export const upperStepHex = (pv: PaletteWithVariations, family: keyof PaletteWithVariations, step: string) =>
+  stepHex(pv, family, step).toUpperCase();
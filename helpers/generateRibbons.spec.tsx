@@ -0,0 +1,61 @@
+import {
+  diagnoseToneLuminances,
+  diagnoseRibbonForBand,
+  diagnoseStepWindow,
+  explainToneDiagnostics,
+  explainStepDiagnostics,
+  generateRibbonForBand,
+  generateToneLuminances,
+} from "./generateRibbons";
+import { FIFTY_TO_NINE_HUNDRED_STEP_SCALE, stepSlot } from "./stepScale";
+import { AAA_MIN, TINT_TARGET_COUNT } from "./config";
+
+const textOnLight = "#453521";
+const textOnDark = "#F8F7F7";
+
+describe("ribbon diagnostics", () => {
+  it("should account for every sampled Y and match the ribbons generated without diagnostics", () => {
+    for (const tone of ["tint", "shade"] as const) {
+      const { luminances, diagnostics: d } = diagnoseToneLuminances("#FFD700", tone, textOnLight, textOnDark);
+      expect(luminances).toEqual(generateToneLuminances("#FFD700", tone, textOnLight, textOnDark));
+      const rejected = d.rejected.belowAaa + d.rejected.aboveMaxContrast + d.rejected.belowApca;
+      expect(d.sampled - rejected).toBeGreaterThanOrEqual(d.kept);
+      expect(d.kept).toBe(luminances.length);
+      expect(d.contrast.min).toBeLessThan(AAA_MIN);
+      expect(d.passedY!.min).toBeGreaterThanOrEqual(d.window.minY);
+      expect(d.passedY!.max).toBeLessThanOrEqual(d.window.maxY + 1e-9);
+    }
+    const band = diagnoseRibbonForBand("#FFD700", "darker", textOnLight, textOnDark);
+    expect(band.colors).toEqual(generateRibbonForBand("#FFD700", "darker", textOnLight, textOnDark));
+    expect(band.step.kept).toBe(band.colors.length);
+    expect(band.step.kept + band.step.outsideWindow).toBe(band.diagnostics.kept);
+  });
+
+  it("should count colors dropped by even sampling and left outside a step's window", () => {
+    const { luminances, diagnostics: d } = diagnoseToneLuminances("#2563eb", "tint", textOnLight, textOnDark);
+    expect(d.kept).toBe(TINT_TARGET_COUNT);
+    const passed = d.sampled - d.rejected.belowAaa - d.rejected.aboveMaxContrast - d.rejected.belowApca - d.rejected.tooCloseToWhite;
+    expect(d.downsampled).toBe(passed - d.kept);
+    expect(d.downsampled).toBeGreaterThan(0);
+    expect(explainToneDiagnostics("Primary", d).some((line) => line.includes("dropped to space the tints evenly"))).toBeTrue();
+
+    // A 50-900 tint step sees only its window of the tone; the lightest step takes the highest Ys
+    const step = diagnoseStepWindow(luminances, stepSlot(FIFTY_TO_NINE_HUNDRED_STEP_SCALE, "50")!);
+    expect(step.kept).toBeLessThan(d.kept);
+    expect(step.outsideWindow).toBe(d.kept - step.kept);
+    expect(step.windowY!.max).toBe(luminances[luminances.length - 1]!);
+    expect(explainStepDiagnostics("50", step)).toBe(
+      `50 uses ${step.kept} of the ${d.kept} tints (Y ${step.windowY!.min.toFixed(2)}–${step.windowY!.max.toFixed(2)}); the other ${step.outsideWindow} fall in the windows of the 4 other tint steps.`
+    );
+  });
+
+  it("should explain an empty shade ribbon by its contrast with Text on Dark", () => {
+    const { luminances, diagnostics } = diagnoseToneLuminances("#FFD700", "shade", textOnLight, "#9A9A9A");
+    expect(luminances).toEqual([]);
+    expect(diagnostics.rejected.belowAaa).toBe(diagnostics.sampled);
+    expect(diagnostics.passedY).toBeNull();
+    const lines = explainToneDiagnostics("Notice", diagnostics);
+    expect(lines[1]).toContain("contrast with Text on Dark");
+    expect(lines[lines.length - 1]).toContain("make Text on Dark lighter");
+  });
+});
@@ -1,4 +1,6 @@
-import { hexToRgb, solveHslLightnessForY, rgbToHex, luminance, getContrastRatio } from './colorUtils';
+import { hexToRgb, solveLightnessForY, rgbToHex, luminance, getContrastRatio, meetsApcaMin } from './colorUtils';
+import type { RibbonMode } from './types';
+import { DEFAULT_STEP_SCALE, stepSlot, windowForSlot, type StepSlot, type StepTone } from './stepScale';
 import {
 	LIGHT_MIN_Y_BASE,
 	LIGHTER_MAX_Y,
@@ -26,175 +28,264 @@ export interface RibbonColor {
 }
 
 /**
- * Generate ribbon colors for a single band.
- * This is the SINGLE SOURCE OF TRUTH for color generation.
- * Extracted from LuminanceTestStrips.tsx logic (lines 96-133 for tints, 361-403 for shades).
- *
- * @param baseHex - Base color in #RRGGBB format
- * @param band - Which band to generate ('lighter', 'light', 'dark', 'darker')
- * @param textOnLight - Text color for light backgrounds (near-black)
- * @param textOnDark - Text color for dark backgrounds (near-white)
- * @returns Array of 0-15 colors that meet AAA contrast requirements
+ * Why a tone's ribbon is as long as it is: how many sampled Y targets each constraint rejected,
+ * and what Y / contrast range the base hue actually reaches in the tone's Y window.
  */
-export function generateRibbonForBand(
+export interface ToneDiagnostics {
+	tone: StepTone;
+	/** Y window sampled for the tone (LIGHT_MIN_Y_BASE..LIGHTER_MAX_Y or DARKER_MIN_Y..DARK_MAX_Y) */
+	window: { minY: number; maxY: number };
+	sampled: number;
+	/** Samples rejected by each constraint, checked in this order */
+	rejected: {
+		/** Contrast with the tone's text color below AAA_MIN */
+		belowAaa: number;
+		/** Contrast above MAX_CONTRAST_TINTS / MAX_CONTRAST_SHADES */
+		aboveMaxContrast: number;
+		/** APCA |Lc| below the optional minimum */
+		belowApca: number;
+		/** Lightest tint closer to white than MIN_DELTA_LUM_TINTS_FROM_WHITE */
+		tooCloseToWhite: number;
+	};
+	/** Colors kept for the tone, after even sampling down to TINT_TARGET_COUNT / SHADE_TARGET_COUNT */
+	kept: number;
+	/** Colors that passed every constraint but were dropped by that even sampling */
+	downsampled: number;
+	/** Y and contrast (with the tone's text color) the base hue reaches across the window */
+	reachedY: { min: number; max: number };
+	contrast: { min: number; max: number };
+	/** Y range of the samples that passed every constraint, or null when none did */
+	passedY: { min: number; max: number } | null;
+}
+
+/**
+ * AAA-valid target luminances for one tone of a base color, ascending, with the reason for every
+ * rejected sample. Tints are sampled from LIGHT_MIN_Y_BASE to LIGHTER_MAX_Y against text-on-light;
+ * shades from DARKER_MIN_Y to DARK_MAX_Y against text-on-dark.
+ * Parameters are the same as generateToneLuminances.
+ */
+export function diagnoseToneLuminances(
 	baseHex: string,
-	band: 'lighter' | 'light' | 'dark' | 'darker',
+	tone: StepTone,
 	textOnLight: string,
-	textOnDark: string
-): RibbonColor[] {
+	textOnDark: string,
+	ribbonMode: RibbonMode = 'hsl',
+	minApcaLc: number | null = null
+): { luminances: number[]; diagnostics: ToneDiagnostics } {
 	const baseRgb = hexToRgb(baseHex);
-	const textOnLightRgb = hexToRgb(textOnLight);
-	const textOnDarkRgb = hexToRgb(textOnDark);
+	const isTint = tone === 'tint';
+	// Tints: filter for AAA contrast with text-on-light (near-black); shades: with text-on-dark (near-white)
+	const textRgb = hexToRgb(isTint ? textOnLight : textOnDark);
+	const minY = isTint ? LIGHT_MIN_Y_BASE : DARKER_MIN_Y;
+	const maxY = isTint ? LIGHTER_MAX_Y : DARK_MAX_Y;
+	const maxContrast = isTint ? MAX_CONTRAST_TINTS : MAX_CONTRAST_SHADES;
+	const targetCount = isTint ? TINT_TARGET_COUNT : SHADE_TARGET_COUNT;
 
 	const luminanceIncrement = 0.005; // Luminance sampling granularity
 	const rawLuminanceValues: number[] = [];
+	for (let luminanceValue = minY; luminanceValue <= maxY + 1e-9; luminanceValue += luminanceIncrement) {
+		rawLuminanceValues.push(parseFloat(luminanceValue.toFixed(Y_TARGET_DECIMALS)));
+	}
 
-	if (band === 'lighter' || band === 'light') {
-		// TINTS: Generate from LIGHT_MIN_Y_BASE to LIGHTER_MAX_Y
-		// Filter for AAA contrast with text-on-light (near-black)
-		const minY = LIGHT_MIN_Y_BASE;
-		const maxY = LIGHTER_MAX_Y;
-
-		// Sample at 0.005 granularity
-		for (let luminanceValue = minY; luminanceValue <= maxY + 1e-9; luminanceValue += luminanceIncrement) {
-			rawLuminanceValues.push(parseFloat(luminanceValue.toFixed(Y_TARGET_DECIMALS)));
-		}
-
-		// Filter for AAA contrast with textOnLight
-		const aaaValidLuminances = rawLuminanceValues.filter((luminanceTarget: number) => {
-			const rgb = solveHslLightnessForY(baseRgb, luminanceTarget);
-			const contrast = getContrastRatio(rgb, textOnLightRgb);
-			return contrast >= AAA_MIN && contrast <= MAX_CONTRAST_TINTS;
-		}).sort((a: number, b: number) => a - b);
+	const diagnostics: ToneDiagnostics = {
+		tone,
+		window: { minY, maxY },
+		sampled: rawLuminanceValues.length,
+		rejected: { belowAaa: 0, aboveMaxContrast: 0, belowApca: 0, tooCloseToWhite: 0 },
+		kept: 0,
+		downsampled: 0,
+		reachedY: { min: Infinity, max: -Infinity },
+		contrast: { min: Infinity, max: -Infinity },
+		passedY: null,
+	};
+	const aaaValidLuminances = rawLuminanceValues.filter((luminanceTarget: number) => {
+		const rgb = solveLightnessForY(baseRgb, luminanceTarget, ribbonMode);
+		const contrast = getContrastRatio(rgb, textRgb);
+		const y = luminance(rgb.r, rgb.g, rgb.b);
+		diagnostics.reachedY = { min: Math.min(diagnostics.reachedY.min, y), max: Math.max(diagnostics.reachedY.max, y) };
+		diagnostics.contrast = { min: Math.min(diagnostics.contrast.min, contrast), max: Math.max(diagnostics.contrast.max, contrast) };
+		if (contrast < AAA_MIN) { diagnostics.rejected.belowAaa++; return false; }
+		if (contrast > maxContrast) { diagnostics.rejected.aboveMaxContrast++; return false; }
+		if (!meetsApcaMin(rgb, textRgb, minApcaLc)) { diagnostics.rejected.belowApca++; return false; }
+		return true;
+	}).sort((a: number, b: number) => a - b);
 
-		if (aaaValidLuminances.length === 0) {
-			return []; // No valid colors - text-on-light is invalid
+	const done = (luminances: number[]) => {
+		diagnostics.kept = luminances.length;
+		if (aaaValidLuminances.length) {
+			diagnostics.passedY = { min: aaaValidLuminances[0]!, max: aaaValidLuminances[aaaValidLuminances.length - 1]! };
 		}
+		return { luminances, diagnostics };
+	};
 
-		// Sample evenly to get up to TINT_TARGET_COUNT (15) colors
-		let unifiedLuminances: number[] = [];
-		if (aaaValidLuminances.length >= TINT_TARGET_COUNT) {
-			const picks: number[] = [];
-			const stepIdx = (aaaValidLuminances.length - 1) / (TINT_TARGET_COUNT - 1);
-			for (let i = 0; i < TINT_TARGET_COUNT; i++) {
-				const idx = Math.round(i * stepIdx);
-				const luminance = aaaValidLuminances[idx];
-				if (luminance !== undefined) picks.push(parseFloat(luminance.toFixed(Y_TARGET_DECIMALS)));
-			}
-			unifiedLuminances = Array.from(new Set(picks));
-		} else {
-			// Use all valid colors, ensure min gap from white
-			unifiedLuminances = aaaValidLuminances.filter((luminanceTarget: number, idx: number) => {
-				if (idx === 0) return (1.0 - luminanceTarget) >= MIN_DELTA_LUM_TINTS_FROM_WHITE;
-				return true;
-			});
-		}
+	if (aaaValidLuminances.length === 0) {
+		return done([]); // No valid colors - the text token is invalid
+	}
 
-		// Split into lighter (higher Y) and light (lower Y)
-		const N = unifiedLuminances.length;
-		if (N === 0) return [];
-
-		let bandLuminances: number[];
-		if (N <= 5) {
-			const take = Math.max(0, N - 1);
-			if (band === 'lighter') {
-				// lighter = highest luminances
-				bandLuminances = unifiedLuminances.slice(Math.max(0, N - take));
-			} else {
-				// light = lowest luminances
-				bandLuminances = unifiedLuminances.slice(0, take);
-			}
-		} else {
-			const base = Math.max(0, Math.floor(N / 2) - 1);
-			const overlap = Math.max(0, N - 2 * base);
-			if (band === 'lighter') {
-				// lighter = highest luminances (top half + overlap)
-				bandLuminances = unifiedLuminances.slice(Math.max(0, N - (base + overlap)));
-			} else {
-				// light = lowest luminances (bottom half + overlap)
-				bandLuminances = unifiedLuminances.slice(0, base + overlap);
-			}
+	// Sample evenly to get up to TINT_TARGET_COUNT / SHADE_TARGET_COUNT (15) colors
+	if (aaaValidLuminances.length >= targetCount) {
+		const picks: number[] = [];
+		const stepIdx = (aaaValidLuminances.length - 1) / (targetCount - 1);
+		for (let i = 0; i < targetCount; i++) {
+			const idx = Math.round(i * stepIdx);
+			const luminance = aaaValidLuminances[idx];
+			if (luminance !== undefined) picks.push(parseFloat(luminance.toFixed(Y_TARGET_DECIMALS)));
 		}
+		const kept = Array.from(new Set(picks));
+		diagnostics.downsampled = aaaValidLuminances.length - kept.length;
+		return done(kept);
+	}
+	if (!isTint) return done(aaaValidLuminances);
+	// Use all valid tints, ensure min gap from white
+	const tints = aaaValidLuminances.filter((luminanceTarget: number, idx: number) => {
+		if (idx === 0) return (1.0 - luminanceTarget) >= MIN_DELTA_LUM_TINTS_FROM_WHITE;
+		return true;
+	});
+	diagnostics.rejected.tooCloseToWhite = aaaValidLuminances.length - tints.length;
+	return done(tints);
+}
 
-		// Convert luminance targets to actual colors
-		return bandLuminances.map((targetLuminance, ribbonIndex) => {
-			const rgb = solveHslLightnessForY(baseRgb, targetLuminance);
-			const hex = rgbToHex(rgb.r, rgb.g, rgb.b);
-			const actualLuminance = luminance(rgb.r, rgb.g, rgb.b);
-			return { hex, y: actualLuminance, index: ribbonIndex };
-		});
+/**
+ * AAA-valid target luminances for one tone of a base color, ascending.
+ * Tints are sampled from LIGHT_MIN_Y_BASE to LIGHTER_MAX_Y against text-on-light;
+ * shades from DARKER_MIN_Y to DARK_MAX_Y against text-on-dark. Each step of the scale
+ * takes an overlapping window of this list (see windowForSlot).
+ *
+ * @param baseHex - Base color in #RRGGBB format
+ * @param tone - 'tint' or 'shade'
+ * @param textOnLight - Text color for light backgrounds (near-black)
+ * @param textOnDark - Text color for dark backgrounds (near-white)
+ * @param ribbonMode - 'hsl' holds HSL hue/saturation; 'oklch' holds OKLCH hue and gamut-maps chroma
+ * @param minApcaLc - Optional APCA |Lc| every color must also reach against its text color
+ */
+export function generateToneLuminances(
+	baseHex: string,
+	tone: StepTone,
+	textOnLight: string,
+	textOnDark: string,
+	ribbonMode: RibbonMode = 'hsl',
+	minApcaLc: number | null = null
+): number[] {
+	return diagnoseToneLuminances(baseHex, tone, textOnLight, textOnDark, ribbonMode, minApcaLc).luminances;
+}
 
-	} else {
-		// SHADES: Generate from DARKER_MIN_Y to DARK_MAX_Y
-		// Filter for AAA contrast with text-on-dark (near-white)
-		const minY = DARKER_MIN_Y;
-		const maxY = DARK_MAX_Y;
+/** Convert target luminances to ribbon colors (index = position within the ribbon) */
+export function ribbonFromLuminances(baseHex: string, luminances: number[], ribbonMode: RibbonMode = 'hsl'): RibbonColor[] {
+	const baseRgb = hexToRgb(baseHex);
+	return luminances.map((targetLuminance, ribbonIndex) => {
+		const rgb = solveLightnessForY(baseRgb, targetLuminance, ribbonMode);
+		const hex = rgbToHex(rgb.r, rgb.g, rgb.b);
+		const actualLuminance = luminance(rgb.r, rgb.g, rgb.b);
+		return { hex, y: actualLuminance, index: ribbonIndex };
+	});
+}
 
-		// Sample at 0.005 granularity
-		for (let luminanceValue = minY; luminanceValue <= maxY + 1e-9; luminanceValue += luminanceIncrement) {
-			rawLuminanceValues.push(parseFloat(luminanceValue.toFixed(Y_TARGET_DECIMALS)));
-		}
+/**
+ * Generate ribbon colors for a single band.
+ * This is the SINGLE SOURCE OF TRUTH for color generation.
+ * Extracted from LuminanceTestStrips.tsx logic (lines 96-133 for tints, 361-403 for shades).
+ *
+ * @param baseHex - Base color in #RRGGBB format
+ * @param band - A default band name ('lighter', 'light', 'dark', 'darker') or a step slot from a custom scale
+ * @param textOnLight - Text color for light backgrounds (near-black)
+ * @param textOnDark - Text color for dark backgrounds (near-white)
+ * @param ribbonMode - 'hsl' holds HSL hue/saturation; 'oklch' holds OKLCH hue and gamut-maps chroma
+ * @param minApcaLc - Optional APCA |Lc| every color must also reach against its text color
+ * @returns Array of 0-15 colors that meet AAA contrast requirements
+ */
+export function generateRibbonForBand(
+	baseHex: string,
+	band: 'lighter' | 'light' | 'dark' | 'darker' | StepSlot,
+	textOnLight: string,
+	textOnDark: string,
+	ribbonMode: RibbonMode = 'hsl',
+	minApcaLc: number | null = null
+): RibbonColor[] {
+	const slot = typeof band === 'string' ? stepSlot(DEFAULT_STEP_SCALE, band)! : band;
+	const unifiedLuminances = generateToneLuminances(baseHex, slot.tone, textOnLight, textOnDark, ribbonMode, minApcaLc);
+	return ribbonFromLuminances(baseHex, windowForSlot(unifiedLuminances, slot), ribbonMode);
+}
 
-		// Filter for AAA contrast with textOnDark
-		const aaaValidLuminances = rawLuminanceValues.filter((luminanceTarget: number) => {
-			const rgb = solveHslLightnessForY(baseRgb, luminanceTarget);
-			const contrast = getContrastRatio(rgb, textOnDarkRgb);
-			return contrast >= AAA_MIN && contrast <= MAX_CONTRAST_SHADES;
-		}).sort((a: number, b: number) => a - b);
+/**
+ * Why one step's ribbon is as long as it is: each step takes an overlapping window of its tone's kept colors
+ * (see windowForSlot), so the rest of the tone belongs to the other steps.
+ */
+export interface StepDiagnostics {
+	slot: StepSlot;
+	/** Tone colors kept before windowing (ToneDiagnostics.kept) */
+	toneKept: number;
+	/** Y range of the step's window, or null when it is empty */
+	windowY: { min: number; max: number } | null;
+	/** Tone colors outside the step's window */
+	outsideWindow: number;
+	/** Colors in the step's ribbon */
+	kept: number;
+}
 
-		if (aaaValidLuminances.length === 0) {
-			return []; // No valid colors - text-on-dark is invalid
-		}
+/** Diagnostics for one step's window of a tone's kept luminances (ascending, as from diagnoseToneLuminances) */
+export function diagnoseStepWindow(luminances: readonly number[], slot: StepSlot): StepDiagnostics {
+	const window = windowForSlot(luminances, slot);
+	return {
+		slot,
+		toneKept: luminances.length,
+		windowY: window.length ? { min: window[0]!, max: window[window.length - 1]! } : null,
+		outsideWindow: luminances.length - window.length,
+		kept: window.length,
+	};
+}
 
-		// Sample evenly to get up to SHADE_TARGET_COUNT (15) colors
-		let unifiedLuminances: number[] = [];
-		if (aaaValidLuminances.length >= SHADE_TARGET_COUNT) {
-			const picks: number[] = [];
-			const stepIdx = (aaaValidLuminances.length - 1) / (SHADE_TARGET_COUNT - 1);
-			for (let i = 0; i < SHADE_TARGET_COUNT; i++) {
-				const idx = Math.round(i * stepIdx);
-				const luminance = aaaValidLuminances[idx];
-				if (luminance !== undefined) picks.push(parseFloat(luminance.toFixed(Y_TARGET_DECIMALS)));
-			}
-			unifiedLuminances = Array.from(new Set(picks));
-		} else {
-			unifiedLuminances = aaaValidLuminances;
-		}
+/**
+ * generateRibbonForBand plus the diagnostics of its tone and of the step's window,
+ * for explaining an empty or short ribbon.
+ */
+export function diagnoseRibbonForBand(
+	baseHex: string,
+	band: 'lighter' | 'light' | 'dark' | 'darker' | StepSlot,
+	textOnLight: string,
+	textOnDark: string,
+	ribbonMode: RibbonMode = 'hsl',
+	minApcaLc: number | null = null
+): { colors: RibbonColor[]; diagnostics: ToneDiagnostics; step: StepDiagnostics } {
+	const slot = typeof band === 'string' ? stepSlot(DEFAULT_STEP_SCALE, band)! : band;
+	const { luminances, diagnostics } = diagnoseToneLuminances(baseHex, slot.tone, textOnLight, textOnDark, ribbonMode, minApcaLc);
+	const colors = ribbonFromLuminances(baseHex, windowForSlot(luminances, slot), ribbonMode);
+	return { colors, diagnostics, step: diagnoseStepWindow(luminances, slot) };
+}
 
-		// Split into darker (lower Y) and dark (higher Y)
-		const N = unifiedLuminances.length;
-		if (N === 0) return [];
-
-		let bandLuminances: number[];
-		if (N <= 5) {
-			const take = Math.max(0, N - 1);
-			if (band === 'darker') {
-				// darker = lowest luminances
-				bandLuminances = unifiedLuminances.slice(0, take);
-			} else {
-				// dark = highest luminances
-				bandLuminances = unifiedLuminances.slice(Math.max(0, N - take));
-			}
-		} else {
-			const base = Math.max(0, Math.floor(N / 2) - 1);
-			const overlap = Math.max(0, N - 2 * base);
-			if (band === 'darker') {
-				// darker = lowest luminances (bottom half + overlap)
-				bandLuminances = unifiedLuminances.slice(0, base + overlap);
-			} else {
-				// dark = highest luminances (top half + overlap)
-				bandLuminances = unifiedLuminances.slice(Math.max(0, N - (base + overlap)));
-			}
-		}
+/**
+ * Plain-language reasons for a tone's ribbon length, most limiting constraint first.
+ * `name` is the family label (e.g. "Notice").
+ */
+export function explainToneDiagnostics(name: string, d: ToneDiagnostics): string[] {
+	const isTint = d.tone === 'tint';
+	const kind = isTint ? 'tints' : 'shades';
+	const text = isTint ? 'Text on Light' : 'Text on Dark';
+	const y = (n: number) => n.toFixed(Y_TARGET_DECIMALS);
+	const out: string[] = [
+		`${d.kept} ${kind} kept of ${d.sampled} Y targets sampled between ${y(d.window.minY)} and ${y(d.window.maxY)}. In that window ${name} reaches Y ${y(d.reachedY.min)}–${y(d.reachedY.max)}, with ${d.contrast.min.toFixed(1)}:1–${d.contrast.max.toFixed(1)}:1 contrast against ${text}.`,
+	];
+	const reasons: Array<[number, string]> = [
+		[d.rejected.belowAaa, `${d.rejected.belowAaa} had less than ${AAA_MIN}:1 contrast with ${text}${isTint ? ' (too dark)' : ' (too light)'}.`],
+		[d.rejected.aboveMaxContrast, `${d.rejected.aboveMaxContrast} had more than ${isTint ? MAX_CONTRAST_TINTS : MAX_CONTRAST_SHADES}:1 contrast (the comfort cap).`],
+		[d.rejected.belowApca, `${d.rejected.belowApca} missed the APCA minimum.`],
+		[d.rejected.tooCloseToWhite, `${d.rejected.tooCloseToWhite} ${d.rejected.tooCloseToWhite === 1 ? 'was' : 'were'} too close to white (Y within ${MIN_DELTA_LUM_TINTS_FROM_WHITE}).`],
+		[d.downsampled, `${d.downsampled} met every constraint but ${d.downsampled === 1 ? 'was' : 'were'} dropped to space the ${kind} evenly (at most ${isTint ? TINT_TARGET_COUNT : SHADE_TARGET_COUNT}).`],
+	];
+	reasons.filter(([n]) => n > 0).sort((a, b) => b[0] - a[0]).forEach(([, reason]) => out.push(reason));
+	out.push(d.passedY
+		? `Only Y ${y(d.passedY.min)}–${y(d.passedY.max)} meets every constraint.`
+		: `No Y in the window meets every constraint; make ${text} ${isTint ? 'darker' : 'lighter'} or change ${name}'s hue or saturation.`);
+	return out;
+}
 
-		// Convert luminance targets to actual colors
-		return bandLuminances.map((targetLuminance, ribbonIndex) => {
-			const rgb = solveHslLightnessForY(baseRgb, targetLuminance);
-			const hex = rgbToHex(rgb.r, rgb.g, rgb.b);
-			const actualLuminance = luminance(rgb.r, rgb.g, rgb.b);
-			return { hex, y: actualLuminance, index: ribbonIndex };
-		});
-	}
+/** Plain-language reason for one step's ribbon length; `label` is the step label (e.g. "Darker" or "800") */
+export function explainStepDiagnostics(label: string, s: StepDiagnostics): string {
+	const kind = s.slot.tone === 'tint' ? 'tints' : 'shades';
+	const y = (n: number) => n.toFixed(Y_TARGET_DECIMALS);
+	if (!s.windowY) return `${label}: no ${kind} to choose from.`;
+	const range = `Y ${y(s.windowY.min)}–${y(s.windowY.max)}`;
+	if (s.slot.count <= 1) return `${label} uses all ${s.kept} ${kind} (${range}).`;
+	return `${label} uses ${s.kept} of the ${s.toneKept} ${kind} (${range}); the other ${s.outsideWindow} fall in the windows of the ${s.slot.count - 1} other ${kind.slice(0, -1)} step${s.slot.count > 2 ? 's' : ''}.`;
 }
 
 /**
@@ -225,7 +316,7 @@ export function validateRibbons(ribbons: Record<string, Record<string, RibbonCol
 	};
 
 	if (insufficientCount > 0) {
-		result.summary = `The text colors aren’t right yet: Text on Light isn’t dark enough or Text on Dark isn’t light enough. As a result, some palette colors can’t generate at least ${MIN_VARIATIONS_PER_BAND} AAA-contrast tints/shades. Click the Text on Light / Text on Dark swatch to open the HSL editor, then decrease L for Text on Light or increase L for Text on Dark.`;
+		result.summary = `The text colors aren’t right yet: Text on Light isn’t dark enough or Text on Dark isn’t light enough. As a result, some palette colors can’t generate at least ${MIN_VARIATIONS_PER_BAND} AAA-contrast tints/shades. Apply one of the suggested text colors on the Starting Colors tab, or click the Text on Light / Text on Dark swatch and decrease L for Text on Light or increase L for Text on Dark.`;
 	}
 
 	return result;
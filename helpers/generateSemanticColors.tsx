@@ -1,5 +1,6 @@
 import { Palette, PaletteWithVariations } from './types';
 import { hexToRgb, rgbToHslNorm, hslNormToRgb, rgbToHex, luminance } from './colorUtils';
+import { brandFamiliesOf } from './brandFamilies';
 
 // Choose a hue near a target but avoid being too close to existing hues. If too close, fallback to a triad of primary.
 function chooseHue(targetHue: number, existingHues: number[], primaryHue: number): number {
@@ -25,8 +26,8 @@ function chooseHue(targetHue: number, existingHues: number[], primaryHue: number
 function buildSemantic(base: Palette): Pick<Palette, 'error' | 'warning' | 'success'> {
   // Extract palette hues
   const hues: number[] = [];
-  ['primary','secondary','tertiary','accent'].forEach((k) => {
-    const rgb = hexToRgb((base as any)[k].hex);
+  brandFamiliesOf(base).forEach((k) => {
+    const rgb = hexToRgb(base[k]!.hex);
     const { h } = rgbToHslNorm(rgb.r, rgb.g, rgb.b);
     hues.push(h);
   });
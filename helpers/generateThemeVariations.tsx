@@ -1,4 +1,5 @@
-import { PaletteWithVariations } from './types';
+import { PaletteWithVariations, ColorType } from './types';
+import { brandFamiliesOf, brandFamilyLabel } from './brandFamilies';
 
 export interface ThemeVariation {
   name: string;
@@ -6,89 +7,26 @@ export interface ThemeVariation {
   palette: PaletteWithVariations;
 }
 
-export const generateThemeVariations = (basePalette: PaletteWithVariations): ThemeVariation[] => {
-  const { primary, secondary, tertiary, accent, error, warning, success } = basePalette;
+// All orderings of the given families, starting with the original order
+const orderings = (keys: ColorType[]): ColorType[][] => {
+  if (keys.length <= 1) return [keys];
+  return keys.flatMap((k, i) => orderings([...keys.slice(0, i), ...keys.slice(i + 1)]).map((rest) => [k, ...rest]));
+};
 
-  const variations: ThemeVariation[] = [
-    {
-      name: 'Original',
-      description: 'Primary-Secondary-Tertiary',
-      palette: {
-        primary,
-        secondary,
-        tertiary,
-        accent,
-        error,
-        warning,
-        success,
-      },
-    },
-    {
-      name: 'Variant A',
-      description: 'Primary-Tertiary-Secondary',
-      palette: {
-        primary,
-        secondary: tertiary,
-        tertiary: secondary,
-        accent,
-        error,
-        warning,
-        success,
-      },
-    },
-    {
-      name: 'Variant B',
-      description: 'Secondary-Primary-Tertiary',
-      palette: {
-        primary: secondary,
-        secondary: primary,
-        tertiary,
-        accent,
-        error,
-        warning,
-        success,
-      },
-    },
-    {
-      name: 'Variant C',
-      description: 'Secondary-Tertiary-Primary',
-      palette: {
-        primary: secondary,
-        secondary: tertiary,
-        tertiary: primary,
-        accent,
-        error,
-        warning,
-        success,
-      },
-    },
-    {
-      name: 'Variant D',
-      description: 'Tertiary-Primary-Secondary',
-      palette: {
-        primary: tertiary,
-        secondary: primary,
-        tertiary: secondary,
-        accent,
-        error,
-        warning,
-        success,
-      },
-    },
-    {
-      name: 'Variant E',
-      description: 'Tertiary-Secondary-Primary',
-      palette: {
-        primary: tertiary,
-        secondary: secondary,
-        tertiary: primary,
-        accent,
-        error,
-        warning,
-        success,
-      },
-    },
-  ];
+// Rotate the brand families between variations; Accent and the semantic colors stay in place
+export const generateThemeVariations = (basePalette: PaletteWithVariations): ThemeVariation[] => {
+  const rotating = brandFamiliesOf(basePalette).filter((k) => k !== 'accent');
 
-  return variations;
-};
\ No newline at end of file
+  return orderings(rotating).map((order, i) => {
+    const palette: PaletteWithVariations = { ...basePalette };
+    rotating.forEach((target, j) => {
+      const source = basePalette[order[j]!];
+      if (source) palette[target] = source;
+    });
+    return {
+      name: i === 0 ? 'Original' : `Variant ${String.fromCharCode(64 + i)}`,
+      description: order.map(brandFamilyLabel).join('-'),
+      palette,
+    };
+  });
+};
@@ -0,0 +1,61 @@
+import { buildColorPairs, buildIosAssetCatalog, buildAndroidColors, androidColorName } from "./mobileExport";
+import { SEMANTIC_BAND_DEFAULTS } from "./paletteEngine";
+import { GENERATED_FILE_NOTE } from "./config";
+import { classicVariations as pv, fiftyToNineHundred, runFiftyToNineHundred, sixFamilyPalette, upperStepHex as stepHex, textOnLight, textOnDark } from "./exportSpecFixtures";
+
+describe("mobileExport", () => {
+  const pairs = buildColorPairs(pv, { semanticBandSelection: { ...SEMANTIC_BAND_DEFAULTS, warning: { light: "lighter", dark: "darker" } }, textOnLight, textOnDark });
+  const find = (slug: string) => pairs.find((p) => p.slug === slug)!;
+
+  it("should pair each step with its mirror step, semantic colors with their selected bands", () => {
+    expect(find("primary-light")).toEqual({ group: "Primary", slug: "primary-light", light: stepHex(pv, "primary", "light"), dark: stepHex(pv, "primary", "dark") });
+    expect(find("primary-border")).toEqual({ group: "Primary", slug: "primary-border", light: pv.primary.border!.onLight.toUpperCase(), dark: pv.primary.border!.onDark.toUpperCase() });
+    expect(find("notice")).toEqual({ group: "Notice", slug: "notice", light: stepHex(pv, "warning", "lighter"), dark: stepHex(pv, "warning", "darker") });
+    expect(find("text")).toEqual({ group: "Text", slug: "text", light: textOnLight.toUpperCase(), dark: textOnDark.toUpperCase() });
+    expect(find("text-inverse").light).toBe(textOnDark.toUpperCase());
+    expect(find("text-on-light").dark).toBe(textOnLight.toUpperCase());
+  });
+
+  it("should write one colorset per color with a dark appearance only when the color changes", () => {
+    const files = buildIosAssetCatalog(pairs, "my-theme-colors");
+    const xcode = (hex: string) => `0x${hex.slice(1, 3)}`;
+    expect(JSON.parse(files["my-theme-colors.xcassets/Contents.json"]!).info.author).toBe("xcode");
+    expect(files["my-theme-colors.xcassets/Notice/Contents.json"]).toBeDefined();
+
+    const colorset = JSON.parse(files["my-theme-colors.xcassets/Primary/primary-light.colorset/Contents.json"]!);
+    expect(colorset.colors[0].color.components.red).toBe(xcode(stepHex(pv, "primary", "light")));
+    expect(colorset.colors[1].appearances).toEqual([{ appearance: "luminosity", value: "dark" }]);
+    expect(colorset.colors[1].color.components.red).toBe(xcode(stepHex(pv, "primary", "dark")));
+
+    const fixed = JSON.parse(files["my-theme-colors.xcassets/Text/text-on-light.colorset/Contents.json"]!);
+    expect(fixed.colors.length).toBe(1);
+  });
+
+  it("should write Android day resources for every color and night resources for the ones that change", () => {
+    const { day, night } = buildAndroidColors(pairs, "My Theme");
+    expect(day).toContain(`<!-- My Theme: ${GENERATED_FILE_NOTE} -->`);
+    expect(night).toContain("<!-- My Theme (dark theme):");
+    expect(day).toContain(`<color name="primary_darker">${stepHex(pv, "primary", "darker")}</color>`);
+    expect(night).toContain(`<color name="primary_darker">${stepHex(pv, "primary", "lighter")}</color>`);
+    expect(day).toContain(`<color name="notice">${stepHex(pv, "warning", "lighter")}</color>`);
+    expect(night).toContain(`<color name="notice">${stepHex(pv, "warning", "darker")}</color>`);
+    expect(day).toContain(`<color name="text_on_light">${textOnLight.toUpperCase()}</color>`);
+    expect(night).not.toContain("text_on_light");
+    // XML comments cannot hold "--"
+    expect(buildAndroidColors(pairs, "A -- B").day).toContain("<!-- A - B: ");
+  });
+
+  it("should follow a custom scale and every brand family", () => {
+    const big = runFiftyToNineHundred(sixFamilyPalette, true);
+    const custom = buildColorPairs(big, fiftyToNineHundred);
+
+    const groups = [...new Set(custom.map((p) => p.group))];
+    expect(groups).toEqual(["Primary", "Secondary", "Tertiary", "Accent", "Accent 2", "Accent 3", "Neutral", "Error", "Notice", "Success", "Text"]);
+    const accent3 = custom.find((p) => p.slug === "accent-3-100")!;
+    expect(accent3).toEqual({ group: "Accent 3", slug: "accent-3-100", light: stepHex(big, "accent-3", "100"), dark: stepHex(big, "accent-3", "800") });
+    expect(custom.find((p) => p.slug === "error")!.light).toBe(stepHex(big, "error", "400"));
+
+    expect(androidColorName("accent-3-100")).toBe("accent_3_100");
+    expect(buildAndroidColors(custom, "Six").day).toContain(`<color name="neutral_900">${stepHex(big, "neutral", "900")}</color>`);
+  });
+});
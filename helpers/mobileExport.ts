@@ -0,0 +1,126 @@
+// helpers/mobileExport.ts
+// Native app colors: an iOS asset catalog (one .colorset per color with a dark appearance) and Android
+// color resources (values/ and values-night/). Each color is the same light/dark pair as the WordPress
+// utility classes: a step switches to its mirror step in dark mode (lighter <-> darker, light <-> dark),
+// Error/Notice/Success follow the semantic band selection, and "text" / "text-inverse" switch with them.
+
+import type { PaletteWithVariations, Color } from './types';
+import { hexToRgb } from './colorUtils';
+import { brandFamiliesOf, brandFamilyLabel } from './brandFamilies';
+import { DEFAULT_STEP_SCALE, counterpartStep, type StepScale } from './stepScale';
+import type { SemanticBandSelection } from './paletteEngine';
+import { GENERATED_FILE_NOTE } from './config';
+
+/** One app color: `slug` is the CSS variable name, `group` the family it is filed under */
+export type ColorPair = { group: string; slug: string; light: string; dark: string };
+
+export type MobileExportOptions = {
+  semanticBandSelection: SemanticBandSelection;
+  textOnLight: string;
+  textOnDark: string;
+  steps?: StepScale | undefined;
+};
+
+function stepColors(variations: Color[]): Record<string, Color> {
+  return Object.fromEntries(variations.map((v) => [(v.step || v.name).toLowerCase(), v]));
+}
+
+/** Light/dark pairs for every brand and neutral step and border, the semantic colors and the text colors */
+export function buildColorPairs(palette: PaletteWithVariations, opts: MobileExportOptions): ColorPair[] {
+  const steps = opts.steps ?? DEFAULT_STEP_SCALE;
+  const pairs: ColorPair[] = [];
+  const families = palette.neutral ? [...brandFamiliesOf(palette), 'neutral' as const] : brandFamiliesOf(palette);
+  for (const family of families) {
+    const color = palette[family]!;
+    const group = family === 'neutral' ? 'Neutral' : brandFamilyLabel(family);
+    const byStep = stepColors(color.variations);
+    for (const { name } of steps) {
+      const v = byStep[name];
+      if (!v) continue;
+      const counterpart = counterpartStep(steps, name);
+      const mirror = (counterpart && byStep[counterpart]) || v;
+      pairs.push({ group, slug: `${family}-${name}`, light: v.hex, dark: mirror.hex });
+    }
+    if (color.border) pairs.push({ group, slug: `${family}-border`, light: color.border.onLight, dark: color.border.onDark });
+  }
+  const semantic = [['error', 'error', 'Error'], ['warning', 'notice', 'Notice'], ['success', 'success', 'Success']] as const;
+  for (const [key, slug, group] of semantic) {
+    const byStep = stepColors(palette[key].variations);
+    const selection = opts.semanticBandSelection[key];
+    const light = byStep[selection.light]?.hex ?? palette[key].hex;
+    const dark = byStep[selection.dark]?.hex ?? palette[key].hex;
+    pairs.push({ group, slug, light, dark });
+    if (palette[key].border) pairs.push({ group, slug: `${slug}-border`, light: palette[key].border!.onLight, dark: palette[key].border!.onDark });
+  }
+  pairs.push(
+    // Text for tint backgrounds (which become shades in dark mode), and for shade backgrounds
+    { group: 'Text', slug: 'text', light: opts.textOnLight, dark: opts.textOnDark },
+    { group: 'Text', slug: 'text-inverse', light: opts.textOnDark, dark: opts.textOnLight },
+    { group: 'Text', slug: 'text-on-light', light: opts.textOnLight, dark: opts.textOnLight },
+    { group: 'Text', slug: 'text-on-dark', light: opts.textOnDark, dark: opts.textOnDark },
+  );
+  return pairs.map((p) => ({ ...p, light: p.light.toUpperCase(), dark: p.dark.toUpperCase() }));
+}
+
+const json = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+
+const XCODE_INFO = { author: 'xcode', version: 1 };
+
+/** Xcode's sRGB color entry: components as 0xNN hex strings */
+function xcodeColor(hex: string) {
+  const { r, g, b } = hexToRgb(hex);
+  const c = (n: number) => `0x${n.toString(16).toUpperCase().padStart(2, '0')}`;
+  return { 'color-space': 'srgb', components: { red: c(r), green: c(g), blue: c(b), alpha: '1.000' } };
+}
+
+/**
+ * iOS/macOS asset catalog: `<catalog>.xcassets/<Group>/<slug>.colorset/Contents.json`, each with the light
+ * color and a dark-appearance color. Returns file paths (relative to the catalog's parent) and contents.
+ * In Swift: Color("primary-light") / UIColor(named: "primary-light").
+ */
+export function buildIosAssetCatalog(pairs: ColorPair[], catalog: string): Record<string, string> {
+  const root = `${catalog}.xcassets`;
+  const files: Record<string, string> = { [`${root}/Contents.json`]: json({ info: XCODE_INFO }) };
+  for (const pair of pairs) {
+    files[`${root}/${pair.group}/Contents.json`] = json({ info: XCODE_INFO });
+    const colors: object[] = [{ color: xcodeColor(pair.light), idiom: 'universal' }];
+    if (pair.dark !== pair.light) {
+      colors.push({ appearances: [{ appearance: 'luminosity', value: 'dark' }], color: xcodeColor(pair.dark), idiom: 'universal' });
+    }
+    files[`${root}/${pair.group}/${pair.slug}.colorset/Contents.json`] = json({ colors, info: XCODE_INFO });
+  }
+  return files;
+}
+
+/** Android resource name: lowercase letters, digits and underscores */
+export const androidColorName = (slug: string) => slug.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+
+const androidXml = (title: string, lines: string[]) => [
+  '<?xml version="1.0" encoding="utf-8"?>',
+  `<!-- ${title.replace(/-{2,}/g, '-')}: ${GENERATED_FILE_NOTE} -->`,
+  '<resources>',
+  ...lines,
+  '</resources>',
+  '',
+].join('\n');
+
+/**
+ * Android color resources: `values` holds every color, `values-night` only the colors that change in dark mode,
+ * under the same names (@color/primary_light).
+ */
+export function buildAndroidColors(pairs: ColorPair[], title: string): { day: string; night: string } {
+  const day: string[] = [];
+  const night: string[] = [];
+  let group = '';
+  for (const pair of pairs) {
+    if (pair.group !== group) {
+      group = pair.group;
+      day.push(`    <!-- ${group} -->`);
+      if (pairs.some((p) => p.group === group && p.dark !== p.light)) night.push(`    <!-- ${group} -->`);
+    }
+    const name = androidColorName(pair.slug);
+    day.push(`    <color name="${name}">${pair.light}</color>`);
+    if (pair.dark !== pair.light) night.push(`    <color name="${name}">${pair.dark}</color>`);
+  }
+  return { day: androidXml(title, day), night: androidXml(`${title} (dark theme)`, night) };
+}
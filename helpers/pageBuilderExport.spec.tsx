@@ -0,0 +1,74 @@
+import {
+  buildBuilderColors,
+  buildElementorKit,
+  buildBricksPalette,
+  buildKadencePalette,
+  buildGeneratePressSettings,
+} from "./pageBuilderExport";
+import { SEMANTIC_BAND_DEFAULTS } from "./paletteEngine";
+import { classicVariations as pv, fiftyToNineHundred, primaryOnlyPalette, runFiftyToNineHundred, upperStepHex as stepHex, textOnLight, textOnDark } from "./exportSpecFixtures";
+
+const opts = { semanticBandSelection: SEMANTIC_BAND_DEFAULTS, textOnLight, textOnDark };
+
+describe("pageBuilderExport", () => {
+  it("should list every step, the selected semantic bands and the text colors", () => {
+    const colors = buildBuilderColors(pv, opts);
+    expect(colors.length).toBe(4 * 4 + 3 * 2 + 2);
+    expect(colors[0]).toEqual({ slug: "primary-lighter", name: "Primary Lighter", hex: stepHex(pv, "primary", "lighter") });
+    expect(colors).toContain({ slug: "notice-dark", name: "Notice Dark", hex: stepHex(pv, "warning", "dark") });
+    expect(colors[colors.length - 1]).toEqual({ slug: "text-on-dark", name: "Text on Dark", hex: textOnDark.toUpperCase() });
+  });
+
+  it("should use CSS variables only where the builder accepts them", () => {
+    const primaryLight = stepHex(pv, "primary", "light");
+    const kit = JSON.parse(buildElementorKit(pv, "My Theme", opts));
+    expect(kit.type).toBe("kit");
+    expect(kit.page_settings.system_colors.map((c: { _id: string }) => c._id)).toEqual(["primary", "secondary", "text", "accent"]);
+    expect(kit.page_settings.custom_colors).toContain({ _id: "primarylight", title: "Primary Light", color: primaryLight });
+
+    const bricks = JSON.parse(buildBricksPalette(pv, "My Theme", opts));
+    expect(bricks.id).toBe("mytheme");
+    expect(bricks.colors).toContain({ id: "primarylight", name: "Primary Light", raw: `var(--primary-light, ${primaryLight})`, hex: primaryLight });
+    expect(bricks.colors.map((c: { raw: string }) => c.raw)).toContain(`var(--text-on-dark, ${textOnDark.toUpperCase()})`);
+
+    const gp = JSON.parse(buildGeneratePressSettings(pv, opts));
+    const slugs = gp.options.generate_settings.global_colors.map((c: { slug: string }) => c.slug);
+    expect(slugs).toEqual(buildBuilderColors(pv, opts).map((c) => c.slug));
+  });
+
+  it("should fill Elementor's system colors and Kadence's accent slots from the same brand steps", () => {
+    const kit = JSON.parse(buildElementorKit(pv, "My Theme", opts));
+    const system = Object.fromEntries(kit.page_settings.system_colors.map((c: { _id: string; color: string }) => [c._id, c.color]));
+    const kadence = JSON.parse(buildKadencePalette(pv, opts));
+    expect(kadence.palette.length).toBe(9);
+    expect(system.primary).toBe(stepHex(pv, "primary", "dark"));
+    expect(system.secondary).toBe(stepHex(pv, "secondary", "dark"));
+    expect(system.accent).toBe(stepHex(pv, "accent", "dark"));
+    expect(kadence.palette[0].color).toBe(system.primary);
+    expect(kadence.palette[1].color).toBe(system.secondary);
+    expect(kadence.palette[2].color).toBe(textOnLight.toUpperCase());
+    expect(kadence.palette[8].color).toBe(textOnDark.toUpperCase());
+  });
+
+  it("should follow a custom scale and fall back to Primary's darkest shade without Secondary or Accent", () => {
+    const one = runFiftyToNineHundred(primaryOnlyPalette, true);
+    const custom = fiftyToNineHundred;
+
+    const colors = buildBuilderColors(one, custom);
+    expect(colors.length).toBe(2 * 10 + 3 * 2 + 2);
+    expect(colors.map((c) => c.slug)).toContain("neutral-50");
+    expect(colors).toContain({ slug: "error-light", name: "Error Light", hex: stepHex(one, "error", "400") });
+
+    const kit = JSON.parse(buildElementorKit(one, "One", custom));
+    const system = Object.fromEntries(kit.page_settings.system_colors.map((c: { _id: string; color: string }) => [c._id, c.color]));
+    expect(system.primary).toBe(stepHex(one, "primary", "500"));
+    expect(system.secondary).toBe(stepHex(one, "primary", "900"));
+    expect(system.accent).toBe(system.secondary);
+
+    // Kadence text and background slots come from Neutral when the palette has it
+    const kadence = JSON.parse(buildKadencePalette(one, custom));
+    expect(kadence.palette[1].color).toBe(system.secondary);
+    expect(kadence.palette[3].color).toBe(stepHex(one, "neutral", "900"));
+    expect(kadence.palette[7].color).toBe(stepHex(one, "neutral", "50"));
+  });
+});
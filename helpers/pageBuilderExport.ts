@@ -0,0 +1,161 @@
+// helpers/pageBuilderExport.ts
+// Global color files for page builders: Elementor (kit site settings), Bricks (color palette),
+// Kadence (global palette option) and GeneratePress (global colors). Every builder gets the same list:
+// each brand/neutral step, the selected semantic bands and the two text colors, named like the theme.json palette.
+// Bricks accepts CSS in a color, so its entries reference our variables (var(--primary-light, #hex));
+// the others only store hex values.
+
+import type { PaletteWithVariations, Color } from './types';
+import { brandFamiliesOf, brandFamilyLabel } from './brandFamilies';
+import { DEFAULT_STEP_SCALE, stepForRole, type StepScale, type StepRole } from './stepScale';
+import { tintedNeutralHex } from './colorUtils';
+import type { SemanticBandSelection } from './paletteEngine';
+
+/** One global color: the slug matches the CSS variable (--<slug>) and the theme.json palette slug */
+export type BuilderColor = { slug: string; name: string; hex: string };
+
+export type PageBuilderExportOptions = {
+  semanticBandSelection: SemanticBandSelection;
+  textOnLight: string;
+  textOnDark: string;
+  steps?: StepScale | undefined;
+};
+
+/** CSS variable with the hex as fallback, for builders that accept CSS in a color field */
+const cssVar = (c: BuilderColor) => `var(--${c.slug}, ${c.hex})`;
+
+/** Builder ids only allow letters and digits */
+const compactId = (slug: string) => slug.replace(/[^a-z0-9]/gi, '').toLowerCase();
+
+function stepColors(variations: Color[]): Record<string, Color> {
+  return Object.fromEntries(variations.map((v) => [(v.step || v.name).toLowerCase(), v]));
+}
+
+/** Brand and neutral steps family by family, then Error/Notice/Success light and dark, then the text colors */
+export function buildBuilderColors(palette: PaletteWithVariations, opts: PageBuilderExportOptions): BuilderColor[] {
+  const steps = opts.steps ?? DEFAULT_STEP_SCALE;
+  const out: BuilderColor[] = [];
+  const families = palette.neutral ? [...brandFamiliesOf(palette), 'neutral' as const] : brandFamiliesOf(palette);
+  for (const family of families) {
+    const label = family === 'neutral' ? 'Neutral' : brandFamilyLabel(family);
+    const byStep = stepColors(palette[family]!.variations);
+    for (const { name, label: stepLabel } of steps) {
+      const v = byStep[name];
+      if (v) out.push({ slug: `${family}-${name}`, name: `${label} ${stepLabel}`, hex: v.hex });
+    }
+  }
+  const semantic = [['error', 'error', 'Error'], ['warning', 'notice', 'Notice'], ['success', 'success', 'Success']] as const;
+  for (const [key, slug, label] of semantic) {
+    const byStep = stepColors(palette[key].variations);
+    for (const scheme of ['light', 'dark'] as const) {
+      const hex = byStep[opts.semanticBandSelection[key][scheme]]?.hex ?? palette[key].hex;
+      out.push({ slug: `${slug}-${scheme}`, name: `${label} ${scheme === 'light' ? 'Light' : 'Dark'}`, hex });
+    }
+  }
+  out.push({ slug: 'text-on-light', name: 'Text on Light', hex: opts.textOnLight });
+  out.push({ slug: 'text-on-dark', name: 'Text on Dark', hex: opts.textOnDark });
+  return out.map((c) => ({ ...c, hex: c.hex.toUpperCase() }));
+}
+
+/** Hex of a family's step for a role (darkest tint, lightest shade, ...), or the base color */
+function roleHex(palette: PaletteWithVariations, family: keyof PaletteWithVariations, steps: StepScale, role: StepRole): string | undefined {
+  const color = palette[family];
+  if (!color) return undefined;
+  return (stepColors(color.variations)[stepForRole(steps, role)]?.hex ?? color.hex).toUpperCase();
+}
+
+/**
+ * Brand colors for the builders' fixed slots (Elementor system colors, Kadence accent slots): each family's
+ * dark step. A missing Secondary or Accent falls back to Primary's darker step, so it still differs from Primary.
+ */
+function brandSlotColors(palette: PaletteWithVariations, steps: StepScale): { primary: string; secondary: string; accent: string } {
+  const slot = (family: 'secondary' | 'accent') =>
+    palette[family] ? roleHex(palette, family, steps, 'dark')! : roleHex(palette, 'primary', steps, 'darker')!;
+  return { primary: roleHex(palette, 'primary', steps, 'dark')!, secondary: slot('secondary'), accent: slot('accent') };
+}
+
+const json = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+
+/**
+ * Elementor site settings (a "kit" template): the four system colors and every palette color as a custom color.
+ * Elementor only stores hex; it turns each one into --e-global-color-<id>.
+ */
+export function buildElementorKit(palette: PaletteWithVariations, title: string, opts: PageBuilderExportOptions): string {
+  const steps = opts.steps ?? DEFAULT_STEP_SCALE;
+  const colors = buildBuilderColors(palette, opts);
+  const brand = brandSlotColors(palette, steps);
+  const system = [
+    { _id: 'primary', title: 'Primary', color: brand.primary },
+    { _id: 'secondary', title: 'Secondary', color: brand.secondary },
+    { _id: 'text', title: 'Text', color: opts.textOnLight.toUpperCase() },
+    { _id: 'accent', title: 'Accent', color: brand.accent },
+  ];
+  return json({
+    version: '0.4',
+    title,
+    type: 'kit',
+    content: [],
+    page_settings: {
+      system_colors: system,
+      custom_colors: colors.map((c) => ({ _id: compactId(c.slug), title: c.name, color: c.hex })),
+    },
+  });
+}
+
+/** Bricks color palette (Color Manager > Import): colors reference our CSS variables, with the hex as fallback */
+export function buildBricksPalette(palette: PaletteWithVariations, title: string, opts: PageBuilderExportOptions): string {
+  const colors = buildBuilderColors(palette, opts);
+  return json({
+    id: compactId(title) || 'palette',
+    name: title,
+    colors: colors.map((c) => ({ id: compactId(c.slug), name: c.name, raw: cssVar(c), hex: c.hex })),
+  });
+}
+
+/**
+ * Kadence global palette (the kadence_global_palette option): Kadence has exactly nine slots,
+ * 1-2 accent and accent alt, 3-6 text from strongest to subtle, 7-9 backgrounds from subtle to base (white).
+ * Filled from Primary/Secondary, the text colors and the Neutral family (or Primary when there is none).
+ * Import with WP-CLI: wp option update kadence_global_palette "$(cat <file>)"
+ */
+export function buildKadencePalette(palette: PaletteWithVariations, opts: PageBuilderExportOptions): string {
+  const steps = opts.steps ?? DEFAULT_STEP_SCALE;
+  const ground: keyof PaletteWithVariations = palette.neutral ? 'neutral' : 'primary';
+  const base = palette.neutral ? palette.neutral.hex.toUpperCase() : tintedNeutralHex(palette.primary.hex).toUpperCase();
+  const brand = brandSlotColors(palette, steps);
+  const hexes = [
+    brand.primary,
+    brand.secondary,
+    opts.textOnLight.toUpperCase(),
+    roleHex(palette, ground, steps, 'darker')!,
+    roleHex(palette, ground, steps, 'dark')!,
+    base,
+    roleHex(palette, ground, steps, 'light')!,
+    roleHex(palette, ground, steps, 'lighter')!,
+    opts.textOnDark.toUpperCase(),
+  ];
+  const slots = hexes.map((color, i) => ({ color, slug: `palette${i + 1}`, name: `Palette Color ${i + 1}` }));
+  return json({
+    palette: slots,
+    'second-palette': slots,
+    'third-palette': slots,
+    active: 'palette',
+  });
+}
+
+/**
+ * GeneratePress global colors (Appearance > GeneratePress > Import/Export). The slugs are our CSS variable
+ * names, so GeneratePress itself defines --primary-light, --text-on-light, ... for the utilities CSS.
+ */
+export function buildGeneratePressSettings(palette: PaletteWithVariations, opts: PageBuilderExportOptions): string {
+  const colors = buildBuilderColors(palette, opts);
+  return json({
+    modules: {},
+    mods: {},
+    options: {
+      generate_settings: {
+        global_colors: colors.map((c) => ({ name: c.name, slug: c.slug, color: c.hex })),
+      },
+    },
+  });
+}
@@ -0,0 +1,55 @@
+import { critiquePalette, hueDistance } from "./paletteCritique";
+import { hexToRgb, rgbToHslNorm, hslNormToRgb, rgbToHex } from "./colorUtils";
+import type { Palette } from "./types";
+
+const hsl = (h: number, s: number, l: number) => { const { r, g, b } = hslNormToRgb(h, s, l); return rgbToHex(r, g, b); };
+const hslOf = (hex: string) => { const { r, g, b } = hexToRgb(hex); return rgbToHslNorm(r, g, b); };
+
+function palette(hexes: Partial<Record<keyof Palette, string>>): Palette {
+  const base: Record<string, string> = {
+    primary: hsl(210, 0.9, 0.4), secondary: hsl(280, 0.9, 0.5), tertiary: hsl(330, 0.9, 0.45), accent: hsl(175, 0.9, 0.35),
+    error: hsl(0, 0.5, 0.45), warning: hsl(50, 0.5, 0.5), success: hsl(140, 0.5, 0.35), ...hexes,
+  };
+  return Object.fromEntries(Object.entries(base).map(([k, hex]) => [k, { name: k, hex }])) as unknown as Palette;
+}
+
+describe("critiquePalette", () => {
+  it("should find nothing in a well-spread palette with good text colors", () => {
+    expect(critiquePalette(palette({}), { textOnLight: "#453521", textOnDark: "#F8F7F7" })).toEqual([]);
+  });
+
+  it("should flag a brand color whose saturation is an outlier and suggest the typical saturation", () => {
+    const findings = critiquePalette(palette({ accent: hsl(175, 0.55, 0.35) }));
+    const f = findings.find((x) => x.rule === "saturation-consistency")!;
+    expect(f.families).toEqual(["accent"]);
+    expect(f.severity).toBe("warning");
+    expect(hslOf(f.fix!.hex).s).toBeCloseTo(0.9, 1);
+  });
+
+  it("should flag brand hues under the minimum gap and suggest a free hue", () => {
+    const f = critiquePalette(palette({ tertiary: hsl(295, 0.9, 0.5) })).find((x) => x.rule === "hue-spacing")!;
+    expect(f.families).toEqual(["secondary", "tertiary"]);
+    expect(hueDistance(hslOf(f.fix!.hex).h, 280)).toBeGreaterThanOrEqual(29);
+  });
+
+  it("should flag semantic colors that sit on a brand hue", () => {
+    const findings = critiquePalette(palette({ accent: hsl(5, 0.9, 0.5) }));
+    const f = findings.find((x) => x.rule === "semantic-collision")!;
+    expect(f.families).toEqual(["error", "accent"]);
+    const moved = hslOf(f.fix!.hex).h;
+    expect(hueDistance(moved, 5)).toBeGreaterThanOrEqual(29);
+  });
+
+  it("should suggest a complementary Notice when Notice is far from the brand complement", () => {
+    const warm = palette({ primary: hsl(20, 0.9, 0.4), secondary: hsl(60, 0.9, 0.5), tertiary: hsl(340, 0.9, 0.45), accent: hsl(100, 0.9, 0.4), warning: hsl(50, 0.5, 0.5) });
+    const f = critiquePalette(warm).find((x) => x.rule === "complementary-notice")!;
+    expect(f.severity).toBe("info");
+    expect(hueDistance(hslOf(f.fix!.hex).h, 220)).toBeLessThan(30);
+  });
+
+  it("should report text colors that cannot reach AAA as errors, listed first", () => {
+    const findings = critiquePalette(palette({ tertiary: hsl(295, 0.9, 0.5) }), { textOnLight: "#453521", textOnDark: "#a0a0a0" });
+    expect(findings[0]!.rule).toBe("text-tokens");
+    expect(findings[0]!.severity).toBe("error");
+  });
+});
@@ -0,0 +1,262 @@
+// helpers/paletteCritique.ts
+// Automated version of the "Critical Thinking Checklist" in docs/color-harmony-guide.md.
+// Each rule inspects the base colors of a Palette (or PaletteWithVariations) and returns findings
+// with a severity, a suggestion in words and, where one is obvious, a replacement color to try.
+
+import type { Palette, PaletteWithVariations, ColorType, SemanticColorType } from './types';
+import { hexToRgb, rgbToHex, rgbToHslNorm, hslNormToRgb, luminance } from './colorUtils';
+import { brandFamiliesOf, brandFamilyLabel } from './brandFamilies';
+import {
+  CRITIQUE_SATURATION_SPREAD,
+  CRITIQUE_MIN_HUE_GAP_DEG,
+  CLOSE_ENOUGH_TO_BLACK_MAX_LUM,
+  CLOSE_ENOUGH_TO_WHITE_MIN_LUM,
+} from './config';
+
+type FamilyKey = ColorType | SemanticColorType;
+
+export type CritiqueSeverity = 'error' | 'warning' | 'info';
+
+export type CritiqueRuleId =
+  | 'saturation-consistency'
+  | 'hue-spacing'
+  | 'semantic-collision'
+  | 'complementary-notice'
+  | 'text-tokens';
+
+/** A replacement color to try for one family */
+export type CritiqueFix = { family: FamilyKey; hex: string };
+
+export type CritiqueFinding = {
+  rule: CritiqueRuleId;
+  severity: CritiqueSeverity;
+  /** Families the finding is about */
+  families: FamilyKey[];
+  message: string;
+  /** What to change, in words */
+  suggestion: string;
+  fix?: CritiqueFix;
+};
+
+export type CritiqueOptions = {
+  /** Text tokens are only checked when given */
+  textOnLight?: string;
+  textOnDark?: string;
+};
+
+type Swatch = { key: FamilyKey; label: string; hex: string; h: number; s: number; l: number };
+
+type CritiqueContext = {
+  brands: Swatch[];
+  semantics: Swatch[];
+  options: CritiqueOptions;
+};
+
+type CritiqueRule = {
+  id: CritiqueRuleId;
+  /** Checklist heading the rule automates */
+  label: string;
+  check: (ctx: CritiqueContext) => CritiqueFinding[];
+};
+
+const SEMANTIC_LABELS: Record<SemanticColorType, string> = { error: 'Error', warning: 'Notice', success: 'Success' };
+
+/** Below this saturation (or near black/white) a color reads as a gray and has no meaningful hue */
+const MIN_CHROMATIC_SATURATION = 0.15;
+
+const SEVERITY_ORDER: Record<CritiqueSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+const pct = (n: number) => `${Math.round(n * 100)}%`;
+const deg = (n: number) => `${Math.round(n)}°`;
+
+function swatch(palette: Palette | PaletteWithVariations, key: FamilyKey): Swatch | null {
+  const hex = palette[key]?.hex;
+  if (!hex || !/^#[0-9a-f]{6}$/i.test(hex)) return null;
+  const { r, g, b } = hexToRgb(hex);
+  const { h, s, l } = rgbToHslNorm(r, g, b);
+  const label = key === 'error' || key === 'warning' || key === 'success' ? SEMANTIC_LABELS[key] : brandFamilyLabel(key);
+  return { key, label, hex, h, s, l };
+}
+
+const isChromatic = (x: Swatch) => x.s >= MIN_CHROMATIC_SATURATION && x.l > 0.08 && x.l < 0.92;
+
+/** Shortest distance between two hues, in degrees [0, 180] */
+export function hueDistance(a: number, b: number): number {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+}
+
+function hslHex(h: number, s: number, l: number): string {
+  const { r, g, b } = hslNormToRgb(((h % 360) + 360) % 360, Math.max(0, Math.min(1, s)), Math.max(0, Math.min(1, l)));
+  return rgbToHex(r, g, b);
+}
+
+/** Saturation-weighted circular mean of the hues */
+function dominantHue(swatches: Swatch[]): number | null {
+  let x = 0, y = 0;
+  for (const w of swatches) {
+    x += Math.cos((w.h * Math.PI) / 180) * w.s;
+    y += Math.sin((w.h * Math.PI) / 180) * w.s;
+  }
+  if (Math.hypot(x, y) < 1e-6) return null;
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/** Nearest hue to `from` (searching outward in 5° steps) at least `gap` away from every hue in `avoid` */
+function nearestFreeHue(from: number, avoid: number[], gap: number): number | null {
+  for (let step = 0; step <= 180; step += 5) {
+    for (const h of step === 0 ? [from] : [from + step, from - step]) {
+      const hue = (h + 360) % 360;
+      if (avoid.every((a) => hueDistance(a, hue) >= gap)) return hue;
+    }
+  }
+  return null;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+};
+
+export const CRITIQUE_RULES: readonly CritiqueRule[] = [
+  {
+    id: 'saturation-consistency',
+    label: 'Saturation check',
+    check: ({ brands }) => {
+      const vivid = brands.filter(isChromatic);
+      if (vivid.length < 3) return [];
+      const typical = median(vivid.map((w) => w.s));
+      return vivid
+        .filter((w) => Math.abs(w.s - typical) > CRITIQUE_SATURATION_SPREAD)
+        .map((w) => ({
+          rule: 'saturation-consistency' as const,
+          severity: 'warning' as const,
+          families: [w.key],
+          message: `${w.label}'s saturation (${pct(w.s)}) is far from the other brand colors (about ${pct(typical)}).`,
+          suggestion: `If that is not intentional, set ${w.label}'s S to about ${pct(typical)} so the brand colors share the same energy.`,
+          fix: { family: w.key, hex: hslHex(w.h, typical, w.l) },
+        }));
+    },
+  },
+  {
+    id: 'hue-spacing',
+    label: 'Hue distribution check',
+    check: ({ brands }) => {
+      const vivid = brands.filter(isChromatic);
+      const out: CritiqueFinding[] = [];
+      for (let i = 0; i < vivid.length; i++) {
+        for (let j = i + 1; j < vivid.length; j++) {
+          const a = vivid[i]!, b = vivid[j]!;
+          const d = hueDistance(a.h, b.h);
+          if (d >= CRITIQUE_MIN_HUE_GAP_DEG) continue;
+          const others = vivid.filter((w) => w !== b).map((w) => w.h);
+          const free = nearestFreeHue(b.h, others, CRITIQUE_MIN_HUE_GAP_DEG);
+          const lightnessApart = Math.abs(a.l - b.l) >= 0.25;
+          out.push({
+            rule: 'hue-spacing',
+            severity: lightnessApart ? 'info' : 'warning',
+            families: [a.key, b.key],
+            message: `${a.label} (${deg(a.h)}) and ${b.label} (${deg(b.h)}) are only ${deg(d)} apart on the color wheel${lightnessApart ? ', though their lightness differs' : ''}.`,
+            suggestion: free != null
+              ? `Move ${b.label} to about ${deg(free)}, or make the two clearly different in lightness.`
+              : `Make ${a.label} and ${b.label} clearly different in lightness.`,
+            ...(free != null ? { fix: { family: b.key, hex: hslHex(free, b.s, b.l) } } : {}),
+          });
+        }
+      }
+      return out;
+    },
+  },
+  {
+    id: 'semantic-collision',
+    label: 'Semantic color planning',
+    check: ({ brands, semantics }) => {
+      const vivid = brands.filter(isChromatic);
+      const out: CritiqueFinding[] = [];
+      for (const sem of semantics.filter(isChromatic)) {
+        const clashes = vivid.filter((w) => hueDistance(w.h, sem.h) < CRITIQUE_MIN_HUE_GAP_DEG);
+        if (!clashes.length) continue;
+        const avoid = [...vivid.map((w) => w.h), ...semantics.filter((x) => x !== sem && isChromatic(x)).map((x) => x.h)];
+        const free = nearestFreeHue(sem.h, avoid, CRITIQUE_MIN_HUE_GAP_DEG);
+        out.push({
+          rule: 'semantic-collision',
+          severity: 'warning',
+          families: [sem.key, ...clashes.map((w) => w.key)],
+          message: `${clashes.map((w) => `${w.label} (${deg(w.h)})`).join(' and ')} ${clashes.length === 1 ? 'sits' : 'sit'} on ${sem.label}'s hue (${deg(sem.h)}); visitors may read ${clashes.length === 1 ? 'it' : 'them'} as ${sem.label.toLowerCase()} messages.`,
+          suggestion: free != null
+            ? `Move ${sem.label} to an unused hue such as ${deg(free)}, or change the brand color.`
+            : `Differentiate ${sem.label} from the brand colors by lightness and saturation.`,
+          ...(free != null ? { fix: { family: sem.key, hex: hslHex(free, sem.s, sem.l) } } : {}),
+        });
+      }
+      return out;
+    },
+  },
+  {
+    id: 'complementary-notice',
+    label: 'Complementary strategy',
+    check: ({ brands, semantics }) => {
+      const vivid = brands.filter(isChromatic);
+      const notice = semantics.find((x) => x.key === 'warning');
+      const dominant = dominantHue(vivid);
+      if (!notice || dominant == null) return [];
+      const complement = (dominant + 180) % 360;
+      if (hueDistance(notice.h, complement) <= 45) return [];
+      if (vivid.some((w) => hueDistance(w.h, complement) < CRITIQUE_MIN_HUE_GAP_DEG)) return [];
+      return [{
+        rule: 'complementary-notice',
+        severity: 'info',
+        families: ['warning'],
+        message: `Your brand colors center around ${deg(dominant)}; the complementary hue is about ${deg(complement)}.`,
+        suggestion: `A Notice near ${deg(complement)} would stand out most from the brand colors.`,
+        fix: { family: 'warning', hex: hslHex(complement, notice.s, notice.l) },
+      }];
+    },
+  },
+  {
+    id: 'text-tokens',
+    label: 'Accessibility validation',
+    check: ({ options }) => {
+      const out: CritiqueFinding[] = [];
+      const y = (hex: string) => { const { r, g, b } = hexToRgb(hex); return luminance(r, g, b); };
+      if (options.textOnLight && y(options.textOnLight) > CLOSE_ENOUGH_TO_BLACK_MAX_LUM) {
+        out.push({
+          rule: 'text-tokens',
+          severity: 'error',
+          families: [],
+          message: `Text on Light (Y ${y(options.textOnLight).toFixed(3)}) is not dark enough; tints cannot all reach AAA contrast.`,
+          suggestion: `Lower its L until Y is at most ${CLOSE_ENOUGH_TO_BLACK_MAX_LUM}.`,
+        });
+      }
+      if (options.textOnDark && y(options.textOnDark) < CLOSE_ENOUGH_TO_WHITE_MIN_LUM) {
+        out.push({
+          rule: 'text-tokens',
+          severity: 'error',
+          families: [],
+          message: `Text on Dark (Y ${y(options.textOnDark).toFixed(3)}) is not light enough; shades cannot all reach AAA contrast.`,
+          suggestion: `Raise its L until Y is at least ${CLOSE_ENOUGH_TO_WHITE_MIN_LUM}.`,
+        });
+      }
+      return out;
+    },
+  },
+];
+
+/** Run every critique rule; findings are ordered errors first, then warnings, then suggestions */
+export function critiquePalette(palette: Palette | PaletteWithVariations, options: CritiqueOptions = {}): CritiqueFinding[] {
+  const ctx: CritiqueContext = {
+    brands: brandFamiliesOf(palette).map((k) => swatch(palette, k)).filter((x): x is Swatch => !!x),
+    semantics: (['error', 'warning', 'success'] as const).map((k) => swatch(palette, k)).filter((x): x is Swatch => !!x),
+    options,
+  };
+  return CRITIQUE_RULES
+    .flatMap((rule) => rule.check(ctx))
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+/** Plain-text findings for the export README */
+export function formatCritiqueFindings(findings: readonly CritiqueFinding[]): string[] {
+  if (!findings.length) return ['No issues found.'];
+  return findings.map((f) => ` - [${f.severity}] ${f.message} ${f.suggestion}${f.fix ? ` (try ${f.fix.hex})` : ''}`);
+}
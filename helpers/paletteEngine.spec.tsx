@@ -0,0 +1,383 @@
+import { strFromU8 } from "fflate";
+import {
+  runPaletteEngine,
+  buildExportFiles,
+  getExportVariationCodes,
+  buildPaletteFromCode,
+  SEMANTIC_BAND_DEFAULTS,
+  semanticBandDefaultsFor,
+  pickInteractionStates,
+  normalizeBandSelections,
+  EXTRA_EXPORT_FORMATS,
+} from "./paletteEngine";
+import { FIFTY_TO_NINE_HUNDRED_STEP_SCALE } from "./stepScale";
+import { STATE_MIN_TINT_Y_GAP, STATE_MIN_SHADE_Y_GAP, NON_TEXT_MIN } from "./config";
+import { Palette } from "./types";
+import { hexToRgb, rgbToOklch, getContrastRatio, apcaContrast, luminance } from "./colorUtils";
+
+const palette: Palette = {
+  primary: { name: "Primary", hex: "#2563eb" },
+  secondary: { name: "Secondary", hex: "#4f46e5" },
+  tertiary: { name: "Tertiary", hex: "#059669" },
+  accent: { name: "Accent", hex: "#db2777" },
+  error: { name: "Error", hex: "#c53030" },
+  warning: { name: "Notice", hex: "#fff700" },
+  success: { name: "Success", hex: "#38a169" },
+};
+const textOnLight = "#453521";
+const textOnDark = "#F8F7F7";
+
+describe("paletteEngine", () => {
+  it("should build four banded variations per family from the ribbons", () => {
+    const { ribbons, paletteWithVariations } = runPaletteEngine({ palette, textOnLight, textOnDark });
+    const steps = paletteWithVariations.primary.variations.map((v) => v.step);
+    expect(steps).toEqual(["lighter", "light", "dark", "darker"]);
+    // Without selections each band defaults to the last ribbon entry
+    const lighter = ribbons.primary!.lighter!;
+    expect(paletteWithVariations.primary.variations[0]!.hex).toBe(lighter[lighter.length - 1]!.hex);
+  });
+
+  it("should resolve tint indices and shade Y targets into exact picks", () => {
+    const first = runPaletteEngine({ palette, textOnLight, textOnDark });
+    const darkRibbon = first.ribbons.accent!.dark!;
+    const { exactSelections, paletteWithVariations } = runPaletteEngine({
+      palette,
+      textOnLight,
+      textOnDark,
+      selections: { accent: { lighter: { index: 0 }, dark: { y: darkRibbon[0]!.y } } },
+    });
+    expect(exactSelections.accent?.lighter?.hex).toBe(first.ribbons.accent!.lighter![0]!.hex);
+    expect(exactSelections.accent?.dark?.indexDisplayed).toBe(0);
+    const dark = paletteWithVariations.accent!.variations.find((v) => v.step === "dark");
+    expect(dark?.hex).toBe(darkRibbon[0]!.hex);
+  });
+
+  it("should list 6 or 24 variation codes", () => {
+    expect(getExportVariationCodes("6").length).toBe(6);
+    const all = getExportVariationCodes("24");
+    expect(all.length).toBe(24);
+    expect(new Set(all).size).toBe(24);
+  });
+
+  it("should swap brand families according to a variation code", () => {
+    const { paletteWithVariations } = runPaletteEngine({ palette, textOnLight, textOnDark });
+    const swapped = buildPaletteFromCode(paletteWithVariations, "spta");
+    expect(swapped.primary.hex).toBe(palette.secondary!.hex);
+    expect(swapped.secondary!.hex).toBe(palette.primary.hex);
+    expect(swapped.error.hex).toBe(paletteWithVariations.error.hex);
+  });
+
+  it("should build the same file map as the Export tab", () => {
+    const { paletteWithVariations } = runPaletteEngine({ palette, textOnLight, textOnDark });
+    const { zipName, files } = buildExportFiles({
+      palette: paletteWithVariations,
+      themeName: "My Theme",
+      semanticBandSelection: SEMANTIC_BAND_DEFAULTS,
+      textOnLight,
+      textOnDark,
+      variationMode: "6",
+      editorChromeStylesPhp: "<?php // test",
+    });
+    expect(zipName).toBe("themes-2563eb-4f46e5-059669-db2777.zip");
+    const names = Object.keys(files).sort();
+    expect(names).toContain("README.txt");
+    expect(strFromU8(files["README.txt"]!)).toContain("Palette review");
+    expect(names).toContain("inc/fse-editor-chrome-styles.php");
+    expect(names).toContain("styles/my-theme-utilities.css");
+    expect(names).toContain("styles/my-theme-psta.json");
+    expect(names.filter((n) => n.endsWith(".json")).length).toBe(6);
+    const json = JSON.parse(strFromU8(files["styles/my-theme-tspa.json"]!));
+    expect(json.title).toBe("My Theme tspa");
+  });
+
+  it("should hold OKLCH hue across the ribbon in oklch mode while keeping AAA contrast", () => {
+    const { ribbons } = runPaletteEngine({ palette, textOnLight, textOnDark, ribbonMode: "oklch" });
+    const baseRgb = hexToRgb(palette.primary.hex);
+    const baseHue = rgbToOklch(baseRgb.r, baseRgb.g, baseRgb.b).h;
+    const lighter = ribbons.primary!.lighter!;
+    const darker = ribbons.primary!.darker!;
+    expect(lighter.length).toBeGreaterThanOrEqual(3);
+    [...lighter, ...darker].forEach(({ hex }) => {
+      const rgb = hexToRgb(hex);
+      const { c, h } = rgbToOklch(rgb.r, rgb.g, rgb.b);
+      // Near-white tints have too little chroma for 8-bit channels to carry a stable hue
+      if (c > 0.02) expect(Math.abs(h - baseHue)).toBeLessThan(3);
+    });
+    lighter.forEach(({ hex }) => expect(getContrastRatio(hexToRgb(hex), hexToRgb(textOnLight))).toBeGreaterThanOrEqual(7));
+    darker.forEach(({ hex }) => expect(getContrastRatio(hexToRgb(hex), hexToRgb(textOnDark))).toBeGreaterThanOrEqual(7));
+  });
+
+  it("should drop ribbon colors below the APCA minimum when the filter is on", () => {
+    const plain = runPaletteEngine({ palette, textOnLight, textOnDark });
+    const filtered = runPaletteEngine({ palette, textOnLight, textOnDark, minApcaLc: 90 });
+    const count = (r: typeof plain.ribbons) => Object.values(r.primary!).reduce((n, list) => n + list.length, 0);
+    expect(count(filtered.ribbons)).toBeLessThan(count(plain.ribbons));
+    filtered.ribbons.primary!.light!.forEach(({ hex }) => {
+      expect(Math.abs(apcaContrast(hexToRgb(textOnLight), hexToRgb(hex)))).toBeGreaterThanOrEqual(90);
+    });
+  });
+
+  it("should build one AAA variation per step of a custom scale and export it by step name", () => {
+    const steps = FIFTY_TO_NINE_HUNDRED_STEP_SCALE;
+    const { paletteWithVariations } = runPaletteEngine({ palette, textOnLight, textOnDark, steps });
+    const variations = paletteWithVariations.primary.variations;
+    expect(variations.map((v) => v.step)).toEqual(steps.map((s) => s.name));
+    const ys = variations.map((v) => { const { r, g, b } = hexToRgb(v.hex); return luminance(r, g, b); });
+    expect(ys[0]!).toBeGreaterThan(ys[4]!);
+    expect(ys[5]!).toBeGreaterThan(ys[9]!);
+    variations.slice(0, 5).forEach(({ hex }) => expect(getContrastRatio(hexToRgb(hex), hexToRgb(textOnLight))).toBeGreaterThanOrEqual(7));
+    variations.slice(5).forEach(({ hex }) => expect(getContrastRatio(hexToRgb(hex), hexToRgb(textOnDark))).toBeGreaterThanOrEqual(7));
+
+    const { files } = buildExportFiles({
+      palette: paletteWithVariations,
+      themeName: "Scale",
+      semanticBandSelection: semanticBandDefaultsFor(steps),
+      textOnLight,
+      textOnDark,
+      variationMode: "6",
+      steps,
+      editorChromeStylesPhp: "<?php // test",
+    });
+    const css = strFromU8(files["styles/scale-utilities.css"]!);
+    expect(css).toContain(".bg-primary-50,");
+    expect(css).toContain("var(--primary-500)");
+    expect(css).not.toContain("--primary-lighter");
+    const json = JSON.parse(strFromU8(files["styles/scale-psta.json"]!));
+    const slugs = json.settings.color.palette.map((p: { slug: string }) => p.slug);
+    expect(slugs).toContain("primary-900");
+    expect(slugs).toContain("error-light");
+  });
+
+  it("should give every step of the 50-900 scale its own default color", () => {
+    const steps = FIFTY_TO_NINE_HUNDRED_STEP_SCALE;
+    const { paletteWithVariations } = runPaletteEngine({ palette, textOnLight, textOnDark, steps });
+    for (const family of ["primary", "secondary", "tertiary", "accent", "error", "warning", "success"] as const) {
+      const hexes = paletteWithVariations[family]!.variations.map((v) => v.hex.toLowerCase());
+      expect(new Set(hexes).size).withContext(family).toBe(steps.length);
+    }
+  });
+
+  it("should resolve index selections for custom steps by step name", () => {
+    const steps = FIFTY_TO_NINE_HUNDRED_STEP_SCALE;
+    const first = runPaletteEngine({ palette, textOnLight, textOnDark, steps });
+    const ribbon100 = first.ribbons.primary!["100"]!;
+    const ribbon800 = first.ribbons.primary!["800"]!;
+    const { paletteWithVariations } = runPaletteEngine({
+      palette,
+      textOnLight,
+      textOnDark,
+      steps,
+      selections: { primary: { "100": { index: 0 }, "800": { y: ribbon800[0]!.y } } },
+    });
+    const hex = (step: string) => paletteWithVariations.primary.variations.find((v) => v.step === step)!.hex;
+    expect(hex("100")).toBe(ribbon100[0]!.hex);
+    expect(hex("800")).toBe(ribbon800[0]!.hex);
+  });
+
+  it("should read saved Adjust selections in the original per-family shape", () => {
+    expect(normalizeBandSelections({ primary: { lighterIndex: 2, lightIndex: 1, lightY: 0.6, darkY: 0.08, darkerY: 0.03 } })).toEqual({
+      primary: { lighter: { index: 2 }, light: { index: 1 }, dark: { y: 0.08 }, darker: { y: 0.03 } },
+    });
+    expect(normalizeBandSelections({ accent: { "50": { index: 1, y: 0.9 }, "900": { y: "bad" } } })).toEqual({
+      accent: { "50": { index: 1, y: 0.9 } },
+    });
+  });
+
+  it("should give every band AAA hover and active colors a visible step away", () => {
+    const { paletteWithVariations } = runPaletteEngine({ palette, textOnLight, textOnDark });
+    const y = (hex: string) => { const { r, g, b } = hexToRgb(hex); return luminance(r, g, b); };
+    paletteWithVariations.accent!.variations.forEach((v) => {
+      const isTint = v.step === "lighter" || v.step === "light";
+      const gap = isTint ? STATE_MIN_TINT_Y_GAP : STATE_MIN_SHADE_Y_GAP;
+      const text = hexToRgb(isTint ? textOnLight : textOnDark);
+      expect(v.states).toBeDefined();
+      expect(Math.abs(y(v.states!.hover) - y(v.hex))).toBeGreaterThanOrEqual(gap - 1e-6);
+      expect(Math.abs(y(v.states!.active) - y(v.hex))).toBeGreaterThanOrEqual(Math.abs(y(v.states!.hover) - y(v.hex)));
+      expect(getContrastRatio(hexToRgb(v.states!.hover), text)).toBeGreaterThanOrEqual(7);
+      expect(getContrastRatio(hexToRgb(v.states!.active), text)).toBeGreaterThanOrEqual(7);
+    });
+
+    const { files } = buildExportFiles({
+      palette: paletteWithVariations,
+      themeName: "States",
+      semanticBandSelection: SEMANTIC_BAND_DEFAULTS,
+      textOnLight,
+      textOnDark,
+      variationMode: "6",
+      editorChromeStylesPhp: "<?php // test",
+    });
+    const json = JSON.parse(strFromU8(files["styles/states-psta.json"]!));
+    expect(json.styles.css).toContain("--primary-dark-hover: ");
+    expect(json.styles.css).toContain("--notice-light-active: ");
+    const css = strFromU8(files["styles/states-utilities.css"]!);
+    expect(css).toContain(":is(.bg-primary-dark, .has-primary-dark-background-color, .has-primary-background-color):hover {");
+    expect(css).toContain("background-color: var(--primary-dark-active) !important;");
+  });
+
+  it("should solve 3:1 border colors against each scheme's surface and band", () => {
+    const { paletteWithVariations } = runPaletteEngine({ palette, textOnLight, textOnDark });
+    const ratio = (a: string, b: string) => getContrastRatio(hexToRgb(a), hexToRgb(b));
+    (["primary", "accent", "warning"] as const).forEach((key) => {
+      const entry = paletteWithVariations[key]!;
+      const band = (step: string) => entry.variations.find((v) => v.step === step)!.hex;
+      expect(entry.border).toBeDefined();
+      expect(ratio(entry.border!.onLight, textOnDark)).toBeGreaterThanOrEqual(NON_TEXT_MIN);
+      expect(ratio(entry.border!.onLight, band("light"))).toBeGreaterThanOrEqual(NON_TEXT_MIN);
+      expect(ratio(entry.border!.onDark, textOnLight)).toBeGreaterThanOrEqual(NON_TEXT_MIN);
+      expect(ratio(entry.border!.onDark, band("dark"))).toBeGreaterThanOrEqual(NON_TEXT_MIN);
+    });
+
+    const { files } = buildExportFiles({
+      palette: paletteWithVariations,
+      themeName: "Borders",
+      semanticBandSelection: SEMANTIC_BAND_DEFAULTS,
+      textOnLight,
+      textOnDark,
+      variationMode: "6",
+      editorChromeStylesPhp: "<?php // test",
+    });
+    const json = JSON.parse(strFromU8(files["styles/borders-psta.json"]!));
+    expect(json.styles.css).toContain(`--primary-border-on-light: ${paletteWithVariations.primary.border!.onLight}`);
+    expect(json.styles.css).toContain("--notice-border-on-dark: ");
+    const css = strFromU8(files["styles/borders-utilities.css"]!);
+    expect(css).toContain("border-color: light-dark(var(--primary-border-on-light), var(--primary-border-on-dark));");
+    expect(css).toContain(".outline-notice {");
+  });
+
+  it("should add a low-chroma neutral family in Primary's hue only when asked", () => {
+    expect(runPaletteEngine({ palette, textOnLight, textOnDark }).paletteWithVariations.neutral).toBeUndefined();
+
+    const { paletteWithVariations } = runPaletteEngine({ palette, textOnLight, textOnDark, neutral: true });
+    const neutral = paletteWithVariations.neutral!;
+    const primaryHue = (({ r, g, b }) => rgbToOklch(r, g, b).h)(hexToRgb(palette.primary.hex));
+    expect(neutral.variations.map((v) => v.step)).toEqual(["lighter", "light", "dark", "darker"]);
+    neutral.variations.forEach((v) => {
+      const { r, g, b } = hexToRgb(v.hex);
+      const { c, h } = rgbToOklch(r, g, b);
+      expect(c).toBeLessThan(0.03);
+      expect(Math.abs(h - primaryHue)).toBeLessThan(30);
+      const text = hexToRgb(v.step === "lighter" || v.step === "light" ? textOnLight : textOnDark);
+      expect(getContrastRatio({ r, g, b }, text)).toBeGreaterThanOrEqual(7);
+    });
+
+    const { files } = buildExportFiles({
+      palette: paletteWithVariations,
+      themeName: "Neutral",
+      semanticBandSelection: SEMANTIC_BAND_DEFAULTS,
+      textOnLight,
+      textOnDark,
+      variationMode: "6",
+      editorChromeStylesPhp: "<?php // test",
+    });
+    const json = JSON.parse(strFromU8(files["styles/neutral-spta.json"]!));
+    expect(json.styles.css).toContain(`--neutral-dark: ${neutral.variations[2]!.hex}`);
+    expect(json.settings.color.palette.map((p: { slug: string }) => p.slug)).toContain("neutral-lighter");
+    const css = strFromU8(files["styles/neutral-utilities.css"]!);
+    expect(css).toContain(".bg-neutral-dark, .has-neutral-dark-background-color");
+    expect(css).toContain(".text-neutral-light {");
+  });
+
+  it("should rotate any number of brand families and cap the variation count", () => {
+    expect(getExportVariationCodes("accent-fixed", ["primary", "accent"])).toEqual(["pa"]);
+    expect(getExportVariationCodes("all", ["primary", "accent"])).toEqual(["pa", "ap"]);
+    const six = ["primary", "secondary", "tertiary", "accent", "accent-2", "accent-3"] as const;
+    expect(getExportVariationCodes("accent-fixed", six).length).toBe(120);
+    expect(() => getExportVariationCodes("all", six)).toThrowError(/720 variations/);
+    expect(getExportVariationCodes("custom", six, ["primary", "accent-3"])).toEqual(["pstabc", "cstabp"]);
+  });
+
+  it("should export extra accent families and swap them like the classic four", () => {
+    const five: Palette = { ...palette, "accent-2": { name: "Accent 2", hex: "#d97706" } };
+    const { paletteWithVariations } = runPaletteEngine({ palette: five, textOnLight, textOnDark });
+    const accent2Dark = paletteWithVariations["accent-2"]!.variations.find((v) => v.step === "dark")!.hex;
+    const { files } = buildExportFiles({
+      palette: paletteWithVariations,
+      themeName: "Five",
+      semanticBandSelection: SEMANTIC_BAND_DEFAULTS,
+      textOnLight,
+      textOnDark,
+      variationMode: "custom",
+      rotate: ["primary", "accent-2"],
+      editorChromeStylesPhp: "<?php // test",
+    });
+    const names = Object.keys(files).filter((f) => /^styles\/five-[a-z]+\.json$/.test(f)).sort();
+    expect(names).toEqual(["styles/five-bstap.json", "styles/five-pstab.json"]);
+    const swapped = JSON.parse(strFromU8(files["styles/five-bstap.json"]!));
+    expect(swapped.styles.css).toContain(`--primary-dark: ${accent2Dark}`);
+    expect(swapped.settings.color.palette.map((p: { slug: string }) => p.slug)).toContain("accent-2-dark");
+  });
+
+  it("should keep active a full state gap past hover on a long step scale", () => {
+    const steps = FIFTY_TO_NINE_HUNDRED_STEP_SCALE;
+    const { paletteWithVariations } = runPaletteEngine({ palette, textOnLight, textOnDark, steps });
+    const y = (hex: string) => { const { r, g, b } = hexToRgb(hex); return luminance(r, g, b); };
+    let withStates = 0;
+    paletteWithVariations.primary.variations.forEach((v) => {
+      if (!v.states) return;
+      withStates++;
+      const gap = steps.find((s) => s.name === v.step)!.tone === "tint" ? STATE_MIN_TINT_Y_GAP : STATE_MIN_SHADE_Y_GAP;
+      expect(v.states.active).withContext(v.step!).not.toBe(v.states.hover);
+      expect(Math.abs(y(v.states.active) - y(v.states.hover))).withContext(v.step!).toBeGreaterThanOrEqual(gap - 1e-6);
+    });
+    expect(withStates).toBeGreaterThan(0);
+  });
+
+  it("should not reuse hover as active when only one candidate clears the gap", () => {
+    const gap = STATE_MIN_TINT_Y_GAP;
+    const base = { hex: "#808080", y: 0.2159 };
+    // Darker candidates: one clears the gap, the next is less than a gap beyond it
+    const near = [{ hex: "#6e6e6e", y: base.y - gap * 1.2, index: 0 }, { hex: "#6a6a6a", y: base.y - gap * 1.6, index: 1 }];
+    expect(pickInteractionStates(base.hex, "tint", near)).toBeUndefined();
+    const far = [...near, { hex: "#555555", y: base.y - gap * 2.4, index: 2 }];
+    expect(pickInteractionStates(base.hex, "tint", far)).toEqual({ hover: "#6e6e6e", active: "#555555" });
+  });
+
+  it("should leave a swatch without states when no candidate is far enough away", () => {
+    expect(pickInteractionStates("#808080", "tint", [{ hex: "#818181", y: 0.2195, index: 0 }])).toBeUndefined();
+  });
+
+  it("should add each extra export format's files to the ZIP only when asked, with README usage", () => {
+    const { paletteWithVariations } = runPaletteEngine({ palette, textOnLight, textOnDark });
+    const input = {
+      palette: paletteWithVariations,
+      themeName: "My Theme",
+      semanticBandSelection: SEMANTIC_BAND_DEFAULTS,
+      textOnLight,
+      textOnDark,
+      variationMode: "accent-fixed" as const,
+      editorChromeStylesPhp: "",
+    };
+    const plain = Object.keys(buildExportFiles(input).files);
+    expect(plain.every((n) => n.startsWith("styles/") || n.startsWith("inc/") || n.startsWith("assets/") || n === "README.txt")).toBeTrue();
+
+    const { files } = buildExportFiles({ ...input, extraFormats: [...EXTRA_EXPORT_FORMATS] });
+    const expected = [
+      "tokens/my-theme.tokens.json",
+      "tailwind/my-theme-preset.js",
+      "tailwind/my-theme-theme.css",
+      "elementor/my-theme-site-settings.json",
+      "bricks/my-theme-color-palette.json",
+      "kadence/my-theme-global-palette.json",
+      "generatepress/my-theme-global-colors.json",
+      "swatches/my-theme.ase",
+      "swatches/my-theme.gpl",
+      "swatches/procreate/my-theme-primary.swatches",
+      "swatches/procreate/my-theme-text.swatches",
+      "swatches/my-theme.sketchpalette",
+      "ios/my-theme-colors.xcassets/Contents.json",
+      "ios/my-theme-colors.xcassets/Primary/primary-light.colorset/Contents.json",
+      "android/res/values/colors_my_theme.xml",
+      "android/res/values-night/colors_my_theme.xml",
+    ];
+    for (const path of expected) expect(files[path]).withContext(path).toBeDefined();
+    const readme = strFromU8(files["README.txt"]!);
+    expect(readme).toContain("tokens/my-theme.tokens.json");
+    expect(readme).toContain("wp option update kadence_global_palette");
+    expect(readme).toContain("swatches/procreate/*.swatches");
+    expect(readme).toContain("values-night");
+
+    // Only the requested format is added
+    const tailwindOnly = Object.keys(buildExportFiles({ ...input, extraFormats: ["tailwind"] }).files).filter((n) => !plain.includes(n));
+    expect(tailwindOnly.sort()).toEqual(["tailwind/my-theme-preset.js", "tailwind/my-theme-theme.css"]);
+  });
+});
@@ -0,0 +1,795 @@
+/* Headless palette engine: ribbons, variations, exact picks and export bundle.
+ * Framework-free so the same pipeline can run from the generator UI, scripts and tests.
+ */
+import { strToU8, zipSync } from 'fflate';
+import { Palette, PaletteWithVariations, ColorType, SemanticColorType, NeutralColorType, SwatchPick, Color, ColorStates, BorderTokens, RibbonMode, StepName } from './types';
+import { hexToRgb, rgbToHex, rgbToHslNorm, luminance, getContrastRatio, solveLightnessForY, tintedNeutralHex } from './colorUtils';
+import { generateToneLuminances, ribbonFromLuminances, type RibbonColor } from './generateRibbons';
+import { DEFAULT_STEP_SCALE, stepSlot, stepForRole, stepTone, windowForSlot, type StepScale, type StepTone } from './stepScale';
+import { STATE_MIN_TINT_Y_GAP, STATE_MIN_SHADE_Y_GAP, NON_TEXT_MIN } from './config';
+import { generateSemanticColors } from './generateSemanticColors';
+import { generateCssClasses, generateFilenameSuffix } from './cssGenerator';
+import { brandFamiliesOf, brandFamily, brandFamilyForCode } from './brandFamilies';
+import { critiquePalette, formatCritiqueFindings } from './paletteCritique';
+import { buildWpVariationJson } from './themeJson';
+import { buildDtcgTokensJson } from './designTokens';
+import { buildTailwindV3Preset, buildTailwindV4Theme } from './tailwindExport';
+import { buildElementorKit, buildBricksPalette, buildKadencePalette, buildGeneratePressSettings } from './pageBuilderExport';
+import { buildSwatchGroups, buildAse, buildGpl, buildProcreateSwatches, buildSketchPalette, type SwatchGroup } from './swatchExport';
+import { buildColorPairs, buildIosAssetCatalog, buildAndroidColors, type ColorPair } from './mobileExport';
+
+/** A step name from the palette's step scale (lighter/light/dark/darker by default) */
+export type Band = StepName;
+export type PaletteFamily = ColorType | SemanticColorType | NeutralColorType;
+export type SemanticPerScheme = { light: Band; dark: Band };
+export type SemanticBandSelection = { error: SemanticPerScheme; warning: SemanticPerScheme; success: SemanticPerScheme };
+
+/** Ribbons per family per band (step name), as generated by generateRibbonForBand */
+export type PaletteRibbons = Record<string, Record<string, RibbonColor[]>>;
+
+/** Adjust-tab selection for one step: tints are chosen by ribbon index, shades by target Y */
+export type StepSelection = { index?: number; y?: number };
+
+/** Adjust-tab selections per family, keyed by step name */
+export type BandSelections = Partial<Record<PaletteFamily, Partial<Record<StepName, StepSelection>>>>;
+
+/** Exact picks captured from Adjust (used to override Palette/Export) */
+export type ExactSelections = Partial<Record<PaletteFamily, Partial<Record<Band, SwatchPick>>>>;
+
+/**
+ * Which brand families rotate between export variations:
+ * 'accent-fixed' keeps Accent in place and rotates the others, 'all' rotates every brand family,
+ * 'custom' rotates only the families listed in `rotate`.
+ * '6' and '24' are the original names for accent-fixed and all (with the classic four families).
+ */
+export const EXPORT_VARIATION_MODES = ['accent-fixed', 'all', 'custom', '6', '24'] as const;
+export type ExportVariationMode = typeof EXPORT_VARIATION_MODES[number];
+
+/** Upper bound on theme variations per export; 5 rotating families (120) is the largest full set */
+export const MAX_EXPORT_VARIATIONS = 120;
+
+/** Optional files the export can add next to the WordPress variations (see buildExportFiles) */
+export const EXTRA_EXPORT_FORMATS = ['dtcg', 'tailwind', 'elementor', 'bricks', 'kadence', 'generatepress', 'ase', 'gpl', 'procreate', 'sketch', 'ios', 'android'] as const;
+export type ExtraExportFormat = typeof EXTRA_EXPORT_FORMATS[number];
+
+export const EXTRA_EXPORT_FORMAT_INFO: Record<ExtraExportFormat, { label: string; description: string }> = {
+  dtcg: { label: 'Design tokens (DTCG)', description: 'W3C Design Tokens JSON with light and dark mode aliases, for Figma plugins, Style Dictionary and other token tools' },
+  tailwind: { label: 'Tailwind CSS', description: 'v3 preset (theme.extend.colors) and v4 @theme CSS; bg-primary-light switches to Primary Dark in dark mode like the WordPress classes' },
+  elementor: { label: 'Elementor', description: 'Site settings kit with system colors and every palette color as a global color (hex; Elementor has no CSS variable colors)' },
+  bricks: { label: 'Bricks', description: 'Color palette for the Color Manager; each color is var(--primary-light, #hex) so it follows the theme variation' },
+  kadence: { label: 'Kadence', description: 'Nine-slot global palette (accents, text, backgrounds) for the kadence_global_palette option' },
+  generatepress: { label: 'GeneratePress', description: 'Global colors for GeneratePress Import/Export, with slugs matching the utilities CSS variables' },
+  ase: { label: 'Adobe Swatch Exchange (.ase)', description: 'Swatches grouped by family for Illustrator, Photoshop, InDesign and Affinity' },
+  gpl: { label: 'GIMP / Inkscape (.gpl)', description: 'Named palette for GIMP and Inkscape, one commented section per family' },
+  procreate: { label: 'Procreate (.swatches)', description: 'One Procreate palette per family (Procreate swatches have no names)' },
+  sketch: { label: 'Sketch (.sketchpalette)', description: 'Named colors for the Sketch Palettes plugin' },
+  ios: { label: 'iOS asset catalog', description: 'An .xcassets folder with one colorset per color; each has a dark appearance using the mirror step' },
+  android: { label: 'Android colors', description: 'values/ and values-night/ color resources with the same light/dark pairs as the utility classes' },
+};
+
+export const SEMANTIC_FAMILIES: readonly SemanticColorType[] = ['error', 'warning', 'success'];
+
+/** The classic seven families: Primary/Secondary/Tertiary/Accent and the semantic ones */
+export const PALETTE_FAMILIES: readonly PaletteFamily[] = ['primary', 'secondary', 'tertiary', 'accent', ...SEMANTIC_FAMILIES];
+
+/** Families present in a palette: its brand families, the semantic ones, and neutral when it was added */
+export function paletteFamiliesOf(palette: Partial<Record<ColorType, unknown>> & { neutral?: unknown }): PaletteFamily[] {
+  const brands: PaletteFamily[] = brandFamiliesOf(palette);
+  return palette.neutral ? [...brands, ...SEMANTIC_FAMILIES, 'neutral'] : [...brands, ...SEMANTIC_FAMILIES];
+}
+
+/** Add (or refresh) the neutral family: a near-gray in Primary's hue */
+export function withNeutral(palette: Palette): Palette {
+  return { ...palette, neutral: { name: 'Neutral', hex: tintedNeutralHex(palette.primary.hex) } };
+}
+export const BANDS: readonly Band[] = DEFAULT_STEP_SCALE.map((s) => s.name);
+
+export const SEMANTIC_BAND_DEFAULTS: SemanticBandSelection = {
+  error: { light: 'light', dark: 'dark' },
+  warning: { light: 'light', dark: 'dark' },
+  success: { light: 'light', dark: 'dark' },
+};
+
+/** Semantic light/dark bands for a step scale: the darkest tint and the lightest shade */
+export function semanticBandDefaultsFor(steps: StepScale): SemanticBandSelection {
+  const per: SemanticPerScheme = { light: stepForRole(steps, 'light'), dark: stepForRole(steps, 'dark') };
+  return { error: { ...per }, warning: { ...per }, success: { ...per } };
+}
+
+/** Keep semantic selections that exist in the scale; replace the rest with the scale's defaults */
+export function normalizeSemanticBandSelection(sel: SemanticBandSelection | undefined, steps: StepScale): SemanticBandSelection {
+  const defaults = semanticBandDefaultsFor(steps);
+  const has = (name: string | undefined) => !!name && steps.some((s) => s.name === name);
+  const one = (k: SemanticColorType): SemanticPerScheme => ({
+    light: has(sel?.[k]?.light) ? sel![k].light : defaults[k].light,
+    dark: has(sel?.[k]?.dark) ? sel![k].dark : defaults[k].dark,
+  });
+  return { error: one('error'), warning: one('warning'), success: one('success') };
+}
+
+/** Starting colors used when nothing has been entered or imported yet (the classic four brand families) */
+export const DEFAULT_STARTING_PALETTE: Palette & Required<Pick<Palette, 'secondary' | 'tertiary' | 'accent'>> = {
+  primary: { name: 'Primary', hex: '#2563eb' },
+  secondary: { name: 'Secondary', hex: '#4f46e5' },
+  tertiary: { name: 'Tertiary', hex: '#059669' },
+  accent: { name: 'Accent', hex: '#db2777' },
+  error: { name: 'Error', hex: '#c53030' },
+  warning: { name: 'Notice', hex: '#fff700' },
+  success: { name: 'Success', hex: '#38a169' },
+};
+
+/**
+ * Generate ribbons for every family and band of the step scale.
+ * This is the single source of truth for color variations.
+ */
+export function buildRibbons(
+  palette: Palette,
+  textOnLight: string,
+  textOnDark: string,
+  ribbonMode: RibbonMode = 'hsl',
+  minApcaLc: number | null = null,
+  steps: StepScale = DEFAULT_STEP_SCALE
+): PaletteRibbons {
+  const result: PaletteRibbons = {};
+  paletteFamiliesOf(palette).forEach((colorKey) => {
+    const color = palette[colorKey];
+    if (!color || !color.hex) {
+      // Skip if color not initialized yet
+      console.error(`[Ribbons] ERROR: ${colorKey} is undefined or missing hex!`, { color, palette });
+      result[colorKey] = Object.fromEntries(steps.map((s) => [s.name, []]));
+      return;
+    }
+    const baseHex = color.hex;
+    // Solve each tone once, then give every step its window of that list
+    const tints = generateToneLuminances(baseHex, 'tint', textOnLight, textOnDark, ribbonMode, minApcaLc);
+    const shades = generateToneLuminances(baseHex, 'shade', textOnLight, textOnDark, ribbonMode, minApcaLc);
+    result[colorKey] = Object.fromEntries(steps.map((s) => {
+      const slot = stepSlot(steps, s.name)!;
+      return [s.name, ribbonFromLuminances(baseHex, windowForSlot(slot.tone === 'tint' ? tints : shades, slot), ribbonMode)];
+    }));
+  });
+  return result;
+}
+
+/**
+ * Build base variations from ribbons.
+ * Each band uses the exact pick when present, otherwise the last (lightest) ribbon entry.
+ * Neighboring step windows overlap on long scales, so a default pick skips colors the lighter
+ * step before it already took and stays darker than that step; only when the window has nothing
+ * left does it fall back to the last entry.
+ */
+export function buildPaletteWithVariationsBase(
+  palette: Palette,
+  ribbons: PaletteRibbons,
+  exactSelections?: ExactSelections,
+  steps: StepScale = DEFAULT_STEP_SCALE
+): PaletteWithVariations {
+  try {
+    // Apply semantic defaults to ensure error/warning/success exist with valid hexes
+    const withSem = generateSemanticColors(palette);
+
+    const build = (key: PaletteFamily) => {
+      const entry = withSem[key]!;
+      const colorRibbons = ribbons[key];
+      const userSelections = exactSelections?.[key];
+      const variations: Color[] = [];
+
+      if (colorRibbons) {
+        const used = new Set<string>();
+        let previous: { tone: StepTone; y: number } | null = null;
+        steps.forEach(({ name: step, label, tone }) => {
+          const ribbonColors = colorRibbons[step];
+          if (!ribbonColors || ribbonColors.length === 0) return;
+          const userPick = userSelections?.[step];
+          const darkerThan = previous?.tone === tone ? previous.y : Infinity;
+          const lastRibbon = ribbonColors[ribbonColors.length - 1]!;
+          const fresh = [...ribbonColors].reverse().find((c) => c.y < darkerThan && !used.has(c.hex.toLowerCase()));
+          const selectedHex = userPick?.hex ? userPick.hex : (fresh ?? lastRibbon).hex;
+          used.add(selectedHex.toLowerCase());
+          const { r, g, b } = hexToRgb(selectedHex);
+          previous = { tone, y: luminance(r, g, b) };
+          variations.push({ name: `${entry.name} ${label}`, hex: selectedHex, step });
+        });
+      }
+
+      return { ...entry, variations };
+    };
+
+    const out: any = {};
+    paletteFamiliesOf(withSem).forEach((k) => { out[k] = build(k); });
+    return out as PaletteWithVariations;
+  } catch (err) {
+    console.error('[paletteWithVariationsBase] Error building from ribbons:', err);
+    // Safe fallback: mirror current palette with empty variations to avoid crashes
+    const fb: any = {};
+    paletteFamiliesOf(palette).forEach((k) => {
+      fb[k] = { ...palette[k], variations: [] };
+    });
+    return fb as PaletteWithVariations;
+  }
+}
+
+/** Override generated band hexes with exact user picks. Returns a new object. */
+export function applyExactSelections(
+  base: PaletteWithVariations,
+  exactSelections?: ExactSelections,
+  steps: StepScale = DEFAULT_STEP_SCALE
+): PaletteWithVariations {
+  try {
+    const out: PaletteWithVariations = JSON.parse(JSON.stringify(base));
+    paletteFamiliesOf(out).forEach((key) => {
+      const picks = exactSelections?.[key];
+      if (!picks) return;
+      const arr = out[key]?.variations ?? [];
+      steps.forEach(({ name: step }) => {
+        const hex = picks[step]?.hex;
+        if (!hex) return;
+        const v = arr.find((x) => x && x.step === step);
+        if (v) v.hex = hex;
+      });
+    });
+    return out;
+  } catch {
+    return base;
+  }
+}
+
+/**
+ * Hover and active colors for one swatch from AAA candidates of the same tone.
+ * Tints move darker and shades lighter (toward the middle) when the candidates allow it;
+ * hover differs by at least the tone's state Y-gap and active differs from hover by that gap again.
+ * Returns undefined when neither direction has room for both, rather than repeating hover as active.
+ */
+export function pickInteractionStates(hex: string, tone: StepTone, candidates: readonly RibbonColor[]): ColorStates | undefined {
+  const { r, g, b } = hexToRgb(hex);
+  const y0 = luminance(r, g, b);
+  const gap = tone === 'tint' ? STATE_MIN_TINT_Y_GAP : STATE_MIN_SHADE_Y_GAP;
+  const eps = 1e-6;
+  const preferred = tone === 'tint' ? -1 : 1;
+  const inDirection = (dir: number) => candidates
+    .map((c) => ({ hex: c.hex, d: dir * (c.y - y0) }))
+    .filter((c) => c.d >= gap - eps)
+    .sort((a, b) => a.d - b.d);
+  const pick = (list: Array<{ hex: string; d: number }>): ColorStates | undefined => {
+    const hover = list[0];
+    const active = hover && list.find((c) => c.d >= hover.d + gap - eps);
+    return hover && active ? { hover: hover.hex, active: active.hex } : undefined;
+  };
+  return pick(inDirection(preferred)) ?? pick(inDirection(-preferred));
+}
+
+/**
+ * Attach hover/active colors to every variation, picked from that step's ribbon
+ * (or, when the step's window is too narrow, from all ribbons of the same tone).
+ */
+export function addInteractionStates(
+  palette: PaletteWithVariations,
+  ribbons: PaletteRibbons,
+  steps: StepScale = DEFAULT_STEP_SCALE
+): PaletteWithVariations {
+  const out = { ...palette };
+  paletteFamiliesOf(palette).forEach((key) => {
+    const entry = palette[key];
+    if (!entry) return;
+    const colorRibbons = ribbons[key] ?? {};
+    const variations = entry.variations.map((v) => {
+      if (!v.step) return v;
+      const tone = stepTone(steps, v.step);
+      // Step windows overlap, so the same ribbon color can appear under several steps
+      const sameTone = [...new Map(steps.filter((s) => s.tone === tone)
+        .flatMap((s) => colorRibbons[s.name] ?? [])
+        .map((c) => [c.hex.toLowerCase(), c] as const)).values()];
+      const states = pickInteractionStates(v.hex, tone, colorRibbons[v.step] ?? []) ?? pickInteractionStates(v.hex, tone, sameTone);
+      const { states: _prev, ...rest } = v;
+      return states ? { ...rest, states } : rest;
+    });
+    out[key] = { ...entry, variations };
+  });
+  return out;
+}
+
+/**
+ * A color in the family's hue with at least `minContrast` against every background.
+ * 'darker' solves for the lightest such color below all backgrounds, 'lighter' for the darkest one above them,
+ * so the border stays as close to the family's bands as the contrast allows.
+ */
+export function solveBorderColor(
+  baseHex: string,
+  backgrounds: readonly string[],
+  side: 'darker' | 'lighter',
+  mode: RibbonMode = 'hsl',
+  minContrast: number = NON_TEXT_MIN
+): string | undefined {
+  const base = hexToRgb(baseHex);
+  const bgs = backgrounds.map(hexToRgb);
+  const ys = bgs.map(({ r, g, b }) => luminance(r, g, b));
+  if (ys.length === 0) return undefined;
+  const step = 0.002;
+  let y = side === 'darker'
+    ? (Math.min(...ys) + 0.05) / minContrast - 0.05
+    : minContrast * (Math.max(...ys) + 0.05) - 0.05;
+  // Rounding to 8-bit channels can land just short of the ratio; walk away from the backgrounds until it holds
+  while (y >= 0 && y <= 1) {
+    const rgb = solveLightnessForY(base, y, mode);
+    if (bgs.every((bg) => getContrastRatio(rgb, bg) >= minContrast)) return rgbToHex(rgb.r, rgb.g, rgb.b);
+    y += side === 'darker' ? -step : step;
+  }
+  return undefined;
+}
+
+/**
+ * Attach a border/outline pair to every family: one for light schemes (against text-on-dark and the
+ * light band) and one for dark schemes (against text-on-light and the dark band).
+ * The light/dark bands are the darkest tint and lightest shade, so every other band of the family is covered too.
+ */
+export function addBorderTokens(
+  palette: PaletteWithVariations,
+  textOnLight: string,
+  textOnDark: string,
+  steps: StepScale = DEFAULT_STEP_SCALE,
+  mode: RibbonMode = 'hsl'
+): PaletteWithVariations {
+  const out = { ...palette };
+  const lightStep = stepForRole(steps, 'light');
+  const darkStep = stepForRole(steps, 'dark');
+  paletteFamiliesOf(palette).forEach((key) => {
+    const entry = palette[key];
+    if (!entry) return;
+    const bandHex = (step: Band) => entry.variations.find((v) => v.step === step)?.hex;
+    const light = bandHex(lightStep);
+    const dark = bandHex(darkStep);
+    const onLight = solveBorderColor(entry.hex, light ? [textOnDark, light] : [textOnDark], 'darker', mode);
+    const onDark = solveBorderColor(entry.hex, dark ? [textOnLight, dark] : [textOnLight], 'lighter', mode);
+    const { border: _prev, ...rest } = entry;
+    const border: BorderTokens | undefined = onLight && onDark ? { onLight, onDark } : undefined;
+    out[key] = border ? { ...rest, border } : rest;
+  });
+  return out;
+}
+
+/**
+ * Read saved Adjust selections: the current per-step shape, or the original
+ * { lighterIndex, lightIndex, darkY, darkerY } one (tint Ys are dropped; the Adjust tab re-initializes them).
+ */
+export function normalizeBandSelections(raw: unknown): BandSelections {
+  const out: BandSelections = {};
+  if (!raw || typeof raw !== 'object') return out;
+  const num = (n: unknown) => (typeof n === 'number' && Number.isFinite(n) ? n : undefined);
+  const one = (index: unknown, y: unknown): StepSelection | undefined => {
+    const sel: StepSelection = {};
+    const i = num(index);
+    const yy = num(y);
+    if (i != null) sel.index = i;
+    if (yy != null) sel.y = yy;
+    return sel.index != null || sel.y != null ? sel : undefined;
+  };
+  for (const [family, value] of Object.entries(raw as Record<string, any>)) {
+    if (!value || typeof value !== 'object') continue;
+    const legacy = ['lighterIndex', 'lightIndex', 'darkY', 'darkerY'].some((key) => key in value);
+    const entries: Array<[StepName, StepSelection | undefined]> = legacy
+      ? [['lighter', one(value.lighterIndex, undefined)], ['light', one(value.lightIndex, undefined)], ['dark', one(undefined, value.darkY)], ['darker', one(undefined, value.darkerY)]]
+      : Object.entries(value).map(([step, sel]: [string, any]) => [step, one(sel?.index, sel?.y)]);
+    const steps = Object.fromEntries(entries.filter(([, sel]) => sel));
+    if (Object.keys(steps).length) out[family as PaletteFamily] = steps;
+  }
+  return out;
+}
+
+/**
+ * Resolve Adjust selections against ribbons into exact SwatchPicks.
+ * Tint steps use the (clamped) ribbon index; shade steps use the ribbon entry closest to the target Y.
+ * Families/steps without a usable selection keep their previous pick.
+ */
+export function buildExactSelectionsFromSelections(
+  ribbons: PaletteRibbons,
+  selections: BandSelections,
+  textOnLight: string,
+  textOnDark: string,
+  previous: ExactSelections = {},
+  steps: StepScale = DEFAULT_STEP_SCALE
+): ExactSelections {
+  const next: ExactSelections = { ...previous };
+  paletteFamiliesOf(ribbons).forEach((k) => {
+    const sel = selections[k];
+    if (!sel) return;
+    const colorRibbons = ribbons[k];
+    if (!colorRibbons) return;
+
+    steps.forEach(({ name: step, tone }) => {
+      const ribbonColors = colorRibbons[step];
+      const stepSel = sel[step];
+      if (!ribbonColors || ribbonColors.length === 0 || !stepSel) return;
+      let ribbonIndex: number;
+      if (tone === 'tint') {
+        if (typeof stepSel.index !== 'number') return; // Wait for Adjust tab to set index
+        // Clamp index to valid range to handle stale/invalid selections
+        ribbonIndex = Math.max(0, Math.min(stepSel.index, ribbonColors.length - 1));
+      } else {
+        const target = stepSel.y;
+        if (typeof target !== 'number') return;
+        ribbonIndex = 0;
+        let dBest = Infinity;
+        ribbonColors.forEach((ribbon, i) => {
+          const d = Math.abs(ribbon.y - target);
+          if (d < dBest) { dBest = d; ribbonIndex = i; }
+        });
+      }
+      const hex = ribbonColors[ribbonIndex]?.hex;
+      if (!hex) return;
+      next[k] = { ...next[k], [step]: buildSwatchPick(k, step, ribbonIndex, hex, textOnLight, textOnDark) };
+    });
+  });
+  return next;
+}
+
+/** Build a SwatchPick for a hex, with contrast against both text tokens */
+export function buildSwatchPick(
+  colorKey: PaletteFamily,
+  step: Band,
+  indexDisplayed: number,
+  hex: string,
+  textOnLight: string,
+  textOnDark: string
+): SwatchPick {
+  const rgb = hexToRgb(hex);
+  const { h, s, l } = rgbToHslNorm(rgb.r, rgb.g, rgb.b);
+  const y = luminance(rgb.r, rgb.g, rgb.b);
+  return {
+    colorKey,
+    step,
+    indexDisplayed,
+    hex,
+    hsl: { h, s, l },
+    y,
+    contrastVsTextOnLight: getContrastRatio(rgb, hexToRgb(textOnLight)),
+    contrastVsTextOnDark: getContrastRatio(rgb, hexToRgb(textOnDark)),
+    textToneUsed: y >= 0.5 ? 'dark' : 'light',
+  };
+}
+
+/** All orderings of the given items */
+export function permute<T>(arr: readonly T[]): T[][] {
+  const out: T[][] = [];
+  const used = new Array(arr.length).fill(false);
+  const path: T[] = [];
+  const backtrack = () => {
+    if (path.length === arr.length) { out.push(path.slice()); return; }
+    for (let i = 0; i < arr.length; i++) {
+      if (used[i]) continue;
+      used[i] = true; path.push(arr[i]!); backtrack(); path.pop(); used[i] = false;
+    }
+  };
+  backtrack();
+  return out;
+}
+
+/** The families that trade places between variations for a mode; the rest stay where they are */
+export function rotatingBrandFamilies(
+  mode: ExportVariationMode,
+  families: readonly ColorType[],
+  rotate?: readonly ColorType[]
+): ColorType[] {
+  if (mode === 'all' || mode === '24') return [...families];
+  if (mode === 'custom') return families.filter((k) => rotate?.includes(k));
+  return families.filter((k) => k !== 'accent');
+}
+
+/** Number of variations a mode produces: n! for n rotating families */
+export function countExportVariations(mode: ExportVariationMode, families: readonly ColorType[], rotate?: readonly ColorType[]): number {
+  let n = 1;
+  for (let i = rotatingBrandFamilies(mode, families, rotate).length; i > 1; i--) n *= i;
+  return n;
+}
+
+/**
+ * Variation codes for export: one letter per brand family (p, s, t, a, then b, c, ... for Accent 2 onward)
+ * naming the source family for each position, e.g. 'spta' swaps Primary and Secondary.
+ * With the classic four families 'accent-fixed' gives 6 codes and 'all' gives 24.
+ * Throws when the mode would produce more than MAX_EXPORT_VARIATIONS.
+ */
+export function getExportVariationCodes(
+  mode: ExportVariationMode,
+  families: readonly ColorType[] = ['primary', 'secondary', 'tertiary', 'accent'],
+  rotate?: readonly ColorType[]
+): string[] {
+  const count = countExportVariations(mode, families, rotate);
+  if (count > MAX_EXPORT_VARIATIONS) {
+    throw new Error(`Rotating these brand families gives ${count} variations; choose fewer families to rotate (at most ${MAX_EXPORT_VARIATIONS} variations).`);
+  }
+  const rotating = rotatingBrandFamilies(mode, families, rotate);
+  const code = (k: ColorType) => brandFamily(k).code;
+  return permute(rotating).map((order) => {
+    let i = 0;
+    return families.map((k) => (rotating.includes(k) ? code(order[i++]!) : code(k))).join('');
+  });
+}
+
+/** Reassign brand families according to a variation code such as 'spta' */
+export function buildPaletteFromCode(pv: PaletteWithVariations, code: string): PaletteWithVariations {
+  const out: PaletteWithVariations = { ...pv };
+  brandFamiliesOf(pv).forEach((key, i) => {
+    const source = brandFamilyForCode(code[i]);
+    const entry = source ? pv[source] : undefined;
+    if (entry) out[key] = entry;
+  });
+  return out;
+}
+
+/** Alias variables from an uploaded theme.json palette (if any) */
+export function getThemeAliases(themeConfig: any): Array<{ slug: string; color: string; name?: string }> {
+  return Array.isArray(themeConfig?.settings?.color?.palette)
+    ? (themeConfig.settings.color.palette as Array<any>)
+      .filter((e) => e && typeof e.slug === 'string' && typeof e.color === 'string' && e.slug.trim() && e.color.trim())
+      .map((e) => ({ slug: String(e.slug).trim().toLowerCase(), color: String(e.color).trim(), name: e.name }))
+    : [];
+}
+
+export type ExportBundleInput = {
+  palette: PaletteWithVariations;
+  themeName?: string | undefined;
+  themeConfig?: any;
+  semanticBandSelection: SemanticBandSelection;
+  textOnDark: string;
+  textOnLight: string;
+  variationMode: ExportVariationMode;
+  /** Brand families to rotate when variationMode is 'custom' */
+  rotate?: readonly ColorType[] | undefined;
+  /** Contents of inc/fse-editor-chrome-styles.php (bundled as-is) */
+  editorChromeStylesPhp: string;
+  /** Step scale the palette was built with (default lighter/light/dark/darker) */
+  steps?: StepScale | undefined;
+  /** Optional extra files (default none) */
+  extraFormats?: readonly ExtraExportFormat[] | undefined;
+};
+
+export type ExportBundle = {
+  zipName: string;
+  files: Record<string, Uint8Array>;
+};
+
+/**
+ * Build the export file map: one theme variation JSON per permutation,
+ * a single shared utilities CSS file, the editor chrome PHP helper, any requested extra formats and a README.
+ */
+export function buildExportFiles(input: ExportBundleInput): ExportBundle {
+  const { palette: pv, themeConfig, semanticBandSelection, textOnDark, textOnLight, variationMode } = input;
+  const steps = input.steps ?? DEFAULT_STEP_SCALE;
+  const title = (input.themeName && input.themeName.trim()) || 'Generated Color Palette';
+  const suffix = (() => { try { return generateFilenameSuffix(pv); } catch { return 'palette'; } })();
+  const zipName = `themes-${suffix}.zip`;
+  const titleSlug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+  const files: Record<string, Uint8Array> = {};
+  const contentsList: string[] = [];
+  // Include helper file for users to drop into their child theme inc/ folder
+  files['inc/fse-editor-chrome-styles.php'] = strToU8(input.editorChromeStylesPhp);
+  contentsList.push(' - inc/fse-editor-chrome-styles.php');
+
+  // Generate a single shared utilities CSS file for all variations
+  const cssStrOnce = generateCssClasses(pv, semanticBandSelection, { textOnDark, textOnLight, themeAliases: getThemeAliases(themeConfig), steps });
+  const utilitiesCssPath = `styles/${titleSlug}-utilities.css`;
+  files[utilitiesCssPath] = strToU8(cssStrOnce);
+  contentsList.push(` - ${utilitiesCssPath}`);
+
+  const brands = brandFamiliesOf(pv);
+  const rotating = rotatingBrandFamilies(variationMode, brands, input.rotate);
+  for (const code of getExportVariationCodes(variationMode, brands, input.rotate)) {
+    const jsonStr = buildWpVariationJson(
+      buildPaletteFromCode(pv, code),
+      `${title} ${code}`,
+      themeConfig,
+      { semanticBandSelection, textOnDark, textOnLight, steps }
+    );
+    const jsonPath = `styles/${titleSlug}-${code}.json`;
+    files[jsonPath] = strToU8(jsonStr);
+    contentsList.push(` - ${jsonPath}`);
+  }
+
+  const extras = new Set(input.extraFormats ?? []);
+  const extraUsage: string[] = [];
+  if (extras.has('dtcg')) {
+    const tokensPath = `tokens/${titleSlug}.tokens.json`;
+    files[tokensPath] = strToU8(buildDtcgTokensJson(pv, title, { semanticBandSelection, textOnDark, textOnLight, steps }));
+    contentsList.push(` - ${tokensPath}`);
+    extraUsage.push(
+      ` - ${tokensPath}: W3C Design Tokens (DTCG) file. color.* holds every step as a color token; mode.light and mode.dark`,
+      '   alias each role to the step used in that scheme. Import it into your token tool (e.g. Style Dictionary, Tokens Studio).',
+    );
+  }
+  if (extras.has('tailwind')) {
+    const tailwindOpts = { semanticBandSelection, textOnDark, textOnLight, steps };
+    const presetPath = `tailwind/${titleSlug}-preset.js`;
+    const themePath = `tailwind/${titleSlug}-theme.css`;
+    files[presetPath] = strToU8(buildTailwindV3Preset(pv, title, tailwindOpts));
+    files[themePath] = strToU8(buildTailwindV4Theme(pv, title, tailwindOpts));
+    contentsList.push(` - ${presetPath}`, ` - ${themePath}`);
+    extraUsage.push(
+      ` - ${presetPath}: Tailwind v3 preset; add presets: [require('./${presetPath}')] to tailwind.config.js.`,
+      ` - ${themePath}: Tailwind v4 @theme; @import it after "tailwindcss". Both give bg-primary-light, text-on-light, bg-notice, ...`,
+      '   with the same light/dark switching as the WordPress utility classes.',
+    );
+  }
+  const builderOpts = { semanticBandSelection, textOnDark, textOnLight, steps };
+  if (extras.has('elementor')) {
+    const kitPath = `elementor/${titleSlug}-site-settings.json`;
+    files[kitPath] = strToU8(buildElementorKit(pv, title, builderOpts));
+    contentsList.push(` - ${kitPath}`);
+    extraUsage.push(
+      ` - ${kitPath}: Elementor site settings. Import it in Templates > Saved Templates > Import Templates, or copy the`,
+      '   colors into Site Settings > Global Colors. Elementor stores hex values, so re-import after changing the palette.',
+    );
+  }
+  if (extras.has('bricks')) {
+    const palettePath = `bricks/${titleSlug}-color-palette.json`;
+    files[palettePath] = strToU8(buildBricksPalette(pv, title, builderOpts));
+    contentsList.push(` - ${palettePath}`);
+    extraUsage.push(
+      ` - ${palettePath}: Bricks color palette; import it in the Color Manager. Colors are var(--primary-light, #hex),`,
+      '   so they follow the active theme variation and fall back to the hex elsewhere.',
+    );
+  }
+  if (extras.has('kadence')) {
+    const kadencePath = `kadence/${titleSlug}-global-palette.json`;
+    files[kadencePath] = strToU8(buildKadencePalette(pv, builderOpts));
+    contentsList.push(` - ${kadencePath}`);
+    extraUsage.push(
+      ` - ${kadencePath}: Kadence global palette (9 colors: accents, text, backgrounds). With WP-CLI:`,
+      `   wp option update kadence_global_palette "$(cat ${kadencePath})"   or copy the colors into Customizer > Colors.`,
+    );
+  }
+  if (extras.has('generatepress')) {
+    const gpPath = `generatepress/${titleSlug}-global-colors.json`;
+    files[gpPath] = strToU8(buildGeneratePressSettings(pv, builderOpts));
+    contentsList.push(` - ${gpPath}`);
+    extraUsage.push(
+      ` - ${gpPath}: GeneratePress global colors; import it in Appearance > GeneratePress > Import/Export.`,
+      '   Its slugs match the utilities CSS, so GeneratePress defines --primary-light, --text-on-light, ... itself.',
+    );
+  }
+  // Built on first use, so exports without a swatch format skip them
+  let swatchGroupsCache: SwatchGroup[] | undefined;
+  const swatchGroups = () => (swatchGroupsCache ??= buildSwatchGroups(pv, { textOnDark, textOnLight, steps }));
+  if (extras.has('ase')) {
+    const asePath = `swatches/${titleSlug}.ase`;
+    files[asePath] = buildAse(swatchGroups());
+    contentsList.push(` - ${asePath}`);
+    extraUsage.push(` - ${asePath}: Adobe Swatch Exchange; open it from the Swatches panel (Illustrator, Photoshop, InDesign, Affinity).`);
+  }
+  if (extras.has('gpl')) {
+    const gplPath = `swatches/${titleSlug}.gpl`;
+    files[gplPath] = strToU8(buildGpl(swatchGroups(), title));
+    contentsList.push(` - ${gplPath}`);
+    extraUsage.push(` - ${gplPath}: GIMP/Inkscape palette; import it in GIMP's Palettes dialog, or copy it to Inkscape's palettes folder.`);
+  }
+  if (extras.has('procreate')) {
+    for (const group of swatchGroups()) {
+      const groupSlug = group.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+      const swatchesPath = `swatches/procreate/${titleSlug}-${groupSlug}.swatches`;
+      files[swatchesPath] = buildProcreateSwatches(`${title} ${group.name}`, group.colors);
+      contentsList.push(` - ${swatchesPath}`);
+    }
+    extraUsage.push(` - swatches/procreate/*.swatches: one Procreate palette per family; open each file on the iPad to import it.`);
+  }
+  if (extras.has('sketch')) {
+    const sketchPath = `swatches/${titleSlug}.sketchpalette`;
+    files[sketchPath] = strToU8(buildSketchPalette(swatchGroups()));
+    contentsList.push(` - ${sketchPath}`);
+    extraUsage.push(` - ${sketchPath}: Sketch palette; load it with the Sketch Palettes plugin.`);
+  }
+  // Likewise only for the app color formats
+  let colorPairsCache: ColorPair[] | undefined;
+  const colorPairs = () => (colorPairsCache ??= buildColorPairs(pv, { semanticBandSelection, textOnDark, textOnLight, steps }));
+  if (extras.has('ios')) {
+    const catalog = `${titleSlug}-colors`;
+    for (const [path, content] of Object.entries(buildIosAssetCatalog(colorPairs(), catalog))) {
+      files[`ios/${path}`] = strToU8(content);
+    }
+    contentsList.push(` - ios/${catalog}.xcassets/ (one .colorset per color)`);
+    extraUsage.push(
+      ` - ios/${catalog}.xcassets: drag it into your Xcode project. Each colorset has a dark appearance with the mirror step;`,
+      '   use Color("primary-light") / UIColor(named: "primary-light"), with Color("text") on tints and Color("text-inverse") on shades.',
+    );
+  }
+  if (extras.has('android')) {
+    const resName = `colors_${titleSlug.replace(/-/g, '_')}.xml`;
+    const { day, night } = buildAndroidColors(colorPairs(), title);
+    files[`android/res/values/${resName}`] = strToU8(day);
+    files[`android/res/values-night/${resName}`] = strToU8(night);
+    contentsList.push(` - android/res/values/${resName}`, ` - android/res/values-night/${resName}`);
+    extraUsage.push(
+      ` - android/res/: copy values/ and values-night/ into your app's res/ folder. Use @color/primary_light with @color/text`,
+      '   (or @color/text_inverse on shades); values-night switches them to the mirror step, like the WordPress utility classes.',
+    );
+  }
+
+  const labels = (keys: readonly ColorType[]) => keys.map((k) => brandFamily(k).label).join('/');
+  const fixed = brands.filter((k) => !rotating.includes(k));
+  const readmeModeLine = rotating.length < 2
+    ? `This archive contains a single variation (${labels(brands)} as entered).`
+    : `This archive contains ALL permutations of ${labels(rotating)}${fixed.length ? ` (${labels(fixed)} fixed)` : ''}.`;
+  const readme = [
+    '# Generated by Color Palette Generator, by AZ WP Website Consulting LLC',
+    '',
+    `Title: ${title}`,
+    `Filename suffix: ${suffix}`,
+    '',
+    readmeModeLine,
+    'For each permutation, there is a theme variation JSON. A single shared CSS utilities file is included for all variations.',
+    '',
+    'Palette review (saturation, hue spacing, semantic and complementary colors, text colors):',
+    ...formatCritiqueFindings(critiquePalette(pv, { textOnLight, textOnDark })),
+    '',
+    'Contents:',
+    ...contentsList,
+    '',
+    'How to use:',
+    '1) For WordPress: copy all your *.json and the single utilities *.css file into wp-content/themes/your-theme/styles/ (create styles folder if needed)',
+    '   Then switch Style variation in the Site Editor > Styles.',
+    '2) Optional helper for editor sidebar swatches:',
+    '   - Copy inc/fse-editor-chrome-styles.php into wp-content/themes/your-child-theme/inc/ (create inc/ if needed).',
+    '   - Add the following to your child theme functions.php:',
+    "     require_once get_stylesheet_directory() . '/inc/fse-editor-chrome-styles.php';",
+    "     add_action('enqueue_block_editor_assets', 'fse_enqueue_block_editor_admin_chrome_styles', 20);",
+    '3) Merge variables and classes from styles/*-utilities.css into your child theme style.css as needed.',
+    ...(extraUsage.length ? ['', 'Other formats:', ...extraUsage] : []),
+  ].join('\n');
+  files['README.txt'] = strToU8(readme);
+
+  return { zipName, files };
+}
+
+/** Zip an export file map (maximum compression, as used by the Export tab) */
+export function zipExportFiles(files: Record<string, Uint8Array>): Uint8Array {
+  return zipSync(files, { level: 9 });
+}
+
+export type PaletteEngineInput = {
+  /** Starting colors: Primary and any further brand families, plus the semantic ones */
+  palette: Palette;
+  textOnLight: string;
+  textOnDark: string;
+  /** Adjust-tab selections (ribbon index for tints, target Y for shades) */
+  selections?: BandSelections;
+  /** Exact picks; selections are resolved on top of these */
+  exactSelections?: ExactSelections;
+  /** Ribbon solver (default 'hsl') */
+  ribbonMode?: RibbonMode;
+  /** Also require this APCA |Lc| against the text tokens (default off) */
+  minApcaLc?: number | null;
+  /** Ordered tint/shade steps per family (default lighter/light/dark/darker) */
+  steps?: StepScale;
+  /** Also derive the neutral family from Primary's hue (default off) */
+  neutral?: boolean;
+};
+
+export type PaletteEngineResult = {
+  ribbons: PaletteRibbons;
+  exactSelections: ExactSelections;
+  paletteWithVariations: PaletteWithVariations;
+};
+
+/**
+ * Run the full pipeline headlessly: ribbons -> exact picks -> variations -> hover/active states -> border tokens.
+ * Produces the same PaletteWithVariations the generator UI shows on the Palette tab.
+ */
+export function runPaletteEngine(input: PaletteEngineInput): PaletteEngineResult {
+  const steps = input.steps ?? DEFAULT_STEP_SCALE;
+  const palette = input.neutral ? withNeutral(input.palette) : input.palette;
+  const ribbons = buildRibbons(palette, input.textOnLight, input.textOnDark, input.ribbonMode, input.minApcaLc, steps);
+  const exactSelections = buildExactSelectionsFromSelections(
+    ribbons,
+    input.selections ?? {},
+    input.textOnLight,
+    input.textOnDark,
+    input.exactSelections ?? {},
+    steps
+  );
+  const base = buildPaletteWithVariationsBase(palette, ribbons, exactSelections, steps);
+  const withPicks = applyExactSelections(base, exactSelections, steps);
+  const withStates = addInteractionStates(withPicks, ribbons, steps);
+  return {
+    ribbons,
+    exactSelections,
+    paletteWithVariations: addBorderTokens(withStates, input.textOnLight, input.textOnDark, steps, input.ribbonMode),
+  };
+}
@@ -0,0 +1,122 @@
+/* Portable palette document (wpwm-palette/v1), as emitted by the Export tab's "Export JSON" */
+import * as z from 'zod';
+import { Palette, RibbonMode, ColorType } from './types';
+import { DEFAULT_STARTING_PALETTE, normalizeSemanticBandSelection, type SemanticBandSelection } from './paletteEngine';
+import { DEFAULT_STEP_SCALE, validateStepScale, type StepScale } from './stepScale';
+import { BRAND_FAMILIES, brandFamiliesOf, isBrandFamily } from './brandFamilies';
+
+export const WPWM_PALETTE_V1_FORMAT = 'wpwm-palette/v1';
+
+const hex = z.string().regex(/^#[0-9a-f]{6}$/i, 'Invalid hex color');
+const semanticPerScheme = z.object({ light: z.string().max(40), dark: z.string().max(40) });
+
+/** Tint/shade step list, tints first; see helpers/stepScale.ts */
+export const stepScaleSchema = z.array(z.object({
+  name: z.string(),
+  label: z.string().max(40).optional(),
+  tone: z.enum(['tint', 'shade']),
+})).superRefine((steps, ctx) => {
+  const problem = validateStepScale(steps);
+  if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+}).transform((steps): StepScale => steps.map((s) => ({ name: s.name, label: s.label ?? s.name, tone: s.tone })));
+
+export const wpwmPaletteV1Schema = z.object({
+  format: z.literal(WPWM_PALETTE_V1_FORMAT),
+  themeName: z.string().max(100).optional().default(''),
+  colors: z.object({
+    textOnDark: hex,
+    textOnLight: hex,
+    primary: hex,
+    /** Further brand families are optional but must be contiguous (see helpers/brandFamilies.ts) */
+    secondary: hex.optional(),
+    tertiary: hex.optional(),
+    accent: hex.optional(),
+    'accent-2': hex.optional(),
+    'accent-3': hex.optional(),
+    'accent-4': hex.optional(),
+    'accent-5': hex.optional(),
+    error: hex.optional(),
+    warning: hex.optional(),
+    success: hex.optional(),
+  }).superRefine((colors, ctx) => {
+    const present = brandFamiliesOf(colors);
+    const expected = BRAND_FAMILIES[present.length - 1]?.key;
+    if (present[present.length - 1] !== expected) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Brand colors must be listed in order without gaps (${BRAND_FAMILIES.map((f) => f.key).join(', ')}).` });
+    }
+  }),
+  fontFamilies: z.array(z.string().min(1)).optional().default([]),
+  ribbonMode: z.enum(['hsl', 'oklch']).optional().default('hsl'),
+  minApcaLc: z.number().positive().max(108).optional(),
+  steps: stepScaleSchema.optional(),
+  /** Steps Error/Notice/Success use in light and dark mode (the Export tab's semantic bands) */
+  semanticBands: z.object({ error: semanticPerScheme, warning: semanticPerScheme, success: semanticPerScheme }).optional(),
+  /** Derive the neutral (gray) family from Primary's hue */
+  neutral: z.boolean().optional().default(false),
+  /** Seed of the generated palette (see generateSeededPalette in helpers/colorHarmony.tsx) */
+  seed: z.string().trim().min(1).max(64).optional(),
+  /** Brand families kept when regenerating from a seed */
+  locked: z.array(z.string().refine(isBrandFamily, 'Unknown brand family')).optional().default([]),
+});
+
+export type WpwmPaletteV1 = z.infer<typeof wpwmPaletteV1Schema>;
+
+/** Starting colors and text tokens extracted from a wpwm-palette/v1 document */
+export type PaletteDocument = {
+  themeName: string;
+  textOnLight: string;
+  textOnDark: string;
+  palette: Palette;
+  fontFamilies: string[];
+  ribbonMode: RibbonMode;
+  /** APCA |Lc| ribbon filter; null when off */
+  minApcaLc: number | null;
+  /** Tint/shade steps per family; the lighter/light/dark/darker scale when omitted */
+  steps: StepScale;
+  /** Semantic light/dark steps; steps missing from the scale fall back to its defaults */
+  semanticBandSelection: SemanticBandSelection;
+  /** Whether the engine should add the neutral family */
+  neutral: boolean;
+  /** Seed the colors were generated from; null when entered by hand */
+  seed: string | null;
+  /** Brand families locked against regeneration */
+  locked: ColorType[];
+};
+
+/**
+ * Validate a parsed wpwm-palette/v1 document and convert it to engine input.
+ * Missing semantic colors fall back to the generator defaults; the brand families are the ones listed.
+ * Throws an Error listing the invalid fields.
+ */
+export function parseWpwmPaletteV1(raw: unknown): PaletteDocument {
+  const parsed = wpwmPaletteV1Schema.safeParse(raw);
+  if (!parsed.success) {
+    const details = parsed.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+    throw new Error(`Invalid ${WPWM_PALETTE_V1_FORMAT} document: ${details}`);
+  }
+  const { themeName, colors, fontFamilies, ribbonMode, minApcaLc, steps, semanticBands, neutral, seed, locked } = parsed.data;
+  const def = DEFAULT_STARTING_PALETTE;
+  return {
+    themeName: themeName.trim(),
+    textOnLight: colors.textOnLight,
+    textOnDark: colors.textOnDark,
+    palette: {
+      ...Object.fromEntries(brandFamiliesOf(colors).map((k) => {
+        const f = BRAND_FAMILIES.find((x) => x.key === k)!;
+        return [k, { name: f.label, hex: colors[k]! }];
+      })),
+      primary: { ...def.primary, hex: colors.primary },
+      error: { ...def.error, hex: colors.error ?? def.error.hex },
+      warning: { ...def.warning, hex: colors.warning ?? def.warning.hex },
+      success: { ...def.success, hex: colors.success ?? def.success.hex },
+    },
+    fontFamilies,
+    ribbonMode,
+    minApcaLc: minApcaLc ?? null,
+    steps: steps ?? DEFAULT_STEP_SCALE,
+    semanticBandSelection: normalizeSemanticBandSelection(semanticBands, steps ?? DEFAULT_STEP_SCALE),
+    neutral,
+    seed: seed ?? null,
+    locked: locked.filter(isBrandFamily),
+  };
+}
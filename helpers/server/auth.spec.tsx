@@ -0,0 +1,94 @@
+import { generateKeyPairSync, createSign } from "node:crypto";
+import { requireAuth, isDevAuthEnabled, resetSeenUsers } from "./auth";
+import { setEntitlementsStore, FREE_TRIAL_EXPORT_CREDITS } from "./db";
+import { createMemoryStore, MemoryStore } from "./memoryStore";
+
+// One key pair per run: @clerk/backend caches the local JWT key on first use
+const { publicKey, privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const PUBLIC_PEM = publicKey.export({ type: "spki", format: "pem" }).toString();
+
+const b64url = (v: string | Buffer) => Buffer.from(v).toString("base64url");
+
+// Locally signed RS256 token shaped like a Clerk session token
+function signToken(claims: Record<string, unknown>, key = privateKey) {
+  const now = Math.floor(Date.now() / 1000);
+  const header = b64url(JSON.stringify({ alg: "RS256", typ: "JWT", kid: "ins_test" }));
+  const payload = b64url(JSON.stringify({ iat: now - 5, nbf: now - 5, exp: now + 60, iss: "https://test.clerk.accounts.dev", sid: "sess_1", ...claims }));
+  const signature = createSign("RSA-SHA256").update(`${header}.${payload}`).sign(key);
+  return `${header}.${payload}.${b64url(signature)}`;
+}
+
+const ENV_KEYS = ["CLERK_JWT_KEY", "CLERK_SECRET_KEY", "CLERK_AUTHORIZED_PARTIES", "ALLOW_DEV_AUTH", "NODE_ENV", "VERCEL_ENV"];
+
+describe("requireAuth", () => {
+  let store: MemoryStore;
+  let savedEnv: Record<string, string | undefined>;
+
+  beforeEach(() => {
+    savedEnv = Object.fromEntries(ENV_KEYS.map((k) => [k, process.env[k]]));
+    ENV_KEYS.forEach((k) => delete process.env[k]);
+    process.env.CLERK_JWT_KEY = PUBLIC_PEM;
+    store = createMemoryStore();
+    setEntitlementsStore(store);
+    resetSeenUsers();
+  });
+
+  afterEach(() => {
+    setEntitlementsStore(null);
+    ENV_KEYS.forEach((k) => {
+      if (savedEnv[k] === undefined) delete process.env[k];
+      else process.env[k] = savedEnv[k];
+    });
+  });
+
+  it("should accept a valid bearer token and ensure the user", async () => {
+    const token = signToken({ sub: "user_abc", email: "abc@example.com" });
+    const user = await requireAuth({ headers: { authorization: `Bearer ${token}` } });
+    expect(user).toEqual({ userId: "user_abc", email: "abc@example.com" });
+    expect(store.users.get("user_abc")?.email).toBe("abc@example.com");
+    expect(store.entitlements.get("user_abc")?.export_credits).toBe(FREE_TRIAL_EXPORT_CREDITS);
+  });
+
+  it("should keep the first resolved email for later requests of the same user", async () => {
+    await requireAuth({ headers: { authorization: `Bearer ${signToken({ sub: "user_mail", email: "mail@example.com" })}` } });
+    const later = await requireAuth({ headers: { authorization: `Bearer ${signToken({ sub: "user_mail" })}` } });
+    expect(later).toEqual({ userId: "user_mail", email: "mail@example.com" });
+    const other = await requireAuth({ headers: { authorization: `Bearer ${signToken({ sub: "user_nomail" })}` } });
+    expect(other).toEqual({ userId: "user_nomail" });
+  });
+
+  it("should read the token from the __session cookie", async () => {
+    const token = signToken({ sub: "user_cookie" });
+    const user = await requireAuth({ headers: { cookie: `theme=dark; __session=${token}` } });
+    expect(user.userId).toBe("user_cookie");
+  });
+
+  it("should reject tokens signed with another key", async () => {
+    const other = generateKeyPairSync("rsa", { modulusLength: 2048 }).privateKey;
+    const token = signToken({ sub: "user_evil" }, other);
+    await expectAsync(requireAuth({ headers: { authorization: `Bearer ${token}` } }))
+      .toBeRejectedWith(jasmine.objectContaining({ statusCode: 401 }));
+    expect(store.users.size).toBe(0);
+  });
+
+  it("should reject expired tokens", async () => {
+    const past = Math.floor(Date.now() / 1000) - 3600;
+    const token = signToken({ sub: "user_old", iat: past - 60, nbf: past - 60, exp: past });
+    await expectAsync(requireAuth({ headers: { authorization: `Bearer ${token}` } }))
+      .toBeRejectedWith(jasmine.objectContaining({ statusCode: 401 }));
+  });
+
+  it("should accept the dev header only when explicitly enabled outside production", async () => {
+    const req = { headers: { "x-dev-user-id": "dev_user_123" } };
+    await expectAsync(requireAuth(req)).toBeRejectedWith(jasmine.objectContaining({ statusCode: 401 }));
+
+    process.env.ALLOW_DEV_AUTH = "true";
+    expect(isDevAuthEnabled()).toBeTrue();
+    expect((await requireAuth(req)).userId).toBe("dev_user_123");
+    expect(store.entitlements.has("dev_user_123")).toBeTrue();
+
+    process.env.NODE_ENV = "production";
+    expect(isDevAuthEnabled()).toBeFalse();
+    await expectAsync(requireAuth(req)).toBeRejectedWith(jasmine.objectContaining({ statusCode: 401 }));
+  });
+});
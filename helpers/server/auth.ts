@@ -1,21 +1,121 @@
 // helpers/server/auth.ts
-// Auth verification helper (temporary stub)
-// TODO: Replace with Clerk verification using @clerk/backend once ready.
+// Auth verification helper: verifies Clerk session tokens with @clerk/backend.
+// Token source: `Authorization: Bearer <token>` or the `__session` cookie set by Clerk.
+// Env: CLERK_JWT_KEY (PEM public key, networkless) or CLERK_SECRET_KEY (JWKS fetch + email lookup),
+//      CLERK_AUTHORIZED_PARTIES (optional, comma-separated origins),
+//      ALLOW_DEV_AUTH=true to accept X-Dev-User-Id outside production.
+
+import { verifyToken, createClerkClient } from '@clerk/backend';
+import { ensureUser } from './db';
 
 export type AuthUser = {
   userId: string;
   email?: string;
 };
 
+function unauthorized(message = 'Unauthorized'): Error {
+  const err: any = new Error(message);
+  err.statusCode = 401;
+  return err;
+}
+
+/**
+ * The X-Dev-User-Id bypass is only honoured when ALLOW_DEV_AUTH is set and the runtime
+ * is not production (NODE_ENV or VERCEL_ENV), so a deployed site can never accept the header.
+ */
+export function isDevAuthEnabled(): boolean {
+  const flag = String(process.env.ALLOW_DEV_AUTH || '').toLowerCase();
+  if (flag !== 'true' && flag !== '1') return false;
+  return process.env.NODE_ENV !== 'production' && process.env.VERCEL_ENV !== 'production';
+}
+
+function readCookie(cookieHeader: string | undefined, name: string): string | null {
+  if (!cookieHeader) return null;
+  for (const part of cookieHeader.split(';')) {
+    const idx = part.indexOf('=');
+    if (idx < 0) continue;
+    if (part.slice(0, idx).trim() === name) return decodeURIComponent(part.slice(idx + 1).trim());
+  }
+  return null;
+}
+
+/** Session token from the Authorization header, falling back to Clerk's __session cookie */
+export function getSessionToken(req: any): string | null {
+  const hdrs = (req?.headers || {}) as Record<string, string>;
+  const authz = hdrs['authorization'] || hdrs['Authorization'];
+  if (authz && /^Bearer\s+/i.test(authz)) {
+    const token = authz.replace(/^Bearer\s+/i, '').trim();
+    if (token) return token;
+  }
+  return readCookie(hdrs['cookie'] || hdrs['Cookie'], '__session');
+}
+
+// Users already passed through ensure_user by this (warm) function instance, with the email resolved then
+const seenUsers = new Map<string, string | undefined>();
+
+/** Primary email from the Clerk Backend API; only used when the token has no `email` claim */
+async function lookupEmail(userId: string): Promise<string | undefined> {
+  const secretKey = process.env.CLERK_SECRET_KEY;
+  if (!secretKey) return undefined;
+  try {
+    const user = await createClerkClient({ secretKey }).users.getUser(userId);
+    const primary = user.emailAddresses.find((e) => e.id === user.primaryEmailAddressId) ?? user.emailAddresses[0];
+    return primary?.emailAddress;
+  } catch (e) {
+    console.warn('Clerk email lookup failed', e);
+    return undefined;
+  }
+}
+
+/** Create the users/entitlements rows the first time a user is seen by this instance */
+async function ensureUserOnce(user: AuthUser, resolveEmail: () => Promise<string | undefined>): Promise<AuthUser> {
+  const seen = seenUsers.has(user.userId);
+  const email = user.email ?? (seen ? seenUsers.get(user.userId) : await resolveEmail());
+  if (!seen) {
+    try {
+      await ensureUser(user.userId, email ?? null);
+      seenUsers.set(user.userId, email);
+    } catch (e) {
+      console.warn('ensure_user failed', e);
+    }
+  }
+  return email ? { ...user, email } : user;
+}
+
+/** Forget which users were already ensured (tests) */
+export function resetSeenUsers(): void {
+  seenUsers.clear();
+}
+
 export async function requireAuth(req: any): Promise<AuthUser> {
-  // Development override: allow X-Dev-User-Id
   const hdrs = (req?.headers || {}) as Record<string, string>;
-  const devUser = hdrs['x-dev-user-id'] || hdrs['X-Dev-User-Id'] || hdrs['x-dev-userid'];
-  if (devUser && String(devUser).trim()) {
-    return { userId: String(devUser).trim() };
+
+  // Development override: allow X-Dev-User-Id (never in production, see isDevAuthEnabled)
+  if (isDevAuthEnabled()) {
+    const devUser = hdrs['x-dev-user-id'] || hdrs['X-Dev-User-Id'] || hdrs['x-dev-userid'];
+    if (devUser && String(devUser).trim()) {
+      return ensureUserOnce({ userId: String(devUser).trim() }, async () => undefined);
+    }
+  }
+
+  const token = getSessionToken(req);
+  if (!token) throw unauthorized();
+
+  const parties = (process.env.CLERK_AUTHORIZED_PARTIES || '').split(',').map((s) => s.trim()).filter(Boolean);
+  let claims: Record<string, unknown>;
+  try {
+    claims = await verifyToken(token, {
+      ...(process.env.CLERK_JWT_KEY ? { jwtKey: process.env.CLERK_JWT_KEY } : {}),
+      ...(process.env.CLERK_SECRET_KEY ? { secretKey: process.env.CLERK_SECRET_KEY } : {}),
+      ...(parties.length ? { authorizedParties: parties } : {}),
+    });
+  } catch (e: any) {
+    throw unauthorized(`Unauthorized: ${e?.message || 'invalid session token'}`);
   }
-  // Production: until Clerk is wired, return 401
-  const err: any = new Error('Unauthorized');
-  (err.statusCode as any) = 401;
-  throw err;
+
+  const userId = typeof claims.sub === 'string' ? claims.sub : '';
+  if (!userId) throw unauthorized();
+  // `email` is present when the Clerk session token is customised with {"email": "{{user.primary_email_address}}"}
+  const email = typeof claims.email === 'string' && claims.email ? claims.email : undefined;
+  return ensureUserOnce(email ? { userId, email } : { userId }, () => lookupEmail(userId));
 }
@@ -0,0 +1,88 @@
+import {
+  decrementCredit,
+  ensureUser,
+  getEntitlements,
+  recordTransaction,
+  setEntitlementsStore,
+  applyPeriodRollover,
+  addMonths,
+  FREE_TRIAL_EXPORT_CREDITS,
+} from "./db";
+import { createMemoryStore, MemoryStore } from "./memoryStore";
+
+describe("server db credit accounting (in-memory store)", () => {
+  let store: MemoryStore;
+  const originalQuota = process.env.PRO_MONTHLY_EXPORT_QUOTA;
+
+  beforeEach(() => {
+    store = createMemoryStore();
+    setEntitlementsStore(store);
+    delete process.env.PRO_MONTHLY_EXPORT_QUOTA;
+  });
+
+  afterEach(() => {
+    setEntitlementsStore(null);
+    if (originalQuota === undefined) delete process.env.PRO_MONTHLY_EXPORT_QUOTA;
+    else process.env.PRO_MONTHLY_EXPORT_QUOTA = originalQuota;
+  });
+
+  it("should give new users the free trial credits", async () => {
+    await ensureUser("u1", "a@example.com");
+    const ent = await getEntitlements("u1");
+    expect(ent?.plan).toBe("free");
+    expect(ent?.export_credits).toBe(FREE_TRIAL_EXPORT_CREDITS);
+  });
+
+  it("should decrement until zero and then refuse", async () => {
+    await ensureUser("u1");
+    for (let i = 0; i < FREE_TRIAL_EXPORT_CREDITS; i++) {
+      expect(await decrementCredit("u1", { zipName: "x.zip" })).toBeTrue();
+    }
+    expect(await decrementCredit("u1")).toBeFalse();
+    expect(store.entitlements.get("u1")?.export_credits).toBe(0);
+    expect(store.auditLogs.filter((l) => l.action === "export").length).toBe(FREE_TRIAL_EXPORT_CREDITS);
+  });
+
+  it("should never spend more credits than available under concurrent exports", async () => {
+    await ensureUser("u1");
+    const results = await Promise.all(Array.from({ length: 10 }, () => decrementCredit("u1")));
+    expect(results.filter(Boolean).length).toBe(FREE_TRIAL_EXPORT_CREDITS);
+  });
+
+  it("should treat NULL credits as unlimited", async () => {
+    store.entitlements.set("pro1", { user_id: "pro1", plan: "pro", export_credits: null, resets_at: null, sub_active: true });
+    for (let i = 0; i < 20; i++) expect(await decrementCredit("pro1")).toBeTrue();
+    expect(store.entitlements.get("pro1")?.export_credits).toBeNull();
+  });
+
+  it("should refuse users without an entitlements row", async () => {
+    expect(await decrementCredit("nobody")).toBeFalse();
+  });
+
+  it("should refill pro credits and advance resets_at once the period has passed", async () => {
+    process.env.PRO_MONTHLY_EXPORT_QUOTA = "200";
+    const past = new Date(Date.now() - 40 * 24 * 3600 * 1000).toISOString();
+    store.entitlements.set("pro2", { user_id: "pro2", plan: "pro", export_credits: 0, resets_at: past, sub_active: true });
+    expect(await decrementCredit("pro2")).toBeTrue();
+    const ent = store.entitlements.get("pro2")!;
+    expect(ent.export_credits).toBe(199);
+    expect(new Date(ent.resets_at!).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("should not roll over inactive subscriptions", () => {
+    const ent = { user_id: "p", plan: "pro" as const, export_credits: 0, resets_at: "2020-01-01T00:00:00.000Z", sub_active: false };
+    expect(applyPeriodRollover(ent, new Date(), 100)).toBeNull();
+  });
+
+  it("should clamp month arithmetic to the end of shorter months", () => {
+    expect(addMonths("2025-01-31T00:00:00.000Z", 1)).toBe("2025-02-28T00:00:00.000Z");
+  });
+
+  it("should record each event id only once", async () => {
+    await ensureUser("u1");
+    const tx = { userId: "u1", provider: "stripe" as const, type: "one_time" as const, status: "paid", eventId: "evt_1" };
+    expect(await recordTransaction(tx)).toBeTrue();
+    expect(await recordTransaction(tx)).toBeFalse();
+    expect(store.transactions.length).toBe(1);
+  });
+});
@@ -1,53 +1,281 @@
 // helpers/server/db.ts
-// Vercel Postgres client scaffold and minimal queries for users/entitlements/transactions
-// Replace stubs with real schema and queries.
+// Entitlements/credits/transactions storage behind a small interface.
+// The default store talks to Vercel Postgres (schema: docs/db-schema.sql);
+// tests and local runs can swap in the in-memory store from ./memoryStore.
 
-import { sql } from '@vercel/postgres';
+import { sql, db } from '@vercel/postgres';
+
+export type Plan = 'free' | 'pro' | 'pack';
 
 export type Entitlements = {
   user_id: string;
-  plan: 'free' | 'pro' | 'pack';
+  plan: Plan;
   export_credits: number | null; // null means unlimited per plan period
   resets_at: string | null; // ISO timestamp
   sub_active: boolean;
 };
 
+export type TransactionRecord = {
+  userId: string;
+  provider: 'stripe';
+  type: 'subscription' | 'one_time';
+  status: string;
+  amount?: number;
+  currency?: string;
+  eventId?: string;
+};
+
+/** Free trial allowance granted by ensure_user (keep in sync with docs/db-schema.sql) */
+export const FREE_TRIAL_EXPORT_CREDITS = 3;
+
+/**
+ * Monthly export allowance for active pro subscriptions, applied at each resets_at rollover.
+ * Env PRO_MONTHLY_EXPORT_QUOTA; empty/invalid means unlimited (NULL credits).
+ */
+export function getProMonthlyQuota(): number | null {
+  const raw = process.env.PRO_MONTHLY_EXPORT_QUOTA;
+  const n = raw != null && raw.trim() !== '' ? Number(raw) : NaN;
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : null;
+}
+
+/** Add whole calendar months to an ISO timestamp (UTC) */
+export function addMonths(iso: string, months: number): string {
+  const d = new Date(iso);
+  const day = d.getUTCDate();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  // Clamp to the last day of the target month (e.g. Jan 31 -> Feb 28)
+  const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  d.setUTCDate(Math.min(day, lastDay));
+  return d.toISOString();
+}
+
+/**
+ * Monthly rollover for active pro plans: once resets_at has passed, refill credits
+ * to the monthly quota and move resets_at forward by whole months until it is in the future.
+ * Returns the rolled-over entitlements, or null when no rollover is due.
+ */
+export function applyPeriodRollover(ent: Entitlements, now: Date, proQuota: number | null): Entitlements | null {
+  if (ent.plan !== 'pro' || !ent.sub_active || !ent.resets_at) return null;
+  if (new Date(ent.resets_at).getTime() > now.getTime()) return null;
+  let resetsAt = ent.resets_at;
+  let guard = 0;
+  while (new Date(resetsAt).getTime() <= now.getTime() && guard++ < 1200) {
+    resetsAt = addMonths(resetsAt, 1);
+  }
+  return { ...ent, export_credits: proQuota, resets_at: resetsAt };
+}
+
+/** Storage operations used by the API routes. Implementations must make consumeExportCredit atomic. */
+export interface EntitlementsStore {
+  getEntitlements(userId: string): Promise<Entitlements | null>;
+  ensureUser(userId: string, email?: string | null): Promise<void>;
+  /**
+   * Lock the user's entitlements row, apply any due monthly rollover, and consume one credit
+   * (NULL credits = unlimited). Writes an 'export' audit_logs row when a credit is consumed.
+   * Returns false when no credit is available.
+   */
+  consumeExportCredit(userId: string, meta?: Record<string, unknown>): Promise<boolean>;
+  /** Insert a transaction; returns false if eventId was already recorded (idempotency) */
+  recordTransaction(params: TransactionRecord): Promise<boolean>;
+  recordAudit(userId: string | null, action: string, meta?: Record<string, unknown>): Promise<void>;
+  /** Release a transaction claimed by recordTransaction so a retried event can be processed again */
+  deleteTransaction(eventId: string): Promise<void>;
+  findUserIdByStripeCustomer(customerId: string): Promise<string | null>;
+  getUserEmail(userId: string): Promise<string | null>;
+  /** Ensure the user exists and remember their Stripe customer id */
+  linkStripeCustomer(userId: string, customerId: string, email?: string | null): Promise<void>;
+  updateEntitlements(userId: string, patch: EntitlementsPatch): Promise<Entitlements | null>;
+  /** Add pack credits atomically (NULL = unlimited stays unlimited); free users move to the 'pack' plan */
+  addExportCredits(userId: string, credits: number): Promise<Entitlements | null>;
+}
+
+export type EntitlementsPatch = Partial<Omit<Entitlements, 'user_id'>>;
+
+export function createPostgresStore(): EntitlementsStore {
+  return {
+    async getEntitlements(userId) {
+      const { rows } = await sql/*sql*/`
+        SELECT user_id, plan, export_credits, resets_at, sub_active
+        FROM entitlements
+        WHERE user_id = ${userId}
+        LIMIT 1;
+      `;
+      const row = rows?.[0];
+      return row ? normalizeRow(row) : null;
+    },
+
+    async ensureUser(userId, email) {
+      await sql/*sql*/`SELECT ensure_user(${userId}, ${email ?? null});`;
+    },
+
+    async consumeExportCredit(userId, meta) {
+      const client = await db.connect();
+      try {
+        await client.sql`BEGIN`;
+        // Lock the row to prevent concurrent exports from over-spending
+        const { rows } = await client.sql/*sql*/`
+          SELECT user_id, plan, export_credits, resets_at, sub_active
+          FROM entitlements
+          WHERE user_id = ${userId}
+          FOR UPDATE;
+        `;
+        const row = rows?.[0];
+        if (!row) {
+          await client.sql`ROLLBACK`;
+          return false;
+        }
+        const current = normalizeRow(row);
+        const ent = applyPeriodRollover(current, new Date(), getProMonthlyQuota()) ?? current;
+        const ok = ent.export_credits === null || ent.export_credits > 0;
+        const nextCredits = ok && ent.export_credits !== null ? ent.export_credits - 1 : ent.export_credits;
+        if (ok || ent !== current) {
+          await client.sql/*sql*/`
+            UPDATE entitlements
+            SET export_credits = ${nextCredits}, resets_at = ${ent.resets_at}, updated_at = NOW()
+            WHERE user_id = ${userId};
+          `;
+        }
+        if (ok) {
+          await client.sql/*sql*/`
+            INSERT INTO audit_logs (user_id, action, meta)
+            VALUES (${userId}, 'export', ${JSON.stringify({ ...(meta ?? {}), creditsRemaining: nextCredits })}::jsonb);
+          `;
+        }
+        await client.sql`COMMIT`;
+        return ok;
+      } catch (e) {
+        try { await client.sql`ROLLBACK`; } catch { }
+        throw e;
+      } finally {
+        client.release();
+      }
+    },
+
+    async recordTransaction(params) {
+      const { rows } = await sql/*sql*/`
+        INSERT INTO transactions (user_id, provider, type, status, amount, currency, event_id)
+        VALUES (${params.userId}, ${params.provider}, ${params.type}, ${params.status},
+                ${params.amount ?? null}, ${params.currency ?? null}, ${params.eventId ?? null})
+        ON CONFLICT (event_id) DO NOTHING
+        RETURNING id;
+      `;
+      return (rows?.length ?? 0) > 0;
+    },
+
+    async recordAudit(userId, action, meta) {
+      await sql/*sql*/`
+        INSERT INTO audit_logs (user_id, action, meta)
+        VALUES (${userId}, ${action}, ${meta ? JSON.stringify(meta) : null}::jsonb);
+      `;
+    },
+
+    async deleteTransaction(eventId) {
+      await sql/*sql*/`DELETE FROM transactions WHERE event_id = ${eventId};`;
+    },
+
+    async findUserIdByStripeCustomer(customerId) {
+      const { rows } = await sql/*sql*/`SELECT user_id FROM users WHERE stripe_customer_id = ${customerId} LIMIT 1;`;
+      return (rows?.[0]?.user_id as string) ?? null;
+    },
+
+    async getUserEmail(userId) {
+      const { rows } = await sql/*sql*/`SELECT email FROM users WHERE user_id = ${userId} LIMIT 1;`;
+      return (rows?.[0]?.email as string) ?? null;
+    },
+
+    async linkStripeCustomer(userId, customerId, email) {
+      await sql/*sql*/`SELECT ensure_user(${userId}, ${email ?? null});`;
+      await sql/*sql*/`UPDATE users SET stripe_customer_id = ${customerId} WHERE user_id = ${userId};`;
+    },
+
+    async updateEntitlements(userId, patch) {
+      // COALESCE keeps columns that are not part of the patch; export_credits/resets_at may be set to NULL explicitly
+      const hasCredits = 'export_credits' in patch;
+      const hasResets = 'resets_at' in patch;
+      const { rows } = await sql/*sql*/`
+        UPDATE entitlements SET
+          plan = COALESCE(${patch.plan ?? null}, plan),
+          sub_active = COALESCE(${patch.sub_active ?? null}, sub_active),
+          export_credits = CASE WHEN ${hasCredits} THEN ${patch.export_credits ?? null}::int ELSE export_credits END,
+          resets_at = CASE WHEN ${hasResets} THEN ${patch.resets_at ?? null}::timestamptz ELSE resets_at END,
+          updated_at = NOW()
+        WHERE user_id = ${userId}
+        RETURNING user_id, plan, export_credits, resets_at, sub_active;
+      `;
+      const row = rows?.[0];
+      return row ? normalizeRow(row) : null;
+    },
+
+    async addExportCredits(userId, credits) {
+      const { rows } = await sql/*sql*/`
+        UPDATE entitlements SET
+          export_credits = CASE WHEN export_credits IS NULL THEN NULL ELSE export_credits + ${credits} END,
+          plan = CASE WHEN plan = 'free' THEN 'pack' ELSE plan END,
+          updated_at = NOW()
+        WHERE user_id = ${userId}
+        RETURNING user_id, plan, export_credits, resets_at, sub_active;
+      `;
+      const row = rows?.[0];
+      return row ? normalizeRow(row) : null;
+    },
+  };
+}
+
+function normalizeRow(row: any): Entitlements {
+  const resets = row.resets_at;
+  return {
+    user_id: String(row.user_id),
+    plan: (row.plan === 'pro' || row.plan === 'pack') ? row.plan : 'free',
+    export_credits: row.export_credits == null ? null : Number(row.export_credits),
+    resets_at: resets == null ? null : (resets instanceof Date ? resets.toISOString() : String(resets)),
+    sub_active: !!row.sub_active,
+  };
+}
+
+let activeStore: EntitlementsStore | null = null;
+
+/** The store used by the exported helpers below (Postgres unless replaced) */
+export function getEntitlementsStore(): EntitlementsStore {
+  if (!activeStore) activeStore = createPostgresStore();
+  return activeStore;
+}
+
+/** Swap the backing store (tests, local runs). Pass null to restore the Postgres store. */
+export function setEntitlementsStore(store: EntitlementsStore | null): void {
+  activeStore = store;
+}
+
 export async function getEntitlements(userId: string): Promise<Entitlements | null> {
   try {
-    // TODO: replace with your actual schema
-    const { rows } = await sql/*sql*/`
-      SELECT user_id, plan, export_credits, resets_at, sub_active
-      FROM entitlements
-      WHERE user_id = ${userId}
-      LIMIT 1;
-    `;
-    return (rows?.[0] as any) ?? null;
+    const ent = await getEntitlementsStore().getEntitlements(userId);
+    // Show the refreshed allowance when a monthly rollover is due (persisted on next export)
+    return ent ? (applyPeriodRollover(ent, new Date(), getProMonthlyQuota()) ?? ent) : null;
   } catch (e) {
     console.warn('getEntitlements fallback (no table yet):', e);
     return {
       user_id: userId,
       plan: 'free',
-      export_credits: 3, // trial default
+      export_credits: FREE_TRIAL_EXPORT_CREDITS, // trial default
       resets_at: null,
       sub_active: false,
     };
   }
 }
 
-export async function decrementCredit(userId: string): Promise<boolean> {
-  // TODO: perform atomic decrement in a transaction with SELECT ... FOR UPDATE
-  // For now, pretend success
-  return true;
+export async function ensureUser(userId: string, email?: string | null): Promise<void> {
+  await getEntitlementsStore().ensureUser(userId, email);
 }
 
-export async function recordTransaction(params: {
-  userId: string;
-  provider: 'stripe';
-  type: 'subscription' | 'one_time';
-  status: string;
-  amount?: number;
-  currency?: string;
-  eventId?: string;
-}): Promise<void> {
-  // TODO: insert into transactions table with idempotency on eventId
+/** Atomically consume one export credit; see EntitlementsStore.consumeExportCredit */
+export async function decrementCredit(userId: string, meta?: Record<string, unknown>): Promise<boolean> {
+  return getEntitlementsStore().consumeExportCredit(userId, meta);
+}
+
+export async function recordTransaction(params: TransactionRecord): Promise<boolean> {
+  return getEntitlementsStore().recordTransaction(params);
+}
+
+export async function recordAudit(userId: string | null, action: string, meta?: Record<string, unknown>): Promise<void> {
+  await getEntitlementsStore().recordAudit(userId, action, meta);
 }
@@ -0,0 +1,113 @@
+// helpers/server/memoryStore.ts
+// In-memory EntitlementsStore for tests and local runs without Postgres.
+// Mirrors docs/db-schema.sql semantics: ensure_user creates a free row with trial credits,
+// NULL credits are unlimited, and transactions are unique per event id.
+
+import {
+  EntitlementsStore,
+  Entitlements,
+  TransactionRecord,
+  FREE_TRIAL_EXPORT_CREDITS,
+  applyPeriodRollover,
+  getProMonthlyQuota,
+} from './db';
+
+export type MemoryStore = EntitlementsStore & {
+  users: Map<string, { email: string | null; stripeCustomerId?: string }>;
+  entitlements: Map<string, Entitlements>;
+  transactions: Array<TransactionRecord & { id: number }>;
+  auditLogs: Array<{ userId: string | null; action: string; meta: Record<string, unknown> | null }>;
+};
+
+export function createMemoryStore(opts?: { seed?: Entitlements[]; now?: () => Date }): MemoryStore {
+  const now = opts?.now ?? (() => new Date());
+  const users = new Map<string, { email: string | null; stripeCustomerId?: string }>();
+  const entitlements = new Map<string, Entitlements>();
+  const transactions: MemoryStore['transactions'] = [];
+  const auditLogs: MemoryStore['auditLogs'] = [];
+  (opts?.seed ?? []).forEach((e) => {
+    users.set(e.user_id, { email: null });
+    entitlements.set(e.user_id, { ...e });
+  });
+
+  return {
+    users,
+    entitlements,
+    transactions,
+    auditLogs,
+
+    async getEntitlements(userId) {
+      const ent = entitlements.get(userId);
+      return ent ? { ...ent } : null;
+    },
+
+    async ensureUser(userId, email) {
+      const existing = users.get(userId);
+      users.set(userId, { ...existing, email: email ?? existing?.email ?? null });
+      if (!entitlements.has(userId)) {
+        entitlements.set(userId, { user_id: userId, plan: 'free', export_credits: FREE_TRIAL_EXPORT_CREDITS, resets_at: null, sub_active: false });
+      }
+    },
+
+    // Runs without awaiting between read and write, so it is atomic on the event loop
+    async consumeExportCredit(userId, meta) {
+      const current = entitlements.get(userId);
+      if (!current) return false;
+      const ent = applyPeriodRollover(current, now(), getProMonthlyQuota()) ?? current;
+      const ok = ent.export_credits === null || ent.export_credits > 0;
+      const nextCredits = ok && ent.export_credits !== null ? ent.export_credits - 1 : ent.export_credits;
+      entitlements.set(userId, { ...ent, export_credits: nextCredits });
+      if (ok) auditLogs.push({ userId, action: 'export', meta: { ...(meta ?? {}), creditsRemaining: nextCredits } });
+      return ok;
+    },
+
+    async recordTransaction(params) {
+      if (params.eventId && transactions.some((t) => t.eventId === params.eventId)) return false;
+      transactions.push({ ...params, id: transactions.length + 1 });
+      return true;
+    },
+
+    async recordAudit(userId, action, meta) {
+      auditLogs.push({ userId, action, meta: meta ?? null });
+    },
+
+    async deleteTransaction(eventId) {
+      const idx = transactions.findIndex((t) => t.eventId === eventId);
+      if (idx >= 0) transactions.splice(idx, 1);
+    },
+
+    async findUserIdByStripeCustomer(customerId) {
+      for (const [userId, u] of users) if (u.stripeCustomerId === customerId) return userId;
+      return null;
+    },
+
+    async getUserEmail(userId) {
+      return users.get(userId)?.email ?? null;
+    },
+
+    async linkStripeCustomer(userId, customerId, email) {
+      await this.ensureUser(userId, email);
+      users.set(userId, { ...users.get(userId)!, stripeCustomerId: customerId });
+    },
+
+    async updateEntitlements(userId, patch) {
+      const ent = entitlements.get(userId);
+      if (!ent) return null;
+      const next = { ...ent, ...patch };
+      entitlements.set(userId, next);
+      return { ...next };
+    },
+
+    async addExportCredits(userId, credits) {
+      const ent = entitlements.get(userId);
+      if (!ent) return null;
+      const next: Entitlements = {
+        ...ent,
+        export_credits: ent.export_credits === null ? null : ent.export_credits + credits,
+        plan: ent.plan === 'free' ? 'pack' : ent.plan,
+      };
+      entitlements.set(userId, next);
+      return { ...next };
+    },
+  };
+}
@@ -0,0 +1,179 @@
+import Stripe from "stripe";
+import { verifyStripeEvent, processStripeEvent, getExportPackCredits } from "./stripeWebhook";
+import { setEntitlementsStore, FREE_TRIAL_EXPORT_CREDITS } from "./db";
+import { createMemoryStore, MemoryStore } from "./memoryStore";
+
+const SECRET = "whsec_test_secret";
+
+// Fake Stripe signer: produces the same Stripe-Signature header Stripe would send
+function signed(event: Record<string, unknown>) {
+  const payload = JSON.stringify(event);
+  const header = Stripe.webhooks.generateTestHeaderString({ payload, secret: SECRET });
+  return verifyStripeEvent(payload, header, SECRET);
+}
+
+function fixture(id: string, type: string, object: Record<string, unknown>) {
+  return { id, object: "event", type, data: { object } };
+}
+
+describe("Stripe webhook processing", () => {
+  let store: MemoryStore;
+  let contacts: Array<{ email: string; attributes?: Record<string, unknown> }>;
+  const deps = () => ({
+    store,
+    upsertContact: async (p: { email: string; attributes?: Record<string, unknown> }) => {
+      contacts.push(p);
+      return { ok: true as const };
+    },
+  });
+
+  beforeEach(() => {
+    store = createMemoryStore();
+    setEntitlementsStore(store);
+    contacts = [];
+  });
+
+  afterEach(() => setEntitlementsStore(null));
+
+  it("should reject payloads with an invalid signature", () => {
+    const payload = JSON.stringify(fixture("evt_bad", "invoice.paid", {}));
+    const header = Stripe.webhooks.generateTestHeaderString({ payload, secret: "whsec_other" });
+    expect(() => verifyStripeEvent(payload, header, SECRET)).toThrowMatching((e: any) => e.statusCode === 400);
+  });
+
+  it("should provision pro on a completed subscription checkout", async () => {
+    const event = signed(fixture("evt_sub", "checkout.session.completed", {
+      object: "checkout.session",
+      mode: "subscription",
+      customer: "cus_1",
+      customer_details: { email: "pro@example.com" },
+      metadata: { clerk_user_id: "user_1" },
+      amount_total: 900,
+      currency: "usd",
+    }));
+    const result = await processStripeEvent(event, deps());
+    expect(result.handled).toBeTrue();
+    const ent = store.entitlements.get("user_1")!;
+    expect(ent.plan).toBe("pro");
+    expect(ent.sub_active).toBeTrue();
+    expect(store.users.get("user_1")?.stripeCustomerId).toBe("cus_1");
+    expect(store.transactions[0]?.eventId).toBe("evt_sub");
+    expect(contacts[0]?.email).toBe("pro@example.com");
+    expect(contacts[0]?.attributes?.PLAN).toBe("pro");
+  });
+
+  it("should add pack credits once even when the event is delivered twice", async () => {
+    const event = signed(fixture("evt_pack", "checkout.session.completed", {
+      object: "checkout.session",
+      mode: "payment",
+      customer: "cus_2",
+      customer_details: { email: "pack@example.com" },
+      metadata: { clerk_user_id: "user_2", quantity: "2" },
+    }));
+    await processStripeEvent(event, deps());
+    const second = await processStripeEvent(event, deps());
+    expect(second.duplicate).toBeTrue();
+    const ent = store.entitlements.get("user_2")!;
+    expect(ent.plan).toBe("pack");
+    expect(ent.export_credits).toBe(FREE_TRIAL_EXPORT_CREDITS + 2 * getExportPackCredits());
+    expect(store.transactions.length).toBe(1);
+  });
+
+  it("should refill credits on invoice.paid for a known customer", async () => {
+    await store.linkStripeCustomer("user_3", "cus_3", "renew@example.com");
+    store.entitlements.set("user_3", { user_id: "user_3", plan: "pro", export_credits: 0, resets_at: null, sub_active: true });
+    const end = Math.floor(Date.UTC(2030, 0, 1) / 1000);
+    const event = signed(fixture("evt_inv", "invoice.paid", {
+      object: "invoice",
+      customer: "cus_3",
+      amount_paid: 900,
+      currency: "usd",
+      lines: { data: [{ period: { start: end - 2592000, end } }] },
+    }));
+    await processStripeEvent(event, deps());
+    const ent = store.entitlements.get("user_3")!;
+    expect(ent.export_credits).toBeNull();
+    expect(ent.resets_at).toBe("2030-01-01T00:00:00.000Z");
+    expect(contacts[0]?.email).toBe("renew@example.com");
+  });
+
+  it("should downgrade to free when the subscription is deleted", async () => {
+    await store.linkStripeCustomer("user_4", "cus_4", null);
+    store.entitlements.set("user_4", { user_id: "user_4", plan: "pro", export_credits: null, resets_at: null, sub_active: true });
+    const event = signed(fixture("evt_del", "customer.subscription.deleted", {
+      object: "subscription", customer: "cus_4", status: "canceled",
+    }));
+    await processStripeEvent(event, deps());
+    const ent = store.entitlements.get("user_4")!;
+    expect(ent.plan).toBe("free");
+    expect(ent.sub_active).toBeFalse();
+    expect(ent.export_credits).toBe(0);
+  });
+
+  it("should keep purchased pack credits when the subscription stops being active", async () => {
+    await store.linkStripeCustomer("user_5", "cus_5", null);
+    store.entitlements.set("user_5", { user_id: "user_5", plan: "pro", export_credits: 12, resets_at: "2030-01-01T00:00:00.000Z", sub_active: true });
+    const event = signed(fixture("evt_unpaid", "customer.subscription.updated", {
+      object: "subscription", customer: "cus_5", status: "unpaid",
+    }));
+    await processStripeEvent(event, deps());
+    const ent = store.entitlements.get("user_5")!;
+    expect(ent.plan).toBe("free");
+    expect(ent.sub_active).toBeFalse();
+    expect(ent.resets_at).toBeNull();
+    expect(ent.export_credits).toBe(12);
+  });
+
+  it("should not grant pack credits twice when the Brevo sync fails and Stripe redelivers", async () => {
+    const event = signed(fixture("evt_pack_retry", "checkout.session.completed", {
+      object: "checkout.session",
+      mode: "payment",
+      customer: "cus_6",
+      customer_details: { email: "retry@example.com" },
+      metadata: { clerk_user_id: "user_6" },
+    }));
+    let failures = 1;
+    const flaky = {
+      store,
+      upsertContact: async (p: { email: string; attributes?: Record<string, unknown> }) => {
+        if (failures-- > 0) throw new Error("Brevo down");
+        contacts.push(p);
+        return { ok: true as const };
+      },
+    };
+    spyOn(console, "warn");
+    const first = await processStripeEvent(event, flaky);
+    expect(first.handled).toBeTrue();
+    const second = await processStripeEvent(event, flaky);
+    expect(second.duplicate).toBeTrue();
+    expect(store.entitlements.get("user_6")!.export_credits).toBe(FREE_TRIAL_EXPORT_CREDITS + getExportPackCredits());
+    expect(store.transactions.length).toBe(1);
+  });
+
+  it("should ask Stripe to retry events for unknown customers without changing entitlements", async () => {
+    const event = signed(fixture("evt_unknown", "invoice.paid", { object: "invoice", customer: "cus_missing" }));
+    await expectAsync(processStripeEvent(event, deps())).toBeRejectedWith(jasmine.objectContaining({ statusCode: 503 }));
+    expect(store.auditLogs.some((l) => l.action === "webhook_unmatched")).toBeTrue();
+    expect(store.transactions.length).toBe(0);
+    expect(store.entitlements.size).toBe(0);
+  });
+
+  it("should provision a checkout on redelivery once its customer is linked", async () => {
+    const event = signed(fixture("evt_early", "checkout.session.completed", {
+      object: "checkout.session",
+      mode: "payment",
+      customer: "cus_early",
+      customer_details: { email: "early@example.com" },
+    }));
+    await expectAsync(processStripeEvent(event, deps())).toBeRejectedWith(jasmine.objectContaining({ statusCode: 503 }));
+    await store.linkStripeCustomer("user_early", "cus_early", "early@example.com");
+    const retry = await processStripeEvent(event, deps());
+    expect(retry.handled).toBeTrue();
+    expect(store.entitlements.get("user_early")!.export_credits).toBe(FREE_TRIAL_EXPORT_CREDITS + getExportPackCredits());
+  });
+
+  it("should still acknowledge event types it does not handle", async () => {
+    const result = await processStripeEvent(signed(fixture("evt_other", "charge.refunded", { object: "charge" })), deps());
+    expect(result.handled).toBeFalse();
+  });
+});
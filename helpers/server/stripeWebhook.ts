@@ -0,0 +1,217 @@
+// helpers/server/stripeWebhook.ts
+// Stripe webhook verification and event processing (used by /api/stripe/webhook).
+// Each processed event is claimed in `transactions` by event_id first, so redeliveries are no-ops.
+
+import Stripe from 'stripe';
+import { EntitlementsStore, Entitlements, getEntitlementsStore, getProMonthlyQuota, addMonths } from './db';
+import { upsertBrevoContact, BrevoAttributes } from './brevo';
+
+/** Export credits granted per purchased pack (Env EXPORT_PACK_CREDITS, default 20) */
+export function getExportPackCredits(): number {
+  const n = Number(process.env.EXPORT_PACK_CREDITS);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : 20;
+}
+
+/** Collect the unparsed request body; signature verification needs the exact bytes */
+export async function readRawBody(req: any): Promise<Buffer> {
+  if (Buffer.isBuffer(req.body)) return req.body;
+  if (typeof req.body === 'string') return Buffer.from(req.body, 'utf8');
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  return Buffer.concat(chunks);
+}
+
+/** Verify the Stripe-Signature header against the raw body. Throws with statusCode 400 when invalid. */
+export function verifyStripeEvent(rawBody: Buffer | string, signature: string | undefined, secret: string): Stripe.Event {
+  try {
+    if (!signature) throw new Error('Missing Stripe-Signature header');
+    return Stripe.webhooks.constructEvent(rawBody, signature, secret);
+  } catch (e: any) {
+    const err: any = new Error(`Invalid Stripe signature: ${e?.message || e}`);
+    err.statusCode = 400;
+    throw err;
+  }
+}
+
+export type WebhookDeps = {
+  store?: EntitlementsStore;
+  upsertContact?: typeof upsertBrevoContact;
+  now?: () => Date;
+};
+
+export type WebhookResult = {
+  handled: boolean;
+  duplicate?: boolean;
+  userId?: string;
+};
+
+const ACTIVE_SUBSCRIPTION_STATUSES = new Set(['active', 'trialing', 'past_due']);
+
+function idOf(ref: string | { id: string } | null | undefined): string | null {
+  if (!ref) return null;
+  return typeof ref === 'string' ? ref : ref.id;
+}
+
+function isoFromUnix(seconds: number | null | undefined): string | null {
+  return typeof seconds === 'number' && seconds > 0 ? new Date(seconds * 1000).toISOString() : null;
+}
+
+/**
+ * Apply one verified Stripe event to entitlements, record it in transactions (idempotent on event.id)
+ * and push plan attributes to Brevo. Unhandled event types are acknowledged. When a handled event's
+ * user cannot be resolved yet (e.g. checkout completes before ensure_user ran), it throws with
+ * statusCode 503 and nothing is claimed, so Stripe retries the delivery.
+ */
+export async function processStripeEvent(event: Stripe.Event, deps: WebhookDeps = {}): Promise<WebhookResult> {
+  const store = deps.store ?? getEntitlementsStore();
+  const upsertContact = deps.upsertContact ?? upsertBrevoContact;
+  const now = deps.now ?? (() => new Date());
+
+  const resolveUser = async (customerId: string | null, metadataUserId?: string | null) => {
+    if (metadataUserId) return metadataUserId;
+    return customerId ? store.findUserIdByStripeCustomer(customerId) : null;
+  };
+
+  // Claim the event; a second delivery finds the row and stops here
+  const claim = async (userId: string, type: 'subscription' | 'one_time', status: string, amount?: number | null, currency?: string | null) => {
+    return store.recordTransaction({
+      userId,
+      provider: 'stripe',
+      type,
+      status,
+      eventId: event.id,
+      ...(amount != null ? { amount } : {}),
+      ...(currency ? { currency } : {}),
+    });
+  };
+
+  let userId: string | null = null;
+  let email: string | null = null;
+  let apply: (() => Promise<Entitlements | null>) | null = null;
+  let claimed = false;
+  let ent: Entitlements | null;
+
+  try {
+    switch (event.type) {
+      case 'checkout.session.completed': {
+        const session = event.data.object as Stripe.Checkout.Session;
+        const customerId = idOf(session.customer);
+        userId = await resolveUser(customerId, session.metadata?.clerk_user_id);
+        if (!userId) break;
+        email = session.customer_details?.email ?? session.customer_email ?? null;
+        if (customerId) await store.linkStripeCustomer(userId, customerId, email);
+        else await store.ensureUser(userId, email);
+
+        const isSubscription = session.mode === 'subscription';
+        claimed = await claim(userId, isSubscription ? 'subscription' : 'one_time', isSubscription ? 'active' : 'paid', session.amount_total, session.currency);
+        if (!claimed) return { handled: true, duplicate: true, userId };
+
+        if (isSubscription) {
+          const uid = userId;
+          apply = () => store.updateEntitlements(uid, {
+            plan: 'pro',
+            sub_active: true,
+            export_credits: getProMonthlyQuota(),
+            resets_at: addMonths(now().toISOString(), 1),
+          });
+        } else {
+          const packs = Math.max(1, Math.floor(Number(session.metadata?.quantity) || 1));
+          const uid = userId;
+          apply = () => store.addExportCredits(uid, packs * getExportPackCredits());
+        }
+        break;
+      }
+
+      case 'invoice.paid': {
+        const invoice = event.data.object as Stripe.Invoice;
+        userId = await resolveUser(idOf(invoice.customer), invoice.subscription_details?.metadata?.clerk_user_id);
+        if (!userId) break;
+        email = invoice.customer_email ?? null;
+        claimed = await claim(userId, 'subscription', 'paid', invoice.amount_paid, invoice.currency);
+        if (!claimed) return { handled: true, duplicate: true, userId };
+        // A paid renewal starts a new period: refill the monthly allowance
+        const periodEnd = isoFromUnix(invoice.lines?.data?.[0]?.period?.end) ?? addMonths(now().toISOString(), 1);
+        const uid = userId;
+        apply = () => store.updateEntitlements(uid, {
+          plan: 'pro',
+          sub_active: true,
+          export_credits: getProMonthlyQuota(),
+          resets_at: periodEnd,
+        });
+        break;
+      }
+
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted': {
+        const sub = event.data.object as Stripe.Subscription;
+        userId = await resolveUser(idOf(sub.customer), sub.metadata?.clerk_user_id);
+        if (!userId) break;
+        const deleted = event.type === 'customer.subscription.deleted';
+        const active = !deleted && ACTIVE_SUBSCRIPTION_STATUSES.has(sub.status);
+        claimed = await claim(userId, 'subscription', deleted ? 'canceled' : sub.status);
+        if (!claimed) return { handled: true, duplicate: true, userId };
+        const uid = userId;
+        apply = active
+          ? () => store.updateEntitlements(uid, { plan: 'pro', sub_active: true, resets_at: isoFromUnix(sub.current_period_end) })
+          // Subscription ended: back to free. Purchased pack credits stay; only an unlimited (NULL) allowance is cleared.
+          : async () => {
+            const current = await store.getEntitlements(uid);
+            return store.updateEntitlements(uid, {
+              plan: 'free',
+              sub_active: false,
+              resets_at: null,
+              ...(current?.export_credits === null ? { export_credits: 0 } : {}),
+            });
+          };
+        break;
+      }
+
+      default:
+        return { handled: false };
+    }
+
+    if (!userId || !apply) {
+      try {
+        await store.recordAudit(null, 'webhook_unmatched', { eventId: event.id, type: event.type });
+      } catch (e) {
+        console.warn('Webhook audit log failed', e);
+      }
+      const err: any = new Error(`No user found for Stripe event ${event.id} (${event.type}); retry later`);
+      err.statusCode = 503;
+      throw err;
+    }
+
+    ent = await apply();
+  } catch (e) {
+    // Nothing was applied: release the claim so Stripe's retry can process the event again
+    if (claimed) {
+      try { await store.deleteTransaction(event.id); } catch { }
+    }
+    throw e;
+  }
+
+  // The entitlements change is committed; from here on failures must not release the claim
+  // (a retry would apply the event twice), so the audit log and Brevo sync are best-effort.
+  try {
+    await store.recordAudit(userId, 'webhook_processed', { eventId: event.id, type: event.type });
+  } catch (e) {
+    console.warn('Webhook audit log failed', e);
+  }
+  try {
+    const contactEmail = email ?? await store.getUserEmail(userId);
+    if (ent && contactEmail) {
+      const attributes: BrevoAttributes = {
+        PLAN: ent.plan,
+        SUB_ACTIVE: ent.sub_active,
+        SOURCE: 'stripe',
+        LAST_PURCHASE_AT: now().toISOString(),
+        ...(ent.export_credits !== null ? { CREDITS: ent.export_credits } : {}),
+      };
+      const r = await upsertContact({ email: contactEmail, attributes });
+      if (!r.ok) console.warn('Brevo upsert failed', r.error);
+    }
+  } catch (e) {
+    console.warn('Brevo upsert failed', e);
+  }
+  return { handled: true, userId };
+}
@@ -0,0 +1,44 @@
+import {
+  DEFAULT_STEP_SCALE,
+  FIFTY_TO_NINE_HUNDRED_STEP_SCALE,
+  parseStepScale,
+  formatStepScale,
+  stepForRole,
+  counterpartStep,
+  windowForSlot,
+} from "./stepScale";
+
+describe("stepScale", () => {
+  it("should parse tints and shades separated by a bar", () => {
+    const parsed = parseStepScale("50, 100 200 | 800, 900");
+    expect("steps" in parsed).toBeTrue();
+    if (!("steps" in parsed)) return;
+    expect(parsed.steps.map((s) => `${s.name}:${s.tone}`)).toEqual(["50:tint", "100:tint", "200:tint", "800:shade", "900:shade"]);
+    expect(formatStepScale(parsed.steps)).toBe("50, 100, 200 | 800, 900");
+  });
+
+  it("should reject scales without both tones or with duplicate names", () => {
+    expect("error" in parseStepScale("50, 100")).toBeTrue();
+    expect("error" in parseStepScale(" | 900")).toBeTrue();
+    expect("error" in parseStepScale("50, 50 | 900")).toBeTrue();
+    expect("error" in parseStepScale("Light! | dark")).toBeTrue();
+  });
+
+  it("should map the classic roles onto any scale", () => {
+    expect(DEFAULT_STEP_SCALE.map((s) => stepForRole(DEFAULT_STEP_SCALE, s.name as "lighter"))).toEqual(["lighter", "light", "dark", "darker"]);
+    expect(stepForRole(FIFTY_TO_NINE_HUNDRED_STEP_SCALE, "light")).toBe("400");
+    expect(stepForRole(FIFTY_TO_NINE_HUNDRED_STEP_SCALE, "dark")).toBe("500");
+    expect(counterpartStep(FIFTY_TO_NINE_HUNDRED_STEP_SCALE, "100")).toBe("800");
+    expect(counterpartStep(DEFAULT_STEP_SCALE, "lighter")).toBe("darker");
+  });
+
+  it("should reproduce the two-band split and give lighter steps higher luminances", () => {
+    const ys = Array.from({ length: 10 }, (_, i) => i);
+    // Two bands: light gets the lowest N/2+1, lighter the highest N/2+1 (overlapping in the middle)
+    expect(windowForSlot(ys, { tone: "tint", position: 1, count: 2 })).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(windowForSlot(ys, { tone: "tint", position: 0, count: 2 })).toEqual([4, 5, 6, 7, 8, 9]);
+    const five = [0, 1, 2, 3, 4].map((position) => windowForSlot(ys, { tone: "tint", position, count: 5 }));
+    five.forEach((w) => expect(w.length).toBeGreaterThan(1));
+    expect(five[0]![0]!).toBeGreaterThan(five[4]![0]!);
+  });
+});
@@ -0,0 +1,151 @@
+// helpers/stepScale.ts
+// Ordered tint/shade step lists ("scales") for each color family.
+// The default scale is the classic lighter/light/dark/darker; a palette may declare its own list
+// (e.g. a 50–900 design-system scale). Tints must come before shades, lightest first.
+
+import type { StepName } from './types';
+
+export type StepTone = 'tint' | 'shade';
+
+export interface StepDefinition {
+  /** Slug used in exports (CSS variables, theme.json slugs, class names) */
+  name: StepName;
+  /** Human label, e.g. "Lighter" or "50" */
+  label: string;
+  /** Tints carry Text on Light; shades carry Text on Dark */
+  tone: StepTone;
+}
+
+export type StepScale = readonly StepDefinition[];
+
+/** Where a step sits within its tone: position 0 is the lightest step of that tone */
+export type StepSlot = { tone: StepTone; position: number; count: number };
+
+/** Roles the rest of the app relies on (demo, semantic defaults, text-token choice) */
+export type StepRole = 'lighter' | 'light' | 'dark' | 'darker';
+
+export const DEFAULT_STEP_SCALE: StepScale = [
+  { name: 'lighter', label: 'Lighter', tone: 'tint' },
+  { name: 'light', label: 'Light', tone: 'tint' },
+  { name: 'dark', label: 'Dark', tone: 'shade' },
+  { name: 'darker', label: 'Darker', tone: 'shade' },
+];
+
+/** 50–900 design-system scale: five AAA tints for dark text, five AAA shades for light text */
+export const FIFTY_TO_NINE_HUNDRED_STEP_SCALE: StepScale = ['50', '100', '200', '300', '400', '500', '600', '700', '800', '900']
+  .map((name, i) => ({ name, label: name, tone: i < 5 ? 'tint' as const : 'shade' as const }));
+
+export const STEP_SCALE_PRESETS: Record<'default' | '50-900', { label: string; steps: StepScale }> = {
+  default: { label: 'Lighter / Light / Dark / Darker', steps: DEFAULT_STEP_SCALE },
+  '50-900': { label: '50–900 (10 steps)', steps: FIFTY_TO_NINE_HUNDRED_STEP_SCALE },
+};
+
+export const MAX_STEPS_PER_TONE = 8;
+
+const STEP_NAME_RE = /^[a-z0-9][a-z0-9-]*$/;
+
+/** Returns a problem description, or null when the scale is usable */
+export function validateStepScale(steps: ReadonlyArray<{ name?: string | undefined; tone?: StepTone | undefined }>): string | null {
+  if (!Array.isArray(steps) || steps.length === 0) return 'Add at least one tint and one shade.';
+  const seen = new Set<string>();
+  let sawShade = false;
+  let tints = 0, shades = 0;
+  for (const s of steps) {
+    const name = s?.name ?? '';
+    if (!STEP_NAME_RE.test(name)) return `"${name}" is not a valid step name (use a-z, 0-9 and -).`;
+    if (seen.has(name)) return `Step "${name}" is listed twice.`;
+    seen.add(name);
+    if (s.tone === 'shade') { sawShade = true; shades++; }
+    else if (s.tone === 'tint') {
+      if (sawShade) return 'List tints before shades (lightest to darkest).';
+      tints++;
+    } else return `Step "${name}" needs a tone (tint or shade).`;
+  }
+  if (tints === 0 || shades === 0) return 'Add at least one tint and one shade.';
+  if (tints > MAX_STEPS_PER_TONE || shades > MAX_STEPS_PER_TONE) return `Use at most ${MAX_STEPS_PER_TONE} tints and ${MAX_STEPS_PER_TONE} shades.`;
+  return null;
+}
+
+/**
+ * Parse the Adjust-tab text form: tint names, a "|", then shade names, lightest to darkest.
+ * Example: "50, 100, 200, 300, 400 | 500, 600, 700, 800, 900"
+ */
+export function parseStepScale(text: string): { steps: StepScale } | { error: string } {
+  const parts = String(text || '').split('|');
+  if (parts.length !== 2) return { error: 'Separate tints from shades with a single "|".' };
+  const names = (s: string) => s.split(/[\s,]+/).map((x) => x.trim().toLowerCase()).filter(Boolean);
+  const toStep = (tone: StepTone) => (name: string): StepDefinition => ({ name, label: labelForStepName(name), tone });
+  const steps = [...names(parts[0]!).map(toStep('tint')), ...names(parts[1]!).map(toStep('shade'))];
+  const error = validateStepScale(steps);
+  return error ? { error } : { steps };
+}
+
+/** Inverse of parseStepScale */
+export function formatStepScale(steps: StepScale): string {
+  const tints = steps.filter((s) => s.tone === 'tint').map((s) => s.name);
+  const shades = steps.filter((s) => s.tone === 'shade').map((s) => s.name);
+  return `${tints.join(', ')} | ${shades.join(', ')}`;
+}
+
+function labelForStepName(name: string): string {
+  const fromDefault = DEFAULT_STEP_SCALE.find((s) => s.name === name);
+  if (fromDefault) return fromDefault.label;
+  return name.split('-').map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+}
+
+export function isDefaultStepScale(steps: StepScale): boolean {
+  return steps.length === DEFAULT_STEP_SCALE.length
+    && steps.every((s, i) => s.name === DEFAULT_STEP_SCALE[i]!.name && s.tone === DEFAULT_STEP_SCALE[i]!.tone);
+}
+
+export function findStep(steps: StepScale, name: StepName | undefined): StepDefinition | undefined {
+  return name == null ? undefined : steps.find((s) => s.name === name);
+}
+
+/** Tone of a step name; unknown names fall back to the default scale, then to 'tint' */
+export function stepTone(steps: StepScale, name: StepName | undefined): StepTone {
+  return findStep(steps, name)?.tone ?? findStep(DEFAULT_STEP_SCALE, name)?.tone ?? 'tint';
+}
+
+export function stepSlot(steps: StepScale, name: StepName): StepSlot | undefined {
+  const step = findStep(steps, name);
+  if (!step) return undefined;
+  const sameTone = steps.filter((s) => s.tone === step.tone);
+  return { tone: step.tone, position: sameTone.indexOf(step), count: sameTone.length };
+}
+
+/**
+ * Map the four classic roles onto a scale: lighter/light are the lightest/darkest tint,
+ * dark/darker the lightest/darkest shade. For the default scale this is the identity.
+ */
+export function stepForRole(steps: StepScale, role: StepRole): StepName {
+  const tints = steps.filter((s) => s.tone === 'tint');
+  const shades = steps.filter((s) => s.tone === 'shade');
+  const pick = role === 'lighter' ? tints[0]
+    : role === 'light' ? tints[tints.length - 1]
+      : role === 'dark' ? shades[0]
+        : shades[shades.length - 1];
+  return pick?.name ?? role;
+}
+
+/** The step that mirrors `name` across the scale (lighter <-> darker, light <-> dark) */
+export function counterpartStep(steps: StepScale, name: StepName): StepName | null {
+  const i = steps.findIndex((s) => s.name === name);
+  if (i < 0) return null;
+  return steps[steps.length - 1 - i]?.name ?? null;
+}
+
+/**
+ * Overlapping window of an ascending luminance list for one step; the lightest step gets the highest Ys.
+ * With two steps per tone this is exactly the classic lighter/light (or dark/darker) split.
+ */
+export function windowForSlot<T>(sortedAsc: readonly T[], slot: StepSlot): T[] {
+  const N = sortedAsc.length;
+  if (N === 0) return [];
+  if (slot.count <= 1) return sortedAsc.slice();
+  const width = Math.min(N - 1, Math.ceil(N / slot.count) + 1);
+  if (width <= 0) return [];
+  const fromDarkest = slot.count - 1 - slot.position;
+  const start = Math.round((fromDarkest * (N - width)) / (slot.count - 1));
+  return sortedAsc.slice(start, start + width);
+}
@@ -0,0 +1,72 @@
+import { strFromU8, unzipSync } from "fflate";
+import {
+  buildSwatchGroups,
+  buildAse,
+  buildGpl,
+  buildProcreateSwatches,
+  buildSketchPalette,
+  PROCREATE_MAX_SWATCHES,
+} from "./swatchExport";
+import { hexToRgb } from "./colorUtils";
+import { classicVariations as pv, fiftyToNineHundred, primaryOnlyPalette, runFiftyToNineHundred, stepHex, textOnLight, textOnDark } from "./exportSpecFixtures";
+
+describe("swatchExport", () => {
+  const groups = buildSwatchGroups(pv, { textOnLight, textOnDark });
+  const primaryLight = stepHex(pv, "primary", "light");
+  const { r, g, b } = hexToRgb(primaryLight);
+
+  it("should group colors by family with named steps, then the text colors", () => {
+    expect(groups.map((group) => group.name)).toEqual(["Primary", "Secondary", "Tertiary", "Accent", "Error", "Notice", "Success", "Text"]);
+    expect(groups[0]!.colors.map((c) => c.name)).toEqual(["Primary Lighter", "Primary Light", "Primary Dark", "Primary Darker"]);
+    expect(groups[0]!.colors[1]!.hex).toBe(primaryLight.toUpperCase());
+    expect(groups[7]!.colors).toEqual([
+      { name: "Text on Light", hex: textOnLight.toUpperCase() },
+      { name: "Text on Dark", hex: textOnDark.toUpperCase() },
+    ]);
+  });
+
+  it("should write an ASE file with a group start, the colors and a group end per family", () => {
+    const ase = buildAse(groups);
+    const view = new DataView(ase.buffer, ase.byteOffset, ase.byteLength);
+    expect(strFromU8(ase.slice(0, 4))).toBe("ASEF");
+    expect(view.getUint16(4)).toBe(1);
+    expect(view.getUint32(8)).toBe(8 * 2 + 7 * 4 + 2);
+    expect(view.getUint16(12)).toBe(0xc001);
+    // First color block: "Primary Lighter" (UTF-16 + NUL), then RGB as 32-bit floats
+    const colorBlock = 12 + 6 + 2 + ("Primary".length + 1) * 2;
+    expect(view.getUint16(colorBlock)).toBe(0x0001);
+    const modelAt = colorBlock + 6 + 2 + ("Primary Lighter".length + 1) * 2;
+    expect(strFromU8(ase.slice(modelAt, modelAt + 4))).toBe("RGB ");
+    expect(view.getFloat32(modelAt + 4)).toBeCloseTo(hexToRgb(groups[0]!.colors[0]!.hex).r / 255, 5);
+  });
+
+  it("should write GIMP and Sketch palettes with the color names", () => {
+    const gpl = buildGpl(groups, "My Theme");
+    expect(gpl.startsWith("GIMP Palette\nName: My Theme\nColumns: 4\n")).toBeTrue();
+    expect(gpl).toContain("# Primary\n");
+    expect(gpl).toContain(`${String(r).padStart(3)} ${String(g).padStart(3)} ${String(b).padStart(3)}\tPrimary Light`);
+
+    const sketch = JSON.parse(buildSketchPalette(groups));
+    expect(sketch.colors.length).toBe(groups.reduce((n, group) => n + group.colors.length, 0));
+    expect(sketch.colors.find((c: { name: string }) => c.name === "Primary Light").red).toBeCloseTo(r / 255, 3);
+  });
+
+  it("should zip a named Procreate palette and drop swatches past Procreate's limit", () => {
+    const [primarySwatches] = JSON.parse(strFromU8(unzipSync(buildProcreateSwatches("My Theme Primary", groups[0]!.colors))["Swatches.json"]!));
+    expect(primarySwatches.name).toBe("My Theme Primary");
+    expect(primarySwatches.swatches.length).toBe(4);
+    expect(primarySwatches.swatches[0].alpha).toBe(1);
+
+    const many = Array.from({ length: PROCREATE_MAX_SWATCHES + 5 }, (_, i) => ({ name: `Gray ${i}`, hex: "#808080" }));
+    const [capped] = JSON.parse(strFromU8(unzipSync(buildProcreateSwatches("Grays", many))["Swatches.json"]!));
+    expect(capped.swatches.length).toBe(PROCREATE_MAX_SWATCHES);
+  });
+
+  it("should follow a custom scale and include Neutral after the brand families", () => {
+    const { steps } = fiftyToNineHundred;
+    const custom = buildSwatchGroups(runFiftyToNineHundred(primaryOnlyPalette, true), { textOnLight, textOnDark, steps });
+    expect(custom.map((group) => group.name)).toEqual(["Primary", "Neutral", "Error", "Notice", "Success", "Text"]);
+    expect(custom[1]!.colors.map((c) => c.name)).toEqual(steps.map((s) => `Neutral ${s.label}`));
+    expect(buildGpl(custom, "Ten Steps")).toContain("Columns: 10\n");
+  });
+});
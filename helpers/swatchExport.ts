@@ -0,0 +1,160 @@
+// helpers/swatchExport.ts
+// Swatch files for design apps: Adobe Swatch Exchange (.ase: Illustrator, Photoshop, InDesign, Affinity),
+// GIMP/Inkscape (.gpl), Procreate (.swatches) and Sketch (.sketchpalette, Sketch Palettes plugin).
+// Colors are grouped by family (Primary ... Neutral, Error/Notice/Success, Text) and named like the
+// theme.json palette, e.g. "Primary Light".
+
+import { strToU8, zipSync } from 'fflate';
+import type { PaletteWithVariations, Color } from './types';
+import { hexToRgb } from './colorUtils';
+import { brandFamiliesOf, brandFamilyLabel } from './brandFamilies';
+import { DEFAULT_STEP_SCALE, type StepScale } from './stepScale';
+
+export type SwatchColor = { name: string; hex: string };
+export type SwatchGroup = { name: string; colors: SwatchColor[] };
+
+export type SwatchExportOptions = {
+  textOnLight: string;
+  textOnDark: string;
+  steps?: StepScale | undefined;
+};
+
+/** A Procreate palette holds at most 30 swatches (3 rows of 10) */
+export const PROCREATE_MAX_SWATCHES = 30;
+
+const SEMANTIC_LABELS = { error: 'Error', warning: 'Notice', success: 'Success' } as const;
+
+function stepColors(variations: Color[]): Record<string, Color> {
+  return Object.fromEntries(variations.map((v) => [(v.step || v.name).toLowerCase(), v]));
+}
+
+/** One group per family with its steps lightest first, then a Text group with the two text colors */
+export function buildSwatchGroups(palette: PaletteWithVariations, opts: SwatchExportOptions): SwatchGroup[] {
+  const steps = opts.steps ?? DEFAULT_STEP_SCALE;
+  const families: Array<[keyof PaletteWithVariations, string]> = [
+    ...brandFamiliesOf(palette).map((f): [keyof PaletteWithVariations, string] => [f, brandFamilyLabel(f)]),
+    ...(palette.neutral ? [['neutral', 'Neutral'] as [keyof PaletteWithVariations, string]] : []),
+    ...(['error', 'warning', 'success'] as const).map((f): [keyof PaletteWithVariations, string] => [f, SEMANTIC_LABELS[f]]),
+  ];
+  const groups: SwatchGroup[] = [];
+  for (const [family, label] of families) {
+    const byStep = stepColors(palette[family]!.variations);
+    const colors = steps
+      .filter(({ name }) => byStep[name])
+      .map(({ name, label: stepLabel }) => ({ name: `${label} ${stepLabel}`, hex: byStep[name]!.hex.toUpperCase() }));
+    if (colors.length) groups.push({ name: label, colors });
+  }
+  groups.push({
+    name: 'Text',
+    colors: [
+      { name: 'Text on Light', hex: opts.textOnLight.toUpperCase() },
+      { name: 'Text on Dark', hex: opts.textOnDark.toUpperCase() },
+    ],
+  });
+  return groups;
+}
+
+/**
+ * Adobe Swatch Exchange 1.0: big-endian "ASEF" header and block count, then a group-start block,
+ * one RGB color block per swatch and a group-end block for each group. Names are UTF-16BE with a trailing NUL.
+ */
+export function buildAse(groups: SwatchGroup[]): Uint8Array {
+  const blocks: Uint8Array[] = [];
+  const nameBytes = (name: string) => {
+    const out = new Uint8Array(2 + (name.length + 1) * 2);
+    const view = new DataView(out.buffer);
+    view.setUint16(0, name.length + 1);
+    for (let i = 0; i < name.length; i++) view.setUint16(2 + i * 2, name.charCodeAt(i));
+    return out;
+  };
+  const block = (type: number, body: Uint8Array) => {
+    const out = new Uint8Array(6 + body.length);
+    const view = new DataView(out.buffer);
+    view.setUint16(0, type);
+    view.setUint32(2, body.length);
+    out.set(body, 6);
+    blocks.push(out);
+  };
+  for (const group of groups) {
+    block(0xc001, nameBytes(group.name));
+    for (const color of group.colors) {
+      const name = nameBytes(color.name);
+      const body = new Uint8Array(name.length + 4 + 12 + 2);
+      const view = new DataView(body.buffer);
+      body.set(name, 0);
+      body.set(strToU8('RGB '), name.length);
+      const { r, g, b } = hexToRgb(color.hex);
+      [r, g, b].forEach((c, i) => view.setFloat32(name.length + 4 + i * 4, c / 255));
+      // 2 = normal (process) color, as opposed to global or spot
+      view.setUint16(name.length + 16, 2);
+      block(0x0001, body);
+    }
+    block(0xc002, new Uint8Array(0));
+  }
+  const header = new Uint8Array(12);
+  const view = new DataView(header.buffer);
+  header.set(strToU8('ASEF'), 0);
+  view.setUint16(4, 1);
+  view.setUint16(6, 0);
+  view.setUint32(8, blocks.length);
+  const total = blocks.reduce((n, b) => n + b.length, header.length);
+  const out = new Uint8Array(total);
+  out.set(header, 0);
+  let offset = header.length;
+  for (const b of blocks) {
+    out.set(b, offset);
+    offset += b.length;
+  }
+  return out;
+}
+
+/** GIMP/Inkscape palette: one "R G B<tab>Name" line per color, each family introduced by a comment */
+export function buildGpl(groups: SwatchGroup[], title: string): string {
+  const columns = Math.max(...groups.map((g) => g.colors.length));
+  const lines = ['GIMP Palette', `Name: ${title}`, `Columns: ${columns}`, '#'];
+  for (const group of groups) {
+    lines.push(`# ${group.name}`);
+    for (const color of group.colors) {
+      const { r, g, b } = hexToRgb(color.hex);
+      lines.push(`${String(r).padStart(3)} ${String(g).padStart(3)} ${String(b).padStart(3)}\t${color.name}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/** sRGB 0-255 to Procreate's hue/saturation/brightness in 0-1 */
+function rgbToHsb(r: number, g: number, b: number): { hue: number; saturation: number; brightness: number } {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const d = max - Math.min(rn, gn, bn);
+  let h = 0;
+  if (d > 0) {
+    if (max === rn) h = ((gn - bn) / d) % 6;
+    else if (max === gn) h = (bn - rn) / d + 2;
+    else h = (rn - gn) / d + 4;
+  }
+  const round = (n: number) => Math.round(n * 10000) / 10000;
+  return { hue: round(((h * 60 + 360) % 360) / 360), saturation: round(max === 0 ? 0 : d / max), brightness: round(max) };
+}
+
+/**
+ * Procreate .swatches: a zip holding Swatches.json. Procreate swatches have no names, so each family
+ * is its own palette (named e.g. "My Theme Primary"). Colors past the 30th are dropped.
+ */
+export function buildProcreateSwatches(name: string, colors: SwatchColor[]): Uint8Array {
+  const swatches = colors.slice(0, PROCREATE_MAX_SWATCHES).map((c) => {
+    const { r, g, b } = hexToRgb(c.hex);
+    return { ...rgbToHsb(r, g, b), alpha: 1, colorSpace: 0 };
+  });
+  return zipSync({ 'Swatches.json': strToU8(JSON.stringify([{ name, swatches }])) }, { level: 9 });
+}
+
+/** Sketch Palettes plugin file (format 2.0): named colors in family order, components in 0-1 */
+export function buildSketchPalette(groups: SwatchGroup[]): string {
+  const colors = groups.flatMap((g) => g.colors).map((c) => {
+    const { r, g, b } = hexToRgb(c.hex);
+    const n = (v: number) => Math.round((v / 255) * 10000) / 10000;
+    return { name: c.name, red: n(r), green: n(g), blue: n(b), alpha: 1 };
+  });
+  return `${JSON.stringify({ compatibleVersion: '2.0', pluginVersion: '2.22', colors, gradients: [], images: [] }, null, 2)}\n`;
+}
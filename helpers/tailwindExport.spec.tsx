@@ -0,0 +1,41 @@
+import { buildTailwindColors, buildTailwindV3Preset, buildTailwindV4Theme } from "./tailwindExport";
+import { SEMANTIC_BAND_DEFAULTS } from "./paletteEngine";
+import { PaletteWithVariations } from "./types";
+import { classicVariations as pv, fiftyToNineHundred, runFiftyToNineHundred, sixFamilyPalette, stepHex, textOnLight, textOnDark } from "./exportSpecFixtures";
+
+describe("tailwindExport", () => {
+  it("should switch each step to its mirror step in dark mode like the utility classes", () => {
+    const opts = { semanticBandSelection: { ...SEMANTIC_BAND_DEFAULTS, warning: { light: "lighter", dark: "darker" } }, textOnLight, textOnDark };
+    const hex = (family: keyof PaletteWithVariations, step: string) => stepHex(pv, family, step);
+
+    const v4 = buildTailwindV4Theme(pv, "My Theme", opts);
+    expect(v4).toContain(`--color-primary-light: light-dark(${hex("primary", "light")}, ${hex("primary", "dark")});`);
+    expect(v4).toContain(`--color-primary-darker: light-dark(${hex("primary", "darker")}, ${hex("primary", "lighter")});`);
+    expect(v4).toContain(`--color-notice: light-dark(${hex("warning", "lighter")}, ${hex("warning", "darker")});`);
+    expect(v4).toContain(`--color-on-light: ${textOnLight};`);
+
+    const v3 = buildTailwindV3Preset(pv, "My Theme", opts);
+    const colors = JSON.parse(v3.slice(v3.indexOf("module.exports = ") + "module.exports = ".length, v3.lastIndexOf("}") + 1)).theme.extend.colors;
+    expect(colors).toEqual(JSON.parse(JSON.stringify(buildTailwindColors(pv, opts))));
+    expect(colors.primary.light).toBe(`light-dark(${hex("primary", "light")}, ${hex("primary", "dark")})`);
+    expect(colors.primary["light-hover"]).toContain(pv.primary.variations.find((v) => v.step === "light")!.states!.hover);
+    expect(colors.notice.DEFAULT).toBe(colors.notice.light);
+    expect(colors["on-dark"]).toBe(textOnDark);
+  });
+
+  it("should key colors by a custom scale's step names for every brand family", () => {
+    const six = runFiftyToNineHundred(sixFamilyPalette);
+    const colors = buildTailwindColors(six, fiftyToNineHundred);
+    const hex = (family: keyof PaletteWithVariations, step: string) => stepHex(six, family, step);
+
+    expect(Object.keys(colors)).toEqual(["on-light", "on-dark", "primary", "secondary", "tertiary", "accent", "accent-2", "accent-3", "error", "notice", "success"]);
+    const accent3 = colors["accent-3"] as Record<string, string>;
+    for (const { name } of fiftyToNineHundred.steps) expect(accent3[name]).withContext(name).toBeDefined();
+    expect(accent3["100"]).toBe(`light-dark(${hex("accent-3", "100")}, ${hex("accent-3", "800")})`);
+    expect((colors.notice as Record<string, string>).DEFAULT).toBe(`light-dark(${hex("warning", "400")}, ${hex("warning", "500")})`);
+
+    const v4 = buildTailwindV4Theme(six, "Six", fiftyToNineHundred);
+    expect(v4).toContain(`--color-accent-2-900: light-dark(${hex("accent-2", "900")}, ${hex("accent-2", "50")});`);
+    expect(v4).not.toContain("--color-neutral");
+  });
+});
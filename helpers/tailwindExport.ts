@@ -0,0 +1,123 @@
+// helpers/tailwindExport.ts
+// Tailwind CSS export: a v3 preset (theme.extend.colors) and a v4 @theme block with the same colors.
+// Every color is a light-dark() pair built exactly like generateCssClasses, so bg-primary-light
+// switches to Primary Dark in dark mode (lighter <-> darker, light <-> dark) and bg-notice follows
+// the semantic band selection. light-dark() follows the page's color-scheme, as the WordPress classes do.
+
+import type { PaletteWithVariations, ColorWithVariations, Color } from './types';
+import { brandFamiliesOf } from './brandFamilies';
+import { DEFAULT_STEP_SCALE, counterpartStep, type StepScale } from './stepScale';
+import type { SemanticBandSelection } from './paletteEngine';
+import { GENERATED_FILE_NOTE } from './config';
+
+/** Tailwind color map: family -> key -> CSS color ('DEFAULT' is the bare family class) */
+export type TailwindColors = Record<string, string | Record<string, string>>;
+
+export type TailwindExportOptions = {
+  semanticBandSelection: SemanticBandSelection;
+  textOnLight: string;
+  textOnDark: string;
+  steps?: StepScale | undefined;
+};
+
+const lightDark = (light: string, dark: string) => (light.toLowerCase() === dark.toLowerCase() ? light : `light-dark(${light}, ${dark})`);
+
+function byStep(color: ColorWithVariations): Record<string, Color> {
+  return Object.fromEntries(color.variations.map((v) => [(v.step || v.name).toLowerCase(), v]));
+}
+
+/** Step colors paired with their mirror step, hover/active paired the same way, and the 3:1 border pair */
+function familyColors(color: ColorWithVariations, steps: StepScale): Record<string, string> {
+  const vars = byStep(color);
+  const out: Record<string, string> = {};
+  for (const { name } of steps) {
+    const v = vars[name];
+    if (!v) continue;
+    const counterpart = counterpartStep(steps, name);
+    const mirror = (counterpart && vars[counterpart]) || v;
+    out[name] = lightDark(v.hex, mirror.hex);
+    if (v.states) {
+      const darkStates = mirror.states ?? v.states;
+      out[`${name}-hover`] = lightDark(v.states.hover, darkStates.hover);
+      out[`${name}-active`] = lightDark(v.states.active, darkStates.active);
+    }
+  }
+  if (color.border) out.border = lightDark(color.border.onLight, color.border.onDark);
+  return out;
+}
+
+/** Semantic families use their selected light/dark bands for DEFAULT, -light and -dark, like .bg-notice */
+function semanticColors(color: ColorWithVariations, selection: { light: string; dark: string }): Record<string, string> {
+  const vars = byStep(color);
+  const light = vars[selection.light]?.hex ?? color.hex;
+  const dark = vars[selection.dark]?.hex ?? color.hex;
+  const pair = lightDark(light, dark);
+  const out: Record<string, string> = { DEFAULT: pair, light: pair, dark: pair };
+  const lightStates = vars[selection.light]?.states;
+  const darkStates = vars[selection.dark]?.states;
+  if (lightStates && darkStates) {
+    out.hover = lightDark(lightStates.hover, darkStates.hover);
+    out.active = lightDark(lightStates.active, darkStates.active);
+  }
+  if (color.border) out.border = lightDark(color.border.onLight, color.border.onDark);
+  return out;
+}
+
+/** The color map shared by the v3 preset and the v4 @theme block */
+export function buildTailwindColors(palette: PaletteWithVariations, opts: TailwindExportOptions): TailwindColors {
+  const steps = opts.steps ?? DEFAULT_STEP_SCALE;
+  const colors: TailwindColors = {
+    // text-on-light / text-on-dark, as in the WordPress utilities
+    'on-light': opts.textOnLight,
+    'on-dark': opts.textOnDark,
+  };
+  const families: Array<keyof PaletteWithVariations> = palette.neutral ? [...brandFamiliesOf(palette), 'neutral'] : brandFamiliesOf(palette);
+  for (const family of families) colors[family] = familyColors(palette[family]!, steps);
+  colors.error = semanticColors(palette.error, opts.semanticBandSelection.error);
+  colors.notice = semanticColors(palette.warning, opts.semanticBandSelection.warning);
+  colors.success = semanticColors(palette.success, opts.semanticBandSelection.success);
+  return colors;
+}
+
+/** Tailwind v3 preset module: `presets: [require('./tailwind/<theme>-preset.js')]` */
+export function buildTailwindV3Preset(palette: PaletteWithVariations, title: string, opts: TailwindExportOptions): string {
+  const colors = buildTailwindColors(palette, opts);
+  return [
+    `// ${title}: Tailwind CSS v3 preset. ${GENERATED_FILE_NOTE}`,
+    '// Add it to tailwind.config.js: presets: [require(\'./tailwind/<this file>\')].',
+    '// Colors use light-dark(), so set color-scheme on :root (e.g. color-scheme: light dark) to switch them.',
+    '// Pair each background with its text color: tints take text-on-light, shades take text-on-dark.',
+    '/** @type {import(\'tailwindcss\').Config} */',
+    `module.exports = ${JSON.stringify({ theme: { extend: { colors } } }, null, 2)};`,
+    '',
+  ].join('\n');
+}
+
+/** Tailwind v4 CSS: an @theme block of --color-* variables (import after "tailwindcss") */
+export function buildTailwindV4Theme(palette: PaletteWithVariations, title: string, opts: TailwindExportOptions): string {
+  const colors = buildTailwindColors(palette, opts);
+  const lines: string[] = [];
+  for (const [family, value] of Object.entries(colors)) {
+    if (typeof value === 'string') {
+      lines.push(`  --color-${family}: ${value};`);
+      continue;
+    }
+    for (const [key, color] of Object.entries(value)) {
+      lines.push(`  --color-${family}${key === 'DEFAULT' ? '' : `-${key}`}: ${color};`);
+    }
+  }
+  return [
+    `/* ${title}: Tailwind CSS v4 theme. ${GENERATED_FILE_NOTE}`,
+    ' * Import it after Tailwind: @import "tailwindcss"; @import "./tailwind/<this file>";',
+    ' * Colors use light-dark(), so they follow color-scheme like the WordPress utility classes.',
+    ' * Pair each background with its text color: tints take text-on-light, shades take text-on-dark. */',
+    ':root {',
+    '  color-scheme: light dark;',
+    '}',
+    '',
+    '@theme {',
+    ...lines,
+    '}',
+    '',
+  ].join('\n');
+}
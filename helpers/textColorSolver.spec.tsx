@@ -0,0 +1,37 @@
+import { solveTextColors, measureRibbonCoverage } from "./textColorSolver";
+import { buildRibbons, DEFAULT_STARTING_PALETTE } from "./paletteEngine";
+import { validateRibbons } from "./generateRibbons";
+import { hexToRgb, rgbToHslNorm } from "./colorUtils";
+import { MIN_VARIATIONS_PER_BAND } from "./config";
+
+const hslOf = (hex: string) => { const { r, g, b } = hexToRgb(hex); return rgbToHslNorm(r, g, b); };
+
+describe("solveTextColors", () => {
+  it("should fix a Text on Dark that is too dark, keeping its hue and saturation", () => {
+    const textOnLight = "#453521";
+    const textOnDark = "#B8A48C";
+    expect(measureRibbonCoverage(DEFAULT_STARTING_PALETTE, textOnLight, textOnDark).shades).toBeLessThan(MIN_VARIATIONS_PER_BAND);
+
+    const proposals = solveTextColors(DEFAULT_STARTING_PALETTE, textOnLight, textOnDark);
+    expect(proposals.length).toBeGreaterThan(0);
+    expect(proposals.length).toBeLessThanOrEqual(3);
+    for (const p of proposals) {
+      expect(p.after.min).toBeGreaterThanOrEqual(MIN_VARIATIONS_PER_BAND);
+      expect(p.before.shades).toBeLessThan(MIN_VARIATIONS_PER_BAND);
+      expect(validateRibbons(buildRibbons(DEFAULT_STARTING_PALETTE, p.textOnLight, p.textOnDark)).valid).toBe(true);
+      expect(Math.abs(hslOf(p.textOnDark).h - hslOf(textOnDark).h)).toBeLessThan(3);
+      expect(hslOf(p.textOnDark).l).toBeGreaterThan(hslOf(textOnDark).l);
+    }
+    // Most coverage first, smallest change last
+    expect(proposals[0]!.after.min).toBeGreaterThanOrEqual(proposals[proposals.length - 1]!.after.min);
+    const last = proposals[proposals.length - 1]!;
+    expect(last.textOnLight).toBe(textOnLight);
+    expect(last.darkDelta).toBeLessThanOrEqual(proposals[0]!.darkDelta);
+  });
+
+  it("should move both text colors when both are too weak", () => {
+    const proposals = solveTextColors(DEFAULT_STARTING_PALETTE, "#6B5B4A", "#B0B0B0");
+    expect(proposals.length).toBeGreaterThan(0);
+    expect(proposals.every((p) => p.lightDelta > 0 && p.darkDelta > 0)).toBe(true);
+  });
+});
@@ -0,0 +1,152 @@
+// helpers/textColorSolver.ts
+// Finds Text on Light / Text on Dark colors that give every family enough AAA tints and shades.
+// Candidates keep the user's hue and saturation (the tint of the near-black / near-white) and only move L:
+// Text on Light gets darker, Text on Dark gets lighter. Tints depend only on Text on Light and shades
+// only on Text on Dark, so each side is searched on its own and the results are paired.
+
+import type { Palette, RibbonMode } from './types';
+import { hexToRgb, rgbToHex, rgbToHslNorm, hslNormToRgb } from './colorUtils';
+import { generateToneLuminances } from './generateRibbons';
+import { paletteFamiliesOf } from './paletteEngine';
+import { DEFAULT_STEP_SCALE, stepSlot, windowForSlot, type StepScale, type StepTone } from './stepScale';
+import { MIN_VARIATIONS_PER_BAND } from './config';
+
+/** Shortest ribbon over every family and step, per tone */
+export type RibbonCoverage = { tints: number; shades: number; min: number };
+
+export type TextColorProposal = {
+  textOnLight: string;
+  textOnDark: string;
+  before: RibbonCoverage;
+  after: RibbonCoverage;
+  /** How far L moved, in percentage points, for each text color */
+  lightDelta: number;
+  darkDelta: number;
+};
+
+export type TextColorSolverOptions = {
+  ribbonMode?: RibbonMode;
+  minApcaLc?: number | null;
+  steps?: StepScale;
+  /** Number of proposals to return (default 3) */
+  limit?: number;
+};
+
+/** L is searched in steps of this size (0-1 scale) */
+const L_STEP = 0.01;
+
+type SideCandidate = { hex: string; delta: number; length: number };
+
+/** Shortest step ribbon of one tone over all families of the palette */
+function shortestRibbon(
+  palette: Palette,
+  tone: StepTone,
+  textOnLight: string,
+  textOnDark: string,
+  ribbonMode: RibbonMode,
+  minApcaLc: number | null,
+  steps: StepScale
+): number {
+  const slots = steps.filter((s) => s.tone === tone).map((s) => stepSlot(steps, s.name)!);
+  let shortest = Infinity;
+  for (const family of paletteFamiliesOf(palette)) {
+    const hex = palette[family]?.hex;
+    if (!hex) continue;
+    const luminances = generateToneLuminances(hex, tone, textOnLight, textOnDark, ribbonMode, minApcaLc);
+    for (const slot of slots) shortest = Math.min(shortest, windowForSlot(luminances, slot).length);
+  }
+  return Number.isFinite(shortest) ? shortest : 0;
+}
+
+/** The current text color, then the same hue and saturation at each L step toward black (tone 'tint') or white ('shade') */
+function sideCandidates(hex: string, tone: StepTone): Array<{ hex: string; delta: number }> {
+  const { r, g, b } = hexToRgb(hex);
+  const { h, s, l } = rgbToHslNorm(r, g, b);
+  const out = [{ hex: hex.toUpperCase(), delta: 0 }];
+  const seen = new Set([out[0]!.hex]);
+  const dir = tone === 'tint' ? -1 : 1;
+  for (let i = 1; ; i++) {
+    const next = Math.max(0, Math.min(1, l + dir * i * L_STEP));
+    const rgb = hslNormToRgb(h, s, next);
+    const candidate = rgbToHex(rgb.r, rgb.g, rgb.b).toUpperCase();
+    if (!seen.has(candidate)) {
+      seen.add(candidate);
+      out.push({ hex: candidate, delta: Math.round(Math.abs(next - l) * 100) });
+    }
+    if (next === 0 || next === 1) break;
+  }
+  return out;
+}
+
+/**
+ * Smallest L change on one side for each ribbon length it can reach.
+ * Returned longest first; lengths that need more change for no gain are dropped.
+ */
+function sideLevels(candidates: SideCandidate[]): SideCandidate[] {
+  const best = new Map<number, SideCandidate>();
+  for (const c of candidates) {
+    const prev = best.get(c.length);
+    if (!prev || c.delta < prev.delta) best.set(c.length, c);
+  }
+  const levels = [...best.values()].sort((a, b) => b.length - a.length);
+  // A longer ribbon that needs no more change than a shorter one makes the shorter one pointless
+  return levels.filter((c, i) => !levels.slice(0, i).some((longer) => longer.delta <= c.delta));
+}
+
+/** Shortest tint and shade ribbons for the given text colors */
+export function measureRibbonCoverage(
+  palette: Palette,
+  textOnLight: string,
+  textOnDark: string,
+  options: TextColorSolverOptions = {}
+): RibbonCoverage {
+  const { ribbonMode = 'hsl', minApcaLc = null, steps = DEFAULT_STEP_SCALE } = options;
+  const tints = shortestRibbon(palette, 'tint', textOnLight, textOnDark, ribbonMode, minApcaLc, steps);
+  const shades = shortestRibbon(palette, 'shade', textOnLight, textOnDark, ribbonMode, minApcaLc, steps);
+  return { tints, shades, min: Math.min(tints, shades) };
+}
+
+/**
+ * Propose text color pairs that maximize the shortest ribbon across all families and steps.
+ * The first proposal has the most coverage; the last is the smallest change that reaches
+ * MIN_VARIATIONS_PER_BAND everywhere. Returns [] when no L on either side gets there.
+ */
+export function solveTextColors(
+  palette: Palette,
+  textOnLight: string,
+  textOnDark: string,
+  options: TextColorSolverOptions = {}
+): TextColorProposal[] {
+  const { ribbonMode = 'hsl', minApcaLc = null, steps = DEFAULT_STEP_SCALE, limit = 3 } = options;
+  const before = measureRibbonCoverage(palette, textOnLight, textOnDark, options);
+
+  const light = sideLevels(sideCandidates(textOnLight, 'tint').map((c) => ({
+    ...c, length: shortestRibbon(palette, 'tint', c.hex, textOnDark, ribbonMode, minApcaLc, steps),
+  })));
+  const dark = sideLevels(sideCandidates(textOnDark, 'shade').map((c) => ({
+    ...c, length: shortestRibbon(palette, 'shade', textOnLight, c.hex, ribbonMode, minApcaLc, steps),
+  })));
+
+  // One proposal per reachable coverage: the smallest change on each side that reaches it
+  const targets = [...new Set([...light, ...dark].map((c) => c.length))]
+    .filter((t) => t >= MIN_VARIATIONS_PER_BAND)
+    .sort((a, b) => b - a);
+  const proposals: TextColorProposal[] = [];
+  for (const target of targets) {
+    const l = [...light].reverse().find((c) => c.length >= target);
+    const d = [...dark].reverse().find((c) => c.length >= target);
+    if (!l || !d) continue;
+    if (proposals.some((p) => p.textOnLight === l.hex && p.textOnDark === d.hex)) continue;
+    if (l.delta === 0 && d.delta === 0) continue;
+    proposals.push({
+      textOnLight: l.hex,
+      textOnDark: d.hex,
+      before,
+      after: { tints: l.length, shades: d.length, min: Math.min(l.length, d.length) },
+      lightDelta: l.delta,
+      darkDelta: d.delta,
+    });
+  }
+  if (proposals.length <= limit) return proposals;
+  return [...proposals.slice(0, Math.max(0, limit - 1)), proposals[proposals.length - 1]!].slice(0, limit);
+}
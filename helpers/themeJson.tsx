@@ -1,6 +1,8 @@
-import { PaletteWithVariations } from './types';
+import { PaletteWithVariations, StepName, ColorStates, BorderTokens, ColorType } from './types';
+import { DEFAULT_STEP_SCALE, stepForRole, type StepScale } from './stepScale';
 import { AAA_MIN, LIGHTER_MAX_Y, DARKER_MIN_Y } from './config';
 import { generateThemeVariations } from './generateThemeVariations';
+import { BRAND_FAMILIES, brandFamiliesOf, brandFamilyLabel } from './brandFamilies';
 
 // Calculate relative luminance for a color
 const getLuminance = (hex: string): number => {
@@ -53,9 +55,9 @@ export const validateBaseContrast = (
 //   * base and contrast slugs referencing CSS vars only (for theme compatibility):
 //       base -> var(--base) which maps to var(--text-on-dark) in exported CSS
 //       contrast -> var(--contrast) which maps to var(--text-on-light) in exported CSS
-//   * for primary/secondary/tertiary/accent: lighter, light, dark, darker
+//   * for each brand family, Primary through Accent N (and neutral, when present): every step of the scale (lighter, light, dark, darker by default)
 //   * semantic colors: error, warning (notice), success (light/dark variants)
-type Band = 'lighter' | 'light' | 'dark' | 'darker';
+type Band = StepName;
 type SemanticPerScheme = { light: Band; dark: Band };
 type SemanticBandSelection = { error: SemanticPerScheme; warning: SemanticPerScheme; success: SemanticPerScheme };
 
@@ -63,8 +65,10 @@ export const buildWpVariationJson = (
   palette: PaletteWithVariations,
   title: string,
   themeConfig?: any,
-  opts?: { semanticBandSelection?: SemanticBandSelection; textOnDark?: string; textOnLight?: string }
+  opts?: { semanticBandSelection?: SemanticBandSelection; textOnDark?: string; textOnLight?: string; steps?: StepScale }
 ): string => {
+  const scale = opts?.steps ?? DEFAULT_STEP_SCALE;
+  const roleStep = (role: 'lighter' | 'light' | 'dark' | 'darker') => stepForRole(scale, role);
   const schema = typeof themeConfig?.$schema === 'string' ? themeConfig.$schema : 'https://schemas.wp.org/trunk/theme.json';
   let version: number = 3;
   const v = themeConfig?.version;
@@ -89,13 +93,27 @@ export const buildWpVariationJson = (
     Object.fromEntries(
       arr.map((x) => [((x as any).step || x.name).toLowerCase(), x.hex])
     );
+  const statesByStep = (arr: Array<{ name: string; step?: string; states?: ColorStates }>): Record<string, ColorStates | undefined> =>
+    Object.fromEntries(arr.map((x) => [(x.step || x.name).toLowerCase(), x.states]));
+  // --<slug>-hover / --<slug>-active, used by the :hover/:active rules in the utilities CSS
+  const pushStates = (pieces: string[], slug: string, states: ColorStates | undefined) => {
+    if (!states) return;
+    pieces.push(`--${slug}-hover: ${states.hover}`);
+    pieces.push(`--${slug}-active: ${states.active}`);
+  };
+  // --<family>-border-on-light / -on-dark: 3:1 border and outline colors, used by .border-* and .outline-*
+  const pushBorder = (pieces: string[], slug: string, border: BorderTokens | undefined) => {
+    if (!border) return;
+    pieces.push(`--${slug}-border-on-light: ${border.onLight}`);
+    pieces.push(`--${slug}-border-on-dark: ${border.onDark}`);
+  };
 
   /**
-   * Collect all four variants for a family (lighter, light, dark, darker) as palette entries.
+   * Collect every step of the scale for a family (lighter, light, dark, darker by default) as palette entries.
    * No filtering is applied here; we only marshal already-generated values.
    */
   const collectFamilyVariants = (
-    key: 'primary' | 'secondary' | 'tertiary' | 'accent',
+    key: ColorType,
     label: string,
     labelShort: string
   ) => {
@@ -106,27 +124,23 @@ export const buildWpVariationJson = (
       if (!color) return;
       out.push({ slug, color, name: name || label });
     };
-    add(`${key}-lighter`, map['lighter'], `${labelShort} Lighter`);
-    add(`${key}-light`, map['light'], `${labelShort} Light`);
-    add(`${key}-dark`, map['dark'], `${labelShort} Dark`);
-    add(`${key}-darker`, map['darker'], `${labelShort} Darker`);
+    scale.forEach(({ name, label: stepLabel }) => add(`${key}-${name}`, map[name], `${labelShort} ${stepLabel}`));
     return out;
   };
 
   const paletteEntries: Array<{ slug: string; color: string; name: string }> = [];
-  // Order: lighter(all), light(all), dark(all), darker(all)
-  const familyOrder: Array<'primary' | 'secondary' | 'tertiary' | 'accent'> = ['primary', 'secondary', 'tertiary', 'accent'];
-  const steps: Array<{ step: 'lighter' | 'light' | 'dark' | 'darker'; labelSuffix: string }> = [
-    { step: 'dark', labelSuffix: 'Dark' },
-    { step: 'darker', labelSuffix: 'Darker' },
-    { step: 'light', labelSuffix: 'Light' },
-    { step: 'lighter', labelSuffix: 'Lighter' },
-  ];
+  // Order: shades lightest first (dark, darker), then tints darkest first (light, lighter); each across all families
+  // The neutral family, when the palette has one, follows the brand families
+  const familyOrder: Array<ColorType | 'neutral'> = palette.neutral
+    ? [...brandFamiliesOf(palette), 'neutral']
+    : brandFamiliesOf(palette);
+  const steps: Array<{ step: Band; labelSuffix: string }> = [
+    ...scale.filter((s) => s.tone === 'shade'),
+    ...scale.filter((s) => s.tone === 'tint').reverse(),
+  ].map((s) => ({ step: s.name, labelSuffix: s.label }));
   const labels: Record<string, { full: string; short: string }> = {
-    primary: { full: 'Primary', short: 'P' },
-    secondary: { full: 'Secondary', short: 'S' },
-    tertiary: { full: 'Tertiary', short: 'T' },
-    accent: { full: 'Accent', short: 'A' },
+    ...Object.fromEntries(BRAND_FAMILIES.map((f) => [f.key, { full: f.label, short: f.short }])),
+    neutral: { full: 'Neutral', short: 'N' },
   };
   const maps: Record<string, Record<string, string>> = {};
   familyOrder.forEach((k) => {
@@ -157,9 +171,9 @@ export const buildWpVariationJson = (
     }
     // Fallback: prefer dark for error/success, light for warning, then others, then base hex
     if (ct === 'warning') {
-      return map['light'] ?? map['lighter'] ?? (palette as any)[ct]?.hex ?? map['dark'] ?? map['darker'] ?? (palette as any)[ct]?.hex;
+      return map[roleStep('light')] ?? map[roleStep('lighter')] ?? (palette as any)[ct]?.hex ?? map[roleStep('dark')] ?? map[roleStep('darker')] ?? (palette as any)[ct]?.hex;
     }
-    return map['dark'] ?? map['darker'] ?? map['light'] ?? map['lighter'] ?? (palette as any)[ct]?.hex;
+    return map[roleStep('dark')] ?? map[roleStep('darker')] ?? map[roleStep('light')] ?? map[roleStep('lighter')] ?? (palette as any)[ct]?.hex;
   };
   // Semantics: only export light/dark variants; 'warning' semantic is exported as 'notice'
   // Also expose light/dark variants as separate slugs for semantic colors
@@ -205,8 +219,8 @@ export const buildWpVariationJson = (
   });
 
   const buildOneLineCss = () => {
-    const families: Array<'primary' | 'secondary' | 'tertiary' | 'accent'> = ['primary', 'secondary', 'tertiary', 'accent'];
-    const stepsList: Array<'lighter' | 'light' | 'dark' | 'darker'> = ['lighter', 'light', 'dark', 'darker'];
+    const families = familyOrder;
+    const stepsList: Band[] = scale.map((s) => s.name);
     const tokDark = (opts?.textOnDark && /^#[0-9a-f]{6}$/i.test(opts.textOnDark)) ? opts!.textOnDark! : '#FFFFF0';
     const tokLight = (opts?.textOnLight && /^#[0-9a-f]{6}$/i.test(opts.textOnLight)) ? opts!.textOnLight! : '#1B2227';
     const pieces: string[] = [];
@@ -230,33 +244,40 @@ export const buildWpVariationJson = (
     // Common aliases used by themes/content
     pieces.push(`--base: var(--bg)`);
     pieces.push(`--contrast: var(--fg)`);
-    // family steps
+    // family steps, each followed by its hover/active colors when the engine provided them
     families.forEach((k) => {
-      const vars = ((palette as any)[k]?.variations || []) as { name: string; hex: string; step?: string }[];
+      const vars = ((palette as any)[k]?.variations || []) as Array<{ name: string; hex: string; step?: string; states?: ColorStates }>;
       const map = byName(vars);
+      const states = statesByStep(vars);
       stepsList.forEach((st) => {
         const hex = map[st];
         if (hex) pieces.push(`--${k}-${st}: ${hex}`);
+        pushStates(pieces, `${k}-${st}`, states[st]);
       });
+      pushBorder(pieces, k, (palette as any)[k]?.border);
     });
     // semantics light/dark
     const mkLD = (ct: 'error' | 'warning' | 'success') => {
-      const vars = ((palette as any)[ct]?.variations || []) as { name: string; hex: string; step?: string }[];
+      const vars = ((palette as any)[ct]?.variations || []) as Array<{ name: string; hex: string; step?: string; states?: ColorStates }>;
       const map = byName(vars);
+      const states = statesByStep(vars);
       const sel = opts?.semanticBandSelection?.[ct];
-      const light = sel?.light ? (map[sel.light] ?? undefined) : (map['light'] ?? map['lighter'] ?? undefined);
-      const dark = sel?.dark ? (map[sel.dark] ?? undefined) : (map['dark'] ?? map['darker'] ?? undefined);
-      return { light, dark } as { light?: string; dark?: string };
+      const lightStep = sel?.light ? sel.light : (map[roleStep('light')] ? roleStep('light') : roleStep('lighter'));
+      const darkStep = sel?.dark ? sel.dark : (map[roleStep('dark')] ? roleStep('dark') : roleStep('darker'));
+      return { light: map[lightStep], dark: map[darkStep], lightStates: states[lightStep], darkStates: states[darkStep], border: (palette as any)[ct]?.border as BorderTokens | undefined };
     };
-    const err = mkLD('error');
-    const noti = mkLD('warning');
-    const succ = mkLD('success');
-    if (err.light) pieces.push(`--error-light: ${err.light}`);
-    if (err.dark) pieces.push(`--error-dark: ${err.dark}`);
-    if (noti.light) pieces.push(`--notice-light: ${noti.light}`);
-    if (noti.dark) pieces.push(`--notice-dark: ${noti.dark}`);
-    if (succ.light) pieces.push(`--success-light: ${succ.light}`);
-    if (succ.dark) pieces.push(`--success-dark: ${succ.dark}`);
+    const semantics: Array<[string, ReturnType<typeof mkLD>]> = [['error', mkLD('error')], ['notice', mkLD('warning')], ['success', mkLD('success')]];
+    semantics.forEach(([slug, ld]) => {
+      if (ld.light) {
+        pieces.push(`--${slug}-light: ${ld.light}`);
+        pushStates(pieces, `${slug}-light`, ld.lightStates);
+      }
+      if (ld.dark) {
+        pieces.push(`--${slug}-dark: ${ld.dark}`);
+        pushStates(pieces, `${slug}-dark`, ld.darkStates);
+      }
+      pushBorder(pieces, slug, ld.border);
+    });
     // Note: No fallback semantic single variables (e.g., --error) are emitted here by design.
     // Base/contrast aliases added above map to bg/fg for compatibility.
     const joined = pieces.concat(themeAliasPieces);
@@ -363,12 +384,9 @@ export const generateThemeJson = (palette: PaletteWithVariations): string => {
   const themeVariations = generateThemeVariations(palette);
 
   // Filter base colors that meet contrast requirements
-  const baseColors = [
-    { key: 'primary', color: palette.primary, slug: 'primary', name: 'Primary' },
-    { key: 'secondary', color: palette.secondary, slug: 'secondary', name: 'Secondary' },
-    { key: 'tertiary', color: palette.tertiary, slug: 'tertiary', name: 'Tertiary' },
-    { key: 'accent', color: palette.accent, slug: 'accent', name: 'Accent' },
-  ].filter(({ color }) => meetsContrastRequirements(color.hex));
+  const baseColors = brandFamiliesOf(palette)
+    .map((key) => ({ key, color: palette[key]!, slug: key, name: brandFamilyLabel(key) }))
+    .filter(({ color }) => meetsContrastRequirements(color.hex));
 
   // Create palette entries for base colors and their variations
   const paletteEntries = [];
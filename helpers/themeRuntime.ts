@@ -1,5 +1,7 @@
 /* Runtime theme overrides, AAA verification (single-run), and CSS export helpers */
 
+import { BRAND_FAMILY_KEYS } from './brandFamilies';
+
 export const MIN_POPUP_MS = 10_000; // minimum popup display; adjustable later
 
 // Utility: parse hex to RGB
@@ -117,9 +119,8 @@ export function verifyAAAOnce(): { passed: boolean; failures: Array<{ pair: stri
 // Optional: override tokens at runtime from a palette object
 export type Palette = {
   primary: { hex: string };
-  secondary: { hex: string };
-  tertiary: { hex: string };
-  accent: { hex: string };
+  /** Secondary through Accent 5, when the palette has them */
+  [family: string]: { hex: string } | undefined;
   error: { hex: string };
   success: { hex: string };
   warning?: { hex: string };
@@ -136,11 +137,12 @@ export function applyPaletteToCSSVariables(p: Palette, variations?: {
   textOnDark?: string;
 }) {
   const root = document.documentElement.style;
-  // Core brand
-  root.setProperty('--cf-primary', p.primary.hex);
-  root.setProperty('--cf-secondary', p.secondary.hex);
-  root.setProperty('--cf-tertiary', p.tertiary.hex);
-  root.setProperty('--cf-accent', p.accent.hex);
+  // Core brand; families the palette no longer has drop their variable
+  BRAND_FAMILY_KEYS.forEach((key) => {
+    const hex = p[key]?.hex;
+    if (hex) root.setProperty(`--cf-${key}`, hex);
+    else root.removeProperty(`--cf-${key}`);
+  });
   // Status bases (use app semantics)
   root.setProperty('--cf-error', p.error.hex);
   root.setProperty('--cf-success', p.success.hex);
@@ -158,7 +160,7 @@ export function applyPaletteToCSSVariables(p: Palette, variations?: {
     root.setProperty('--accent-foreground', '#FFFFFF'); // Accent-dark is dark, so use white text
   } else {
     // Fallback to accent base if no variation provided
-    root.setProperty('--accent', p.accent.hex);
+    root.setProperty('--accent', p.accent?.hex ?? p.primary.hex);
     root.setProperty('--accent-foreground', '#FFFFFF');
   }
 
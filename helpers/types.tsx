@@ -1,34 +1,65 @@
-export type ColorType = 'primary' | 'secondary' | 'tertiary' | 'accent';
+// Brand families, in order (see helpers/brandFamilies.ts); a palette has Primary plus any number of the rest
+export type ColorType = 'primary' | 'secondary' | 'tertiary' | 'accent' | 'accent-2' | 'accent-3' | 'accent-4' | 'accent-5';
 export type SemanticColorType = 'error' | 'warning' | 'success';
+// Optional low-chroma gray family derived from the Primary hue (see withNeutral)
+export type NeutralColorType = 'neutral';
+
+// Band identifier: 'lighter' | 'light' | 'dark' | 'darker' by default, or a name from the palette's
+// step scale (see helpers/stepScale.ts), e.g. '50' .. '900'
+export type StepName = string;
+
+/** Interactive-state colors for one swatch, taken from the same AAA ribbon */
+export interface ColorStates {
+  hover: string;
+  active: string;
+}
 
 export interface Color {
   name: string; // Display label (e.g., "Primary Lighter", "lighter")
   hex: string;
-  step?: 'lighter' | 'light' | 'dark' | 'darker'; // Band identifier for filtering/logic
+  step?: StepName; // Band identifier for filtering/logic
+  states?: ColorStates; // Hover/active variants (see addInteractionStates)
 }
 
 export interface Palette {
   primary: Color;
-  secondary: Color;
-  tertiary: Color;
-  accent: Color;
+  secondary?: Color;
+  tertiary?: Color;
+  accent?: Color;
+  'accent-2'?: Color;
+  'accent-3'?: Color;
+  'accent-4'?: Color;
+  'accent-5'?: Color;
   error: Color;
   warning: Color;
   success: Color;
+  neutral?: Color;
+}
+
+/** Border/outline colors for one family with 3:1 non-text contrast (WCAG 1.4.11) */
+export interface BorderTokens {
+  onLight: string; // Against the light surface (text-on-dark) and the family's light band
+  onDark: string; // Against the dark surface (text-on-light) and the family's dark band
 }
 
 export interface ColorWithVariations extends Color {
   variations: Color[];
+  border?: BorderTokens; // See addBorderTokens
 }
 
 export interface PaletteWithVariations {
   primary: ColorWithVariations;
-  secondary: ColorWithVariations;
-  tertiary: ColorWithVariations;
-  accent: ColorWithVariations;
+  secondary?: ColorWithVariations;
+  tertiary?: ColorWithVariations;
+  accent?: ColorWithVariations;
+  'accent-2'?: ColorWithVariations;
+  'accent-3'?: ColorWithVariations;
+  'accent-4'?: ColorWithVariations;
+  'accent-5'?: ColorWithVariations;
   error: ColorWithVariations;
   warning: ColorWithVariations;
   success: ColorWithVariations;
+  neutral?: ColorWithVariations;
 }
 
 // Foreground tone used to render a swatch in the strip/UI
@@ -36,8 +67,8 @@ export type TextTone = 'light' | 'dark';
 
 // Exact swatch metrics captured at click-time to ensure Palette/Export match Adjust exactly
 export interface SwatchPick {
-  colorKey: ColorType | SemanticColorType;
-  step: 'lighter' | 'light' | 'dark' | 'darker';
+  colorKey: ColorType | SemanticColorType | NeutralColorType;
+  step: StepName;
 
   // Identity of which item in the currently displayed strip was picked
   indexDisplayed: number;
@@ -52,3 +83,10 @@ export interface SwatchPick {
   contrastVsTextOnDark: number;  // ratio vs text-on-dark
   textToneUsed: TextTone;        // which tone was used to render the swatch in the strip
 }
+
+// How ribbon tints/shades are solved for a target WCAG luminance:
+// 'hsl' holds HSL hue/saturation; 'oklch' holds OKLCH hue and scales chroma to stay in sRGB gamut
+export type RibbonMode = 'hsl' | 'oklch';
+
+// Color-vision-deficiency simulation applied to previews ('none' = normal vision)
+export type CvdMode = 'none' | 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
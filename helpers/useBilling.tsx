@@ -0,0 +1,26 @@
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { createCheckoutSession, createPortalLink, ApiError, CheckoutMode } from "./accountApi";
+
+const redirectTo = (url: string) => {
+  window.location.assign(url);
+};
+
+const billingErrorMessage = (error: ApiError) =>
+  error.status === 401 ? "Please sign in to manage your plan." : error.message;
+
+/** Start Stripe Checkout for a Pro subscription ('subscription') or an export pack ('payment') */
+export const useCheckout = () =>
+  useMutation<string, ApiError, { mode: CheckoutMode; quantity?: number }>({
+    mutationFn: createCheckoutSession,
+    onSuccess: redirectTo,
+    onError: (error) => toast.error(`Checkout failed: ${billingErrorMessage(error)}`),
+  });
+
+/** Open the Stripe billing portal for the signed-in customer */
+export const usePortalLink = () =>
+  useMutation<string, ApiError, void>({
+    mutationFn: createPortalLink,
+    onSuccess: redirectTo,
+    onError: (error) => toast.error(`Billing portal failed: ${billingErrorMessage(error)}`),
+  });
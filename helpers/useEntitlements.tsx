@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchEntitlements, EntitlementsResponse, ApiError } from "./accountApi";
+
+export const ENTITLEMENTS_QUERY_KEY = ["entitlements"] as const;
+
+/**
+ * Current user's plan and export credits.
+ * Only a 401 (or a 404 from a host with no account API, e.g. the plain Vite dev server) means
+ * "not signed in" (`signedOut`), so exports are built in the browser. Any other failure
+ * (a 5xx, a network error) sets `accountUnavailable`: credits are unknown and exports wait for a retry.
+ */
+export const useEntitlements = () => {
+  const query = useQuery<EntitlementsResponse, ApiError>({
+    queryKey: ENTITLEMENTS_QUERY_KEY,
+    queryFn: fetchEntitlements,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+  const status = query.error instanceof ApiError ? query.error.status : undefined;
+  const signedOut = query.isError && (status === 401 || status === 404);
+  return { ...query, signedIn: query.isSuccess, signedOut, accountUnavailable: query.isError && !signedOut };
+};
@@ -20,12 +20,15 @@ import { ColorDisplay } from '../components/ColorDisplay';
 import { PreviewSection } from '../components/PreviewSection';
 import LightDarkPreview from '../components/LightDarkPreview';
 import { generateThemeJson } from '../helpers/themeJson';
-import { generateCssClasses, generateFilenameSuffix } from '../helpers/cssGenerator';
-import { Palette, ColorType, SemanticColorType, PaletteWithVariations, SwatchPick, Color } from '../helpers/types';
-import { generateShades, hexToRgb, rgbToHslNorm, hslNormToRgb, rgbToHex, solveHslLightnessForY, getContrastRatio, matchBandFromPrimaryByS, luminance } from '../helpers/colorUtils';
+import { generateFilenameSuffix } from '../helpers/cssGenerator';
+import { Palette, ColorType, SemanticColorType, PaletteWithVariations, SwatchPick, RibbonMode, CvdMode, StepName } from '../helpers/types';
+import { generateShades, hexToRgb, rgbToHslNorm, hslNormToRgb, rgbToHex, solveLightnessForY, getContrastRatio, matchBandFromPrimaryByS, luminance } from '../helpers/colorUtils';
 import { NEAR_BLACK_RGB, TINT_TARGET_COUNT, LIGHTER_MIN_Y, LIGHTER_MAX_Y, LIGHT_MIN_Y_BASE, LIGHT_MAX_Y_CAP, MIN_DELTA_LUM_TINTS, Y_TARGET_DECIMALS, AAA_MIN, MAX_CONTRAST_TINTS, RECOMMENDED_TINT_Y_GAP, TARGET_LUM_DARK, CLOSE_ENOUGH_TO_WHITE_MIN_LUM, CLOSE_ENOUGH_TO_BLACK_MAX_LUM } from '../helpers/config';
 import { LuminanceTestStrips } from '../components/LuminanceTestStrips';
-import { generateRibbonForBand, validateRibbons, type RibbonColor } from '../helpers/generateRibbons';
+import { validateRibbons } from '../helpers/generateRibbons';
+import { buildRibbons, buildPaletteWithVariationsBase, applyExactSelections, buildExactSelectionsFromSelections, buildExportFiles, zipExportFiles, DEFAULT_STARTING_PALETTE, normalizeSemanticBandSelection, semanticBandDefaultsFor, addInteractionStates, addBorderTokens, withNeutral, normalizeBandSelections, paletteFamiliesOf, countExportVariations, MAX_EXPORT_VARIATIONS, EXTRA_EXPORT_FORMATS, EXTRA_EXPORT_FORMAT_INFO, type ExactSelections, type BandSelections, type PaletteFamily, type ExportVariationMode, type ExtraExportFormat } from '../helpers/paletteEngine';
+import { DEFAULT_STEP_SCALE, STEP_SCALE_PRESETS, formatStepScale, isDefaultStepScale, parseStepScale, stepTone, validateStepScale, type StepScale } from '../helpers/stepScale';
+import { BRAND_FAMILIES, BRAND_FAMILY_KEYS, DEFAULT_BRAND_FAMILY_COUNT, MIN_BRAND_FAMILIES, MAX_BRAND_FAMILIES, brandFamiliesOf, brandFamily, withBrandFamilyCount, withBrandHexes, allBrandHexes, brandHexesOf, isBrandFamily } from '../helpers/brandFamilies';
 import IndexPage from './_index';
 
 // Validate SwatchPick before storing/using it (module scope)
@@ -37,8 +40,8 @@ function isFiniteInRange(n: unknown, min: number, max: number) {
 }
 function isValidSwatchPick(p: any): p is SwatchPick {
   if (!p || typeof p !== 'object') return false;
-  if (!['primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'].includes(p.colorKey)) return false;
-  if (!['lighter', 'light', 'dark', 'darker'].includes(p.step)) return false;
+  if (![...BRAND_FAMILY_KEYS, 'error', 'warning', 'success', 'neutral'].includes(p.colorKey)) return false;
+  if (typeof p.step !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(p.step)) return false;
   if (!Number.isInteger(p.indexDisplayed) || p.indexDisplayed < 0) return false;
   if (!isValidHex(p.hex)) return false;
   if (!p.hsl || typeof p.hsl !== 'object') return false;
@@ -86,7 +89,7 @@ function scrollAdjustTo(targetId: string) {
   setTimeout(doScroll, tick);
 }
 
-type ManualColorKeys = 'themeName' | 'textOnDark' | 'textOnLight' | 'primary' | 'secondary' | 'tertiary' | 'accent' | 'error' | 'warning' | 'success';
+type ManualColorKeys = 'themeName' | 'textOnDark' | 'textOnLight' | ColorType | 'error' | 'warning' | 'success';
 type PaletteRoleKeys = Exclude<ManualColorKeys, 'themeName'>;
 
 function clamp01(x: number) {
@@ -295,13 +298,17 @@ function extractColorHexesFromText(text: string): string[] {
 }
 
 import { useGeneratePalette } from '../helpers/useGeneratePalette';
-import { generateAnalogousComplementaryPalette } from '../helpers/colorHarmony';
-import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { useEntitlements, ENTITLEMENTS_QUERY_KEY } from '../helpers/useEntitlements';
+import { AccountPanel, AccountUnavailableNotice, ExportCreditsBar } from '../components/AccountPanel';
+import { postExport } from '../helpers/exportRequest';
+import { parseWpwmPaletteV1, WPWM_PALETTE_V1_FORMAT, type PaletteDocument } from '../helpers/paletteFormat';
+import { ApiError } from '../helpers/accountApi';
+import { useQueryClient } from '@tanstack/react-query';
+import { generateAnalogousComplementaryPalette, generateSeededPalette, newPaletteSeed } from '../helpers/colorHarmony';
+import { AlertTriangle, RefreshCw, Lock, LockOpen, Shuffle } from 'lucide-react';
 import { toast } from 'sonner';
 import styles from './generator.module.css';
-import { zipSync, strToU8 } from 'fflate';
-import { generateSemanticColors } from '../helpers/generateSemanticColors';
-import { buildWpVariationJson, validateBaseContrast } from '../helpers/themeJson';
+import { validateBaseContrast } from '../helpers/themeJson';
 import AZLogo from '../AZ-WP-Website-Consulting-LLC.svg';
 import ThemeVariationDisplayScreenshot from '../assets/images/theme-variation-display-3-permutations.png';
 import ColorPaletteGeneratorLightDemo from '../assets/images/color-palette-generator-light-dark-demo-light.png';
@@ -313,6 +320,12 @@ import { applyPaletteToCSSVariables, exportCoreFrameworkCSSFromCurrent, chooseFo
 
 import includeEditorChromeStylesPhp from '../inc/fse-editor-chrome-styles.php?raw';
 import { RadioGroup, RadioGroupItem } from '../components/RadioGroup';
+import { Checkbox } from '../components/Checkbox';
+import { HarmonyPicker } from '../components/HarmonyPicker';
+import { PaletteCritique } from '../components/PaletteCritique';
+import { critiquePalette } from '../helpers/paletteCritique';
+import { TextColorSolver } from '../components/TextColorSolver';
+import { solveTextColors, type TextColorProposal } from '../helpers/textColorSolver';
 
 // Resolve a hex color for a given color key and variation step for the Demo tab.
 // Falls back to the base hex when the requested step isn't present.
@@ -363,37 +376,63 @@ const manualFormSchema = z.object({
   secondary: z.string().regex(/^#[0-9a-f]{6}$/i, 'Invalid hex color'),
   tertiary: z.string().regex(/^#[0-9a-f]{6}$/i, 'Invalid hex color'),
   accent: z.string().regex(/^#[0-9a-f]{6}$/i, 'Invalid hex color'),
+  // Extra brand families; kept while hidden so raising the family count restores them
+  'accent-2': z.string().regex(/^#[0-9a-f]{6}$/i, 'Invalid hex color').optional(),
+  'accent-3': z.string().regex(/^#[0-9a-f]{6}$/i, 'Invalid hex color').optional(),
+  'accent-4': z.string().regex(/^#[0-9a-f]{6}$/i, 'Invalid hex color').optional(),
+  'accent-5': z.string().regex(/^#[0-9a-f]{6}$/i, 'Invalid hex color').optional(),
   error: z.string().regex(/^#[0-9a-f]{6}$/i, 'Invalid hex color').optional(),
   warning: z.string().regex(/^#[0-9a-f]{6}$/i, 'Invalid hex color').optional(),
   success: z.string().regex(/^#[0-9a-f]{6}$/i, 'Invalid hex color').optional(),
   fontFamilies: z.array(z.string().min(1)).optional().default([]),
 });
 
-const initialPalette: Palette = {
-  primary: { name: 'Primary', hex: '#2563eb' },
-  secondary: { name: 'Secondary', hex: '#4f46e5' },
-  tertiary: { name: 'Tertiary', hex: '#059669' },
-  accent: { name: 'Accent', hex: '#db2777' },
-  error: { name: 'Error', hex: '#c53030' },
-  warning: { name: 'Notice', hex: '#fff700' },
-  success: { name: 'Success', hex: '#38a169' },
-};
+const initialPalette = DEFAULT_STARTING_PALETTE;
 
 const GeneratorPage = () => {
+  // Number of brand families (Primary, Secondary, ... Accent 5) shown and exported
+  const [brandCount, setBrandCount] = useState<number>(() => {
+    try {
+      const n = Number(localStorage.getItem('gl_brand_family_count'));
+      return n >= MIN_BRAND_FAMILIES && n <= MAX_BRAND_FAMILIES ? n : DEFAULT_BRAND_FAMILY_COUNT;
+    } catch { return DEFAULT_BRAND_FAMILY_COUNT; }
+  });
+  useEffect(() => {
+    try {
+      if (brandCount === DEFAULT_BRAND_FAMILY_COUNT) localStorage.removeItem('gl_brand_family_count');
+      else localStorage.setItem('gl_brand_family_count', String(brandCount));
+    } catch { }
+  }, [brandCount]);
+  // Seed of the generated brand colors (empty when entered by hand) and the families kept when regenerating
+  const [paletteSeed, setPaletteSeed] = useState<string>(() => {
+    try { return localStorage.getItem('gl_palette_seed') || ''; } catch { return ''; }
+  });
+  const [lockedFamilies, setLockedFamilies] = useState<ColorType[]>(() => {
+    try {
+      const parsed = JSON.parse(localStorage.getItem('gl_locked_families') || '[]');
+      return Array.isArray(parsed) ? parsed.filter(isBrandFamily) : [];
+    } catch { return []; }
+  });
+  const [seedDraft, setSeedDraft] = useState<string>(paletteSeed);
+  useEffect(() => {
+    setSeedDraft(paletteSeed);
+    try {
+      if (paletteSeed) localStorage.setItem('gl_palette_seed', paletteSeed);
+      else localStorage.removeItem('gl_palette_seed');
+    } catch { }
+  }, [paletteSeed]);
+  useEffect(() => {
+    try {
+      if (lockedFamilies.length) localStorage.setItem('gl_locked_families', JSON.stringify(lockedFamilies));
+      else localStorage.removeItem('gl_locked_families');
+    } catch { }
+  }, [lockedFamilies]);
   const [palette, setPalette] = useState<Palette>(() => {
-    // Ensure palette is always fully initialized with all 7 colors
-    return { ...initialPalette };
+    // Brand families for the chosen count, plus the three semantic colors
+    return withBrandFamilyCount({ ...initialPalette }, brandCount);
   });
-  const [selections, setSelections] = useState<
-    Partial<Record<ColorType | SemanticColorType, {
-      lighterIndex?: number;
-      lightIndex?: number;
-      lighterY?: number;  // Target Y for lighter band (tints)
-      lightY?: number;    // Target Y for light band (tints)
-      darkerY?: number;
-      darkY?: number
-    }>>
-  >(() => {
+  // Per step: tints keep a ribbon index plus target Y, shades a target Y
+  const [selections, setSelections] = useState<BandSelections>(() => {
     // Initialize empty - let Adjust tab's RowTints/RowShades components set defaults
     // (They pick middle for first band, gap-respecting for second band)
     return {};
@@ -401,23 +440,21 @@ const GeneratorPage = () => {
   // Exact picks captured from Adjust (used to override Palette/Export)
   // Type matches spec: Partial<Record<ColorType|SemanticColorType, { lighter?: SwatchPick; light?: SwatchPick; dark?: SwatchPick; darker?: SwatchPick }>>
   // Invariant [I1]: After initialization, every color key and band should have an exact selection
-  const [exactSelections, setExactSelections] = useState<
-    Partial<Record<ColorType | SemanticColorType, { lighter?: SwatchPick; light?: SwatchPick; dark?: SwatchPick; darker?: SwatchPick }>>
-  >(() => {
+  const [exactSelections, setExactSelections] = useState<ExactSelections>(() => {
     // Initialize from localStorage so Palette overrides apply on first render
     try {
       const raw = localStorage.getItem('gl_palette_exact_selections');
       if (!raw) return {};
       const parsed = JSON.parse(raw);
       if (!parsed || typeof parsed !== 'object') return {};
-      const cleaned: Partial<Record<ColorType | SemanticColorType, { lighter?: SwatchPick; light?: SwatchPick; dark?: SwatchPick; darker?: SwatchPick }>> = {};
-      (['primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'] as const).forEach((k) => {
+      const cleaned: ExactSelections = {};
+      ([...BRAND_FAMILY_KEYS, 'error', 'warning', 'success', 'neutral'] as const).forEach((k) => {
         const bands = (parsed as any)[k];
         if (!bands || typeof bands !== 'object') return;
         const out: any = {};
-        (['lighter', 'light', 'dark', 'darker'] as const).forEach((step) => {
+        Object.keys(bands).forEach((step) => {
           const pick = (bands as any)[step];
-          if (isValidSwatchPick(pick)) out[step] = pick;
+          if (isValidSwatchPick(pick) && pick.step === step) out[step] = pick;
         });
         if (Object.keys(out).length) (cleaned as any)[k] = out;
       });
@@ -425,14 +462,24 @@ const GeneratorPage = () => {
     } catch { return {}; }
   });
   const generatePaletteMutation = useGeneratePalette();
-  const [activeTab, setActiveTab] = useState<'instructions' | 'ai' | 'manual' | 'palette' | 'adjust' | 'export' | 'demo' | 'landing'>('instructions');
+  const queryClient = useQueryClient();
+  const { signedIn, signedOut, accountUnavailable, data: entitlements, refetch: refetchEntitlements, isFetching: checkingEntitlements } = useEntitlements();
+  // Exports wait until we know whether credits apply: signed in (metered) or signed out (in the browser)
+  const accountPending = !signedIn && !signedOut;
+  const outOfCredits = signedIn && entitlements != null && entitlements.credits !== null && entitlements.credits <= 0;
+  const [activeTab, setActiveTab] = useState<'instructions' | 'ai' | 'manual' | 'palette' | 'adjust' | 'export' | 'demo' | 'landing' | 'account'>('instructions');
   const [savedManualJson, setSavedManualJson] = useState<string>('');
   const [demoScheme, setDemoScheme] = useState<'auto' | 'light' | 'dark'>('auto');
+  // Color-vision simulation shared by the Palette and Demo tabs (view-only, not saved)
+  const [cvdMode, setCvdMode] = useState<CvdMode>('none');
   const [themeName, setThemeName] = useState<string>('');
-  // Export variation mode: 6 (rotate P/S/T; Accent fixed) or 24 (rotate P/S/T/Accent)
-  const [exportVariationMode, setExportVariationMode] = useState<'6' | '24'>('6');
+  // Export variation mode: rotate every brand family but Accent, rotate all, or rotate the chosen ones
+  const [exportVariationMode, setExportVariationMode] = useState<ExportVariationMode>('accent-fixed');
+  const [exportRotate, setExportRotate] = useState<ColorType[]>(['primary', 'secondary']);
+  // Optional files added to the export ZIP (e.g. DTCG design tokens)
+  const [exportFormats, setExportFormats] = useState<ExtraExportFormat[]>([]);
   // Per-scheme selection of which band to export/use for semantic colors
-  type Band = 'lighter' | 'light' | 'dark' | 'darker';
+  type Band = string;
   type SemanticPerScheme = { light: Band; dark: Band };
   type SemanticBandSelection = { error: SemanticPerScheme; warning: SemanticPerScheme; success: SemanticPerScheme };
   const SEMANTIC_BAND_DEFAULTS: SemanticBandSelection = {
@@ -467,6 +514,18 @@ const GeneratorPage = () => {
     warnings?: string[];
     error?: string;
   } | null>(null);
+  // Stripe Checkout/portal return to /success or /account: open the Account tab and refresh credits
+  useEffect(() => {
+    try {
+      const path = window.location.pathname.replace(/\/+$/, '');
+      if (path !== '/account' && path !== '/success') return;
+      setActiveTab('account');
+      if (path === '/success' && new URLSearchParams(window.location.search).has('session_id')) {
+        toast.success('Payment received. Your plan and credits update as soon as Stripe confirms it.');
+      }
+      queryClient.invalidateQueries({ queryKey: ENTITLEMENTS_QUERY_KEY });
+    } catch { }
+  }, [queryClient]);
   // Hydrate imported theme.json and import details
   useEffect(() => {
     try {
@@ -541,51 +600,82 @@ const GeneratorPage = () => {
   // Defaults per request
   const [textOnDark, setTextOnDark] = useState<string>('#F8F7F7');
   const [textOnLight, setTextOnLight] = useState<string>('#453521');
+  // Ribbon solver for this palette: HSL-locked (classic) or OKLCH hue-locked ladders
+  const [ribbonMode, setRibbonMode] = useState<RibbonMode>(() => {
+    try { return localStorage.getItem('gl_ribbon_mode') === 'oklch' ? 'oklch' : 'hsl'; } catch { return 'hsl'; }
+  });
+  useEffect(() => {
+    try { localStorage.setItem('gl_ribbon_mode', ribbonMode); } catch { }
+  }, [ribbonMode]);
+  // Optional APCA filter: ribbon colors must also reach this |Lc| against the text tokens (null = off)
+  const [minApcaLc, setMinApcaLc] = useState<number | null>(() => {
+    try {
+      const n = Number(localStorage.getItem('gl_apca_min_lc'));
+      return Number.isFinite(n) && n > 0 ? n : null;
+    } catch { return null; }
+  });
+  useEffect(() => {
+    try {
+      if (minApcaLc == null) localStorage.removeItem('gl_apca_min_lc');
+      else localStorage.setItem('gl_apca_min_lc', String(minApcaLc));
+    } catch { }
+  }, [minApcaLc]);
+  // Optional neutral (gray) family, derived from Primary's hue
+  const [includeNeutral, setIncludeNeutral] = useState<boolean>(() => {
+    try { return localStorage.getItem('gl_include_neutral') === '1'; } catch { return false; }
+  });
+  useEffect(() => {
+    try {
+      if (includeNeutral) localStorage.setItem('gl_include_neutral', '1');
+      else localStorage.removeItem('gl_include_neutral');
+    } catch { }
+  }, [includeNeutral]);
+  // Tint/shade steps per family (lighter/light/dark/darker unless a preset or custom list is chosen)
+  const [stepScale, setStepScale] = useState<StepScale>(() => {
+    try {
+      const parsed = JSON.parse(localStorage.getItem('gl_step_scale') || 'null');
+      if (Array.isArray(parsed) && !validateStepScale(parsed)) return parsed as StepScale;
+    } catch { }
+    return DEFAULT_STEP_SCALE;
+  });
+  const [stepScaleText, setStepScaleText] = useState<string>(() => formatStepScale(stepScale));
+  const [stepScaleError, setStepScaleError] = useState<string | null>(null);
+  useEffect(() => {
+    try {
+      if (isDefaultStepScale(stepScale)) localStorage.removeItem('gl_step_scale');
+      else localStorage.setItem('gl_step_scale', JSON.stringify(stepScale));
+    } catch { }
+    setStepScaleText(formatStepScale(stepScale));
+    setSemanticBandSelection((prev) => normalizeSemanticBandSelection(prev, stepScale));
+  }, [stepScale]);
+  const stepScalePreset = (Object.keys(STEP_SCALE_PRESETS) as Array<keyof typeof STEP_SCALE_PRESETS>)
+    .find((k) => formatStepScale(STEP_SCALE_PRESETS[k].steps) === formatStepScale(stepScale)) ?? 'custom';
+  // Export preview lists shades lightest-first, then tints darkest-first (same as theme.json)
+  const exportStepOrder = useMemo(() => [
+    ...stepScale.filter((s) => s.tone === 'shade').map((s) => s.name),
+    ...stepScale.filter((s) => s.tone === 'tint').map((s) => s.name).reverse(),
+  ], [stepScale]);
 
   // Track previous values for Stage 3 trigger logging
   // Initialize to undefined so first run is detected as "Initial load"
   const prevTextOnLightRef = useRef<string | undefined>(undefined);
   const prevTextOnDarkRef = useRef<string | undefined>(undefined);
-  const prevPrimaryHexRef = useRef<string | undefined>(undefined);
-  const prevSecondaryHexRef = useRef<string | undefined>(undefined);
-  const prevTertiaryHexRef = useRef<string | undefined>(undefined);
-  const prevAccentHexRef = useRef<string | undefined>(undefined);
+  const prevBrandHexRef = useRef<Partial<Record<ColorType, string>>>({});
   const prevErrorHexRef = useRef<string | undefined>(undefined);
   const prevWarningHexRef = useRef<string | undefined>(undefined);
   const prevSuccessHexRef = useRef<string | undefined>(undefined);
+  const prevNeutralHexRef = useRef<string | undefined>(undefined);
+  const prevStepScaleRef = useRef<string | undefined>(undefined);
   const lastShownValidationErrorRef = useRef<string>('');
 
+  // Starting colors for the engine: the seven entered colors, plus the derived neutral when enabled
+  const enginePalette = useMemo<Palette>(() => (includeNeutral ? withNeutral(palette) : palette), [palette, includeNeutral]);
+
   // Generate ribbons ONCE - this is the single source of truth for color variations
   const ribbons = useMemo(() => {
-    console.log('[Ribbons] Generating ribbons from palette:', palette);
-    const families = ['primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'] as const;
-    const result: Record<string, Record<string, RibbonColor[]>> = {};
-
-    families.forEach(colorKey => {
-      const color = palette[colorKey];
-      if (!color || !color.hex) {
-        // Skip if color not initialized yet
-        console.error(`[Ribbons] ERROR: ${colorKey} is undefined or missing hex!`, { color, palette });
-        result[colorKey] = {
-          lighter: [],
-          light: [],
-          dark: [],
-          darker: [],
-        };
-        return;
-      }
-
-      const baseHex = color.hex;
-      result[colorKey] = {
-        lighter: generateRibbonForBand(baseHex, 'lighter', textOnLight, textOnDark),
-        light: generateRibbonForBand(baseHex, 'light', textOnLight, textOnDark),
-        dark: generateRibbonForBand(baseHex, 'dark', textOnLight, textOnDark),
-        darker: generateRibbonForBand(baseHex, 'darker', textOnLight, textOnDark),
-      };
-    });
-
-    return result;
-  }, [palette, textOnLight, textOnDark]);
+    console.log('[Ribbons] Generating ribbons from palette:', enginePalette);
+    return buildRibbons(enginePalette, textOnLight, textOnDark, ribbonMode, minApcaLc, stepScale);
+  }, [enginePalette, textOnLight, textOnDark, ribbonMode, minApcaLc, stepScale]);
 
   // Validate ribbons and memoize result - only recalculates when ribbons change
   const ribbonValidation = useMemo(() => {
@@ -597,6 +687,25 @@ const GeneratorPage = () => {
     return validation;
   }, [ribbons]);
 
+  // Text color pairs that fix the ribbons; the search takes a couple of seconds, so it only runs when asked
+  const [textColorProposals, setTextColorProposals] = useState<TextColorProposal[] | null>(null);
+  const [solvingTextColors, setSolvingTextColors] = useState(false);
+  useEffect(() => {
+    setTextColorProposals(null);
+  }, [enginePalette, textOnLight, textOnDark, ribbonMode, minApcaLc, stepScale]);
+
+  const handleSuggestTextColors = useCallback(() => {
+    setSolvingTextColors(true);
+    // Yield a frame so the button shows its busy state before the solver blocks
+    setTimeout(() => {
+      try {
+        setTextColorProposals(solveTextColors(enginePalette, textOnLight, textOnDark, { ribbonMode, minApcaLc, steps: stepScale }));
+      } finally {
+        setSolvingTextColors(false);
+      }
+    }, 0);
+  }, [enginePalette, textOnLight, textOnDark, ribbonMode, minApcaLc, stepScale]);
+
   // Show toast errors if text colors are invalid (only once per unique error)
   useEffect(() => {
     if (!ribbonValidation.valid) {
@@ -617,105 +726,23 @@ const GeneratorPage = () => {
   }, [ribbonValidation, showDiagnostics, activeTab, textOnLight, textOnDark]);
 
   // Build base variations from ribbons (single source of truth)
-  const paletteWithVariationsBase = useMemo<PaletteWithVariations>(() => {
-    try {
-      // Apply semantic defaults to ensure error/warning/success exist with valid hexes
-      const withSem = generateSemanticColors(palette as any) as any;
-
-      // Band definitions (defined once, not per color)
-      const BANDS: Array<{ step: 'lighter' | 'light' | 'dark' | 'darker'; label: string }> = [
-        { step: 'lighter', label: 'Lighter' },
-        { step: 'light', label: 'Light' },
-        { step: 'dark', label: 'Dark' },
-        { step: 'darker', label: 'Darker' },
-      ];
-
-      // Convert ribbons to variations format
-      const build = (key: keyof PaletteWithVariations) => {
-        const entry = withSem[key] as { name: string; hex: string };
-        const colorRibbons = ribbons[key];
-        const userSelections = (exactSelections as any)?.[key];
-
-        // Convert RibbonColor[] to Color[] format
-        const variations: Color[] = [];
-
-        if (colorRibbons) {
-          BANDS.forEach(({ step, label }) => {
-            const ribbonColors = colorRibbons[step];
-            if (!ribbonColors || ribbonColors.length === 0) return;
-
-            // Use the user's exact selection if available
-            const userPick = userSelections?.[step];
-            let selectedHex: string;
-
-            if (userPick?.hex) {
-              // User has made a selection - use it directly
-              selectedHex = userPick.hex;
-            } else {
-              // No user selection - default to last (darkest) ribbon
-              const lastRibbon = ribbonColors[ribbonColors.length - 1];
-              selectedHex = lastRibbon ? lastRibbon.hex : '#000000';
-            }
-
-            variations.push({
-              name: `${entry.name} ${label}`,
-              hex: selectedHex,
-              step: step,
-            });
-          });
-        }
-
-        return { ...entry, variations };
-      };
-
-      return {
-        primary: build('primary'),
-        secondary: build('secondary'),
-        tertiary: build('tertiary'),
-        accent: build('accent'),
-        error: build('error'),
-        warning: build('warning'),
-        success: build('success'),
-      };
-    } catch (err) {
-      console.error('[paletteWithVariationsBase] Error building from ribbons:', err);
-      // Safe fallback: mirror current palette with empty variations to avoid crashes
-      const fb: any = {};
-      (['primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'] as const).forEach((k) => {
-        fb[k] = { ...(palette as any)[k], variations: [] };
-      });
-      return fb as PaletteWithVariations;
-    }
-  }, [palette, ribbons, exactSelections]);
-
-  // Build variations with exactSelections overrides applied (for display in Palette tab)
-  const paletteWithVariations = useMemo<PaletteWithVariations>(() => {
-    try {
-      // Start with base variations
-      const out: PaletteWithVariations = JSON.parse(JSON.stringify(paletteWithVariationsBase));
+  const paletteWithVariationsBase = useMemo<PaletteWithVariations>(
+    () => buildPaletteWithVariationsBase(enginePalette, ribbons, exactSelections, stepScale),
+    [enginePalette, ribbons, exactSelections, stepScale]
+  );
 
-      // Override any generated band hexes with exact user picks
-      const applyExact = (key: keyof PaletteWithVariations) => {
-        const picks = (exactSelections as any)?.[key];
-        if (!picks) return;
-        const arr: any[] = Array.isArray((out as any)[key]?.variations) ? (out as any)[key].variations : [];
-        const setHex = (step: 'lighter' | 'light' | 'dark' | 'darker', hex?: string) => {
-          if (!hex) return;
-          const v = arr.find((x) => x && x.step === step);
-          if (v) v.hex = hex;
-        };
-        setHex('lighter', picks.lighter?.hex);
-        setHex('light', picks.light?.hex);
-        setHex('dark', picks.dark?.hex);
-        setHex('darker', picks.darker?.hex);
-      };
-      (['primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'] as (keyof PaletteWithVariations)[])
-        .forEach(applyExact);
-      return out;
-    } catch {
-      return paletteWithVariationsBase;
-    }
-  }, [paletteWithVariationsBase, exactSelections]);
+  // Build variations with exactSelections overrides applied (for display in Palette tab),
+  // plus the hover/active colors the exports emit for each band and each family's 3:1 border colors
+  const paletteWithVariations = useMemo<PaletteWithVariations>(
+    () => addBorderTokens(
+      addInteractionStates(applyExactSelections(paletteWithVariationsBase, exactSelections, stepScale), ribbons, stepScale),
+      textOnLight,
+      textOnDark,
+      stepScale,
+      ribbonMode
+    ),
+    [paletteWithVariationsBase, exactSelections, ribbons, stepScale, textOnLight, textOnDark, ribbonMode]
+  );
 
   // ============================================================================
   // Stage 3: Reselection Architecture - Helper Functions
@@ -723,8 +750,8 @@ const GeneratorPage = () => {
 
   // Resolve target Y for reselection using spec priority rules
   const resolveTargetY = useCallback((
-    k: ColorType | SemanticColorType,
-    band: 'lighter' | 'light' | 'dark' | 'darker'
+    k: PaletteFamily,
+    band: StepName
   ): { y: number; source: string; hex?: string } | undefined => {
     try {
       // Priority 1: Use exactSelections[k][band].y if present
@@ -741,11 +768,10 @@ const GeneratorPage = () => {
         return { y: luminance(r, g, b), source: 'exactSelections.hex', hex: exactHex };
       }
 
-      // Priority 3: Use selections[k].<bandY> (for backwards compatibility)
-      const bandYKey = `${band}Y` as 'lighterY' | 'lightY' | 'darkY' | 'darkerY';
-      const selY = (selections as any)?.[k]?.[bandYKey];
+      // Priority 3: Use selections[k][band].y (for backwards compatibility)
+      const selY = selections[k]?.[band]?.y;
       if (typeof selY === 'number' && Number.isFinite(selY)) {
-        return { y: selY, source: 'selections.bandY' };
+        return { y: selY, source: 'selections.y' };
       }
 
       return undefined; // No target Y available
@@ -757,8 +783,8 @@ const GeneratorPage = () => {
   // Read band candidates from paletteWithVariationsBase (without exactSelections overrides)
   // Note: Not using useCallback to avoid stale closures - effect will read fresh paletteWithVariationsBase
   const readBandCandidates = (
-    k: ColorType | SemanticColorType,
-    band: 'lighter' | 'light' | 'dark' | 'darker'
+    k: PaletteFamily,
+    band: StepName
   ): Array<{ hex: string; step: string }> => {
     try {
       const entry = (paletteWithVariationsBase as any)?.[k];
@@ -771,8 +797,8 @@ const GeneratorPage = () => {
 
   // Adopt closest slot by Y distance
   const adoptClosestSlot = useCallback((
-    k: ColorType | SemanticColorType,
-    band: 'lighter' | 'light' | 'dark' | 'darker',
+    k: PaletteFamily,
+    band: StepName,
     targetY: number
   ): { index: number; pick: SwatchPick } | undefined => {
     try {
@@ -801,7 +827,7 @@ const GeneratorPage = () => {
       const y = luminance(r, g, b);
       const cLight = getContrastRatio({ r, g, b }, hexToRgb(textOnLight));
       const cDark = getContrastRatio({ r, g, b }, hexToRgb(textOnDark));
-      const preferWhite = (band === 'dark' || band === 'darker');
+      const preferWhite = stepTone(stepScale, band) === 'shade';
 
       const pick: SwatchPick = {
         colorKey: k,
@@ -819,7 +845,7 @@ const GeneratorPage = () => {
     } catch {
       return undefined;
     }
-  }, [readBandCandidates, textOnLight, textOnDark]);
+  }, [readBandCandidates, textOnLight, textOnDark, stepScale]);
 
   // Apply selection updates atomically (batch state update)
   const applySelectionAtomically = useCallback((updates: {
@@ -833,13 +859,17 @@ const GeneratorPage = () => {
     } catch { }
   }, []);
 
+  // Brand colors as one dependency, so adding or removing a family also triggers reselection
+  const brandHexKey = BRAND_FAMILY_KEYS.map((k) => palette[k]?.hex ?? '').join(',');
+
   // ============================================================================
   // Stage 4: Reselection Effect (with state updates)
   // ============================================================================
   useEffect(() => {
     try {
-      const families = (['primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'] as const);
-      const bands = (['lighter', 'light', 'dark', 'darker'] as const);
+      // Same families the engine builds: brand, semantic, and neutral when it is on
+      const families = paletteFamiliesOf(enginePalette);
+      const bands = stepScale.map((s) => s.name);
 
       // Build trigger message showing what changed
       const triggers: string[] = [];
@@ -850,18 +880,11 @@ const GeneratorPage = () => {
       if (textOnDark !== prevTextOnDarkRef.current) {
         triggers.push(`Text-on-Dark: ${prevTextOnDarkRef.current} → ${textOnDark}`);
       }
-      if (palette.primary.hex !== prevPrimaryHexRef.current) {
-        triggers.push(`Primary: ${prevPrimaryHexRef.current} → ${palette.primary.hex}`);
-      }
-      if (palette.secondary.hex !== prevSecondaryHexRef.current) {
-        triggers.push(`Secondary: ${prevSecondaryHexRef.current} → ${palette.secondary.hex}`);
-      }
-      if (palette.tertiary.hex !== prevTertiaryHexRef.current) {
-        triggers.push(`Tertiary: ${prevTertiaryHexRef.current} → ${palette.tertiary.hex}`);
-      }
-      if (palette.accent.hex !== prevAccentHexRef.current) {
-        triggers.push(`Accent: ${prevAccentHexRef.current} → ${palette.accent.hex}`);
-      }
+      BRAND_FAMILIES.forEach(({ key, label }) => {
+        if (palette[key]?.hex !== prevBrandHexRef.current[key]) {
+          triggers.push(`${label}: ${prevBrandHexRef.current[key]} → ${palette[key]?.hex}`);
+        }
+      });
       if (palette.error.hex !== prevErrorHexRef.current) {
         triggers.push(`Error: ${prevErrorHexRef.current} → ${palette.error.hex}`);
       }
@@ -871,6 +894,13 @@ const GeneratorPage = () => {
       if (palette.success.hex !== prevSuccessHexRef.current) {
         triggers.push(`Success: ${prevSuccessHexRef.current} → ${palette.success.hex}`);
       }
+      if (enginePalette.neutral?.hex !== prevNeutralHexRef.current) {
+        triggers.push(`Neutral: ${prevNeutralHexRef.current} → ${enginePalette.neutral?.hex}`);
+      }
+      const stepScaleKey = formatStepScale(stepScale);
+      if (prevStepScaleRef.current !== undefined && stepScaleKey !== prevStepScaleRef.current) {
+        triggers.push(`Steps: ${prevStepScaleRef.current} → ${stepScaleKey}`);
+      }
 
       // Determine trigger message and whether to proceed with reselection
       let triggerMsg: string;
@@ -896,13 +926,13 @@ const GeneratorPage = () => {
 
       // Build state updates (using functional setState to avoid dependency on selections/exactSelections)
       let hasUpdates = false;
-      const updates: Array<{ k: ColorType | SemanticColorType; band: 'lighter' | 'light' | 'dark' | 'darker'; result: { index: number; pick: SwatchPick } }> = [];
+      const updates: Array<{ k: PaletteFamily; band: StepName; result: { index: number; pick: SwatchPick } }> = [];
 
       // Only perform reselection if triggered by base/text color changes, not user clicks
       if (shouldReselect) {
         // Perform reselection for all families and bands
         families.forEach((k) => {
-          const baseHex = (palette as any)[k]?.hex;
+          const baseHex = (enginePalette as any)[k]?.hex;
           let hasLogs = false;
 
           bands.forEach((band) => {
@@ -913,7 +943,7 @@ const GeneratorPage = () => {
               // No valid colors found - text colors likely don't provide AAA contrast
               // Only log detailed diagnostics if showDiagnostics is enabled
               if (showDiagnostics) {
-                const isTintBand = band === 'lighter' || band === 'light';
+                const isTintBand = stepTone(stepScale, band) === 'tint';
                 const problematicText = isTintBand ? textOnLight : textOnDark;
                 const textType = isTintBand ? 'text-on-light' : 'text-on-dark';
 
@@ -932,7 +962,7 @@ const GeneratorPage = () => {
                   : [0.02, 0.05, 0.08, 0.12, 0.20]; // DARKER_MIN_Y to DARK_MAX_Y
 
                 const contrastSamples = sampleYs.map(targetY => {
-                  const rgb = solveHslLightnessForY(hexToRgb(baseHex), targetY);
+                  const rgb = solveLightnessForY(hexToRgb(baseHex), targetY, ribbonMode);
                   const contrast = getContrastRatio(rgb, textRgb);
                   return `Y=${targetY.toFixed(2)}→${contrast.toFixed(2)}:1`;
                 }).join(', ');
@@ -996,29 +1026,11 @@ const GeneratorPage = () => {
           const next = { ...prev };
           let changed = false;
           updates.forEach(({ k, band, result }) => {
-            if (!next[k]) next[k] = {};
-            if (band === 'lighter') {
-              // Don't update index - let Adjust tab's initialization handle it
-              if (next[k]!.lighterY !== result.pick.y) {
-                next[k]!.lighterY = result.pick.y;
-                changed = true;
-              }
-            } else if (band === 'light') {
-              // Don't update index - let Adjust tab's initialization handle it
-              if (next[k]!.lightY !== result.pick.y) {
-                next[k]!.lightY = result.pick.y;
-                changed = true;
-              }
-            } else if (band === 'dark') {
-              if (next[k]!.darkY !== result.pick.y) {
-                next[k]!.darkY = result.pick.y;
-                changed = true;
-              }
-            } else if (band === 'darker') {
-              if (next[k]!.darkerY !== result.pick.y) {
-                next[k]!.darkerY = result.pick.y;
-                changed = true;
-              }
+            // Only the target Y; for tints the index is left to the Adjust tab's initialization
+            const cur = next[k]?.[band];
+            if (cur?.y !== result.pick.y) {
+              next[k] = { ...next[k], [band]: { ...cur, y: result.pick.y } };
+              changed = true;
             }
           });
           return changed ? next : prev;
@@ -1031,27 +1043,26 @@ const GeneratorPage = () => {
       // Update refs for next comparison
       prevTextOnLightRef.current = textOnLight;
       prevTextOnDarkRef.current = textOnDark;
-      prevPrimaryHexRef.current = palette.primary.hex;
-      prevSecondaryHexRef.current = palette.secondary.hex;
-      prevTertiaryHexRef.current = palette.tertiary.hex;
-      prevAccentHexRef.current = palette.accent.hex;
+      prevBrandHexRef.current = Object.fromEntries(BRAND_FAMILY_KEYS.map((k) => [k, palette[k]?.hex]));
       prevErrorHexRef.current = palette.error.hex;
       prevWarningHexRef.current = palette.warning.hex;
       prevSuccessHexRef.current = palette.success.hex;
+      prevNeutralHexRef.current = enginePalette.neutral?.hex;
+      prevStepScaleRef.current = stepScaleKey;
     } catch (err) {
       console.error('[Stage 4] Reselection effect error:', err);
     }
   }, [
-    palette.primary.hex,
-    palette.secondary.hex,
-    palette.tertiary.hex,
-    palette.accent.hex,
+    brandHexKey,
     palette.error.hex,
     palette.warning.hex,
     palette.success.hex,
+    enginePalette.neutral?.hex,
     textOnLight,
     textOnDark,
     showDiagnostics,
+    ribbonMode,
+    stepScale,
     resolveTargetY,
     adoptClosestSlot,
     paletteWithVariationsBase,
@@ -1060,68 +1071,15 @@ const GeneratorPage = () => {
   // Keep exactSelections (Palette/Export source) in sync with current Adjust selections.
   const syncExactFromSelections = useCallback(() => {
     try {
-      const families = (['primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'] as const);
-      const next: typeof exactSelections = { ...(exactSelections as any) } as any;
-      families.forEach((k) => {
-        const sel = (selections as any)[k];
-        if (!sel) return;
-        const hasAnySelection = sel.lighterIndex != null || sel.lightIndex != null || sel.darkY != null || sel.darkerY != null;
-        if (!hasAnySelection) return;
-        // Read from ribbons (the actual source of truth), not paletteWithVariationsBase
-        const colorRibbons = (ribbons as any)[k];
-        if (!colorRibbons) return;
-
-        const addPick = (step: 'lighter' | 'light' | 'dark' | 'darker', indexMaybe?: number, yMaybe?: number) => {
-          let hex: string | undefined;
-          let indexDisplayed: number | undefined;
-
-          const ribbonColors = colorRibbons[step];
-          if (!ribbonColors || ribbonColors.length === 0) return;
-
-          // For lighter/light, use index directly from ribbons array
-          if (step === 'lighter' || step === 'light') {
-            if (typeof indexMaybe !== 'number') return; // Wait for Adjust tab to set index
-            // Clamp index to valid range to handle stale/invalid selections
-            const clampedIndex = Math.max(0, Math.min(indexMaybe, ribbonColors.length - 1));
-            const ribbon = ribbonColors[clampedIndex];
-            if (ribbon?.hex) {
-              hex = ribbon.hex;
-              indexDisplayed = clampedIndex;
-            }
-          } else {
-            // For dark/darker, find ribbon closest to target Y
-            if (typeof yMaybe !== 'number') return;
-            let best = 0, dBest = Infinity;
-            ribbonColors.forEach((ribbon: any, i: number) => {
-              const d = Math.abs(ribbon.y - yMaybe);
-              if (d < dBest) { dBest = d; best = i; }
-            });
-            if (ribbonColors[best]?.hex) {
-              hex = ribbonColors[best].hex;
-              indexDisplayed = best;
-            }
-          }
-          if (!hex) return;
-          const { r, g, b } = hexToRgb(hex);
-          const { h, s, l } = rgbToHslNorm(r, g, b);
-          const y = luminance(r, g, b);
-          const cLight = getContrastRatio({ r, g, b }, hexToRgb(textOnLight));
-          const cDark = getContrastRatio({ r, g, b }, hexToRgb(textOnDark));
-          const pick: any = { colorKey: k, step, indexDisplayed: indexDisplayed ?? 0, hex, hsl: { h, s, l }, y, contrastVsTextOnLight: cLight, contrastVsTextOnDark: cDark, textToneUsed: y >= 0.5 ? 'dark' : 'light' };
-          next[k] = { ...(next as any)[k], [step]: pick } as any;
-        };
-        addPick('lighter', sel.lighterIndex);
-        addPick('light', sel.lightIndex);
-        addPick('dark', undefined, sel.darkY);
-        addPick('darker', undefined, sel.darkerY);
-      });
+      // Read from ribbons (the actual source of truth), not paletteWithVariationsBase
+      const next = buildExactSelectionsFromSelections(ribbons, selections, textOnLight, textOnDark, exactSelections, stepScale);
       // Avoid unnecessary state updates that cause render loops
       const same = (() => {
         try { return JSON.stringify(next) === JSON.stringify(exactSelections); } catch { return false; }
       })();
       if (!same) setExactSelections(next);
     } catch { }
-  }, [ribbons, selections, textOnLight, textOnDark, exactSelections]);
+  }, [ribbons, selections, textOnLight, textOnDark, exactSelections, stepScale]);
 
   // Don't run syncExactFromSelections automatically on every state change
   // Only sync when explicitly needed (user clicks, tab switch, etc.)
@@ -1131,8 +1089,8 @@ const GeneratorPage = () => {
   const prevHasIndicesRef = useRef(false);
   useEffect(() => {
     // Check if selections have been initialized (at least one index is set)
-    const hasIndices = Object.values(selections).some((sel: any) =>
-      sel?.lighterIndex != null || sel?.lightIndex != null
+    const hasIndices = Object.values(selections).some((sel) =>
+      Object.values(sel ?? {}).some((stepSel) => stepSel?.index != null)
     );
     const justInitialized = hasIndices && !prevHasIndicesRef.current;
 
@@ -1173,7 +1131,7 @@ const GeneratorPage = () => {
       }
       console.log('[syncSelectionsFromExact] Running with exactSelections:', exactSelections);
       const next: typeof selections = { ...(selections as any) } as any;
-      (['primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'] as const).forEach((k) => {
+      ([...BRAND_FAMILY_KEYS, 'error', 'warning', 'success'] as const).forEach((k) => {
         const entry = (paletteWithVariations as any)[k];
         const arr: Array<{ step: string; hex: string }> = Array.isArray(entry?.variations) ? entry.variations : [];
         const byStep = (step: 'lighter' | 'light' | 'dark' | 'darker') => arr.filter(v => v.step === step);
@@ -1187,17 +1145,11 @@ const GeneratorPage = () => {
           const list = byStep(step);
           const idx = list.findIndex(v => (v.hex || '').toLowerCase() === pick.toLowerCase());
           if (idx >= 0) {
-            if (step === 'lighter' && cur.lighterIndex == null) {
-              console.log(`[syncSelectionsFromExact] ${k}.lighterIndex = ${idx} (was null)`);
-              cur.lighterIndex = idx;
-            } else if (step === 'lighter') {
-              console.log(`[syncSelectionsFromExact] ${k}.lighterIndex already set to ${cur.lighterIndex}, skipping`);
-            }
-            if (step === 'light' && cur.lightIndex == null) {
-              console.log(`[syncSelectionsFromExact] ${k}.lightIndex = ${idx} (was null)`);
-              cur.lightIndex = idx;
-            } else if (step === 'light') {
-              console.log(`[syncSelectionsFromExact] ${k}.lightIndex already set to ${cur.lightIndex}, skipping`);
+            if (cur[step]?.index == null) {
+              console.log(`[syncSelectionsFromExact] ${k}.${step}.index = ${idx} (was null)`);
+              cur[step] = { ...cur[step], index: idx };
+            } else {
+              console.log(`[syncSelectionsFromExact] ${k}.${step}.index already set to ${cur[step].index}, skipping`);
             }
           }
         });
@@ -1207,8 +1159,7 @@ const GeneratorPage = () => {
           if (!pick) return;
           const { r, g, b } = hexToRgb(pick);
           const y = luminance(r, g, b);
-          if (step === 'dark' && cur.darkY == null) cur.darkY = y;
-          if (step === 'darker' && cur.darkerY == null) cur.darkerY = y;
+          if (cur[step]?.y == null) cur[step] = { ...cur[step], y };
         });
         (next as any)[k] = cur;
       });
@@ -1227,7 +1178,7 @@ const GeneratorPage = () => {
       return;
 
       if (!paletteWithVariations) return;
-      const families = (['primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'] as const);
+      const families = ([...BRAND_FAMILY_KEYS, 'error', 'warning', 'success'] as const);
       const bands = (['lighter', 'light', 'dark', 'darker'] as const);
       let needsInit = false;
 
@@ -1296,11 +1247,11 @@ const GeneratorPage = () => {
   }, [paletteWithVariations]);
 
 
-  // Heuristic: which of the four base colors is most "eye-catching" (highest saturation)
+  // Heuristic: which of the brand colors is most "eye-catching" (highest saturation)
   const mostEyeCatching = useMemo(() => {
     try {
-      const bases = ['primary', 'secondary', 'tertiary', 'accent'] as const;
-      let bestKey: typeof bases[number] = 'accent';
+      const bases = brandFamiliesOf(palette);
+      let bestKey: ColorType = 'accent';
       let bestS = -1;
       bases.forEach((k) => {
         const hex = (palette as any)[k]?.hex as string | undefined;
@@ -1313,24 +1264,28 @@ const GeneratorPage = () => {
     } catch { return 'accent' as const; }
   }, [palette]);
 
+  // Harmony-guide checklist over the starting colors (shown on the Starting Colors and Palette tabs)
+  const critiqueFindings = useMemo(() => critiquePalette(palette, { textOnLight, textOnDark }), [palette, textOnLight, textOnDark]);
+
+  // Number of theme variations each export mode gives for the current brand families
+  const exportVariationCounts = useMemo(() => {
+    const families = brandFamiliesOf(palette);
+    return {
+      accentFixed: countExportVariations('accent-fixed', families),
+      all: countExportVariations('all', families),
+      selected: countExportVariations(exportVariationMode, families, exportRotate),
+    };
+  }, [palette, exportVariationMode, exportRotate]);
+  const tooManyExportVariations = exportVariationCounts.selected > MAX_EXPORT_VARIATIONS;
+
 
   // Load saved selections once, with migration from Y-based tints to index-based
   useEffect(() => {
     try {
       const raw = localStorage.getItem('gl_palette_luminance_selections');
       if (raw) {
-        const parsed = JSON.parse(raw);
-        // If the saved object contains lighterY/lightY, preserve as-is for shades and drop tints (they'll init per component)
-        const migrated: Partial<Record<ColorType | SemanticColorType, { lighterIndex?: number; lightIndex?: number; darkerY?: number; darkY?: number }>> = {};
-        (['primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'] as (ColorType | SemanticColorType)[]).forEach((k) => {
-          const v = parsed?.[k] || {};
-          migrated[k] = {
-            darkerY: v.darkerY,
-            darkY: v.darkY,
-            lighterIndex: v.lighterIndex, // may already be migrated
-            lightIndex: v.lightIndex,
-          };
-        });
+        // Older saves use { lighterIndex, lightIndex, darkY, darkerY }; tint Ys are dropped (they'll init per component)
+        const migrated = normalizeBandSelections(JSON.parse(raw));
         setSelections(migrated);
       }
     } catch { }
@@ -1346,13 +1301,13 @@ const GeneratorPage = () => {
         const parsed = JSON.parse(raw);
         if (!parsed || typeof parsed !== 'object') return;
         const cleaned: typeof exactSelections = {} as any;
-        (['primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'] as const).forEach((k) => {
+        ([...BRAND_FAMILY_KEYS, 'error', 'warning', 'success', 'neutral'] as const).forEach((k) => {
           const bands = parsed[k];
           if (!bands || typeof bands !== 'object') return;
           const out: any = {};
-          (['lighter', 'light', 'dark', 'darker'] as const).forEach((step) => {
+          Object.keys(bands).forEach((step) => {
             const pick = (bands as any)[step];
-            if (isValidSwatchPick(pick)) out[step] = pick;
+            if (isValidSwatchPick(pick) && pick.step === step) out[step] = pick;
           });
           if (Object.keys(out).length) (cleaned as any)[k] = out;
         });
@@ -1374,17 +1329,17 @@ const GeneratorPage = () => {
     try {
       if (!paletteWithVariations) return;
       const next: typeof exactSelections = { ...(exactSelections as any) } as any;
-      const families: (keyof PaletteWithVariations)[] = ['primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'];
+      const families: (keyof PaletteWithVariations)[] = [...BRAND_FAMILY_KEYS, 'error', 'warning', 'success', 'neutral'];
       let changed = false;
       families.forEach((k) => {
         const entry: any = (paletteWithVariations as any)[k];
-        const vars: Array<{ step: 'lighter' | 'light' | 'dark' | 'darker'; hex: string }> = Array.isArray(entry?.variations) ? entry.variations : [];
-        const ensureBand = (step: 'lighter' | 'light' | 'dark' | 'darker') => {
+        const vars: Array<{ step: string; hex: string }> = Array.isArray(entry?.variations) ? entry.variations : [];
+        const ensureBand = (step: string) => {
           const list = vars.filter(v => v.step === step);
           if (!list.length) return;
           const pick = (next as any)[k]?.[step];
           const targetHex: string | undefined = pick?.hex;
-          const preferWhite = (step === 'dark' || step === 'darker');
+          const preferWhite = stepTone(stepScale, step) === 'shade';
           const tokenHex = preferWhite ? textOnDark : textOnLight;
           const token = tokenHex ? hexToRgb(tokenHex) : undefined;
           const hasAAA = (hex: string) => {
@@ -1425,11 +1380,11 @@ const GeneratorPage = () => {
             changed = true;
           }
         };
-        (['lighter', 'light', 'dark', 'darker'] as const).forEach(ensureBand);
+        stepScale.forEach(({ name }) => ensureBand(name));
       });
       if (changed) setExactSelections(next);
     } catch { }
-  }, [textOnLight, textOnDark, paletteWithVariations]);
+  }, [textOnLight, textOnDark, paletteWithVariations, stepScale]);
 
   // Load/save textOnDark/textOnLight overrides
   useEffect(() => {
@@ -1463,10 +1418,7 @@ const GeneratorPage = () => {
       themeName: themeName,
       textOnDark: textOnDark,
       textOnLight: textOnLight,
-      primary: palette.primary.hex,
-      secondary: palette.secondary.hex,
-      tertiary: palette.tertiary.hex,
-      accent: palette.accent.hex,
+      ...allBrandHexes(palette),
       error: palette.error.hex,
       warning: palette.warning.hex,
       success: palette.success.hex,
@@ -1486,22 +1438,27 @@ const GeneratorPage = () => {
       colors: {
         textOnDark: manualForm.values.textOnDark,
         textOnLight: manualForm.values.textOnLight,
-        primary: manualForm.values.primary,
-        secondary: manualForm.values.secondary,
-        tertiary: manualForm.values.tertiary,
-        accent: manualForm.values.accent,
+        ...brandHexesOf(withBrandHexes(palette, manualForm.values)),
         ...(optHex(manualForm.values.error) ? { error: optHex(manualForm.values.error) } : {}),
         ...(optHex(manualForm.values.warning) ? { warning: optHex(manualForm.values.warning) } : {}),
         ...(optHex(manualForm.values.success) ? { success: optHex(manualForm.values.success) } : {}),
       },
       fontFamilies: Array.isArray((manualForm.values as any).fontFamilies) ? (manualForm.values as any).fontFamilies : [],
+      ribbonMode,
+      ...(minApcaLc != null ? { minApcaLc } : {}),
+      ...(!isDefaultStepScale(stepScale) ? { steps: stepScale } : {}),
+      ...(JSON.stringify(semanticBandSelection) !== JSON.stringify(semanticBandDefaultsFor(stepScale)) ? { semanticBands: semanticBandSelection } : {}),
+      ...(includeNeutral ? { neutral: true } : {}),
+      ...(paletteSeed ? { seed: paletteSeed } : {}),
+      ...(lockedFamilies.length ? { locked: lockedFamilies } : {}),
     };
     return JSON.stringify(payload, null, 2);
-  }, [manualForm.values, themeName]);
+  }, [manualForm.values, palette, themeName, ribbonMode, minApcaLc, stepScale, semanticBandSelection, includeNeutral, paletteSeed, lockedFamilies]);
 
-  const applyImportedManualValues = useCallback((next: Partial<Record<string, unknown>>) => {
+  // `count` sets the number of brand families (an import lists exactly the families it uses)
+  const applyImportedManualValues = useCallback((next: Partial<Record<string, unknown>>, count?: number) => {
     const merged: any = { ...manualForm.values };
-    (['themeName', 'textOnDark', 'textOnLight', 'primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'] as const).forEach((k) => {
+    (['themeName', 'textOnDark', 'textOnLight', ...BRAND_FAMILY_KEYS, 'error', 'warning', 'success'] as const).forEach((k) => {
       const v = (next as any)[k];
       if (k === 'themeName') {
         if (typeof v === 'string') merged.themeName = v;
@@ -1516,18 +1473,21 @@ const GeneratorPage = () => {
     if (typeof merged.themeName === 'string') setThemeName(merged.themeName);
     if (typeof merged.textOnDark === 'string') setTextOnDark(merged.textOnDark);
     if (typeof merged.textOnLight === 'string') setTextOnLight(merged.textOnLight);
-    setPalette((prev) => ({
+    if (count != null) setBrandCount(count);
+    setPalette((prev) => withBrandHexes({
       ...prev,
-      primary: { ...prev.primary, hex: merged.primary || prev.primary.hex },
-      secondary: { ...prev.secondary, hex: merged.secondary || prev.secondary.hex },
-      tertiary: { ...prev.tertiary, hex: merged.tertiary || prev.tertiary.hex },
-      accent: { ...prev.accent, hex: merged.accent || prev.accent.hex },
       error: { ...(prev.error || initialPalette.error), hex: merged.error || prev.error.hex },
       warning: { ...(prev.warning || initialPalette.warning), hex: merged.warning || prev.warning.hex },
       success: { ...(prev.success || initialPalette.success), hex: merged.success || prev.success.hex },
-    } as any));
+    }, merged, count));
   }, [manualForm, setPalette, setThemeName, setTextOnDark, setTextOnLight]);
 
+  const handleApplyTextColors = useCallback((p: TextColorProposal) => {
+    manualForm.setValues({ ...manualForm.values, textOnLight: p.textOnLight, textOnDark: p.textOnDark });
+    setTextOnLight(p.textOnLight);
+    setTextOnDark(p.textOnDark);
+  }, [manualForm]);
+
   const tryImportFromText = useCallback(() => {
     const raw = String(ioText || '').trim();
     if (!raw) {
@@ -1539,27 +1499,34 @@ const GeneratorPage = () => {
     try {
       const parsed: any = JSON.parse(raw);
       if (parsed && typeof parsed === 'object') {
-        if (parsed.format === 'wpwm-palette/v1' && parsed.colors && typeof parsed.colors === 'object') {
-          const colorsObj: any = parsed.colors;
-          const cleanColors: any = {};
-          (['textOnDark', 'textOnLight', 'primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'] as const).forEach((k) => {
-            const v = colorsObj?.[k];
-            if (typeof v !== 'string') return;
-            if (!/^#[0-9a-f]{6}$/i.test(v)) return;
-            cleanColors[k] = v;
-          });
-          const next: any = {
-            themeName: typeof parsed.themeName === 'string' ? parsed.themeName : '',
-            ...cleanColors,
-            fontFamilies: Array.isArray(parsed.fontFamilies) ? parsed.fontFamilies : [],
-          };
-          const validated = manualFormSchema.partial().safeParse(next);
-          if (validated.success) {
-            applyImportedManualValues(validated.data as any);
-            toast.success('Imported palette JSON');
-            setIoDialogOpen(false);
+        if (parsed.format === WPWM_PALETTE_V1_FORMAT) {
+          let doc: PaletteDocument;
+          try {
+            doc = parseWpwmPaletteV1(parsed);
+          } catch (e) {
+            toast.error(e instanceof Error ? e.message : 'Invalid palette JSON');
             return;
           }
+          applyImportedManualValues({
+            themeName: doc.themeName,
+            textOnDark: doc.textOnDark,
+            textOnLight: doc.textOnLight,
+            ...brandHexesOf(doc.palette),
+            error: doc.palette.error.hex,
+            warning: doc.palette.warning.hex,
+            success: doc.palette.success.hex,
+            fontFamilies: doc.fontFamilies,
+          }, brandFamiliesOf(doc.palette).length);
+          setRibbonMode(doc.ribbonMode);
+          setMinApcaLc(doc.minApcaLc);
+          setStepScale(doc.steps);
+          setSemanticBandSelection(doc.semanticBandSelection);
+          setIncludeNeutral(doc.neutral);
+          setPaletteSeed(doc.seed ?? '');
+          setLockedFamilies(doc.locked);
+          toast.success('Imported palette JSON');
+          setIoDialogOpen(false);
+          return;
         }
 
         // Legacy: localStorage-like shape (gl_palette_manual_colors)
@@ -1586,7 +1553,7 @@ const GeneratorPage = () => {
       return;
     }
 
-    const roleOrder: Array<Exclude<PaletteRoleKeys, 'textOnDark' | 'textOnLight'>> = ['primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'];
+    const roleOrder: Array<Exclude<PaletteRoleKeys, 'textOnDark' | 'textOnLight'>> = [...brandFamiliesOf(palette), 'error', 'warning', 'success'];
     const next: any = {};
     for (let i = 0; i < roleOrder.length && i < hexes.length; i++) {
       const k = roleOrder[i];
@@ -1597,7 +1564,7 @@ const GeneratorPage = () => {
     applyImportedManualValues(next);
     toast.success(`Imported ${Math.min(hexes.length, roleOrder.length)} colors`);
     setIoDialogOpen(false);
-  }, [applyImportedManualValues, ioText]);
+  }, [applyImportedManualValues, ioText, palette]);
 
   // Update manual colors and live palette when user edits
   const handleManualColorChange = useCallback((colorType: ColorType | SemanticColorType, hex: string) => {
@@ -1611,6 +1578,32 @@ const GeneratorPage = () => {
     }
   }, [manualForm, setPalette]);
 
+  // Regenerate the unlocked brand colors from a seed; locked ones keep their Manual form color
+  const handleGenerateFromSeed = useCallback((seed: string) => {
+    const nextSeed = seed.trim() || newPaletteSeed();
+    const generated = generateSeededPalette({ seed: nextSeed, locked: lockedFamilies, base: withBrandHexes(palette, manualForm.values) });
+    setPaletteSeed(nextSeed);
+    manualForm.setValues({ ...manualForm.values, ...brandHexesOf(generated) } as any);
+    setPalette((prev) => withBrandHexes(prev, brandHexesOf(generated)));
+  }, [palette, manualForm, lockedFamilies, setPalette]);
+
+  // Use a harmony candidate's colors (the picker already leaves out locked families)
+  const handleUseHarmonyColors = useCallback((hexes: Partial<Record<ColorType, string>>) => {
+    setPaletteSeed('');
+    manualForm.setValues({ ...manualForm.values, ...hexes } as any);
+    setPalette((prev) => withBrandHexes(prev, hexes));
+  }, [manualForm, setPalette]);
+
+  const toggleLockedFamily = useCallback((key: ColorType) => {
+    setLockedFamilies((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+  }, []);
+
+  // Show more or fewer brand families; hidden families keep their Manual form colors
+  const handleBrandCountChange = useCallback((count: number) => {
+    setBrandCount(count);
+    setPalette((prev) => withBrandHexes(prev, manualForm.values, count));
+  }, [manualForm.values, setPalette]);
+
   // Match semantics to Primary button handler (light: warning=light, error/success=dark)
   const handleMatchSemanticsToPrimary = useCallback(() => {
     try {
@@ -1629,103 +1622,49 @@ const GeneratorPage = () => {
 
   // Download .zip export handler (full implementation with error trapping and notices)
   const handleExportGzipAll = useCallback(async () => {
-    const title = (themeName && themeName.trim()) || 'Generated Color Palette';
-    const suffix = (() => { try { return generateFilenameSuffix(paletteWithVariations as any); } catch { return 'palette'; } })();
-    const zipName = `themes-${suffix}.zip`;
-
     try {
-      // 1) Build assets for ALL P/S/T permutations (accent fixed as 'a')
-      const titleSlug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
-      const pv: any = paletteWithVariations as any;
-      const buildPaletteFromCode = (code: string) => {
-        const pick = (ch: string) => ch === 'p' ? pv.primary : ch === 's' ? pv.secondary : ch === 't' ? pv.tertiary : pv.accent;
-        return { ...pv, primary: pick(code[0]!), secondary: pick(code[1]!), tertiary: pick(code[2]!), accent: pick(code[3]!) };
-      };
-      const permute = (arr: string[]): string[][] => {
-        const out: string[][] = [];
-        const used = new Array(arr.length).fill(false);
-        const backtrack = (path: string[]) => {
-          if (path.length === arr.length) { out.push(path.slice()); return; }
-          for (let i = 0; i < arr.length; i++) {
-            if (used[i]) continue;
-            const val = arr[i];
-            if (typeof val !== 'string') continue;
-            used[i] = true; path.push(val); backtrack(path); path.pop(); used[i] = false;
-          }
-        };
-        backtrack([]);
-        return out;
-      };
-      const codes: string[] = exportVariationMode === '24'
-        ? permute(['p', 's', 't', 'a']).map(x => x.join(''))
-        : ['psta', 'ptsa', 'spta', 'stpa', 'tpsa', 'tspa'];
-      const variants: Array<{ code: string; palette: any }> = codes.map(code => ({ code, palette: buildPaletteFromCode(code) }));
-
-      const files: Record<string, Uint8Array> = {};
-      const contentsList: string[] = [];
-      // Include helper file for users to drop into their child theme inc/ folder (use existing file content)
-      files['inc/fse-editor-chrome-styles.php'] = strToU8(includeEditorChromeStylesPhp);
-      contentsList.push(' - inc/fse-editor-chrome-styles.php');
-      // Generate a single shared utilities CSS file for all variations
-      // Prepare alias variables from the uploaded theme.json palette (if any)
-      const themeAliases: Array<{ slug: string; color: string; name?: string }> = Array.isArray((themeConfig as any)?.settings?.color?.palette)
-        ? ((themeConfig as any).settings.color.palette as Array<any>)
-          .filter((e) => e && typeof e.slug === 'string' && typeof e.color === 'string' && e.slug.trim() && e.color.trim())
-          .map((e) => ({ slug: String(e.slug).trim().toLowerCase(), color: String(e.color).trim(), name: e.name }))
-        : [];
-      const cssStrOnce = generateCssClasses(
-        paletteWithVariations as any,
-        semanticBandSelection as any,
-        { textOnDark, textOnLight, themeAliases }
-      );
-      const utilitiesCssPath = `styles/${titleSlug}-utilities.css`;
-      files[utilitiesCssPath] = strToU8(cssStrOnce);
-      contentsList.push(` - ${utilitiesCssPath}`);
-
-      for (const v of variants) {
-        const jsonStr = buildWpVariationJson(
-          v.palette,
-          `${title} ${v.code}`,
-          themeConfig,
-          { semanticBandSelection, textOnDark, textOnLight }
-        );
-        const jsonPath = `styles/${titleSlug}-${v.code}.json`;
-        files[jsonPath] = strToU8(jsonStr);
-        contentsList.push(` - ${jsonPath}`);
+      if (accountPending) {
+        toast.error(accountUnavailable ? 'Could not check your export credits. Retry, then export again.' : 'Still checking your export credits. Try again in a moment.');
+        return;
       }
-
-      const readmeModeLine = exportVariationMode === '24'
-        ? 'This archive contains ALL permutations of Primary/Secondary/Tertiary/Accent.'
-        : 'This archive contains ALL permutations of Primary/Secondary/Tertiary (Accent fixed).';
-      const readme = [
-        '# Generated by Color Palette Generator, by AZ WP Website Consulting LLC',
-        '',
-        `Title: ${title}`,
-        `Filename suffix: ${suffix}`,
-        '',
-        readmeModeLine,
-        'For each permutation, there is a theme variation JSON. A single shared CSS utilities file is included for all variations.',
-        '',
-        'Contents:',
-        ...contentsList,
-        '',
-        'How to use:',
-        '1) For WordPress: copy all your *.json and the single utilities *.css file into wp-content/themes/your-theme/styles/ (create styles folder if needed)',
-        '   Then switch Style variation in the Site Editor > Styles.',
-        '2) Optional helper for editor sidebar swatches:',
-        '   - Copy inc/fse-editor-chrome-styles.php into wp-content/themes/your-child-theme/inc/ (create inc/ if needed).',
-        '   - Add the following to your child theme functions.php:',
-        "     require_once get_stylesheet_directory() . '/inc/fse-editor-chrome-styles.php';",
-        "     add_action('enqueue_block_editor_assets', 'fse_enqueue_block_editor_admin_chrome_styles', 20);",
-        '3) Merge variables and classes from styles/*-utilities.css into your child theme style.css as needed.',
-      ].join('\n');
-      files['README.txt'] = strToU8(readme);
-
-      const zipped = zipSync(files, { level: 9 });
-      // Convert Uint8Array view to a plain ArrayBuffer for BlobPart compatibility
-      const ab = new ArrayBuffer(zipped.byteLength);
-      new Uint8Array(ab).set(zipped);
-      const blob = new Blob([ab], { type: 'application/zip' });
+      // 1) Build assets for every variation of the chosen mode (Accent stays 'a' in accent-fixed mode)
+      // Signed-in users export through /api/export so credits are enforced server-side.
+      const { zipName, blob } = await (async () => {
+        if (signedIn) {
+          const result = await postExport({
+            themeName,
+            palette: paletteWithVariations,
+            themeConfig,
+            semanticBandSelection,
+            textOnDark,
+            textOnLight,
+            variationMode: exportVariationMode,
+            ...(exportVariationMode === 'custom' ? { rotate: exportRotate } : {}),
+            steps: stepScale,
+            extraFormats: exportFormats,
+          });
+          queryClient.invalidateQueries({ queryKey: ENTITLEMENTS_QUERY_KEY });
+          return result;
+        }
+        const bundle = buildExportFiles({
+          palette: paletteWithVariations,
+          themeName,
+          themeConfig,
+          semanticBandSelection,
+          textOnDark,
+          textOnLight,
+          variationMode: exportVariationMode,
+          ...(exportVariationMode === 'custom' ? { rotate: exportRotate } : {}),
+          steps: stepScale,
+          extraFormats: exportFormats,
+          editorChromeStylesPhp: includeEditorChromeStylesPhp,
+        });
+        const zipped = zipExportFiles(bundle.files);
+        // Convert Uint8Array view to a plain ArrayBuffer for BlobPart compatibility
+        const ab = new ArrayBuffer(zipped.byteLength);
+        new Uint8Array(ab).set(zipped);
+        return { zipName: bundle.zipName, blob: new Blob([ab], { type: 'application/zip' }) };
+      })();
 
       // 3) Try File System Access API first (allows user to choose location)
       // Not all browsers support this; fallback to anchor download.
@@ -1756,10 +1695,12 @@ const GeneratorPage = () => {
       toast.success(`Download started: ${zipName}`);
     } catch (e: any) {
       console.error('Export failed:', e);
+      // Out of credits (402): refresh entitlements so the Export tab offers checkout
+      if (e instanceof ApiError && e.status === 402) queryClient.invalidateQueries({ queryKey: ENTITLEMENTS_QUERY_KEY });
       const msg = (e && (e.message || e.toString())) || 'Unknown error';
       toast.error(`Export failed: ${msg}`);
     }
-  }, [paletteWithVariations, themeConfig, themeName, semanticBandSelection, exportVariationMode, textOnDark, textOnLight]);
+  }, [paletteWithVariations, themeConfig, themeName, semanticBandSelection, exportVariationMode, exportRotate, exportFormats, textOnDark, textOnLight, stepScale, signedIn, accountPending, accountUnavailable, queryClient]);
 
   // Track whether Manual form has unsaved changes compared to last saved snapshot
   const isManualDirty = useMemo(() => {
@@ -1782,29 +1723,32 @@ const GeneratorPage = () => {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [isManualDirty]);
 
+  // Apply the brand families the palette has, plus the semantic colors, to the app's CSS variables.
+  // Valid hexes in `values` (manual form values) win over the palette's current colors.
+  const applyColorsToCSSVariables = (values: Record<string, unknown>) => {
+    const isHex = (s: unknown): s is string => typeof s === 'string' && /^#[0-9a-f]{6}$/i.test(s);
+    const hexOr = (value: unknown, fallback: string) => ({ hex: isHex(value) ? value : fallback });
+    applyPaletteToCSSVariables({
+      ...Object.fromEntries(brandFamiliesOf(palette).map((k) => [k, hexOr(values[k], palette[k]!.hex)])),
+      primary: hexOr(values.primary, palette.primary.hex),
+      error: hexOr(values.error, palette.error.hex),
+      success: hexOr(values.success, palette.success.hex),
+      notice: hexOr(values.warning, palette.warning.hex),
+    }, {
+      ...(exactSelections?.accent?.dark?.hex && { accentDark: exactSelections.accent.dark.hex }),
+      ...(exactSelections?.error?.light?.hex && { errorLight: exactSelections.error.light.hex }),
+      ...(exactSelections?.warning?.light?.hex && { warningLight: exactSelections.warning.light.hex }),
+      ...(exactSelections?.success?.light?.hex && { successLight: exactSelections.success.light.hex }),
+    }, { textOnLight, textOnDark });
+  };
+
   // Apply runtime overrides once on startup based on current palette/manual values
   const didApplyRuntimeRef = useRef(false);
   useEffect(() => {
     if (didApplyRuntimeRef.current) return;
     didApplyRuntimeRef.current = true;
     try {
-      const mv: any = manualForm?.values || {};
-      const isHex = (s: any) => typeof s === 'string' && /^#[0-9a-f]{6}$/i.test(s);
-      const def = initialPalette;
-      applyPaletteToCSSVariables({
-        primary: { hex: isHex(mv.primary) ? mv.primary : palette.primary.hex || def.primary.hex },
-        secondary: { hex: isHex(mv.secondary) ? mv.secondary : palette.secondary.hex || def.secondary.hex },
-        tertiary: { hex: isHex(mv.tertiary) ? mv.tertiary : palette.tertiary.hex || def.tertiary.hex },
-        accent: { hex: isHex(mv.accent) ? mv.accent : palette.accent.hex || def.accent.hex },
-        error: { hex: isHex(mv.error) ? mv.error : palette.error.hex || def.error.hex },
-        success: { hex: isHex(mv.success) ? mv.success : palette.success.hex || def.success.hex },
-        notice: { hex: isHex(mv.warning) ? mv.warning : palette.warning.hex || def.warning.hex },
-      } as any, {
-        ...(exactSelections?.accent?.dark?.hex && { accentDark: exactSelections.accent.dark.hex }),
-        ...(exactSelections?.error?.light?.hex && { errorLight: exactSelections.error.light.hex }),
-        ...(exactSelections?.warning?.light?.hex && { warningLight: exactSelections.warning.light.hex }),
-        ...(exactSelections?.success?.light?.hex && { successLight: exactSelections.success.light.hex }),
-      }, { textOnLight, textOnDark });
+      applyColorsToCSSVariables(manualForm?.values || {});
     } catch { }
   }, [palette, exactSelections]);
 
@@ -1815,10 +1759,10 @@ const GeneratorPage = () => {
       if (raw) {
         const parsed = JSON.parse(raw);
         // shallow validate keys/values
-        const bands: Band[] = ['lighter', 'light', 'dark', 'darker'];
-        const ok = (x: any): x is SemanticPerScheme => x && bands.includes(x.light) && bands.includes(x.dark);
+        const ok = (x: any): x is SemanticPerScheme => x && typeof x.light === 'string' && typeof x.dark === 'string';
         if (parsed && ok(parsed.error) && ok(parsed.warning) && ok(parsed.success)) {
-          setSemanticBandSelection(parsed);
+          // Drop bands the current step scale does not have
+          setSemanticBandSelection(normalizeSemanticBandSelection(parsed, stepScale));
         }
       }
     } catch { }
@@ -2045,7 +1989,7 @@ const GeneratorPage = () => {
     const baseRgb = hexToRgb(textOnDarkHex);
     const filterForBlackTextAAA = (ys: number[]) =>
       ys
-        .map((y) => ({ y, rgb: solveHslLightnessForY(baseRgb, y) }))
+        .map((y) => ({ y, rgb: solveLightnessForY(baseRgb, y, ribbonMode) }))
         .map(({ y, rgb }) => ({ y, rgb, ratio: getContrastRatio(rgb, NEAR_BLACK_RGB) }))
         .filter(({ ratio }) => ratio >= AAA_MIN && ratio <= MAX_CONTRAST_TINTS)
         .map(({ y }) => y);
@@ -2088,7 +2032,7 @@ const GeneratorPage = () => {
     const lighterFinal = lighterStep1;
 
     return { lighterTargets: lighterFinal, lightTargets: lightFinal };
-  }, []);
+  }, [ribbonMode]);
 
   const resolveTintYFromIndex = React.useCallback(
     (textOnDarkHex: string, kind: 'lighter' | 'light', index?: number): number | undefined => {
@@ -2120,16 +2064,12 @@ const GeneratorPage = () => {
       const savedThemeName = typeof (saved as any).themeName === 'string' ? (saved as any).themeName.trim() : '';
       if (savedThemeName) nextValues.themeName = savedThemeName;
       manualForm.setValues(nextValues as any);
-      setPalette((prev) => ({
+      setPalette((prev) => withBrandHexes({
         ...prev,
-        primary: { ...prev.primary, hex: (nextValues as any).primary || prev.primary?.hex || initialPalette.primary.hex },
-        secondary: { ...prev.secondary, hex: (nextValues as any).secondary || prev.secondary?.hex || initialPalette.secondary.hex },
-        tertiary: { ...prev.tertiary, hex: (nextValues as any).tertiary || prev.tertiary?.hex || initialPalette.tertiary.hex },
-        accent: { ...prev.accent, hex: (nextValues as any).accent || prev.accent?.hex || initialPalette.accent.hex },
         error: { ...(prev.error || initialPalette.error), hex: (nextValues as any).error || prev.error?.hex || initialPalette.error.hex },
         warning: { ...(prev.warning || initialPalette.warning), hex: (nextValues as any).warning || prev.warning?.hex || initialPalette.warning.hex },
         success: { ...(prev.success || initialPalette.success), hex: (nextValues as any).success || prev.success?.hex || initialPalette.success.hex },
-      }));
+      }, nextValues));
       if ((nextValues as any).textOnDark) setTextOnDark((nextValues as any).textOnDark);
       if ((nextValues as any).textOnLight) setTextOnLight((nextValues as any).textOnLight);
       // Track the last saved snapshot for unsaved-changes warning
@@ -2157,37 +2097,27 @@ const GeneratorPage = () => {
       const result = await generatePaletteMutation.mutateAsync(values);
       // Extract the base colors from the palette with variations
       const newPalette: Palette = {
+        ...Object.fromEntries(brandFamiliesOf(result).map((k) => [k, { name: result[k]!.name, hex: result[k]!.hex }])),
         primary: { name: result.primary.name, hex: result.primary.hex },
-        secondary: { name: result.secondary.name, hex: result.secondary.hex },
-        tertiary: { name: result.tertiary.name, hex: result.tertiary.hex },
-        accent: { name: result.accent.name, hex: result.accent.hex },
         error: { name: 'Error', hex: '#c53030' },
         warning: { name: 'Notice', hex: '#d69e2e' },
         success: { name: 'Success', hex: '#38a169' },
       };
 
       setPalette(newPalette);
-      manualForm.setValues({
-        ...manualForm.values,
-        primary: newPalette.primary.hex,
-        secondary: newPalette.secondary.hex,
-        tertiary: newPalette.tertiary.hex,
-        accent: newPalette.accent.hex,
-      } as any);
+      setPaletteSeed('');
+      setBrandCount(brandFamiliesOf(newPalette).length);
+      manualForm.setValues({ ...manualForm.values, ...brandHexesOf(newPalette) } as any);
     } catch (error) {
       console.error('AI generation failed, using fallback palette:', error);
-      // Generate fallback palette using color harmony
-      const fallbackPalette = generateAnalogousComplementaryPalette();
-      console.log('Generated fallback palette:', fallbackPalette);
+      // Generate fallback palette using color harmony; the seed is shown on the Manual tab
+      const seed = newPaletteSeed();
+      const fallbackPalette = generateAnalogousComplementaryPalette(seed);
 
+      setPaletteSeed(seed);
       setPalette(fallbackPalette);
-      manualForm.setValues({
-        ...manualForm.values,
-        primary: fallbackPalette.primary.hex,
-        secondary: fallbackPalette.secondary.hex,
-        tertiary: fallbackPalette.tertiary.hex,
-        accent: fallbackPalette.accent.hex,
-      } as any);
+      setBrandCount(brandFamiliesOf(fallbackPalette).length);
+      manualForm.setValues({ ...manualForm.values, ...brandHexesOf(fallbackPalette) } as any);
 
       // Show fallback message to user
       toast.warning("AI generation failed, but we've created a harmonious color palette for you! You can customize it using the Manual Input tab.");
@@ -2299,6 +2229,7 @@ const GeneratorPage = () => {
                 <TabsTrigger value="palette">3. View Palette</TabsTrigger>
                 <TabsTrigger value="demo">4. Demo Palette</TabsTrigger>
                 <TabsTrigger value="export">5. Export</TabsTrigger>
+                <TabsTrigger value="account">Account</TabsTrigger>
                 {/* <TabsTrigger value="landing">Landing (unused)</TabsTrigger> */}
               </TabsList>
 
@@ -2311,7 +2242,7 @@ const GeneratorPage = () => {
                   </p>
                   <ul className="u-list-circle">
                     <li>Adjust every color you enter, to ensure proper contrast and readability. WCAG AAA contrast or better. Only colors meeting WCAG AAA contrast get output.</li>
-                    <li>You will have <b>3 basic colors, and an accent color</b> (primary, secondary, tertiary, accent).</li>
+                    <li>You will have <b>3 basic colors, and an accent color</b> (primary, secondary, tertiary, accent). On the Manual tab you can use fewer brand colors, or add up to four more accents (Accent 2 to Accent 5).</li>
                     <li>You will have <b>2 tints and 2 shades</b> of each color, to use on your website. (lighter, light, dark, darker)</li>
                     <li>Also, you will have three message colors (notice, error, success).</li>
                     <li>The Palette will have light mode and dark mode, using <em>your colors</em> not colors made up by some algorithm. This will work even if the main theme doesn't have dark mode (many themes do not).</li>
@@ -2572,16 +2503,7 @@ const GeneratorPage = () => {
                       onClick={() => {
                         try {
                           // Save all manual colors and settings (same as Manual tab)
-                          const toSave = {
-                            primary: manualForm.values.primary,
-                            secondary: manualForm.values.secondary,
-                            tertiary: manualForm.values.tertiary,
-                            accent: manualForm.values.accent,
-                            error: manualForm.values.error,
-                            warning: manualForm.values.warning,
-                            success: manualForm.values.success,
-                          };
-                          localStorage.setItem('gl_palette_manual_colors', JSON.stringify(toSave));
+                          localStorage.setItem('gl_palette_manual_colors', JSON.stringify(manualForm.values));
                           localStorage.setItem('gl_theme_name', manualForm.values.themeName || '');
                           localStorage.setItem('gl_theme_text_on_dark_hex', manualForm.values.textOnDark || '');
                           localStorage.setItem('gl_theme_text_on_light_hex', manualForm.values.textOnLight || '');
@@ -2591,20 +2513,7 @@ const GeneratorPage = () => {
                           localStorage.setItem('gl_palette_exact_selections', JSON.stringify(exactSelections));
                           localStorage.setItem('gl_palette_luminance_selections', JSON.stringify(selections));
                           setSavedManualJson(JSON.stringify({ ...manualForm.values }));
-                          applyPaletteToCSSVariables({
-                            primary: { hex: manualForm.values.primary },
-                            secondary: { hex: manualForm.values.secondary },
-                            tertiary: { hex: manualForm.values.tertiary },
-                            accent: { hex: manualForm.values.accent },
-                            error: { hex: manualForm.values.error || palette.error.hex },
-                            success: { hex: manualForm.values.success || palette.success.hex },
-                            notice: { hex: manualForm.values.warning || palette.warning.hex },
-                          } as any, {
-                            ...(exactSelections?.accent?.dark?.hex && { accentDark: exactSelections.accent.dark.hex }),
-                            ...(exactSelections?.error?.light?.hex && { errorLight: exactSelections.error.light.hex }),
-                            ...(exactSelections?.warning?.light?.hex && { warningLight: exactSelections.warning.light.hex }),
-                            ...(exactSelections?.success?.light?.hex && { successLight: exactSelections.success.light.hex }),
-                          }, { textOnLight, textOnDark });
+                          applyColorsToCSSVariables(manualForm.values);
                           toast.success('All colors and settings saved');
                         } catch (e) {
                           toast.error('Failed to save');
@@ -2615,17 +2524,22 @@ const GeneratorPage = () => {
                     </Button>
                   </div>
                 </div>
+                <PaletteCritique findings={critiqueFindings} />
                 <div className={styles.previewContent}>
                   <ColorDisplay
                     palette={paletteWithVariations}
                     isLoading={false}
                     showDiagnostics={showDiagnostics}
                     semanticBandSelection={semanticBandSelection}
+                    steps={stepScale}
                     textOnLight={textOnLight}
                     textOnDark={textOnDark}
+                    cvdMode={cvdMode}
+                    onCvdModeChange={setCvdMode}
                     onVariationClick={(key, step) => {
                       setActiveTab('adjust');
-                      const suffix = (step === 'dark' || step === 'darker') ? '-shades' : '';
+                      // Custom scales render one row group per family (no separate shades anchor)
+                      const suffix = isDefaultStepScale(stepScale) && stepTone(stepScale, step) === 'shade' ? '-shades' : '';
                       scrollAdjustTo(`d-luminance-${key}${suffix}`);
                     }}
                   />
@@ -2637,17 +2551,20 @@ const GeneratorPage = () => {
                 {(() => {
                   if (!ribbonValidation.valid) {
                     return (
-                      <div style={{
-                        background: '#9f1239',
-                        color: '#ffffff',
-                        border: '2px solid #9f1239',
-                        borderRadius: 'var(--radius)',
-                        padding: 'var(--spacing-3)',
-                        marginBottom: 'var(--spacing-3)',
-                        fontWeight: 600
-                      }}>
-                        ⚠️ {ribbonValidation.summary || 'Text colors invalid'} — Tab switching disabled until fixed.
-                      </div>
+                      <>
+                        <div style={{
+                          background: '#9f1239',
+                          color: '#ffffff',
+                          border: '2px solid #9f1239',
+                          borderRadius: 'var(--radius)',
+                          padding: 'var(--spacing-3)',
+                          marginBottom: 'var(--spacing-3)',
+                          fontWeight: 600
+                        }}>
+                          ⚠️ {ribbonValidation.summary || 'Text colors invalid'} — Tab switching disabled until fixed.
+                        </div>
+                        <TextColorSolver proposals={textColorProposals} solving={solvingTextColors} onSuggest={handleSuggestTextColors} onApply={handleApplyTextColors} />
+                      </>
                     );
                   }
                   return null;
@@ -2880,20 +2797,7 @@ const GeneratorPage = () => {
                               try { setSavedManualJson(JSON.stringify({ ...manualForm.values })); } catch { }
                               // Apply runtime overrides to CSS variables
                               try {
-                                applyPaletteToCSSVariables({
-                                  primary: { hex: manualForm.values.primary },
-                                  secondary: { hex: manualForm.values.secondary },
-                                  tertiary: { hex: manualForm.values.tertiary },
-                                  accent: { hex: manualForm.values.accent },
-                                  error: { hex: manualForm.values.error || palette.error.hex },
-                                  success: { hex: manualForm.values.success || palette.success.hex },
-                                  notice: { hex: manualForm.values.warning || palette.warning.hex },
-                                } as any, {
-                                  ...(exactSelections?.accent?.dark?.hex && { accentDark: exactSelections.accent.dark.hex }),
-                                  ...(exactSelections?.error?.light?.hex && { errorLight: exactSelections.error.light.hex }),
-                                  ...(exactSelections?.warning?.light?.hex && { warningLight: exactSelections.warning.light.hex }),
-                                  ...(exactSelections?.success?.light?.hex && { successLight: exactSelections.success.light.hex }),
-                                }, { textOnLight, textOnDark });
+                                applyColorsToCSSVariables(manualForm.values);
                               } catch { }
                               toast.success('Theme name, colors, and settings saved');
                             } catch { }
@@ -2916,15 +2820,15 @@ const GeneratorPage = () => {
                             setThemeName('');
                             setTextOnDark('#F8F7F7');
                             setTextOnLight('#453521');
+                            setBrandCount(DEFAULT_BRAND_FAMILY_COUNT);
+                            setPaletteSeed('');
+                            setLockedFamilies([]);
                             setPalette(initialPalette);
                             manualForm.setValues({
                               themeName: '',
                               textOnDark: '#F8F7F7',
                               textOnLight: '#453521',
-                              primary: initialPalette.primary.hex,
-                              secondary: initialPalette.secondary.hex,
-                              tertiary: initialPalette.tertiary.hex,
-                              accent: initialPalette.accent.hex,
+                              ...allBrandHexes(initialPalette),
                               error: initialPalette.error.hex,
                               warning: initialPalette.warning.hex,
                               success: initialPalette.success.hex,
@@ -3010,7 +2914,7 @@ const GeneratorPage = () => {
                                 labelY: number;
                               };
 
-                              const points: WheelPoint[] = (['primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'] as (ColorType | SemanticColorType)[])
+                              const points: WheelPoint[] = ([...brandFamiliesOf(palette), 'error', 'warning', 'success'] as (ColorType | SemanticColorType)[])
                                 .map((key) => {
                                   const hex = manualForm.values[key] || (palette as any)[key]?.hex;
                                   const rgb = hexToRgb(hex);
@@ -3129,7 +3033,7 @@ const GeneratorPage = () => {
                                 labelY: number;
                               };
 
-                              const points: WheelPoint[] = (['primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'] as (ColorType | SemanticColorType)[])
+                              const points: WheelPoint[] = ([...brandFamiliesOf(palette), 'error', 'warning', 'success'] as (ColorType | SemanticColorType)[])
                                 .map((key) => {
                                   const hex = manualForm.values[key] || (palette as any)[key]?.hex;
                                   const rgb = hexToRgb(hex);
@@ -3232,7 +3136,7 @@ const GeneratorPage = () => {
                             ))}
 
                             {/* markers positioned by hue (angle) and saturation (radius) */}
-                            {(['primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'] as (ColorType | SemanticColorType)[]).map((key) => {
+                            {([...brandFamiliesOf(palette), 'error', 'warning', 'success'] as (ColorType | SemanticColorType)[]).map((key) => {
                               const hex = manualForm.values[key] || (palette as any)[key]?.hex;
                               const rgb = hexToRgb(hex);
                               const { h, s } = rgbToHslNorm(rgb.r, rgb.g, rgb.b);
@@ -3442,7 +3346,55 @@ const GeneratorPage = () => {
                           <FormMessage />
                         </FormItem>
 
-                        {(Object.keys(palette) as (ColorType | SemanticColorType)[]).map((key) => (
+                        <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-2)', flexWrap: 'wrap' }}>
+                          <label className={styles.formLabel} style={{ margin: 0 }} htmlFor="palette-seed">Seed</label>
+                          <Input
+                            id="palette-seed"
+                            placeholder="e.g., k3f9x2"
+                            value={seedDraft}
+                            onChange={(e) => setSeedDraft(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') { e.preventDefault(); handleGenerateFromSeed(seedDraft); }
+                            }}
+                            style={{ width: 'min(10em, 100%)' }}
+                          />
+                          <Button type="button" variant="outline" size="sm" onClick={() => handleGenerateFromSeed(seedDraft)}>
+                            Generate
+                          </Button>
+                          <Button type="button" variant="outline" size="sm" onClick={() => handleGenerateFromSeed(newPaletteSeed())}>
+                            <Shuffle size={16} />
+                            New seed
+                          </Button>
+                          <span style={{ fontSize: 'var(--cf-text-s)' }}>
+                            The same seed always gives the same colors. Locked colors are kept.
+                          </span>
+                        </div>
+
+                        <HarmonyPicker
+                          palette={palette}
+                          screening={{ textOnLight, textOnDark, ribbonMode, minApcaLc, steps: stepScale }}
+                          locked={lockedFamilies}
+                          onUse={handleUseHarmonyColors}
+                        />
+
+                        <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                          <span style={{ fontSize: 'var(--cf-text-s)' }}>Brand color families:</span>
+                          <select
+                            value={brandCount}
+                            onChange={(e) => handleBrandCountChange(Number(e.target.value))}
+                          >
+                            {BRAND_FAMILIES.map((f, i) => (
+                              <option key={f.key} value={i + 1}>{i + 1} ({BRAND_FAMILIES.slice(0, i + 1).map((x) => x.short).join(', ')})</option>
+                            ))}
+                          </select>
+                        </label>
+
+                        <PaletteCritique
+                          findings={critiqueFindings}
+                          onApplyFix={(fix) => handleManualColorChange(fix.family, fix.hex)}
+                        />
+
+                        {([...brandFamiliesOf(palette), 'error', 'warning', 'success'] as (ColorType | SemanticColorType)[]).map((key) => (
                           <FormItem key={key} name={key}>
                             <FormControl>
                               <ColorInput
@@ -3450,7 +3402,21 @@ const GeneratorPage = () => {
                                 onChange={(hex) => handleManualColorChange(key as ColorType | SemanticColorType, hex)}
                                 trailing={
                                   <FormLabel>
-                                    {palette[key].name}
+                                    {palette[key]!.name}
+                                    {isBrandFamily(key) && (
+                                      <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="icon-sm"
+                                        aria-pressed={lockedFamilies.includes(key)}
+                                        aria-label={`${lockedFamilies.includes(key) ? 'Unlock' : 'Lock'} ${palette[key]!.name}`}
+                                        title={lockedFamilies.includes(key) ? 'Locked: kept when generating from a seed' : 'Lock to keep this color when generating from a seed'}
+                                        onClick={(e) => { e.preventDefault(); toggleLockedFamily(key); }}
+                                        style={{ marginLeft: 4 }}
+                                      >
+                                        {lockedFamilies.includes(key) ? <Lock size={14} /> : <LockOpen size={14} />}
+                                      </Button>
+                                    )}
                                     {(() => {
                                       const rgb = hexToRgb(((manualForm.values as any)[key] || '#000000'));
                                       const { h, s, l } = rgbToHslNorm(rgb.r, rgb.g, rgb.b);
@@ -3462,7 +3428,7 @@ const GeneratorPage = () => {
                                     })()}
                                     {(['error', 'warning', 'success'] as Array<ColorType | SemanticColorType>).includes(key) && (
                                       <div style={{ marginTop: 2, fontSize: 'var(--cf-text-s)', color: 'var(--foreground)' }}>
-                                        Default {initialPalette[key as keyof Palette].hex}
+                                        Default {initialPalette[key as SemanticColorType].hex}
                                       </div>
                                     )}
                                   </FormLabel>
@@ -3485,8 +3451,8 @@ const GeneratorPage = () => {
                                       }));
                                     }}
                                   >
-                                    {(['lighter', 'light', 'dark', 'darker'] as Band[]).map((b) => (
-                                      <option key={b} value={b}>{b}</option>
+                                    {stepScale.map((b) => (
+                                      <option key={b.name} value={b.name}>{b.label}</option>
                                     ))}
                                   </select>
                                 </label>
@@ -3502,8 +3468,8 @@ const GeneratorPage = () => {
                                       }));
                                     }}
                                   >
-                                    {(['lighter', 'light', 'dark', 'darker'] as Band[]).map((b) => (
-                                      <option key={b} value={b}>{b}</option>
+                                    {stepScale.map((b) => (
+                                      <option key={b.name} value={b.name}>{b.label}</option>
                                     ))}
                                   </select>
                                 </label>
@@ -3538,12 +3504,138 @@ const GeneratorPage = () => {
                     Clear selections
                   </Button>
                 </div>
+                <div style={{ marginBottom: 'var(--spacing-3)' }}>
+                  <label style={{ display: 'block', fontWeight: 600 }}>Tint &amp; shade ladder</label>
+                  <RadioGroup
+                    value={ribbonMode}
+                    onValueChange={(v) => setRibbonMode(v === 'oklch' ? 'oklch' : 'hsl')}
+                    style={{ display: 'flex', gap: 'var(--spacing-3)', marginTop: 'var(--spacing-2)', flexWrap: 'wrap' }}
+                    aria-label="Tint and shade ladder"
+                  >
+                    <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                      <RadioGroupItem value="hsl" />
+                      <span>HSL (keep hue and saturation)</span>
+                    </label>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                      <RadioGroupItem value="oklch" />
+                      <span>OKLCH (keep perceived hue; chroma reduced only to stay in gamut)</span>
+                    </label>
+                  </RadioGroup>
+                  <p className={styles.formHelp} style={{ marginTop: 'var(--spacing-2)', fontSize: 'var(--cf-text-s)' }}>
+                    OKLCH keeps light blues from turning purple and yellows from turning muddy. The Palette and Export tabs use the same ladder.
+                  </p>
+                </div>
+                <div style={{ marginBottom: 'var(--spacing-3)' }}>
+                  <label style={{ display: 'block', fontWeight: 600 }}>Tint &amp; shade steps</label>
+                  <RadioGroup
+                    value={stepScalePreset}
+                    onValueChange={(v) => {
+                      setStepScaleError(null);
+                      if (v === 'default' || v === '50-900') setStepScale(STEP_SCALE_PRESETS[v].steps);
+                    }}
+                    style={{ display: 'flex', gap: 'var(--spacing-3)', marginTop: 'var(--spacing-2)', flexWrap: 'wrap' }}
+                    aria-label="Tint and shade steps"
+                  >
+                    {(Object.keys(STEP_SCALE_PRESETS) as Array<keyof typeof STEP_SCALE_PRESETS>).map((k) => (
+                      <label key={k} style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                        <RadioGroupItem value={k} />
+                        <span>{STEP_SCALE_PRESETS[k].label}</span>
+                      </label>
+                    ))}
+                    {stepScalePreset === 'custom' && (
+                      <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                        <RadioGroupItem value="custom" />
+                        <span>Custom</span>
+                      </label>
+                    )}
+                  </RadioGroup>
+                  <div style={{ display: 'flex', gap: 'var(--spacing-2)', marginTop: 'var(--spacing-2)', flexWrap: 'wrap', alignItems: 'center' }}>
+                    <Input
+                      value={stepScaleText}
+                      onChange={(e) => setStepScaleText(e.target.value)}
+                      aria-label="Custom tint and shade steps"
+                      style={{ maxWidth: '28rem' }}
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        const result = parseStepScale(stepScaleText);
+                        if ('error' in result) { setStepScaleError(result.error); return; }
+                        setStepScaleError(null);
+                        setStepScale(result.steps);
+                      }}
+                    >
+                      Apply steps
+                    </Button>
+                  </div>
+                  {stepScaleError && <p className={styles.errorMessage} role="alert">{stepScaleError}</p>}
+                  <p className={styles.formHelp} style={{ marginTop: 'var(--spacing-2)', fontSize: 'var(--cf-text-s)' }}>
+                    Tint names, a "|", then shade names, lightest to darkest (e.g. 50, 100, 200 | 700, 800, 900). Every tint keeps AAA contrast with Text on Light and every shade with Text on Dark; exports name the variables after the steps (--primary-500).
+                  </p>
+                </div>
+                <div style={{ marginBottom: 'var(--spacing-3)' }}>
+                  <label style={{ display: 'block', fontWeight: 600 }}>Neutral (gray) family</label>
+                  <RadioGroup
+                    value={includeNeutral ? 'on' : 'off'}
+                    onValueChange={(v) => setIncludeNeutral(v === 'on')}
+                    style={{ display: 'flex', gap: 'var(--spacing-3)', marginTop: 'var(--spacing-2)', flexWrap: 'wrap' }}
+                    aria-label="Neutral family"
+                  >
+                    <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                      <RadioGroupItem value="off" />
+                      <span>Off</span>
+                    </label>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                      <RadioGroupItem value="on" />
+                      <span>Tinted from Primary</span>
+                    </label>
+                  </RadioGroup>
+                  <p className={styles.formHelp} style={{ marginTop: 'var(--spacing-2)', fontSize: 'var(--cf-text-s)' }}>
+                    Adds grays in Primary's hue at very low chroma, for borders, muted text and surfaces that don't clash with the brand. Exported as --neutral-* variables and bg-neutral-* / text-neutral-* classes.
+                  </p>
+                </div>
+                <div style={{ marginBottom: 'var(--spacing-3)' }}>
+                  <label style={{ display: 'block', fontWeight: 600 }}>Also require APCA contrast (WCAG 3 draft)</label>
+                  <RadioGroup
+                    value={minApcaLc == null ? 'off' : String(minApcaLc)}
+                    onValueChange={(v) => setMinApcaLc(v === 'off' ? null : Number(v))}
+                    style={{ display: 'flex', gap: 'var(--spacing-3)', marginTop: 'var(--spacing-2)', flexWrap: 'wrap' }}
+                    aria-label="Minimum APCA Lc"
+                  >
+                    {(['off', '60', '75', '90'] as const).map((v) => (
+                      <label key={v} style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                        <RadioGroupItem value={v} />
+                        <span>{v === 'off' ? 'Off (WCAG 2 AAA only)' : `Lc ${v}`}</span>
+                      </label>
+                    ))}
+                  </RadioGroup>
+                  <p className={styles.formHelp} style={{ marginTop: 'var(--spacing-2)', fontSize: 'var(--cf-text-s)' }}>
+                    Keeps only tints and shades that pass both AAA and the chosen APCA Lc against Text on Light / Text on Dark. Lc 75 is the usual minimum for body text; Lc 90 is preferred.
+                  </p>
+                </div>
                 <LuminanceTestStrips
                   palette={paletteWithVariations}
                   selections={selections}
                   exactSelections={exactSelections}
                   anchorPrefix="d-"
                   showDiagnostics={showDiagnostics}
+                  ribbonMode={ribbonMode}
+                  minApcaLc={minApcaLc}
+                  steps={stepScale}
+                  ribbons={ribbons}
+                  onSelectStep={(colorKey, step, pick) => {
+                    if (!isValidSwatchPick(pick)) { console.error('Rejected invalid SwatchPick (step)', { colorKey, step, pick }); return; }
+                    setExactSelections((prev) => ({
+                      ...prev,
+                      [colorKey]: { ...(prev[colorKey] || {}), [step]: pick },
+                    }));
+                    // Remember the pick as a ribbon index and target Y too, so it survives ribbon rebuilds like the default rows
+                    const index = (ribbons[colorKey]?.[step] ?? []).findIndex((c) => c.hex.toLowerCase() === pick.hex.toLowerCase());
+                    setSelections((prev) => ({
+                      ...prev,
+                      [colorKey]: { ...prev[colorKey], [step]: { ...(index >= 0 ? { index } : {}), y: pick.y } },
+                    }));
+                  }}
                   onTokensAutoAdjusted={(update) => {
                     // Persist adjusted tokens into form, state, and localStorage
                     const nextVals = { ...manualForm.values } as any;
@@ -3563,21 +3655,13 @@ const GeneratorPage = () => {
                     console.log(`[onSelectTintIndex] ${colorKey}.${kind} = ${index}`);
                     setSelections((prev) => ({
                       ...prev,
-                      [colorKey]: {
-                        ...(prev[colorKey] || {}),
-                        ...(kind === 'lighter' ? { lighterIndex: index } : {}),
-                        ...(kind === 'light' ? { lightIndex: index } : {}),
-                      },
+                      [colorKey]: { ...prev[colorKey], [kind]: { ...prev[colorKey]?.[kind], index } },
                     }));
                   }}
                   onSelectShadeY={(colorKey, kind, y) =>
                     setSelections((prev) => ({
                       ...prev,
-                      [colorKey]: {
-                        ...(prev[colorKey] || {}),
-                        ...(kind === 'darker' ? { darkerY: y } : {}),
-                        ...(kind === 'dark' ? { darkY: y } : {}),
-                      },
+                      [colorKey]: { ...prev[colorKey], [kind]: { ...prev[colorKey]?.[kind], y } },
                     }))
                   }
                   // New exact-pick handlers (used to override Palette/Export)
@@ -3650,28 +3734,79 @@ const GeneratorPage = () => {
                               <label style={{ display: 'block', fontWeight: 600 }}>How many theme variations to export?</label>
                               <RadioGroup
                                 value={exportVariationMode}
-                                onValueChange={(v) => setExportVariationMode((v === '24' ? '24' : '6'))}
-                                style={{ display: 'flex', gap: 'var(--spacing-3)', marginTop: 'var(--spacing-2)' }}
+                                onValueChange={(v) => setExportVariationMode(v === 'all' || v === 'custom' ? v : 'accent-fixed')}
+                                style={{ display: 'flex', gap: 'var(--spacing-3)', marginTop: 'var(--spacing-2)', flexWrap: 'wrap' }}
                                 aria-label="Variation count"
                               >
                                 <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
-                                  <RadioGroupItem value="6" />
-                                  <span>6 (rotate P/S/T; Accent fixed)</span>
+                                  <RadioGroupItem value="accent-fixed" />
+                                  <span>
+                                    {exportVariationCounts.accentFixed} ({palette.accent
+                                      ? `rotate ${brandFamiliesOf(palette).filter((k) => k !== 'accent').map((k) => brandFamily(k).short).join('/')}; Accent fixed`
+                                      : 'rotate all'})
+                                  </span>
                                 </label>
                                 <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
-                                  <RadioGroupItem value="24" />
-                                  <span>24 (rotate all four: P/S/T/Accent)</span>
+                                  <RadioGroupItem value="all" />
+                                  <span>{exportVariationCounts.all} (rotate all: {brandFamiliesOf(palette).map((k) => brandFamily(k).short).join('/')})</span>
+                                </label>
+                                <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                                  <RadioGroupItem value="custom" />
+                                  <span>Choose families to rotate</span>
                                 </label>
                               </RadioGroup>
+                              {exportVariationMode === 'custom' && (
+                                <div style={{ display: 'flex', gap: 'var(--spacing-3)', marginTop: 'var(--spacing-2)', flexWrap: 'wrap' }}>
+                                  {brandFamiliesOf(palette).map((k) => (
+                                    <label key={k} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                                      <Checkbox
+                                        checked={exportRotate.includes(k)}
+                                        onChange={(e) => {
+                                          const on = e.target.checked;
+                                          setExportRotate((prev) => (on ? [...prev.filter((x) => x !== k), k] : prev.filter((x) => x !== k)));
+                                        }}
+                                      />
+                                      <span>{brandFamily(k).label}</span>
+                                    </label>
+                                  ))}
+                                  <span>= {exportVariationCounts.selected} variation{exportVariationCounts.selected === 1 ? '' : 's'}</span>
+                                </div>
+                              )}
+                              {tooManyExportVariations && (
+                                <p style={{ marginTop: 'var(--spacing-2)', fontSize: 'var(--cf-text-s)', color: 'var(--error)' }}>
+                                  {exportVariationCounts.selected} variations is too many to export (at most {MAX_EXPORT_VARIATIONS}). Rotate fewer brand families.
+                                </p>
+                              )}
                               <p className={styles.formHelp} style={{ marginTop: 'var(--spacing-2)', fontSize: 'var(--cf-text-s)' }}>
                                 {mostEyeCatching === 'accent'
-                                  ? 'Tip: Your Accent color appears the most eye‑catching. Consider exporting 6 variations so links, menus, and buttons use Accent consistently.'
-                                  : 'Tip: If one color is clearly more eye‑catching for links/menus/buttons, set it as Accent and export 6 variations.'}
+                                  ? 'Tip: Your Accent color appears the most eye‑catching. Consider keeping Accent fixed so links, menus, and buttons use Accent consistently.'
+                                  : 'Tip: If one color is clearly more eye‑catching for links/menus/buttons, set it as Accent and keep Accent fixed.'}
                               </p>
                             </div>
+                            <div style={{ marginTop: 'var(--spacing-3)' }}>
+                              <label style={{ display: 'block', fontWeight: 600 }}>Also include</label>
+                              <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-1)', marginTop: 'var(--spacing-2)' }}>
+                                {EXTRA_EXPORT_FORMATS.map((f) => (
+                                  <label key={f} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                                    <Checkbox
+                                      checked={exportFormats.includes(f)}
+                                      onChange={(e) => {
+                                        const on = e.target.checked;
+                                        setExportFormats((prev) => (on ? [...prev.filter((x) => x !== f), f] : prev.filter((x) => x !== f)));
+                                      }}
+                                    />
+                                    <span>
+                                      {EXTRA_EXPORT_FORMAT_INFO[f].label}
+                                      <span className={styles.formHelp} style={{ fontSize: 'var(--cf-text-s)' }}> — {EXTRA_EXPORT_FORMAT_INFO[f].description}</span>
+                                    </span>
+                                  </label>
+                                ))}
+                              </div>
+                            </div>
                             <div style={{ marginTop: 'var(--spacing-3)' }}>
                               <Button
                                 onClick={handleExportGzipAll}
+                                disabled={outOfCredits || tooManyExportVariations || accountPending}
                                 className={styles.exportButton}
                                 style={{
                                   background: accentDarkHex,
@@ -3681,6 +3816,8 @@ const GeneratorPage = () => {
                               >
                                 Download .zip file
                               </Button>
+                              {signedIn && entitlements && <ExportCreditsBar entitlements={entitlements} />}
+                              {accountUnavailable && <AccountUnavailableNotice onRetry={() => refetchEntitlements()} retrying={checkingEntitlements} />}
                             </div>
                             <div style={{ marginTop: 'var(--spacing-3)', display: 'flex', gap: 'var(--spacing-2)', flexWrap: 'wrap' }}>
                               <Button
@@ -3734,7 +3871,7 @@ const GeneratorPage = () => {
                           ))}
                         </div>
                         <div style={{ display: 'grid', gap: 'var(--spacing-3)' }}>
-                          {(['primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'] as const).map((key) => {
+                          {([...brandFamiliesOf(palette), 'error', 'warning', 'success'] as (ColorType | SemanticColorType)[]).map((key) => {
                             const entry: any = (paletteWithVariations as any)?.[key];
                             if (!entry) return null;
                             const isSemantic = key === 'error' || key === 'warning' || key === 'success';
@@ -3753,7 +3890,7 @@ const GeneratorPage = () => {
                                 pushItem(`${prefix}-dark`, findHex(sel.dark));
                               } else {
                                 // Exclude base; only include adjusted bands. Prefer ordering: dark, darker, light, lighter
-                                const order = ['dark', 'darker', 'light', 'lighter'];
+                                const order = exportStepOrder;
                                 const adjusted = entry.variations.filter((v: any) => v.step !== 'base');
                                 adjusted.sort((a: any, b: any) => order.indexOf(a.step) - order.indexOf(b.step));
                                 adjusted.forEach((v: any) => pushItem(v.step || 'unknown', v.hex));
@@ -3793,8 +3930,8 @@ const GeneratorPage = () => {
                       {/* Copy-friendly lists (HEX and HSL as separate cards) */}
                       <div style={{ display: 'contents' }}>
                         {(() => {
-                          type Key = 'primary' | 'secondary' | 'tertiary' | 'accent' | 'error' | 'warning' | 'success';
-                          const keys: Key[] = ['primary', 'secondary', 'tertiary', 'accent', 'error', 'warning', 'success'];
+                          type Key = ColorType | SemanticColorType;
+                          const keys: Key[] = [...brandFamiliesOf(palette), 'error', 'warning', 'success'];
                           const linesHex: string[] = [];
                           const linesHsl: string[] = [];
                           const slugFor = (key: Key, step: string) => `${key}-${step}`;
@@ -3839,7 +3976,7 @@ const GeneratorPage = () => {
                                 add('light', findHex(sel.light));
                                 add('dark', findHex(sel.dark));
                               } else {
-                                const order = ['dark', 'darker', 'light', 'lighter'];
+                                const order = exportStepOrder;
                                 const adjusted = entry.variations.filter((v: any) => v.step !== 'base');
                                 adjusted.sort((a: any, b: any) => order.indexOf(a.step) - order.indexOf(b.step));
                                 adjusted.forEach((v: any) => add(v.step || 'unknown', v.hex));
@@ -3879,6 +4016,9 @@ const GeneratorPage = () => {
                   scheme={demoScheme}
                   onSchemeChange={setDemoScheme}
                   semanticBandSelection={semanticBandSelection}
+                  steps={stepScale}
+                  cvdMode={cvdMode}
+                  onCvdModeChange={setCvdMode}
                 >
                   <PreviewSection
                     palette={paletteWithVariations}
@@ -3887,6 +4027,13 @@ const GeneratorPage = () => {
                   />
                 </LightDarkPreview>
               </TabsContent>
+              {/* Account Tab */}
+              <TabsContent value="account" className={styles.tabContent}>
+                <div className={styles.exportSection}>
+                  <h2 className={styles.sectionTitle}>Account</h2>
+                  <AccountPanel />
+                </div>
+              </TabsContent>
               {/* Landing Page Tab */}
               <TabsContent value="landing" className={styles.tabContent}>
                 <IndexPage />
@@ -0,0 +1,74 @@
+import { mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { main } from "./export-theme-zip";
+import { runPaletteEngine } from "../helpers/paletteEngine";
+import { parseWpwmPaletteV1 } from "../helpers/paletteFormat";
+
+const textOnLight = "#453521";
+const textOnDark = "#F8F7F7";
+const doc = { format: "wpwm-palette/v1", colors: { textOnDark, textOnLight, primary: "#2563eb", secondary: "#4f46e5" } };
+
+describe("export-theme-zip", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "export-theme-zip-"));
+    writeFileSync(join(dir, "palette.json"), JSON.stringify(doc));
+    spyOn(console, "log");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Runs the CLI into an output directory and returns its design tokens */
+  const exportTokens = (out: string, ...args: string[]) => {
+    main(["--palette", join(dir, "palette.json"), ...args, "--formats", "dtcg", "--out", join(dir, out)]);
+    const tokensDir = join(dir, out, "tokens");
+    return JSON.parse(readFileSync(join(tokensDir, readdirSync(tokensDir)[0]!), "utf8"));
+  };
+
+  /** Primary's outer step hexes from an export */
+  const exportPrimary = (out: string, ...args: string[]): Record<"lighter" | "darker", string> => {
+    const { lighter, darker } = exportTokens(out, ...args).color.primary;
+    return { lighter: lighter.$value.hex, darker: darker.$value.hex };
+  };
+
+  it("should apply the Adjust tab's saved selections like the UI export", () => {
+    const selections = { primary: { lighter: { index: 0 }, darker: { y: 0.01 } } };
+    writeFileSync(join(dir, "selections.json"), JSON.stringify(selections));
+    const { palette } = parseWpwmPaletteV1(doc);
+    const hex = (pv: ReturnType<typeof runPaletteEngine>["paletteWithVariations"], step: string) =>
+      pv.primary.variations.find((v) => v.step === step)!.hex.toLowerCase();
+    const { paletteWithVariations: picked } = runPaletteEngine({ palette, textOnLight, textOnDark, selections });
+    const { paletteWithVariations: defaults } = runPaletteEngine({ palette, textOnLight, textOnDark });
+
+    const adjusted = exportPrimary("adjusted", "--selections", join(dir, "selections.json"));
+    expect(adjusted.lighter).toBe(hex(picked, "lighter"));
+    expect(adjusted.darker).toBe(hex(picked, "darker"));
+    expect(adjusted.lighter).not.toBe(hex(defaults, "lighter"));
+
+    const plain = exportPrimary("plain");
+    expect(plain.lighter).toBe(hex(defaults, "lighter"));
+  });
+
+  it("should use the document's semantic bands like the UI export", () => {
+    // "400" is not a step of the default scale, so Notice keeps its default light band
+    const semanticBands = { error: { light: "lighter", dark: "darker" }, warning: { light: "400", dark: "dark" }, success: { light: "light", dark: "dark" } };
+    writeFileSync(join(dir, "palette.json"), JSON.stringify({ ...doc, semanticBands }));
+    expect(parseWpwmPaletteV1({ ...doc, semanticBands }).semanticBandSelection.warning).toEqual({ light: "light", dark: "dark" });
+
+    const { mode } = exportTokens("bands");
+    expect(mode.light.error.$value).toBe("{color.error.lighter}");
+    expect(mode.dark.error.$value).toBe("{color.error.darker}");
+    expect(mode.light.warning.$value).toBe("{color.warning.light}");
+  });
+
+  it("should reject unknown options before writing anything", () => {
+    const out = join(dir, "never.zip");
+    expect(() => main(["--palette", join(dir, "palette.json"), "--formats", "pdf", "--out", out])).toThrowError(/--formats must list/);
+    expect(() => main(["--out", out])).toThrowError(/Missing --palette/);
+    expect(readdirSync(dir)).toEqual(["palette.json"]);
+  });
+});
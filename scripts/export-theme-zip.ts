@@ -0,0 +1,148 @@
+/* Command-line exporter: builds the same theme ZIP as the Export tab's "Download .zip file".
+ *
+ * Usage:
+ *   npm run export:zip -- --palette my-palette.json [--theme theme.json] [--selections selections.json] [--variations accent-fixed|all|<families>] [--formats dtcg,tailwind,elementor,...] [--out dir-or-file.zip]
+ *
+ * --palette     wpwm-palette/v1 JSON (Export tab > Export JSON)
+ * --theme       optional theme.json; its palette slugs become aliases in the utilities CSS
+ * --selections  optional Adjust tab picks, as saved in the browser's localStorage under
+ *               gl_palette_luminance_selections ({ "<family>": { "<step>": { "index": n, "y": n } } }; the original
+ *               lighterIndex/lightIndex/darkY/darkerY shape is read too). Without it every step takes the default
+ *               pick, so the ZIP matches the UI's only when nothing was adjusted. Error/Notice/Success use the
+ *               document's semanticBands (the Export tab's band choices), else the scale's default bands.
+ * --variations  accent-fixed rotates every brand family except Accent; all rotates every brand family;
+ *               a comma-separated list (e.g. primary,secondary) rotates only those. 6 and 24 are accepted
+ *               as the original names of accent-fixed and all. Default accent-fixed.
+ * --formats     comma-separated extra files to include: dtcg (W3C design tokens), tailwind (v3 preset and
+ *               v4 @theme CSS), page builder global colors: elementor, bricks, kadence, generatepress, and
+ *               design app swatches: ase, gpl, procreate, sketch, and app colors: ios, android. Default none.
+ * --out         a path ending in .zip writes the archive there; any other path writes the unzipped files
+ *               into that directory. Default: themes-<suffix>.zip in the current directory.
+ */
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { parseWpwmPaletteV1 } from '../helpers/paletteFormat';
+import {
+  runPaletteEngine,
+  buildExportFiles,
+  zipExportFiles,
+  normalizeBandSelections,
+  EXPORT_VARIATION_MODES,
+  EXTRA_EXPORT_FORMATS,
+  type ExportVariationMode,
+  type ExtraExportFormat,
+} from '../helpers/paletteEngine';
+import { isBrandFamily } from '../helpers/brandFamilies';
+import type { ColorType } from '../helpers/types';
+
+const USAGE = 'Usage: npm run export:zip -- --palette <wpwm-palette.json> [--theme <theme.json>] [--selections <selections.json>] [--variations accent-fixed|all|<family,family,...>] [--formats <format,...>] [--out <dir|file.zip>]';
+
+function readJson(path: string, label: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch (e: any) {
+    throw new Error(`Could not read ${label} ${path}: ${e?.message || e}`);
+  }
+}
+
+/** --variations: a mode name, or the brand families to rotate */
+function parseVariations(value: string): { variationMode: ExportVariationMode; rotate?: ColorType[] } {
+  if ((EXPORT_VARIATION_MODES as readonly string[]).includes(value) && value !== 'custom') {
+    return { variationMode: value as ExportVariationMode };
+  }
+  const families = value.split(',').map((s) => s.trim()).filter(Boolean);
+  const unknown = families.filter((k) => !isBrandFamily(k));
+  if (families.length === 0 || unknown.length) {
+    throw new Error(`--variations must be accent-fixed, all, or a list of brand families (got ${value})`);
+  }
+  return { variationMode: 'custom', rotate: families as ColorType[] };
+}
+
+/** --formats: extra files to add to the export */
+function parseFormats(value: string | undefined): ExtraExportFormat[] {
+  if (!value) return [];
+  const formats = value.split(',').map((s) => s.trim()).filter(Boolean);
+  const unknown = formats.filter((f) => !(EXTRA_EXPORT_FORMATS as readonly string[]).includes(f));
+  if (unknown.length) {
+    throw new Error(`--formats must list ${EXTRA_EXPORT_FORMATS.join(', ')} (got ${unknown.join(', ')})`);
+  }
+  return formats as ExtraExportFormat[];
+}
+
+export function main(argv: string[]): void {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      palette: { type: 'string', short: 'p' },
+      theme: { type: 'string', short: 't' },
+      selections: { type: 'string', short: 's' },
+      variations: { type: 'string', short: 'v', default: 'accent-fixed' },
+      formats: { type: 'string', short: 'f' },
+      out: { type: 'string', short: 'o' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (!values.palette) throw new Error(`Missing --palette\n${USAGE}`);
+  const { variationMode, rotate } = parseVariations(values.variations);
+  const extraFormats = parseFormats(values.formats);
+
+  const doc = parseWpwmPaletteV1(readJson(values.palette, 'palette'));
+  const themeConfig = values.theme ? readJson(values.theme, 'theme.json') : undefined;
+  const selections = values.selections ? normalizeBandSelections(readJson(values.selections, 'selections')) : undefined;
+
+  const { paletteWithVariations } = runPaletteEngine({
+    palette: doc.palette,
+    textOnLight: doc.textOnLight,
+    textOnDark: doc.textOnDark,
+    ...(selections ? { selections } : {}),
+    ribbonMode: doc.ribbonMode,
+    minApcaLc: doc.minApcaLc,
+    steps: doc.steps,
+    neutral: doc.neutral,
+  });
+
+  const repoRoot = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+  const { zipName, files } = buildExportFiles({
+    palette: paletteWithVariations,
+    themeName: doc.themeName,
+    themeConfig,
+    semanticBandSelection: doc.semanticBandSelection,
+    textOnDark: doc.textOnDark,
+    textOnLight: doc.textOnLight,
+    variationMode,
+    rotate,
+    steps: doc.steps,
+    extraFormats,
+    editorChromeStylesPhp: readFileSync(join(repoRoot, 'inc/fse-editor-chrome-styles.php'), 'utf8'),
+  });
+
+  const out = values.out ?? zipName;
+  if (/\.zip$/i.test(out)) {
+    mkdirSync(dirname(resolve(out)), { recursive: true });
+    writeFileSync(out, zipExportFiles(files));
+    console.log(`Wrote ${out} (${Object.keys(files).length} files)`);
+    return;
+  }
+  for (const [name, bytes] of Object.entries(files)) {
+    const target = join(out, name);
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, bytes);
+    console.log(` - ${target}`);
+  }
+}
+
+// Run only when invoked as a script (the spec imports main)
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  try {
+    main(process.argv.slice(2));
+  } catch (e: any) {
+    console.error(e?.message || e);
+    process.exitCode = 1;
+  }
+}